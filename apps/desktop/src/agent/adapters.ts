@@ -0,0 +1,393 @@
+/**
+ * Agent Adapters
+ *
+ * Describes how to find, launch and talk to each CLI agent. Built-in adapters
+ * cover Claude, Codex and Gemini; more can be registered (or built-ins
+ * overridden) from `~/.doomcode/agents.json` and `<project>/.doomcode/agents.json`.
+ * A project comes with whatever repository was cloned, so its config can only
+ * rename and describe agents the user already has. Adding agents, or changing
+ * how they are launched, reviewed or how their prompts are answered, takes the
+ * user config.
+ *
+ * Example config:
+ *
+ *   {
+ *     "agents": [
+ *       {
+ *         "id": "aider",
+ *         "name": "Aider",
+ *         "command": "aider",
+ *         "args": ["--no-pretty"],
+ *         "modelFlag": "--model",
+ *         "permissionPatterns": [
+ *           { "pattern": "Allow edits to (.+)\\?", "action": "file_write", "description": "Edit file: $1" }
+ *         ],
+ *         "permissionAnswers": { "approve": "y", "deny": "n" },
+ *         "promptSubmit": { "method": "line", "enter": "cr" }
+ *       }
+ *     ]
+ *   }
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type {
+  AgentCapability,
+  AgentId,
+  AgentInfo,
+  PermissionAction,
+} from '@doomcode/protocol';
+
+export interface PermissionPatternConfig {
+  /** Regular expression matched against recent agent output (case-insensitive) */
+  pattern: string;
+  action: PermissionAction;
+  /** Shown on the phone; `$1`, `$2`... are replaced with capture groups */
+  description: string;
+  /** Capture group holding the file path or command, if any */
+  pathGroup?: number;
+  commandGroup?: number;
+}
+
+export interface PromptSubmitConfig {
+  /**
+   * line: write the prompt then Enter.
+   * typewrite: send one character at a time (for TUIs that drop pasted input).
+   * Defaults to typewrite under the python PTY bridge, line otherwise.
+   */
+  method?: 'line' | 'typewrite';
+  enter?: 'cr' | 'lf' | 'crlf';
+}
+
+export interface AgentAdapter {
+  id: AgentId;
+  name: string;
+  description?: string;
+  /** Binary name (looked up on PATH) or absolute path */
+  command: string;
+  /** Extra directories searched for the binary before PATH */
+  searchPaths?: string[];
+  /** Arguments for the interactive (pty) driver */
+  args?: string[];
+  /** Arguments enabling the stream-json driver; omit if unsupported */
+  streamJsonArgs?: string[];
+  /** Flag taking the model name (e.g. `--model`); omit if the model cannot be chosen */
+  modelFlag?: string;
+  /** Flag taking the sampling temperature; omit if unsupported */
+  temperatureFlag?: string;
+  /** Arguments that resume the most recent conversation after a restart */
+  continueArgs?: string[];
+  /** Checked before the generic built-in permission patterns */
+  permissionPatterns?: PermissionPatternConfig[];
+  /** Keystrokes answering a scraped permission prompt (default y / n) */
+  permissionAnswers?: { approve: string; deny: string };
+  /** Surface the agent's file changes as diffs for review (default true) */
+  diffDetection?: boolean;
+  promptSubmit?: PromptSubmitConfig;
+  /** Where the adapter was defined */
+  source?: string;
+}
+
+const BUILTIN_ADAPTERS: AgentAdapter[] = [
+  {
+    id: 'claude',
+    name: 'Claude Code',
+    description: 'Anthropic Claude CLI agent',
+    command: 'claude',
+    streamJsonArgs: [
+      '-p',
+      '--input-format',
+      'stream-json',
+      '--output-format',
+      'stream-json',
+      '--verbose',
+      '--permission-prompt-tool',
+      'stdio',
+    ],
+    modelFlag: '--model',
+    continueArgs: ['--continue'],
+    source: 'built-in',
+  },
+  {
+    id: 'codex',
+    name: 'Codex CLI',
+    description: 'OpenAI Codex CLI agent',
+    command: 'codex',
+    modelFlag: '--model',
+    source: 'built-in',
+  },
+  {
+    id: 'gemini',
+    name: 'Gemini CLI',
+    description: 'Google Gemini CLI agent',
+    command: 'gemini',
+    modelFlag: '--model',
+    source: 'built-in',
+  },
+];
+
+const PERMISSION_ACTIONS: PermissionAction[] = [
+  'file_read',
+  'file_write',
+  'file_delete',
+  'shell_command',
+  'network',
+  'git',
+  'other',
+];
+
+const AGENT_CONFIG_FILENAME = 'agents.json';
+
+/** Fields of an existing adapter that project config may not override */
+const USER_ONLY_FIELDS = [
+  'command',
+  'searchPaths',
+  'args',
+  'streamJsonArgs',
+  'modelFlag',
+  'temperatureFlag',
+  'continueArgs',
+  'permissionPatterns',
+  'permissionAnswers',
+  'diffDetection',
+  'promptSubmit',
+] as const satisfies readonly (keyof AgentAdapter)[];
+
+/** Where a config file comes from; project config is not trusted to change how agents run */
+export type AgentConfigScope = 'user' | 'project';
+
+export function getUserAgentConfigPath(): string {
+  return path.join(os.homedir(), '.doomcode', AGENT_CONFIG_FILENAME);
+}
+
+export function getProjectAgentConfigPath(workingDirectory: string): string {
+  return path.join(workingDirectory, '.doomcode', AGENT_CONFIG_FILENAME);
+}
+
+/**
+ * Locate an adapter's binary. Returns null if it cannot be found.
+ */
+export function findAgentBinary(adapter: AgentAdapter): string | null {
+  if (path.isAbsolute(adapter.command)) {
+    return isExecutableFile(adapter.command) ? adapter.command : null;
+  }
+
+  // Relative paths would resolve against each search directory
+  const binary = adapter.command;
+  if (!binary || path.basename(binary) !== binary) {
+    return null;
+  }
+
+  const possiblePaths = [
+    ...(adapter.searchPaths ?? []).map((dir) => path.join(dir, binary)),
+    `/opt/homebrew/bin/${binary}`,
+    `/usr/local/bin/${binary}`,
+    path.join(os.homedir(), '.npm-global/bin', binary),
+    path.join(os.homedir(), '.local/bin', binary),
+    path.join(os.homedir(), 'bin', binary),
+    ...(process.env.PATH ?? '')
+      .split(path.delimiter)
+      .filter((dir) => path.isAbsolute(dir))
+      .map((dir) => path.join(dir, binary)),
+  ];
+
+  return possiblePaths.find((p) => isExecutableFile(p)) ?? null;
+}
+
+function isExecutableFile(filePath: string): boolean {
+  try {
+    fs.accessSync(filePath, fs.constants.X_OK);
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+export function getAdapterCapabilities(adapter: AgentAdapter): AgentCapability[] {
+  const capabilities: AgentCapability[] = ['permission_prompts'];
+  if (adapter.streamJsonArgs) {
+    capabilities.push('stream_json');
+  }
+  if (adapter.streamJsonArgs || adapter.diffDetection !== false) {
+    capabilities.push('diff_review');
+  }
+  return capabilities;
+}
+
+export class AgentRegistry {
+  private adapters = new Map<AgentId, AgentAdapter>();
+
+  constructor(adapters: AgentAdapter[] = BUILTIN_ADAPTERS) {
+    for (const adapter of adapters) {
+      this.register(adapter);
+    }
+  }
+
+  /**
+   * Built-in adapters plus user and project config, later sources overriding earlier ones.
+   */
+  static load(workingDirectory: string): AgentRegistry {
+    const registry = new AgentRegistry();
+    registry.loadConfigFile(getUserAgentConfigPath(), 'user');
+    registry.loadConfigFile(getProjectAgentConfigPath(workingDirectory), 'project');
+    return registry;
+  }
+
+  register(adapter: AgentAdapter): void {
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  get(id: AgentId): AgentAdapter | undefined {
+    return this.adapters.get(id);
+  }
+
+  has(id: AgentId): boolean {
+    return this.adapters.has(id);
+  }
+
+  list(): AgentAdapter[] {
+    return [...this.adapters.values()];
+  }
+
+  /**
+   * Agent descriptions advertised to the phone.
+   */
+  describe(): AgentInfo[] {
+    return this.list().map((adapter) => ({
+      id: adapter.id,
+      name: adapter.name,
+      description: adapter.description,
+      available: findAgentBinary(adapter) !== null,
+      capabilities: getAdapterCapabilities(adapter),
+    }));
+  }
+
+  loadConfigFile(configPath: string, scope: AgentConfigScope = 'user'): void {
+    if (!fs.existsSync(configPath)) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    } catch (error) {
+      console.warn(`Failed to read agent config ${configPath}:`, error);
+      return;
+    }
+
+    const entries = (parsed as { agents?: unknown })?.agents;
+    if (!Array.isArray(entries)) {
+      console.warn(`Agent config ${configPath} has no "agents" array; ignoring`);
+      return;
+    }
+
+    for (const entry of entries) {
+      const config = parseAdapterConfig(entry, configPath);
+      if (!config) continue;
+
+      // Entries may override just a few fields of an existing adapter
+      const base = this.adapters.get(config.id);
+      if (base) {
+        const ignored = USER_ONLY_FIELDS.filter((field) => config[field] !== undefined);
+        if (scope === 'project' && ignored.length > 0) {
+          console.warn(
+            `Ignoring ${ignored.join(', ')} for agent "${config.id}" in ${configPath}: ` +
+              `only ${getUserAgentConfigPath()} can change how an existing agent runs`
+          );
+          for (const field of ignored) {
+            delete config[field];
+          }
+        }
+        this.register({ ...base, ...config });
+      } else if (scope === 'project') {
+        console.warn(
+          `Skipping agent "${config.id}" in ${configPath}: ` +
+            `new agents can only be added in ${getUserAgentConfigPath()}`
+        );
+      } else if (config.command) {
+        this.register({ name: config.id, ...config, command: config.command });
+      } else {
+        console.warn(`Skipping agent "${config.id}" in ${configPath}: "command" is required`);
+      }
+    }
+  }
+}
+
+/**
+ * Validate one adapter entry from a config file. Invalid entries are skipped with a warning.
+ */
+function parseAdapterConfig(
+  entry: unknown,
+  source: string
+): (Partial<AgentAdapter> & { id: AgentId }) | null {
+  if (!entry || typeof entry !== 'object') {
+    console.warn(`Skipping invalid agent entry in ${source}`);
+    return null;
+  }
+
+  const raw = entry as Record<string, unknown>;
+  const id = typeof raw.id === 'string' ? raw.id.trim().toLowerCase() : '';
+  if (!/^[a-z0-9][a-z0-9._-]*$/.test(id)) {
+    console.warn(`Skipping agent with invalid id ${JSON.stringify(raw.id)} in ${source}`);
+    return null;
+  }
+
+  const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+  const adapter: Partial<AgentAdapter> & { id: AgentId } = { id, source };
+
+  if (typeof raw.name === 'string') adapter.name = raw.name;
+  if (typeof raw.description === 'string') adapter.description = raw.description;
+  if (typeof raw.command === 'string') adapter.command = raw.command;
+  if (isStringArray(raw.searchPaths)) adapter.searchPaths = raw.searchPaths;
+  if (isStringArray(raw.args)) adapter.args = raw.args;
+  if (isStringArray(raw.streamJsonArgs)) adapter.streamJsonArgs = raw.streamJsonArgs;
+  if (typeof raw.modelFlag === 'string') adapter.modelFlag = raw.modelFlag;
+  if (typeof raw.temperatureFlag === 'string') adapter.temperatureFlag = raw.temperatureFlag;
+  if (isStringArray(raw.continueArgs)) adapter.continueArgs = raw.continueArgs;
+  if (typeof raw.diffDetection === 'boolean') adapter.diffDetection = raw.diffDetection;
+
+  if (Array.isArray(raw.permissionPatterns)) {
+    adapter.permissionPatterns = raw.permissionPatterns.filter(
+      (p): p is PermissionPatternConfig => {
+        const valid =
+          !!p &&
+          typeof p.pattern === 'string' &&
+          typeof p.description === 'string' &&
+          PERMISSION_ACTIONS.includes(p.action) &&
+          isValidRegex(p.pattern);
+        if (!valid) {
+          console.warn(`Skipping invalid permission pattern for agent "${id}" in ${source}`);
+        }
+        return valid;
+      }
+    );
+  }
+
+  const answers = raw.permissionAnswers as Record<string, unknown> | undefined;
+  if (answers && typeof answers.approve === 'string' && typeof answers.deny === 'string') {
+    adapter.permissionAnswers = { approve: answers.approve, deny: answers.deny };
+  }
+
+  const submit = raw.promptSubmit as Record<string, unknown> | undefined;
+  if (submit && typeof submit === 'object') {
+    adapter.promptSubmit = {
+      method: submit.method === 'line' || submit.method === 'typewrite' ? submit.method : undefined,
+      enter:
+        submit.enter === 'cr' || submit.enter === 'lf' || submit.enter === 'crlf'
+          ? submit.enter
+          : undefined,
+    };
+  }
+
+  return adapter;
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
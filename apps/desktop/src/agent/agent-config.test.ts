@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AgentAdapter } from './adapters.js';
+import {
+  AgentConfigStore,
+  DEFAULT_TOOL_PERMISSIONS,
+  evaluateToolPermission,
+  getAgentConfigPath,
+  getConfigArgs,
+} from './agent-config.js';
+
+const adapter: AgentAdapter = {
+  id: 'test',
+  name: 'Test',
+  command: 'test',
+  modelFlag: '--model',
+  temperatureFlag: '--temperature',
+};
+
+describe('evaluateToolPermission', () => {
+  it('denies forbidden actions and asks for the rest', () => {
+    const permissions = { ...DEFAULT_TOOL_PERMISSIONS, allowShellCommands: false };
+    expect(evaluateToolPermission(permissions, 'shell_command')).toBe('deny');
+    expect(evaluateToolPermission(permissions, 'network')).toBe('ask');
+    expect(evaluateToolPermission(permissions, 'other')).toBe('ask');
+  });
+
+  it('pre-approves writes only when they do not require approval', () => {
+    const permissions = { ...DEFAULT_TOOL_PERMISSIONS, requireApprovalForWrites: false };
+    expect(evaluateToolPermission(permissions, 'file_write')).toBe('allow');
+    expect(evaluateToolPermission(permissions, 'file_delete')).toBe('allow');
+    expect(evaluateToolPermission({ ...permissions, allowFileWrite: false }, 'file_write')).toBe(
+      'deny'
+    );
+  });
+});
+
+describe('getConfigArgs', () => {
+  it('passes the model and temperature through the adapter flags', () => {
+    const config = {
+      id: 'test',
+      model: 'opus',
+      temperature: 0.5,
+      toolPermissions: DEFAULT_TOOL_PERMISSIONS,
+    };
+    expect(getConfigArgs(adapter, config)).toEqual(['--model', 'opus', '--temperature', '0.5']);
+    expect(getConfigArgs({ ...adapter, temperatureFlag: undefined }, config)).toEqual([
+      '--model',
+      'opus',
+    ]);
+    expect(getConfigArgs(adapter, undefined)).toEqual([]);
+  });
+});
+
+describe('AgentConfigStore', () => {
+  let dir: string;
+  let home: string;
+  let store: AgentConfigStore;
+  let warn: ReturnType<typeof vi.spyOn>;
+
+  const writeStored = (configs: unknown) => {
+    const file = getAgentConfigPath(dir);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(configs));
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'doomcode-config-'));
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'doomcode-home-'));
+    vi.stubEnv('HOME', home);
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    store = new AgentConfigStore(dir);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('defaults to asking before writes', () => {
+    expect(store.get('test')).toEqual({ id: 'test', toolPermissions: DEFAULT_TOOL_PERMISSIONS });
+  });
+
+  describe('update', () => {
+    it('applies valid settings and asks for a restart when launch arguments change', () => {
+      const result = store.update(adapter, {
+        model: ' sonnet ',
+        temperature: 1,
+        toolPermissions: { ...DEFAULT_TOOL_PERMISSIONS, allowNetworkAccess: false },
+      });
+      expect(result).toMatchObject({
+        applied: ['model', 'temperature', 'toolPermissions'],
+        rejected: [],
+        needsRestart: true,
+      });
+      expect(store.get('test')).toMatchObject({ model: 'sonnet', temperature: 1 });
+      expect(store.get('test').toolPermissions.allowNetworkAccess).toBe(false);
+
+      expect(store.update(adapter, { model: 'sonnet' }).needsRestart).toBe(false);
+      expect(
+        store.update(adapter, { toolPermissions: DEFAULT_TOOL_PERMISSIONS }).needsRestart
+      ).toBe(false);
+    });
+
+    it('rejects settings the adapter does not support or that are invalid', () => {
+      const result = store.update(
+        { ...adapter, modelFlag: undefined },
+        {
+          model: 'opus',
+          temperature: 3,
+          toolPermissions: { allowFileRead: 'yes' } as never,
+        }
+      );
+      expect(result.applied).toEqual([]);
+      expect(result.rejected.map((r) => r.setting)).toEqual([
+        'model',
+        'temperature',
+        'toolPermissions',
+      ]);
+      expect(store.update(adapter, { model: '--dangerous-flag' }).rejected).toHaveLength(1);
+      expect(store.get('test')).toEqual({ id: 'test', toolPermissions: DEFAULT_TOOL_PERMISSIONS });
+    });
+  });
+
+  describe('persistence', () => {
+    it('keeps settings in the home directory and loads them on the next run', () => {
+      store.update(adapter, { model: 'opus' });
+      expect(getAgentConfigPath(dir).startsWith(home)).toBe(true);
+      expect(fs.existsSync(path.join(dir, '.doomcode'))).toBe(false);
+      expect(new AgentConfigStore(dir).get('test').model).toBe('opus');
+    });
+
+    it('ignores a config file shipped inside the project', () => {
+      fs.mkdirSync(path.join(dir, '.doomcode'));
+      fs.writeFileSync(
+        path.join(dir, '.doomcode', 'agent-config.json'),
+        JSON.stringify({
+          test: { model: 'attacker-model', toolPermissions: { requireApprovalForWrites: false } },
+        })
+      );
+
+      const loaded = new AgentConfigStore(dir).get('test');
+      expect(loaded.model).toBeUndefined();
+      expect(loaded.toolPermissions.requireApprovalForWrites).toBe(true);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring'));
+    });
+
+    it('drops invalid saved settings and keeps the valid ones', () => {
+      writeStored({
+        test: {
+          model: '$(rm -rf ~)',
+          temperature: 5,
+          toolPermissions: { allowShellCommands: false, requireApprovalForWrites: 'no' },
+        },
+        other: { temperature: 0.2, extra: 'ignored' },
+        broken: 'not an object',
+      });
+
+      const loaded = new AgentConfigStore(dir);
+      expect(loaded.get('test')).toEqual({
+        id: 'test',
+        toolPermissions: { ...DEFAULT_TOOL_PERMISSIONS, allowShellCommands: false },
+      });
+      expect(loaded.get('other')).toEqual({
+        id: 'other',
+        temperature: 0.2,
+        toolPermissions: DEFAULT_TOOL_PERMISSIONS,
+      });
+      expect(loaded.get('broken')).toEqual({
+        id: 'broken',
+        toolPermissions: DEFAULT_TOOL_PERMISSIONS,
+      });
+    });
+
+    it('ignores a saved file that is not an object of configs', () => {
+      writeStored([{ id: 'test', model: 'opus' }]);
+      expect(new AgentConfigStore(dir).get('0').model).toBeUndefined();
+    });
+  });
+});
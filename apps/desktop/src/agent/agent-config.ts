@@ -0,0 +1,264 @@
+/**
+ * Agent Config
+ *
+ * Holds the per-agent configuration edited on the phone (model, temperature,
+ * tool permissions), persists it per project under `~/.doomcode/projects/` and
+ * maps it onto the adapter's CLI arguments. The file is outside the project so
+ * a cloned repository cannot pre-approve writes or pick the model.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  AgentConfig,
+  AgentConfigSetting,
+  AgentId,
+  PermissionAction,
+  RejectedAgentSetting,
+  ToolPermissions,
+} from '@doomcode/protocol';
+import { getProjectStateDir } from '../project-state.js';
+import type { AgentAdapter } from './adapters.js';
+
+export const DEFAULT_TOOL_PERMISSIONS: ToolPermissions = {
+  allowFileRead: true,
+  allowFileWrite: true,
+  allowShellCommands: true,
+  allowNetworkAccess: true,
+  allowGitOperations: true,
+  requireApprovalForWrites: true,
+};
+
+const TOOL_PERMISSION_KEYS = Object.keys(DEFAULT_TOOL_PERMISSIONS) as (keyof ToolPermissions)[];
+
+/** Model names are passed as a single CLI argument; keep them to a safe character set */
+const MODEL_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._:/@-]*$/;
+
+export interface AgentConfigUpdateResult {
+  config: AgentConfig;
+  applied: AgentConfigSetting[];
+  rejected: RejectedAgentSetting[];
+  /** A setting changed that only takes effect when the agent is relaunched */
+  needsRestart: boolean;
+}
+
+/**
+ * Whether a tool action may run:
+ * - allow: approve without asking
+ * - deny: refuse without asking
+ * - ask: forward to the phone
+ */
+export type ToolPermissionVerdict = 'allow' | 'deny' | 'ask';
+
+export function evaluateToolPermission(
+  permissions: ToolPermissions,
+  action: PermissionAction
+): ToolPermissionVerdict {
+  switch (action) {
+    case 'file_read':
+      return permissions.allowFileRead ? 'ask' : 'deny';
+    case 'file_write':
+    case 'file_delete':
+      if (!permissions.allowFileWrite) return 'deny';
+      return permissions.requireApprovalForWrites ? 'ask' : 'allow';
+    case 'shell_command':
+      return permissions.allowShellCommands ? 'ask' : 'deny';
+    case 'network':
+      return permissions.allowNetworkAccess ? 'ask' : 'deny';
+    case 'git':
+      return permissions.allowGitOperations ? 'ask' : 'deny';
+    default:
+      return 'ask';
+  }
+}
+
+/**
+ * CLI arguments selecting the configured model and temperature.
+ */
+export function getConfigArgs(adapter: AgentAdapter, config: AgentConfig | undefined): string[] {
+  const args: string[] = [];
+  if (config?.model && adapter.modelFlag) {
+    args.push(adapter.modelFlag, config.model);
+  }
+  if (config?.temperature !== undefined && adapter.temperatureFlag) {
+    args.push(adapter.temperatureFlag, String(config.temperature));
+  }
+  return args;
+}
+
+export function getAgentConfigPath(workingDirectory: string): string {
+  return path.join(getProjectStateDir(workingDirectory), 'agent-config.json');
+}
+
+export class AgentConfigStore {
+  private configPath: string;
+  private configs: Partial<Record<AgentId, AgentConfig>> = {};
+
+  constructor(workingDirectory: string) {
+    this.configPath = getAgentConfigPath(workingDirectory);
+    this.load();
+
+    const projectConfigPath = path.join(workingDirectory, '.doomcode', 'agent-config.json');
+    if (fs.existsSync(projectConfigPath)) {
+      console.warn(
+        `Ignoring ${projectConfigPath}: agent settings are only read from ${this.configPath}`
+      );
+    }
+  }
+
+  get(agentId: AgentId): AgentConfig {
+    return (
+      this.configs[agentId] ?? {
+        id: agentId,
+        toolPermissions: { ...DEFAULT_TOOL_PERMISSIONS },
+      }
+    );
+  }
+
+  /**
+   * Validate a partial config from the phone against what the adapter supports,
+   * store the accepted settings and report what was applied and rejected.
+   */
+  update(adapter: AgentAdapter, update: Partial<AgentConfig>): AgentConfigUpdateResult {
+    const current = this.get(adapter.id);
+    const config: AgentConfig = {
+      ...current,
+      toolPermissions: { ...current.toolPermissions },
+    };
+    const applied: AgentConfigSetting[] = [];
+    const rejected: RejectedAgentSetting[] = [];
+    let needsRestart = false;
+
+    if (update.model !== undefined) {
+      const model = typeof update.model === 'string' ? update.model.trim() : '';
+      if (!adapter.modelFlag) {
+        rejected.push({
+          setting: 'model',
+          reason: `${adapter.name} does not support choosing a model`,
+        });
+      } else if (!MODEL_NAME_PATTERN.test(model)) {
+        rejected.push({ setting: 'model', reason: `Invalid model name "${update.model}"` });
+      } else {
+        needsRestart ||= model !== current.model;
+        config.model = model;
+        applied.push('model');
+      }
+    }
+
+    if (update.temperature !== undefined) {
+      const temperature = update.temperature;
+      if (!adapter.temperatureFlag) {
+        rejected.push({
+          setting: 'temperature',
+          reason: `${adapter.name} does not support setting the temperature`,
+        });
+      } else if (typeof temperature !== 'number' || temperature < 0 || temperature > 2) {
+        rejected.push({ setting: 'temperature', reason: 'Temperature must be between 0 and 2' });
+      } else {
+        needsRestart ||= temperature !== current.temperature;
+        config.temperature = temperature;
+        applied.push('temperature');
+      }
+    }
+
+    if (update.toolPermissions !== undefined) {
+      const permissions: Partial<Record<keyof ToolPermissions, unknown>> = update.toolPermissions;
+      const invalid = TOOL_PERMISSION_KEYS.filter(
+        (key) => permissions[key] !== undefined && typeof permissions[key] !== 'boolean'
+      );
+      if (invalid.length > 0) {
+        rejected.push({
+          setting: 'toolPermissions',
+          reason: `Expected booleans for: ${invalid.join(', ')}`,
+        });
+      } else {
+        // Enforced by the desktop as requests come in; no restart needed
+        for (const key of TOOL_PERMISSION_KEYS) {
+          if (typeof permissions[key] === 'boolean') {
+            config.toolPermissions[key] = permissions[key] as boolean;
+          }
+        }
+        applied.push('toolPermissions');
+      }
+    }
+
+    if (applied.length > 0) {
+      this.configs[adapter.id] = config;
+      this.save();
+    }
+
+    return { config, applied, rejected, needsRestart };
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.configPath)) return;
+
+    try {
+      const parsed: unknown = JSON.parse(fs.readFileSync(this.configPath, 'utf8'));
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        console.warn(`Agent config ${this.configPath} is not an object; ignoring`);
+        return;
+      }
+      for (const [id, entry] of Object.entries(parsed)) {
+        const config = parseStoredConfig(id, entry, this.configPath);
+        if (config) this.configs[id] = config;
+      }
+    } catch (error) {
+      console.warn(`Failed to read agent config ${this.configPath}:`, error);
+    }
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.configPath), { recursive: true });
+      fs.writeFileSync(this.configPath, JSON.stringify(this.configs, null, 2), 'utf8');
+    } catch (error) {
+      console.warn('Failed to write agent config:', error);
+    }
+  }
+}
+
+/**
+ * Validate one agent's saved config the way `update` validates the phone's.
+ * Invalid settings fall back to the defaults with a warning.
+ */
+function parseStoredConfig(id: string, entry: unknown, source: string): AgentConfig | null {
+  if (!entry || typeof entry !== 'object') {
+    console.warn(`Skipping invalid config for agent "${id}" in ${source}`);
+    return null;
+  }
+
+  const raw = entry as Record<string, unknown>;
+  const config: AgentConfig = { id, toolPermissions: { ...DEFAULT_TOOL_PERMISSIONS } };
+  const invalid: string[] = [];
+
+  if (typeof raw.model === 'string' && MODEL_NAME_PATTERN.test(raw.model)) {
+    config.model = raw.model;
+  } else if (raw.model !== undefined) {
+    invalid.push('model');
+  }
+
+  if (typeof raw.temperature === 'number' && raw.temperature >= 0 && raw.temperature <= 2) {
+    config.temperature = raw.temperature;
+  } else if (raw.temperature !== undefined) {
+    invalid.push('temperature');
+  }
+
+  const permissions = raw.toolPermissions as Record<string, unknown> | undefined;
+  if (permissions && typeof permissions === 'object') {
+    for (const key of TOOL_PERMISSION_KEYS) {
+      if (typeof permissions[key] === 'boolean') {
+        config.toolPermissions[key] = permissions[key] as boolean;
+      } else if (permissions[key] !== undefined) {
+        invalid.push(`toolPermissions.${key}`);
+      }
+    }
+  } else if (permissions !== undefined) {
+    invalid.push('toolPermissions');
+  }
+
+  if (invalid.length > 0) {
+    console.warn(`Ignoring invalid ${invalid.join(', ')} for agent "${id}" in ${source}`);
+  }
+  return config;
+}
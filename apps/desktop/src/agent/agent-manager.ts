@@ -1,32 +1,61 @@
 /**
  * Agent Manager
  *
- * Manages the Claude, Codex, or Gemini CLI process.
+ * Manages the CLI process for an agent adapter (Claude, Codex, Gemini or user-configured).
  */
 
-import { execSync, spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import * as pty from 'node-pty';
+import { createAnsiStream } from '@doomcode/ansi-parser';
 import type {
   PermissionRequestMessage,
   PermissionResponseMessage,
   DiffPatchMessage,
   PatchDecisionMessage,
-  AgentId,
+  AgentConfig,
 } from '@doomcode/protocol';
 import { PermissionDetector } from './permission-detector.js';
 import { DiffExtractor } from './diff-extractor.js';
+import { ChangeDetector, type DiffSource } from './change-detector.js';
+import type { BaselineReader } from './patch-tracker.js';
+import { StreamJsonDriver } from './stream-json-driver.js';
+import { findAgentBinary, type AgentAdapter } from './adapters.js';
+import { getConfigArgs } from './agent-config.js';
 
 export type AgentStatus = 'idle' | 'running' | 'waiting_input' | 'error';
 
+/**
+ * How the agent process is driven:
+ * - pty: interactive TUI in a pseudo-terminal; permissions and diffs are scraped from output
+ * - stream-json: line-delimited JSON over stdio with structured permission prompts
+ */
+export type AgentDriverMode = 'pty' | 'stream-json';
+
+export const AGENT_DRIVER_MODES: AgentDriverMode[] = ['pty', 'stream-json'];
+
 export interface AgentManagerOptions {
-  agent: AgentId;
+  adapter: AgentAdapter;
   workingDirectory: string;
+  /** Defaults to stream-json where the agent supports it, pty otherwise */
+  driver?: AgentDriverMode;
+  /** Model and temperature chosen on the phone */
+  config?: AgentConfig;
+  /** Resume the previous conversation (after a restart) where the adapter supports it */
+  resume?: boolean;
+  /**
+   * How the pty driver finds file changes: git snapshots of the working tree
+   * (default), or unified diffs scraped from terminal output
+   */
+  diffSource?: DiffSource;
   onOutput: (stream: 'stdout' | 'stderr', data: string) => void;
   onPermissionRequest: (request: PermissionRequestMessage) => void;
-  onDiff: (diff: DiffPatchMessage) => void;
+  /** `baseline` is set when the changes are already on disk */
+  onDiff: (diff: DiffPatchMessage, baseline?: BaselineReader) => void;
+  /** The agent finished responding to a prompt (stream-json driver only) */
+  onTurnComplete?: () => void;
   onExit: (code: number) => void;
 }
 
@@ -34,21 +63,28 @@ export class AgentManager {
   private options: AgentManagerOptions;
   private ptyProcess: pty.IPty | null = null;
   private process: ChildProcessWithoutNullStreams | null = null;
+  private streamDriver: StreamJsonDriver | null = null;
   private status: AgentStatus = 'idle';
   private permissionDetector: PermissionDetector;
   private diffExtractor: DiffExtractor;
+  private changeDetector: ChangeDetector | null = null;
+  private diffSource: DiffSource | null = null;
   private debugPty = process.env.DOOMCODE_DEBUG_PTY === '1';
-  private enterMode = this.normalizeEnterMode(process.env.DOOMCODE_ENTER_MODE);
+  private enterMode: 'cr' | 'lf' | 'crlf';
   private typewriteDelayMs = Number(process.env.DOOMCODE_TYPEWRITE_DELAY_MS ?? '5');
   private typewriteOverride = process.env.DOOMCODE_TYPEWRITE;
   private pendingPermissions: Map<string, (response: PermissionResponseMessage) => void> =
     new Map();
-  private pendingPatches: Map<string, (decision: PatchDecisionMessage) => void> = new Map();
   private outputBuffer = '';
+  /** Strips escape sequences from output for detection, across chunk boundaries */
+  private ansiStream = createAnsiStream();
 
   constructor(options: AgentManagerOptions) {
     this.options = options;
-    this.permissionDetector = new PermissionDetector();
+    this.enterMode = this.normalizeEnterMode(
+      process.env.DOOMCODE_ENTER_MODE ?? options.adapter.promptSubmit?.enter
+    );
+    this.permissionDetector = new PermissionDetector(options.adapter.permissionPatterns);
     this.diffExtractor = new DiffExtractor();
   }
 
@@ -212,10 +248,10 @@ export class AgentManager {
     // Node then talks to the bridge over pipes (works in any environment).
     const env = this.buildPtyEnv(fullPath);
     // Claude appears to accept LF more reliably under the python bridge; default to LF unless overridden.
-    if (!process.env.DOOMCODE_ENTER_MODE) {
+    if (!process.env.DOOMCODE_ENTER_MODE && !this.options.adapter.promptSubmit?.enter) {
       this.enterMode = 'lf';
-      env.DOOMCODE_ENTER_MODE = 'lf';
     }
+    env.DOOMCODE_ENTER_MODE = this.enterMode;
 
     // Use explicit byte values to avoid any JS/Python escaping issues
     const bridgeSource = `#!/usr/bin/env python3
@@ -356,53 +392,32 @@ if __name__ == "__main__":
     });
   }
 
-  private findAgentPath(binary: string, label: string, extraPaths: string[] = []): string {
-    const possiblePaths = [
-      `/opt/homebrew/bin/${binary}`,
-      `/usr/local/bin/${binary}`,
-      path.join(os.homedir(), '.npm-global/bin', binary),
-      path.join(os.homedir(), '.local/bin', binary),
-      path.join(os.homedir(), 'bin', binary),
-      ...extraPaths,
-    ];
-
-    for (const p of possiblePaths) {
-      if (fs.existsSync(p)) {
-        console.log(`Found ${label} at: ${p}`);
-        return p;
-      }
-    }
-
-    try {
-      const result = execSync(`which ${binary}`, { encoding: 'utf-8' }).trim();
-      if (result) {
-        console.log(`Found ${label} via which: ${result}`);
-        return result;
-      }
-    } catch {
-      // which failed
+  private resolveAgentCommand(): string {
+    const { adapter } = this.options;
+    const binary = findAgentBinary(adapter);
+    if (!binary) {
+      throw new Error(`${adapter.name} CLI (${adapter.command}) not found. Please ensure it is installed and in PATH.`);
     }
 
-    console.error(`Could not find ${label} CLI. Tried:`, possiblePaths.join(', '));
-    throw new Error(`${label} CLI not found. Please ensure it is installed and in PATH.`);
+    console.log(`Found ${adapter.name} at: ${binary}`);
+    return binary;
   }
 
-  private resolveAgentCommand(): string {
-    switch (this.options.agent) {
-      case 'claude':
-        return this.findAgentPath('claude', 'Claude');
-      case 'codex':
-        return this.findAgentPath('codex', 'Codex');
-      case 'gemini':
-        return this.findAgentPath('gemini', 'Gemini');
-      default:
-        throw new Error(`Unsupported agent: ${this.options.agent}`);
+  /**
+   * Arguments appended for the configured model/temperature and conversation resume.
+   */
+  private getLaunchArgs(): string[] {
+    const { adapter, config, resume } = this.options;
+    const args = getConfigArgs(adapter, config);
+    if (resume && adapter.continueArgs) {
+      args.push(...adapter.continueArgs);
     }
+    return args;
   }
 
   async start(initialPrompt?: string): Promise<void> {
     let command: string;
-    const args: string[] = [];
+    const args: string[] = [...(this.options.adapter.args ?? []), ...this.getLaunchArgs()];
 
     try {
       command = this.resolveAgentCommand();
@@ -413,19 +428,26 @@ if __name__ == "__main__":
       return;
     }
 
-    // For Claude, we need to use interactive mode
-    // Use --dangerously-skip-permissions to avoid TTY requirement for permissions
-    if (this.options.agent === 'claude') {
-      // Don't add any special flags - let it run in default interactive mode
-      // The user will send prompts via stdin
+    // Ensure PATH includes common locations for CLI tools
+    const envPath = process.env.PATH || '';
+    const additionalPaths = ['/opt/homebrew/bin', '/usr/local/bin', '/usr/bin'];
+    const fullPath = [...new Set([...additionalPaths, ...envPath.split(':')])].join(':');
+
+    if (this.resolveDriverMode() === 'stream-json') {
+      this.startStreamJson(command, fullPath, initialPrompt);
+      return;
     }
 
+    this.startChangeDetection();
+    this.outputBuffer = '';
+    this.ansiStream.reset();
     if (initialPrompt) {
       // Use chat mode with initial prompt
       args.push(initialPrompt);
+      this.changeDetector?.beginTurn();
     }
 
-    console.log(`Starting ${this.options.agent} agent...`);
+    console.log(`Starting ${this.options.adapter.id} agent...`);
     console.log(`Command: ${command} ${args.join(' ')}`);
     console.log(`Working directory: ${this.options.workingDirectory}`);
     this.logDebug(`>>> [AGENT] Enter mode: ${this.enterMode}`);
@@ -433,11 +455,6 @@ if __name__ == "__main__":
       `>>> [AGENT] Typewrite override: ${this.typewriteOverride ?? 'auto'} (delay=${this.typewriteDelayMs}ms)`
     );
 
-    // Ensure PATH includes common locations for CLI tools
-    const envPath = process.env.PATH || '';
-    const additionalPaths = ['/opt/homebrew/bin', '/usr/local/bin', '/usr/bin'];
-    const fullPath = [...new Set([...additionalPaths, ...envPath.split(':')])].join(':');
-
     try {
       // Run the agent inside a real pseudo-terminal (PTY). Many interactive CLIs
       // (including Claude) behave differently without a TTY and may produce no output.
@@ -460,6 +477,7 @@ if __name__ == "__main__":
 
         ptyProc.onExit(({ exitCode, signal }) => {
           console.log(`Agent exited with code ${exitCode}, signal ${signal}`);
+          this.ptyProcess = null;
           this.status = 'idle';
           this.options.onExit(exitCode ?? 0);
         });
@@ -477,7 +495,9 @@ if __name__ == "__main__":
         console.log(`Agent started (python PTY bridge) with PID: ${this.process.pid}`);
         this.status = 'running';
 
-        this.process.stdout.on('data', (buf: Buffer) => this.handleOutput('stdout', buf.toString()));
+        // Decode as a stream so characters split between reads stay whole
+        this.process.stdout.setEncoding('utf8');
+        this.process.stdout.on('data', (text: string) => this.handleOutput('stdout', text));
         // Python bridge stderr contains debug info - print to console only when enabled
         this.process.stderr.on('data', (buf: Buffer) => {
           if (!this.debugPty) return;
@@ -488,6 +508,7 @@ if __name__ == "__main__":
         });
       this.process.on('exit', (code, signal) => {
         console.log(`Agent exited with code ${code}, signal ${signal}`);
+        this.process = null;
         this.status = 'idle';
         this.options.onExit(code ?? 0);
       });
@@ -518,9 +539,89 @@ if __name__ == "__main__":
     }
   }
 
+  private resolveDriverMode(): AgentDriverMode {
+    const supportsStreamJson = !!this.options.adapter.streamJsonArgs;
+    const requested = this.options.driver ?? (supportsStreamJson ? 'stream-json' : 'pty');
+
+    if (requested === 'stream-json' && !supportsStreamJson) {
+      console.warn(`${this.options.adapter.id} does not support the stream-json driver; using pty`);
+      return 'pty';
+    }
+    return requested;
+  }
+
+  /**
+   * Where pty diffs come from; null when the adapter turns diff review off.
+   */
+  private resolveDiffSource(): DiffSource | null {
+    if (this.options.adapter.diffDetection === false) return null;
+
+    const requested = this.options.diffSource ?? 'git';
+    if (requested === 'git' && !ChangeDetector.isSupported(this.options.workingDirectory)) {
+      console.warn('Not a git repository; scraping diffs from terminal output instead');
+      return 'terminal';
+    }
+    return requested;
+  }
+
+  private startChangeDetection(): void {
+    this.diffSource = this.resolveDiffSource();
+    if (this.diffSource !== 'git') return;
+
+    this.changeDetector = new ChangeDetector(this.options.workingDirectory, {
+      onChanges: (diff, baseline) => this.options.onDiff(diff, baseline),
+    });
+  }
+
+  private startStreamJson(command: string, fullPath: string, initialPrompt?: string): void {
+    const args = [...(this.options.adapter.streamJsonArgs ?? []), ...this.getLaunchArgs()];
+
+    console.log(`Starting ${this.options.adapter.id} agent (stream-json driver)...`);
+    console.log(`Command: ${command} ${args.join(' ')}`);
+    console.log(`Working directory: ${this.options.workingDirectory}`);
+
+    this.streamDriver = new StreamJsonDriver({
+      command,
+      args,
+      workingDirectory: this.options.workingDirectory,
+      env: this.buildPtyEnv(fullPath),
+      onOutput: (stream, data) => this.options.onOutput(stream, data),
+      onPermissionRequest: (request) => this.options.onPermissionRequest(request),
+      onDiff: (diff) => this.options.onDiff(diff),
+      onStatusChange: (status) => {
+        this.status = status;
+      },
+      onTurnComplete: () => this.options.onTurnComplete?.(),
+      onExit: (code) => {
+        this.streamDriver = null;
+        this.options.onExit(code);
+      },
+    });
+
+    const pid = this.streamDriver.start();
+    if (!pid) {
+      this.status = 'error';
+      this.streamDriver = null;
+      this.options.onOutput('stderr', 'Failed to start agent (stream-json driver)\r\n');
+      return;
+    }
+
+    console.log(`Agent started with PID: ${pid}`);
+    this.status = 'running';
+    this.options.onOutput('stdout', 'DoomCode: Agent ready. Send a prompt from your mobile device.\r\n');
+
+    if (initialPrompt) {
+      this.streamDriver.sendPrompt(initialPrompt);
+    }
+  }
+
   private handleOutput(stream: 'stdout' | 'stderr', data: string): void {
-    // Buffer output for pattern detection
-    this.outputBuffer += data;
+    // Buffer output for pattern detection, as plain text so the patterns never
+    // see escape sequences (or halves of them)
+    this.outputBuffer += this.ansiStream
+      .push(data)
+      .map((span) => span.text)
+      .join('');
 
     // Check for permission requests
     const permissionRequest = this.permissionDetector.detect(this.outputBuffer);
@@ -530,10 +631,11 @@ if __name__ == "__main__":
 
       // Store pending permission handler
       this.pendingPermissions.set(permissionRequest.requestId, (response) => {
+        const answers = this.options.adapter.permissionAnswers ?? { approve: 'y', deny: 'n' };
         if (response.decision === 'approve' || response.decision === 'approve_always') {
-          this.sendLine('y');
+          this.sendLine(answers.approve);
         } else {
-          this.sendLine('n');
+          this.sendLine(answers.deny);
         }
         this.status = 'running';
       });
@@ -543,10 +645,14 @@ if __name__ == "__main__":
     }
 
     // Check for diff output
-    const diff = this.diffExtractor.extract(this.outputBuffer);
-    if (diff) {
-      this.options.onDiff(diff);
-      this.outputBuffer = '';
+    if (this.changeDetector) {
+      this.changeDetector.noteActivity();
+    } else if (this.diffSource === 'terminal') {
+      const diff = this.diffExtractor.extract(this.outputBuffer);
+      if (diff) {
+        this.options.onDiff(diff);
+        this.outputBuffer = '';
+      }
     }
 
     // Keep buffer from growing too large
@@ -559,6 +665,11 @@ if __name__ == "__main__":
   }
 
   handlePermissionResponse(response: PermissionResponseMessage): void {
+    if (this.streamDriver) {
+      this.streamDriver.handlePermissionResponse(response);
+      return;
+    }
+
     const handler = this.pendingPermissions.get(response.requestId);
     if (handler) {
       handler(response);
@@ -566,17 +677,24 @@ if __name__ == "__main__":
     }
   }
 
-  handlePatchDecision(decision: PatchDecisionMessage): void {
-    const handler = this.pendingPatches.get(decision.patchId);
-    if (handler) {
-      handler(decision);
-      this.pendingPatches.delete(decision.patchId);
-    }
+  /**
+   * Forward a patch decision to the agent. Resolves once an applied patch has
+   * been written to disk (immediately for the pty driver, whose changes are
+   * already on disk by the time they are reviewed), to false if the agent
+   * did not write it.
+   */
+  async handlePatchDecision(decision: PatchDecisionMessage): Promise<boolean> {
+    return this.streamDriver ? this.streamDriver.handlePatchDecision(decision) : true;
   }
 
   sendPrompt(prompt: string): void {
     this.logDebug(`>>> [AGENT] sendPrompt called with: "${prompt}"`);
 
+    if (this.streamDriver) {
+      this.streamDriver.sendPrompt(prompt);
+      return;
+    }
+
     if (!this.ptyProcess && !this.process) {
       console.error('>>> [AGENT] ERROR: Cannot send prompt: no process running');
       return;
@@ -584,10 +702,18 @@ if __name__ == "__main__":
 
     const mode = this.ptyProcess ? 'node-pty' : 'python-bridge';
     this.logDebug(`>>> [AGENT] Sending via ${mode}, prompt length: ${prompt.length}`);
+    this.changeDetector?.beginTurn();
 
     try {
+      const method = this.options.adapter.promptSubmit?.method;
       const useTypewrite =
-        this.typewriteOverride === '1' ? true : this.typewriteOverride === '0' ? false : !!this.process;
+        this.typewriteOverride === '1'
+          ? true
+          : this.typewriteOverride === '0'
+            ? false
+            : method
+              ? method === 'typewrite'
+              : !!this.process;
       if (useTypewrite) this.typewrite(prompt);
       else this.sendLine(prompt);
       this.logDebug('>>> [AGENT] sendLine() completed');
@@ -600,7 +726,21 @@ if __name__ == "__main__":
     return this.status;
   }
 
+  /**
+   * Whether an agent process is alive (stopped and exited agents are not).
+   */
+  isRunning(): boolean {
+    return !!(this.streamDriver || this.ptyProcess || this.process);
+  }
+
   stop(): void {
+    this.changeDetector?.stop();
+    this.changeDetector = null;
+    if (this.streamDriver) {
+      this.streamDriver.stop();
+      this.streamDriver = null;
+      this.status = 'idle';
+    }
     if (this.ptyProcess) {
       try {
         this.ptyProcess.kill();
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { DiffPatchMessage } from '@doomcode/protocol';
+import { ChangeDetector } from './change-detector.js';
+import type { BaselineReader } from './patch-tracker.js';
+
+const SETTLE_MS = 100;
+
+describe('ChangeDetector', () => {
+  let repo: string;
+  let detector: ChangeDetector;
+  let changes: { diff: DiffPatchMessage; baseline: BaselineReader }[];
+
+  const git = (command: string) =>
+    execSync(`git ${command}`, { cwd: repo, encoding: 'utf8', stdio: ['pipe', 'pipe', 'pipe'] });
+  const write = (name: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repo, name)), { recursive: true });
+    fs.writeFileSync(path.join(repo, name), content);
+  };
+  /** A changed tree is reported after it has looked the same for a whole quiet period */
+  const settle = () => vi.advanceTimersByTime(SETTLE_MS * 2);
+  const changedPaths = (index = 0) =>
+    changes[index].diff.files.map((f) => [f.path, f.status]).sort();
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'doomcode-changes-'));
+    vi.stubEnv('GIT_CONFIG_NOSYSTEM', '1');
+    for (const role of ['AUTHOR', 'COMMITTER']) {
+      vi.stubEnv(`GIT_${role}_NAME`, 'Test');
+      vi.stubEnv(`GIT_${role}_EMAIL`, 'test@example.com');
+    }
+    vi.useFakeTimers();
+
+    git('init -q');
+    write('a.txt', 'one\n');
+    write('old-name.txt', 'a file that is renamed\nwith enough content\nto be detected\n');
+    write('.gitignore', 'ignored.log\n');
+    git('add -A');
+    git('commit -q -m initial');
+
+    changes = [];
+    detector = new ChangeDetector(repo, {
+      settleMs: SETTLE_MS,
+      onChanges: (diff, baseline) => changes.push({ diff, baseline }),
+    });
+  });
+
+  afterEach(() => {
+    detector.stop();
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('only works inside a git work tree', () => {
+    expect(ChangeDetector.isSupported(repo)).toBe(true);
+    expect(ChangeDetector.isSupported(os.tmpdir())).toBe(false);
+  });
+
+  it('reports everything changed since the baseline as one diff', () => {
+    detector.beginTurn();
+    write('a.txt', 'two\n');
+    write('new/file.txt', 'untracked\n');
+    fs.renameSync(path.join(repo, 'old-name.txt'), path.join(repo, 'new-name.txt'));
+    write('ignored.log', 'noise\n');
+    write('.doomcode/audit.jsonl', '{}\n');
+
+    settle();
+    expect(changes).toHaveLength(1);
+    expect(changedPaths()).toEqual([
+      ['a.txt', 'modified'],
+      ['new-name.txt', 'renamed'],
+      ['new/file.txt', 'added'],
+    ]);
+    // The user's staging area is left alone
+    expect(git('diff --cached --name-only')).toBe('');
+  });
+
+  it('reads files as they were at the baseline', () => {
+    fs.chmodSync(path.join(repo, 'a.txt'), 0o755);
+    detector.beginTurn();
+    write('a.txt', 'two\n');
+    write('b.txt', 'new\n');
+    settle();
+
+    const { baseline } = changes[0];
+    expect(baseline('a.txt')).toEqual({ content: Buffer.from('one\n'), mode: 0o755 });
+    expect(baseline('b.txt')).toBeNull();
+  });
+
+  it('waits for the tree to stop changing', () => {
+    detector.beginTurn();
+    write('a.txt', 'two\n');
+    vi.advanceTimersByTime(SETTLE_MS);
+    expect(changes).toHaveLength(0);
+
+    write('a.txt', 'three\n');
+    vi.advanceTimersByTime(SETTLE_MS);
+    expect(changes).toHaveLength(0);
+
+    vi.advanceTimersByTime(SETTLE_MS);
+    expect(changes).toHaveLength(1);
+  });
+
+  it('ignores edits made while the agent is quiet until it is active again', () => {
+    detector.beginTurn();
+    settle();
+    expect(changes).toHaveLength(0);
+
+    write('a.txt', 'by hand\n');
+    settle();
+    expect(changes).toHaveLength(0);
+
+    detector.noteActivity();
+    settle();
+    expect(changedPaths()).toEqual([['a.txt', 'modified']]);
+  });
+
+  it('reports changes left over from the previous turn when a new one begins', () => {
+    detector.beginTurn();
+    write('a.txt', 'two\n');
+    detector.beginTurn();
+    expect(changedPaths()).toEqual([['a.txt', 'modified']]);
+
+    write('b.txt', 'new\n');
+    settle();
+    expect(changedPaths(1)).toEqual([['b.txt', 'added']]);
+  });
+
+  it('reports nothing after being stopped', () => {
+    detector.beginTurn();
+    write('a.txt', 'two\n');
+    detector.stop();
+    detector.noteActivity();
+    settle();
+    expect(changes).toHaveLength(0);
+  });
+});
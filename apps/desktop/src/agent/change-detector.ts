@@ -0,0 +1,202 @@
+/**
+ * Change Detector
+ *
+ * Finds the files an agent changed by comparing git tree snapshots of the
+ * working directory, instead of scraping diffs from terminal output. A baseline
+ * is taken when a prompt is sent; once the agent has gone quiet and the tree
+ * has stopped changing, everything since the baseline is emitted as one diff,
+ * including untracked files, renames and binary files.
+ *
+ * Snapshots are written through a temporary index, so the user's staging area
+ * is never touched. Ignored files and `.doomcode/` are left out.
+ */
+
+import { execSync } from 'child_process';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { DiffPatchMessage } from '@doomcode/protocol';
+import { DiffExtractor } from './diff-extractor.js';
+import type { BaselineFile, BaselineReader } from './patch-tracker.js';
+
+/** How changes are found in agent runs that don't report edits themselves */
+export type DiffSource = 'git' | 'terminal';
+
+export const DIFF_SOURCES: DiffSource[] = ['git', 'terminal'];
+
+/** Quiet period after agent output before the working tree is checked */
+const DEFAULT_SETTLE_MS = 1500;
+
+const PATHSPEC = `-- . ':(exclude).doomcode'`;
+
+export interface ChangeDetectorOptions {
+  settleMs?: number;
+  /** Called with the changes and a reader for the files' content before them */
+  onChanges: (diff: DiffPatchMessage, baseline: BaselineReader) => void;
+}
+
+export class ChangeDetector {
+  private workingDirectory: string;
+  private options: ChangeDetectorOptions;
+  private diffExtractor = new DiffExtractor();
+  private baseline: string | null = null;
+  /** Tree seen at the last check; the tree has settled once it stops changing */
+  private lastSeen: string | null = null;
+  /** Set by prompts and agent output; edits made while the agent is silent are not its own */
+  private armed = false;
+  private settleTimer: NodeJS.Timeout | null = null;
+
+  constructor(workingDirectory: string, options: ChangeDetectorOptions) {
+    this.workingDirectory = workingDirectory;
+    this.options = options;
+  }
+
+  /**
+   * Whether a directory is inside a git work tree.
+   */
+  static isSupported(directory: string): boolean {
+    try {
+      execSync('git rev-parse --is-inside-work-tree', {
+        cwd: directory,
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Take a new baseline; called when a prompt is sent to the agent.
+   */
+  beginTurn(): void {
+    // Report anything left over from the previous turn before moving the baseline
+    this.check(true);
+    try {
+      this.baseline = this.snapshotTree();
+      this.lastSeen = this.baseline;
+    } catch (error) {
+      console.warn('Failed to snapshot the working tree:', error);
+      this.baseline = null;
+    }
+    this.noteActivity();
+  }
+
+  /**
+   * The agent produced output; wait for it to go quiet before checking for changes.
+   */
+  noteActivity(): void {
+    if (!this.baseline) return;
+    this.armed = true;
+    this.scheduleCheck();
+  }
+
+  stop(): void {
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+      this.settleTimer = null;
+    }
+    this.armed = false;
+    this.baseline = null;
+  }
+
+  private scheduleCheck(): void {
+    if (this.settleTimer) clearTimeout(this.settleTimer);
+    this.settleTimer = setTimeout(() => {
+      this.settleTimer = null;
+      this.check(false);
+    }, this.options.settleMs ?? DEFAULT_SETTLE_MS);
+  }
+
+  /**
+   * Emit the changes since the baseline once the tree is stable. With `force`
+   * the tree is not required to have settled.
+   */
+  private check(force: boolean): void {
+    if (!this.baseline || !this.armed) return;
+
+    let current: string;
+    try {
+      current = this.snapshotTree();
+    } catch (error) {
+      console.warn('Failed to snapshot the working tree:', error);
+      return;
+    }
+
+    if (current !== this.lastSeen && !force) {
+      // Still being written; look again after another quiet period
+      this.lastSeen = current;
+      this.scheduleCheck();
+      return;
+    }
+
+    this.armed = false;
+    this.lastSeen = current;
+    if (current === this.baseline) return;
+
+    const baseline = this.baseline;
+    this.baseline = current;
+
+    const diffText = this.git(`diff -M --relative ${baseline} ${current} ${PATHSPEC}`);
+    const diff = diffText.trim() ? this.diffExtractor.fromDiffText(diffText) : null;
+    if (diff) {
+      this.options.onChanges(diff, (filePath) => this.readFile(baseline, filePath));
+    }
+  }
+
+  /**
+   * Write the working tree (tracked and untracked files) to a tree object.
+   */
+  private snapshotTree(): string {
+    const indexPath = path.join(os.tmpdir(), `doomcode-index-${randomBytes(6).toString('hex')}`);
+    const realIndex = path.resolve(
+      this.workingDirectory,
+      this.git('rev-parse --git-path index').trim()
+    );
+
+    try {
+      // Starting from the real index lets git skip rehashing unchanged files. The
+      // copy keeps the index's mtime, which git compares against to catch files
+      // modified too recently for their cached stat data to be trusted.
+      if (fs.existsSync(realIndex)) {
+        const { atime, mtime } = fs.statSync(realIndex);
+        fs.copyFileSync(realIndex, indexPath);
+        fs.utimesSync(indexPath, atime, mtime);
+      }
+      const env = { ...process.env, GIT_INDEX_FILE: indexPath };
+      this.git(`add -A ${PATHSPEC}`, env);
+      return this.git('write-tree', env).trim();
+    } finally {
+      fs.rmSync(indexPath, { force: true });
+    }
+  }
+
+  private readFile(tree: string, filePath: string): BaselineFile | null {
+    const entry = this.git(`ls-tree ${tree} -- ${shellQuote(filePath)}`).trim();
+    // Only regular files are restored (mode 100644 or 100755)
+    const match = entry.match(/^100(\d{3}) blob ([0-9a-f]+)\t/);
+    if (!match) return null;
+
+    const content = execSync(`git cat-file blob ${match[2]}`, {
+      cwd: this.workingDirectory,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      maxBuffer: 256 * 1024 * 1024,
+    });
+    return { content, mode: parseInt(match[1], 8) };
+  }
+
+  private git(command: string, env: NodeJS.ProcessEnv = process.env): string {
+    return execSync(`git ${command}`, {
+      cwd: this.workingDirectory,
+      env,
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+      maxBuffer: 64 * 1024 * 1024,
+    });
+  }
+}
+
+function shellQuote(arg: string): string {
+  return `'${arg.replace(/'/g, "'\\''")}'`;
+}
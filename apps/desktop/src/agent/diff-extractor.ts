@@ -5,7 +5,7 @@
  */
 
 import type { DiffPatchMessage, FileDiff, RiskLevel } from '@doomcode/protocol';
-import { parseDiff } from '@doomcode/diff-parser';
+import { formatDiff, parseDiff } from '@doomcode/diff-parser';
 import { randomUUID } from 'crypto';
 
 export class DiffExtractor {
@@ -28,42 +28,49 @@ export class DiffExtractor {
         this.diffBuffer = '';
         this.inDiff = false;
 
-        try {
-          const parsed = parseDiff(diffText);
-
-          if (parsed.files.length > 0) {
-            const files: FileDiff[] = parsed.files.map((file) => ({
-              path: file.newPath,
-              diff: file.hunks.map((h) => h.header + '\n' + h.lines.map((l) => {
-                const prefix = l.type === 'addition' ? '+' : l.type === 'deletion' ? '-' : ' ';
-                return prefix + l.content;
-              }).join('\n')).join('\n'),
-              status: file.status,
-              oldPath: file.oldPath !== file.newPath ? file.oldPath : undefined,
-              additions: file.additions,
-              deletions: file.deletions,
-            }));
-
-            return {
-              type: 'diff_patch',
-              patchId: randomUUID(),
-              files,
-              summary: this.generateSummary(parsed.files),
-              estimatedRisk: this.estimateRisk(parsed.files),
-              totalAdditions: parsed.totalAdditions,
-              totalDeletions: parsed.totalDeletions,
-            };
-          }
-        } catch {
-          // Failed to parse diff
-          return null;
-        }
+        return this.fromDiffText(diffText);
       }
     }
 
     return null;
   }
 
+  /**
+   * Build a patch message from unified diff text. Returns null if the text
+   * contains no file changes or cannot be parsed.
+   */
+  fromDiffText(diffText: string): DiffPatchMessage | null {
+    try {
+      const parsed = parseDiff(diffText);
+
+      if (parsed.files.length > 0) {
+        const files: FileDiff[] = parsed.files.map((file) => ({
+          path: file.newPath,
+          diff: formatDiff(file),
+          status: file.status,
+          oldPath: file.oldPath !== file.newPath ? file.oldPath : undefined,
+          additions: file.additions,
+          deletions: file.deletions,
+          binary: file.isBinary || undefined,
+        }));
+
+        return {
+          type: 'diff_patch',
+          patchId: randomUUID(),
+          files,
+          summary: this.generateSummary(parsed.files),
+          estimatedRisk: this.estimateRisk(parsed.files),
+          totalAdditions: parsed.totalAdditions,
+          totalDeletions: parsed.totalDeletions,
+        };
+      }
+    } catch {
+      // Failed to parse diff
+    }
+
+    return null;
+  }
+
   private isEndOfDiff(output: string): boolean {
     // Heuristics for detecting end of diff:
     // 1. Multiple empty lines
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { validateEditedDiff } from './patch-edit.js';
+
+const diff = (...lines: string[]) =>
+  ['diff --git a/a.txt b/a.txt', '--- a/a.txt', '+++ b/a.txt', ...lines, ''].join('\n');
+
+describe('validateEditedDiff', () => {
+  it('accepts a diff whose hunks match their headers', () => {
+    expect(validateEditedDiff(diff('@@ -1,2 +1,2 @@', ' one', '-two', '+2'), ['a.txt'])).toEqual({
+      paths: ['a.txt'],
+    });
+  });
+
+  it('accepts a hunk ending in an empty context line', () => {
+    const edited = diff('@@ -1,3 +1,3 @@', ' one', '-two', '+2', ' ');
+    expect(validateEditedDiff(edited, ['a.txt']).error).toBeUndefined();
+  });
+
+  it('refuses a diff without changes', () => {
+    expect(validateEditedDiff('', ['a.txt'])).toEqual({
+      error: 'The edited diff contains no file changes',
+      paths: [],
+    });
+  });
+
+  it('refuses paths that are not part of the patch', () => {
+    const renamed = [
+      'diff --git a/a.txt b/other.txt',
+      '--- a/a.txt',
+      '+++ b/other.txt',
+      '@@ -1 +1 @@',
+      '-one',
+      '+1',
+      '',
+    ].join('\n');
+
+    const result = validateEditedDiff(renamed, ['a.txt']);
+    expect(result.error).toBe('other.txt is not part of this patch');
+    expect(result.paths).toEqual(['a.txt', 'other.txt']);
+  });
+
+  it('refuses binary changes', () => {
+    const binary = [
+      'diff --git a/a.txt b/a.txt',
+      'Binary files a/a.txt and b/a.txt differ',
+      '',
+    ].join('\n');
+    expect(validateEditedDiff(binary, ['a.txt']).error).toBe(
+      'a.txt: binary changes cannot be edited'
+    );
+  });
+
+  it('refuses hunks whose line counts do not match the header', () => {
+    // An added line the header does not account for
+    const edited = diff('@@ -1,2 +1,2 @@', ' one', '-two', '+2', '+3');
+    expect(validateEditedDiff(edited, ['a.txt']).error).toBe(
+      'a.txt hunk 1: header expects 2 old and 2 new lines, found 2 and 3'
+    );
+
+    // Lines cut from the end of the hunk
+    const missing = diff('@@ -1,4 +1,4 @@', ' one', '-two', '+2');
+    expect(validateEditedDiff(missing, ['a.txt']).error).toMatch(/expects 4 old and 4 new lines/);
+  });
+});
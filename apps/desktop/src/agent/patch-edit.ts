@@ -0,0 +1,78 @@
+/**
+ * Patch Edit
+ *
+ * Checks a diff edited on the phone before it is applied in place of the
+ * agent's version of a patch.
+ */
+
+import { parseDiff, type DiffLine } from '@doomcode/diff-parser';
+
+export interface EditedDiffCheck {
+  /** Why the diff was refused; unset if it is usable */
+  error?: string;
+  /** Paths the edited diff touches */
+  paths: string[];
+}
+
+/**
+ * Validate an edited diff: it must parse, only touch paths from the original
+ * patch, contain no binary changes, and every hunk must hold as many lines as
+ * its header says.
+ */
+export function validateEditedDiff(diffText: string, allowedPaths: string[]): EditedDiffCheck {
+  const parsed = parseDiff(diffText);
+  if (parsed.files.length === 0) {
+    return { error: 'The edited diff contains no file changes', paths: [] };
+  }
+
+  const paths = [...new Set(parsed.files.flatMap((file) => [file.oldPath, file.newPath]))];
+  const outside = paths.find((filePath) => !allowedPaths.includes(filePath));
+  if (outside) {
+    return { error: `${outside} is not part of this patch`, paths };
+  }
+
+  for (const file of parsed.files) {
+    if (file.isBinary) {
+      return { error: `${file.newPath}: binary changes cannot be edited`, paths };
+    }
+
+    for (const [index, hunk] of file.hunks.entries()) {
+      let body = hunk.lines.filter((line) => line.type !== 'header');
+      // The newline ending the diff parses as one more (empty) context line
+      while (exceedsCounts(body, hunk.oldLines, hunk.newLines) && isEmptyContext(body.at(-1))) {
+        body = body.slice(0, -1);
+      }
+
+      const { oldCount, newCount } = countLines(body);
+      if (oldCount !== hunk.oldLines || newCount !== hunk.newLines) {
+        return {
+          error:
+            `${file.newPath} hunk ${index + 1}: header expects ${hunk.oldLines} old and ` +
+            `${hunk.newLines} new lines, found ${oldCount} and ${newCount}`,
+          paths,
+        };
+      }
+    }
+  }
+
+  return { paths };
+}
+
+function countLines(lines: DiffLine[]): { oldCount: number; newCount: number } {
+  let oldCount = 0;
+  let newCount = 0;
+  for (const line of lines) {
+    if (line.type !== 'addition') oldCount++;
+    if (line.type !== 'deletion') newCount++;
+  }
+  return { oldCount, newCount };
+}
+
+function exceedsCounts(lines: DiffLine[], oldLines: number, newLines: number): boolean {
+  const { oldCount, newCount } = countLines(lines);
+  return oldCount > oldLines || newCount > newLines;
+}
+
+function isEmptyContext(line: DiffLine | undefined): boolean {
+  return line?.type === 'context' && line.content === '';
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { FileDiff } from '@doomcode/protocol';
+import { applySelection, selectsWholeFile } from './patch-selection.js';
+
+const ORIGINAL = 'a\nb\nc\nd\ne\nf\ng\nh\ni\nj\n';
+
+// Hunk 0 replaces b with B; hunk 1 inserts i2 after i
+const DIFF = [
+  'diff --git a/f.txt b/f.txt',
+  '--- a/f.txt',
+  '+++ b/f.txt',
+  '@@ -1,3 +1,3 @@',
+  ' a',
+  '-b',
+  '+B',
+  ' c',
+  '@@ -8,3 +8,4 @@',
+  ' h',
+  ' i',
+  '+i2',
+  ' j',
+  '',
+].join('\n');
+
+const fileDiff = (overrides: Partial<FileDiff> = {}): FileDiff => ({
+  path: 'f.txt',
+  diff: DIFF,
+  status: 'modified',
+  additions: 2,
+  deletions: 1,
+  ...overrides,
+});
+
+describe('applySelection', () => {
+  it('applies every hunk', () => {
+    expect(applySelection(ORIGINAL, DIFF, [{ index: 0 }, { index: 1 }])).toBe(
+      'a\nB\nc\nd\ne\nf\ng\nh\ni\ni2\nj\n'
+    );
+  });
+
+  it('leaves unselected hunks as they were', () => {
+    expect(applySelection(ORIGINAL, DIFF, [{ index: 1 }])).toBe(ORIGINAL.replace('i\n', 'i\ni2\n'));
+    expect(applySelection(ORIGINAL, DIFF, [])).toBe(ORIGINAL);
+  });
+
+  it('applies single lines of a hunk', () => {
+    // Body lines of hunk 0: ' a', '-b', '+B', ' c'
+    expect(applySelection(ORIGINAL, DIFF, [{ index: 0, lines: [1] }])).toBe(
+      ORIGINAL.replace('b\n', '')
+    );
+    expect(applySelection(ORIGINAL, DIFF, [{ index: 0, lines: [2] }])).toBe(
+      ORIGINAL.replace('b\n', 'b\nB\n')
+    );
+  });
+
+  it('inserts a hunk without old lines after its start line', () => {
+    const diff = ['--- a/f.txt', '+++ b/f.txt', '@@ -2,0 +3 @@', '+new', ''].join('\n');
+    expect(applySelection('a\nb\nc\n', diff, [{ index: 0 }])).toBe('a\nb\nnew\nc\n');
+  });
+
+  it('creates a new file with a trailing newline, or nothing', () => {
+    const diff = ['--- /dev/null', '+++ b/new.txt', '@@ -0,0 +1,2 @@', '+x', '+y', ''].join('\n');
+    expect(applySelection('', diff, [{ index: 0 }])).toBe('x\ny\n');
+    expect(applySelection('', diff, [{ index: 0, lines: [1] }])).toBe('y\n');
+    expect(applySelection('', diff, [])).toBe('');
+  });
+
+  it('keeps a missing trailing newline missing', () => {
+    expect(applySelection(ORIGINAL.trimEnd(), DIFF, [{ index: 0 }])).toBe(
+      ORIGINAL.trimEnd().replace('b', 'B')
+    );
+  });
+});
+
+describe('selectsWholeFile', () => {
+  it('is true without a hunk list, and for binary files', () => {
+    expect(selectsWholeFile(fileDiff(), { path: 'f.txt' })).toBe(true);
+    expect(
+      selectsWholeFile(fileDiff({ binary: true, diff: '' }), { path: 'f.txt', hunks: [] })
+    ).toBe(true);
+  });
+
+  it('needs every hunk and every changed line', () => {
+    const whole = (hunks: { index: number; lines?: number[] }[]) =>
+      selectsWholeFile(fileDiff(), { path: 'f.txt', hunks });
+
+    expect(whole([{ index: 0 }, { index: 1 }])).toBe(true);
+    expect(whole([{ index: 0 }])).toBe(false);
+    expect(whole([{ index: 0, lines: [1] }, { index: 1 }])).toBe(false);
+    // Context lines do not need to be selected
+    expect(
+      whole([
+        { index: 0, lines: [1, 2] },
+        { index: 1, lines: [2] },
+      ])
+    ).toBe(true);
+  });
+});
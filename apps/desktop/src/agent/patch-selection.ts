@@ -0,0 +1,93 @@
+/**
+ * Patch Selection
+ *
+ * Rebuilds a file from its before-state with only the hunks and lines accepted
+ * on the phone, so part of a patch can be applied.
+ */
+
+import type { FileDiff, FileSelection, HunkSelection } from '@doomcode/protocol';
+import { parseFileDiff, type DiffHunk, type DiffLine } from '@doomcode/diff-parser';
+
+/**
+ * Whether a selection accepts every change in a file.
+ */
+export function selectsWholeFile(file: FileDiff, selection: FileSelection): boolean {
+  if (!selection.hunks || file.binary) return true;
+
+  return parseHunks(file.diff).every((hunk, index) => {
+    const chosen = selection.hunks!.find((h) => h.index === index);
+    if (!chosen) return false;
+    if (!chosen.lines) return true;
+
+    return getBody(hunk).every(
+      (line, lineIndex) => line.type === 'context' || chosen.lines!.includes(lineIndex)
+    );
+  });
+}
+
+/**
+ * Apply the selected hunks (or lines within them) of a file's diff to its
+ * original content. Unselected additions are dropped and unselected deletions kept.
+ */
+export function applySelection(original: string, diff: string, selection: HunkSelection[]): string {
+  const { lines, trailingNewline } = splitLines(original);
+  const output: string[] = [];
+  let cursor = 0;
+
+  parseHunks(diff).forEach((hunk, index) => {
+    const chosen = selection.find((h) => h.index === index);
+    // A pure insertion (no old lines) goes after line oldStart rather than at it
+    const start = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    output.push(...lines.slice(cursor, start));
+    cursor = start;
+
+    let oldSeen = 0;
+    let newSeen = 0;
+    getBody(hunk).forEach((line, lineIndex) => {
+      // Stop at the counts in the header; anything after is not part of the hunk
+      if (oldSeen >= hunk.oldLines && newSeen >= hunk.newLines) return;
+      const accepted = !!chosen && (!chosen.lines || chosen.lines.includes(lineIndex));
+
+      switch (line.type) {
+        case 'context':
+          output.push(lines[cursor++]);
+          oldSeen++;
+          newSeen++;
+          break;
+        case 'deletion':
+          if (!accepted) output.push(lines[cursor]);
+          cursor++;
+          oldSeen++;
+          break;
+        case 'addition':
+          if (accepted) output.push(line.content);
+          newSeen++;
+          break;
+      }
+    });
+  });
+
+  output.push(...lines.slice(cursor));
+  if (output.length === 0) return '';
+  // New files get a trailing newline; existing files keep whatever they had
+  return output.join('\n') + (trailingNewline || original === '' ? '\n' : '');
+}
+
+function parseHunks(diff: string): DiffHunk[] {
+  return parseFileDiff(diff)?.hunks ?? [];
+}
+
+/**
+ * A hunk's lines without its `@@` header, as indexed by HunkSelection.lines.
+ */
+function getBody(hunk: DiffHunk): DiffLine[] {
+  return hunk.lines.filter((line) => line.type !== 'header');
+}
+
+function splitLines(text: string): { lines: string[]; trailingNewline: boolean } {
+  if (text === '') return { lines: [], trailingNewline: false };
+
+  const trailingNewline = text.endsWith('\n');
+  const lines = (trailingNewline ? text.slice(0, -1) : text).split('\n');
+  return { lines, trailingNewline };
+}
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { DiffPatchMessage } from '@doomcode/protocol';
+import { PatchTracker } from './patch-tracker.js';
+
+function modifyDiff(patchId: string, filePath: string): DiffPatchMessage {
+  return {
+    type: 'diff_patch',
+    patchId,
+    files: [{ path: filePath, diff: '', status: 'modified', additions: 1, deletions: 1 }],
+    summary: '',
+    estimatedRisk: 'low',
+    totalAdditions: 1,
+    totalDeletions: 1,
+  };
+}
+
+describe('PatchTracker', () => {
+  let dir: string;
+  let tracker: PatchTracker;
+
+  const write = (name: string, content: string) => fs.writeFileSync(path.join(dir, name), content);
+  const read = (name: string) => fs.readFileSync(path.join(dir, name), 'utf8');
+
+  /** Record a change to `name` as an applied patch */
+  const applyChange = async (patchId: string, name: string, content: string) => {
+    await tracker.prepareForPatch(modifyDiff(patchId, name), 'prompt', 'claude');
+    write(name, content);
+    await tracker.finalizePatch(patchId);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'doomcode-patches-'));
+    tracker = new PatchTracker(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('undoes and redoes a patch', async () => {
+    write('a.txt', 'one\n');
+    await applyChange('p1', 'a.txt', 'two\n');
+
+    expect((await tracker.undoPatch('p1')).success).toBe(true);
+    expect(read('a.txt')).toBe('one\n');
+
+    expect((await tracker.redo()).success).toBe(true);
+    expect(read('a.txt')).toBe('two\n');
+  });
+
+  it('can redo a patch whose after-state was gone from disk when it was undone', async () => {
+    write('a.txt', 'one\n');
+    await applyChange('p1', 'a.txt', 'two\n');
+    await applyChange('p2', 'b.txt', 'new\n');
+
+    // Reverted by hand, so undo has nothing to snapshot the after-state from
+    write('a.txt', 'one\n');
+    expect((await tracker.undoPatch('p1')).success).toBe(true);
+
+    const redo = await tracker.redo();
+    expect(redo.error).toBeUndefined();
+    expect(read('a.txt')).toBe('two\n');
+  });
+
+  it('reports no reverted files for a dry run with conflicts', async () => {
+    write('a.txt', 'one\n');
+    write('b.txt', 'one\n');
+    await tracker.prepareForPatch(
+      {
+        ...modifyDiff('p1', 'a.txt'),
+        files: [...modifyDiff('p1', 'a.txt').files, ...modifyDiff('p1', 'b.txt').files],
+      },
+      'prompt',
+      'claude'
+    );
+    write('a.txt', 'two\n');
+    write('b.txt', 'two\n');
+    await tracker.finalizePatch('p1');
+
+    write('b.txt', 'edited afterwards\n');
+    const result = await tracker.undoPatch('p1', { dryRun: true });
+
+    expect(result.success).toBe(false);
+    expect(result.conflicts?.map((c) => c.path)).toEqual(['b.txt']);
+    expect(result.revertedFiles).toEqual([]);
+
+    write('b.txt', 'two\n');
+    const clean = await tracker.undoPatch('p1', { dryRun: true });
+    expect(clean.revertedFiles).toEqual(['a.txt', 'b.txt']);
+    expect(read('a.txt')).toBe('two\n');
+  });
+
+  describe('paths outside the project', () => {
+    let outside: string;
+
+    beforeEach(() => {
+      outside = fs.mkdtempSync(path.join(os.tmpdir(), 'doomcode-outside-'));
+      fs.writeFileSync(path.join(outside, 'secret.txt'), 'untouched\n');
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      fs.rmSync(outside, { recursive: true, force: true });
+    });
+
+    const storedRecord = (snapshotPath: string, hash = 'a'.repeat(64)) => ({
+      patchId: 'evil',
+      timestamp: 1,
+      files: [{ path: 'a.txt', beforeHash: '', afterHash: '' }],
+      agentId: 'claude',
+      prompt: '',
+      snapshots: [{ path: snapshotPath, before: { hash, mode: 0o644 }, after: null }],
+    });
+
+    it('skips stored records that point outside the project or at a bad object', () => {
+      const patchesDir = path.join(dir, '.doomcode', 'patches');
+      fs.mkdirSync(patchesDir, { recursive: true });
+      const relative = path.relative(dir, path.join(outside, 'secret.txt'));
+      fs.writeFileSync(path.join(patchesDir, 'evil.json'), JSON.stringify(storedRecord(relative)));
+      fs.writeFileSync(
+        path.join(dir, '.doomcode', 'patch-redo.json'),
+        JSON.stringify([{ ...storedRecord('a.txt', '../../../secret'), patchId: 'evil-redo' }])
+      );
+
+      const loaded = new PatchTracker(dir);
+      expect(loaded.getPatch('evil')).toBeUndefined();
+      expect(loaded.getRedoStack()).toEqual([]);
+    });
+
+    it('refuses to track a file outside the project', async () => {
+      fs.symlinkSync(outside, path.join(dir, 'link'));
+      await expect(
+        tracker.prepareForPatch(modifyDiff('p1', 'link/secret.txt'), 'prompt', 'claude')
+      ).rejects.toThrow(/outside the project/);
+      await expect(
+        tracker.prepareForPatch(modifyDiff('p2', '../secret.txt'), 'prompt', 'claude')
+      ).rejects.toThrow(/outside the project/);
+    });
+
+    it('refuses to restore through a directory swapped for a symlink', async () => {
+      fs.mkdirSync(path.join(dir, 'sub'));
+      write('sub/secret.txt', 'one\n');
+      await applyChange('p1', 'sub/secret.txt', 'two\n');
+
+      fs.rmSync(path.join(dir, 'sub'), { recursive: true });
+      fs.symlinkSync(outside, path.join(dir, 'sub'));
+
+      const result = await tracker.undoPatch('p1');
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/outside the project/);
+      expect(fs.readFileSync(path.join(outside, 'secret.txt'), 'utf8')).toBe('untouched\n');
+    });
+  });
+});
@@ -2,158 +2,502 @@
  * Patch Tracker
  *
  * Tracks applied patches for deterministic undo functionality.
- * Captures file state before/after patches and generates reverse diffs.
+ * Snapshots every file a patch touches before it is applied and restores those
+ * snapshots byte-for-byte on undo, so deletions, renames, mode changes and binary
+ * files revert exactly. Patch records live under `.doomcode/patches/` and file
+ * contents under `.doomcode/patches/objects/`, keyed by SHA-256, so history
+ * stays undoable across desktop restarts.
+ *
+ * Undone patches (or the undone files of a partially undone patch) move onto a
+ * redo stack, persisted in `.doomcode/patch-redo.json`, until a new patch is applied.
+ *
+ * Stored records are checked on load and every path is resolved against the
+ * working directory before it is touched, so a crafted record cannot write
+ * outside the project.
  */
 
+import { execSync } from 'child_process';
 import { createHash } from 'crypto';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { execSync } from 'child_process';
 import { randomUUID } from 'crypto';
 import type {
   AppliedPatch,
   PatchedFile,
+  PatchOutcome,
   DiffPatchMessage,
+  FileDiff,
+  FileSelection,
   AgentId,
+  UndoConflict,
 } from '@doomcode/protocol';
+import { applySelection, selectsWholeFile } from './patch-selection.js';
+import { validateEditedDiff } from './patch-edit.js';
+import { makeProjectDataDir } from '../project-state.js';
 
 export interface UndoResult {
   success: boolean;
   error?: string;
   revertedFiles: string[];
+  conflicts?: UndoConflict[];
+}
+
+export interface UndoOptions {
+  /** Check for conflicts without touching any files */
+  dryRun?: boolean;
+}
+
+/** Result of applying a patch edited on the phone */
+export interface EditResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface EditOptions {
+  /** Validate and check the edited diff without touching any files */
+  dryRun?: boolean;
+}
+
+/** Result of a range undo, partial undo or redo */
+export interface PatchHistoryResult {
+  success: boolean;
+  error?: string;
+  patches: PatchOutcome[];
+}
+
+/** A file's content and mode from before a change that is already on disk */
+export interface BaselineFile {
+  content: Buffer;
+  mode: number;
+}
+
+/** Looks up a file's baseline by path; null if it did not exist */
+export type BaselineReader = (filePath: string) => BaselineFile | null;
+
+/** How much applied-patch history to keep; older patches can no longer be undone */
+export interface PatchRetention {
+  maxPatches: number;
+  maxAgeMs: number;
+}
+
+export const DEFAULT_PATCH_RETENTION: PatchRetention = {
+  maxPatches: 50,
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+};
+
+interface FileState {
+  hash: string;
+  mode: number;
 }
 
+/** State of one path before and after a patch; null means the file did not exist */
+interface FileSnapshot {
+  path: string;
+  before: FileState | null;
+  after: FileState | null;
+}
+
+interface StoredPatch extends AppliedPatch {
+  snapshots: FileSnapshot[];
+}
+
+/** Stored objects are named by the SHA-256 of their content */
+const OBJECT_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/** Which way a patch is being moved: back to its before-state, or forward again */
+type Direction = 'undo' | 'redo';
+
+/** Hash (or null for absent) each path would have, for dry runs spanning several patches */
+type SimulatedState = Map<string, string | null>;
+
 export class PatchTracker {
   private workingDirectory: string;
-  private appliedPatches: AppliedPatch[] = [];
-  private maxPatches = 50;
-
-  constructor(workingDirectory: string) {
+  private patchesDir: string;
+  private objectsDir: string;
+  private redoPath: string;
+  private retention: PatchRetention;
+  /** Finalized patches, newest first */
+  private appliedPatches: StoredPatch[] = [];
+  /** Patches awaiting a decision from the phone */
+  private preparedPatches = new Map<string, StoredPatch>();
+  /** Undone patches, most recently undone first */
+  private redoStack: StoredPatch[] = [];
+
+  constructor(workingDirectory: string, retention: Partial<PatchRetention> = {}) {
     this.workingDirectory = workingDirectory;
+    this.patchesDir = path.join(workingDirectory, '.doomcode', 'patches');
+    this.objectsDir = path.join(this.patchesDir, 'objects');
+    this.redoPath = path.join(workingDirectory, '.doomcode', 'patch-redo.json');
+    this.retention = { ...DEFAULT_PATCH_RETENTION, ...retention };
+    this.loadHistory();
+    this.prune();
   }
 
   /**
-   * Prepare for a patch by capturing the before-state of all affected files.
-   * Returns a patchId to be used when finalizing.
+   * Prepare for a patch by snapshotting the before-state of all affected files.
+   * Changes that were detected after the agent wrote them pass a baseline, since
+   * the files on disk already hold the after-state. Returns a patchId to be used
+   * when finalizing.
    */
   async prepareForPatch(
     diff: DiffPatchMessage,
     prompt: string,
-    agentId: AgentId
+    agentId: AgentId,
+    baseline?: BaselineReader
   ): Promise<string> {
-    const patchId = randomUUID();
-    const files: PatchedFile[] = [];
-
-    for (const file of diff.files) {
-      const filePath = path.join(this.workingDirectory, file.path);
-      let beforeHash = '';
-      let beforeContent = '';
-
-      // Capture before state if file exists
-      if (fs.existsSync(filePath)) {
-        beforeContent = fs.readFileSync(filePath, 'utf8');
-        beforeHash = this.hashContent(beforeContent);
+    // Keep the agent's patch ID so decisions from the phone route back to it
+    const patchId = diff.patchId || randomUUID();
+    const snapshots = new Map<string, FileSnapshot>();
+
+    // A rename touches both paths; undo has to bring back the old one and remove the new one
+    for (const filePath of diff.files.flatMap(getFilePaths)) {
+      if (!snapshots.has(filePath)) {
+        snapshots.set(filePath, {
+          path: filePath,
+          before: baseline ? this.storeObject(baseline(filePath)) : this.snapshotFile(filePath),
+          after: null,
+        });
       }
-
-      files.push({
-        path: file.path,
-        beforeHash,
-        afterHash: '', // Will be filled after apply
-        reverseDiff: this.generateReverseDiff(file.diff),
-      });
     }
 
-    const patch: AppliedPatch = {
+    const files: PatchedFile[] = diff.files.map((file) => ({
+      path: file.path,
+      oldPath: file.oldPath,
+      beforeHash: snapshots.get(file.oldPath ?? file.path)?.before?.hash ?? '',
+      afterHash: '', // Will be filled after apply
+    }));
+
+    this.preparedPatches.set(patchId, {
       patchId,
       timestamp: Date.now(),
       files,
       agentId,
       prompt,
-    };
+      snapshots: [...snapshots.values()],
+    });
 
-    // Add to front of list (newest first)
-    this.appliedPatches.unshift(patch);
+    return patchId;
+  }
+
+  /**
+   * Narrow a prepared patch that is already on disk to the parts accepted on
+   * the phone. Files left out of the selection are restored from their
+   * snapshots and dropped from the record; partly accepted files are rebuilt
+   * from their before-state with just the chosen hunks and lines. Returns
+   * false if nothing was accepted.
+   */
+  applySelection(patchId: string, files: FileDiff[], selection: FileSelection[]): boolean {
+    const patch = this.preparedPatches.get(patchId);
+    if (!patch) return false;
+
+    const dropped = new Set<string>();
+    for (const file of files) {
+      const paths = getFilePaths(file);
+      const snapshots = patch.snapshots.filter((s) => paths.includes(s.path));
+      const chosen = selection.find((s) => s.path === file.path);
+
+      if (!chosen) {
+        this.restoreSnapshots(snapshots, 'before');
+        dropped.add(file.path);
+        continue;
+      }
+      if (selectsWholeFile(file, chosen)) continue;
+
+      const before = snapshots.find((s) => s.path === (file.oldPath ?? file.path))?.before;
+      const original = before ? fs.readFileSync(this.getObjectPath(before.hash), 'utf8') : '';
+      const content = applySelection(original, file.diff, chosen.hunks ?? []);
+      if (content === original && !file.oldPath) {
+        // None of the file's changes were accepted after all
+        this.restoreSnapshots(snapshots, 'before');
+        dropped.add(file.path);
+        continue;
+      }
 
-    // Trim to max size
-    if (this.appliedPatches.length > this.maxPatches) {
-      this.appliedPatches = this.appliedPatches.slice(0, this.maxPatches);
+      const fullPath = this.resolveProjectPath(file.path);
+      writeRegularFile(fullPath, content, before?.mode);
     }
 
-    return patchId;
+    this.keepFiles(patch, (file) => !dropped.has(file.path));
+    return patch.files.length > 0;
+  }
+
+  /**
+   * Replace a prepared patch with the version edited on the phone. The edited
+   * diff is checked with `git apply --check` and applied to the files'
+   * before-state in a scratch directory, and the results are written to the
+   * working tree, whether or not the agent's version is already on disk.
+   * Files the edited diff leaves out are restored and dropped from the patch.
+   */
+  applyEditedDiff(patchId: string, diffText: string, options: EditOptions = {}): EditResult {
+    const patch = this.preparedPatches.get(patchId);
+    if (!patch) {
+      return { success: false, error: 'Patch not found' };
+    }
+
+    const check = validateEditedDiff(diffText, patch.snapshots.map((s) => s.path));
+    if (check.error) {
+      return { success: false, error: check.error };
+    }
+
+    const scratch = fs.mkdtempSync(path.join(os.tmpdir(), 'doomcode-edit-'));
+    try {
+      for (const snapshot of patch.snapshots) {
+        if (!snapshot.before) continue;
+        const scratchPath = resolveInside(scratch, snapshot.path);
+        fs.mkdirSync(path.dirname(scratchPath), { recursive: true });
+        fs.copyFileSync(this.getObjectPath(snapshot.before.hash), scratchPath);
+        fs.chmodSync(scratchPath, snapshot.before.mode);
+      }
+
+      const patchText = diffText.endsWith('\n') ? diffText : `${diffText}\n`;
+      try {
+        gitApply(scratch, patchText, ['--check']);
+        if (options.dryRun) return { success: true };
+        gitApply(scratch, patchText);
+      } catch (error) {
+        return { success: false, error: gitApplyError(error) };
+      }
+
+      const results = patch.snapshots.map((snapshot) => {
+        const scratchPath = resolveInside(scratch, snapshot.path);
+        return {
+          ...snapshot,
+          after: isRegularFile(scratchPath)
+            ? this.storeObject({
+                content: fs.readFileSync(scratchPath),
+                mode: fs.statSync(scratchPath).mode & 0o7777,
+              })
+            : null,
+        };
+      });
+      this.restoreSnapshots(results, 'after');
+    } finally {
+      fs.rmSync(scratch, { recursive: true, force: true });
+    }
+
+    this.keepFiles(patch, (file) => getFilePaths(file).some((p) => check.paths.includes(p)));
+    return { success: true };
   }
 
   /**
-   * Finalize patch record after application by capturing after-state hashes.
+   * Forget a prepared patch that was rejected.
+   */
+  discardPatch(patchId: string): void {
+    if (this.preparedPatches.delete(patchId)) {
+      this.collectGarbage();
+    }
+  }
+
+  /**
+   * Finalize patch record after application by snapshotting the after-state.
    */
   async finalizePatch(patchId: string): Promise<AppliedPatch | null> {
-    const patch = this.appliedPatches.find((p) => p.patchId === patchId);
+    const patch = this.preparedPatches.get(patchId);
     if (!patch) return null;
+    this.preparedPatches.delete(patchId);
 
-    // Update after hashes
+    // Stored now: by the time the patch is undone its after-state may be gone from disk
+    for (const snapshot of patch.snapshots) {
+      snapshot.after = this.snapshotFile(snapshot.path);
+    }
     for (const file of patch.files) {
-      const filePath = path.join(this.workingDirectory, file.path);
-      if (fs.existsSync(filePath)) {
-        const content = fs.readFileSync(filePath, 'utf8');
-        file.afterHash = this.hashContent(content);
-      }
+      file.afterHash = patch.snapshots.find((s) => s.path === file.path)?.after?.hash ?? '';
     }
 
-    return patch;
+    // Add to front of list (newest first)
+    patch.timestamp = Date.now();
+    this.appliedPatches.unshift(patch);
+    this.savePatch(patch);
+
+    // A new change starts a new history; undone patches can no longer be redone
+    if (this.redoStack.length > 0) {
+      this.redoStack = [];
+      this.saveRedoStack();
+      this.collectGarbage();
+    }
+
+    this.prune();
+
+    return toAppliedPatch(patch);
   }
 
   /**
-   * Undo a specific patch by applying its reverse diff.
-   * Verifies file state before reverting to ensure determinism.
+   * Undo a specific patch by restoring its before-snapshots.
+   * Refuses if any file drifted from the state the patch left it in.
    */
-  async undoPatch(patchId: string): Promise<UndoResult> {
+  async undoPatch(patchId: string, options: UndoOptions = {}): Promise<UndoResult> {
     const patch = this.appliedPatches.find((p) => p.patchId === patchId);
     if (!patch) {
       return { success: false, error: 'Patch not found', revertedFiles: [] };
     }
 
-    const revertedFiles: string[] = [];
+    const affectedFiles = patch.snapshots.map((s) => s.path);
 
     try {
-      // Verify current state matches expected "after" state for all files
-      for (const file of patch.files) {
-        const filePath = path.join(this.workingDirectory, file.path);
-
-        if (fs.existsSync(filePath)) {
-          const currentHash = this.hashContent(fs.readFileSync(filePath, 'utf8'));
-          if (file.afterHash && currentHash !== file.afterHash) {
-            return {
-              success: false,
-              error: `File ${file.path} has been modified since patch was applied`,
-              revertedFiles,
-            };
-          }
-        } else if (file.afterHash) {
-          // File was supposed to exist but doesn't
-          return {
-            success: false,
-            error: `File ${file.path} no longer exists`,
-            revertedFiles,
-          };
-        }
+      const { conflicts } = this.revert(patch, patch.files, !!options.dryRun);
+
+      if (conflicts.length > 0) {
+        // The undo is refused as a whole, so nothing would be reverted
+        return {
+          success: false,
+          error: `${conflicts.length} file(s) changed since the patch was applied`,
+          revertedFiles: [],
+          conflicts,
+        };
       }
 
-      // Apply reverse diffs in reverse order (last file first)
-      for (const file of [...patch.files].reverse()) {
-        if (file.reverseDiff) {
-          await this.applyReverseDiff(file.path, file.reverseDiff);
-          revertedFiles.push(file.path);
+      if (options.dryRun) {
+        return { success: true, revertedFiles: affectedFiles, conflicts: [] };
+      }
+
+      this.collectGarbage();
+      return { success: true, revertedFiles: affectedFiles };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error during undo',
+        revertedFiles: [],
+      };
+    }
+  }
+
+  /**
+   * Undo every patch from the newest back to and including `toPatchId`, newest first.
+   * Stops at the first patch with conflicts; older patches are left untouched.
+   */
+  async undoRange(toPatchId: string, options: UndoOptions = {}): Promise<PatchHistoryResult> {
+    const index = this.appliedPatches.findIndex((p) => p.patchId === toPatchId);
+    if (index === -1) {
+      return { success: false, error: 'Patch not found', patches: [] };
+    }
+
+    const dryRun = !!options.dryRun;
+    const simulated: SimulatedState | undefined = dryRun ? new Map() : undefined;
+    const patches: PatchOutcome[] = [];
+    let blocked = false;
+
+    try {
+      for (const patch of this.appliedPatches.slice(0, index + 1)) {
+        if (blocked) {
+          patches.push(skippedOutcome(patch));
+          continue;
         }
+        const { outcome } = this.revert(patch, patch.files, dryRun, simulated);
+        patches.push(outcome);
+        blocked = outcome.status === 'conflict';
       }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error during undo',
+        patches,
+      };
+    } finally {
+      if (!dryRun) this.collectGarbage();
+    }
 
-      // Remove from history
-      this.appliedPatches = this.appliedPatches.filter((p) => p.patchId !== patchId);
+    return {
+      success: !blocked,
+      error: blocked ? 'Stopped at a patch whose files changed since it was applied' : undefined,
+      patches,
+    };
+  }
+
+  /**
+   * Undo only the given files of a patch. The patch stays in history with its other files.
+   */
+  async undoFiles(
+    patchId: string,
+    filePaths: string[],
+    options: UndoOptions = {}
+  ): Promise<PatchHistoryResult> {
+    const patch = this.appliedPatches.find((p) => p.patchId === patchId);
+    if (!patch) {
+      return { success: false, error: 'Patch not found', patches: [] };
+    }
 
-      return { success: true, revertedFiles };
+    const files = patch.files.filter((file) => filePaths.includes(file.path));
+    if (files.length === 0) {
+      return {
+        success: false,
+        error: 'None of the requested files are in this patch',
+        patches: [],
+      };
+    }
+
+    try {
+      const { outcome } = this.revert(patch, files, !!options.dryRun);
+      if (!options.dryRun) this.collectGarbage();
+
+      const conflicted = outcome.status === 'conflict';
+      return {
+        success: !conflicted,
+        error: conflicted ? 'Some requested files changed since the patch was applied' : undefined,
+        patches: [outcome],
+      };
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error during undo',
-        revertedFiles,
+        patches: [],
+      };
+    }
+  }
+
+  /**
+   * Reapply the most recently undone patch.
+   */
+  async redo(options: UndoOptions = {}): Promise<PatchHistoryResult> {
+    const entry = this.redoStack[0];
+    if (!entry) {
+      return { success: false, error: 'Nothing to redo', patches: [] };
+    }
+
+    const conflicts = this.findConflicts(entry.snapshots, 'redo');
+    if (conflicts.length > 0) {
+      return {
+        success: false,
+        error: `${conflicts.length} file(s) changed since the patch was undone`,
+        patches: [conflictOutcome(entry, entry.files, conflicts)],
+      };
+    }
+
+    const outcome: PatchOutcome = {
+      patchId: entry.patchId,
+      status: 'reapplied',
+      files: entry.files.map((file) => ({ path: file.path, outcome: 'reapplied' })),
+    };
+
+    try {
+      this.assertObjectsExist(entry.snapshots, 'after');
+      if (options.dryRun) {
+        return { success: true, patches: [outcome] };
+      }
+
+      this.restoreSnapshots(entry.snapshots, 'after');
+      this.redoStack.shift();
+      this.saveRedoStack();
+
+      // Merge back into the patch if some of its files were never undone
+      const existing = this.appliedPatches.find((p) => p.patchId === entry.patchId);
+      if (existing) {
+        existing.files.push(...entry.files);
+        existing.snapshots.push(...entry.snapshots);
+        this.savePatch(existing);
+      } else {
+        this.appliedPatches.push(entry);
+        this.appliedPatches.sort((a, b) => b.timestamp - a.timestamp);
+        this.savePatch(entry);
+      }
+      this.collectGarbage();
+
+      return { success: true, patches: [outcome] };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error during redo',
+        patches: [],
       };
     }
   }
@@ -162,142 +506,513 @@ export class PatchTracker {
    * Get list of applied patches (for status queries).
    */
   getAppliedPatches(): AppliedPatch[] {
-    return [...this.appliedPatches];
+    return this.appliedPatches.map(toAppliedPatch);
+  }
+
+  /**
+   * Undone patches that can be redone, most recently undone first.
+   */
+  getRedoStack(): AppliedPatch[] {
+    return this.redoStack.map(toAppliedPatch);
   }
 
   /**
    * Get a specific patch by ID.
    */
   getPatch(patchId: string): AppliedPatch | undefined {
-    return this.appliedPatches.find((p) => p.patchId === patchId);
+    const patch = this.appliedPatches.find((p) => p.patchId === patchId);
+    return patch ? toAppliedPatch(patch) : undefined;
   }
 
   /**
    * Clear all patch history.
    */
   clearHistory(): void {
+    for (const patch of this.appliedPatches) {
+      this.deletePatchFile(patch.patchId);
+    }
     this.appliedPatches = [];
+    this.redoStack = [];
+    this.saveRedoStack();
+    this.collectGarbage();
   }
 
   /**
-   * Hash file content for state verification.
+   * Drop patches beyond the retention count or older than the retention age.
    */
-  private hashContent(content: string): string {
-    return createHash('sha256').update(content).digest('hex');
+  prune(): void {
+    const cutoff = Date.now() - this.retention.maxAgeMs;
+    const expired = this.appliedPatches.filter(
+      (patch, index) => index >= this.retention.maxPatches || patch.timestamp < cutoff
+    );
+    for (const patch of expired) {
+      this.removePatch(patch.patchId);
+    }
+    if (expired.length > 0) {
+      this.collectGarbage();
+    }
   }
 
   /**
-   * Generate a reverse diff by swapping + and - lines.
+   * Revert some or all files of a patch. Without conflicts (and outside a dry run) the
+   * files are restored, removed from the patch and pushed onto the redo stack.
    */
-  private generateReverseDiff(diff: string): string {
-    const lines = diff.split('\n');
-    return lines
-      .map((line) => {
-        // Swap + and - lines (but not header lines like +++ or ---)
-        if (line.startsWith('+') && !line.startsWith('+++')) {
-          return '-' + line.slice(1);
-        } else if (line.startsWith('-') && !line.startsWith('---')) {
-          return '+' + line.slice(1);
+  private revert(
+    patch: StoredPatch,
+    files: PatchedFile[],
+    dryRun: boolean,
+    simulated?: SimulatedState
+  ): { outcome: PatchOutcome; conflicts: UndoConflict[] } {
+    const snapshotPaths = new Set(files.flatMap(getFilePaths));
+    const snapshots = patch.snapshots.filter((s) => snapshotPaths.has(s.path));
+
+    const conflicts = this.findConflicts(snapshots, 'undo', simulated);
+    if (conflicts.length > 0) {
+      return { outcome: conflictOutcome(patch, files, conflicts), conflicts };
+    }
+
+    this.assertObjectsExist(snapshots, 'before');
+
+    const selected = new Set(files.map((file) => file.path));
+    const outcome: PatchOutcome = {
+      patchId: patch.patchId,
+      status: files.length < patch.files.length ? 'partial' : 'reverted',
+      files: patch.files.map((file) => ({
+        path: file.path,
+        outcome: selected.has(file.path) ? 'reverted' : 'skipped',
+      })),
+    };
+
+    if (simulated) {
+      for (const snapshot of snapshots) {
+        simulated.set(snapshot.path, snapshot.before?.hash ?? null);
+      }
+    }
+    if (dryRun) {
+      return { outcome, conflicts };
+    }
+
+    // Keep what the patch produced so the undo can be redone
+    for (const snapshot of snapshots) {
+      if (snapshot.after && this.readFileState(snapshot.path)?.hash === snapshot.after.hash) {
+        this.snapshotFile(snapshot.path);
+      }
+    }
+
+    this.restoreSnapshots(snapshots, 'before');
+
+    const remainingFiles = patch.files.filter((file) => !selected.has(file.path));
+    if (remainingFiles.length === 0) {
+      this.removePatch(patch.patchId);
+    } else {
+      patch.files = remainingFiles;
+      patch.snapshots = patch.snapshots.filter((s) => !snapshotPaths.has(s.path));
+      this.savePatch(patch);
+    }
+
+    this.pushRedo({ ...patch, files, snapshots });
+
+    return { outcome, conflicts };
+  }
+
+  private pushRedo(entry: StoredPatch): void {
+    // Undoing more files of a partially undone patch extends its existing redo entry
+    const existing = this.redoStack.find((p) => p.patchId === entry.patchId);
+    const merged = existing
+      ? {
+          ...existing,
+          files: [...entry.files, ...existing.files],
+          snapshots: [...entry.snapshots, ...existing.snapshots],
         }
-        return line;
-      })
-      .join('\n');
+      : entry;
+
+    this.redoStack = [merged, ...this.redoStack.filter((p) => p.patchId !== entry.patchId)];
+    this.redoStack = this.redoStack.slice(0, this.retention.maxPatches);
+    this.saveRedoStack();
   }
 
   /**
-   * Apply a reverse diff using git apply.
+   * Compare each path with the state it should be in before moving it. A path already
+   * at the target state is not a conflict; restoring it is a no-op.
    */
-  private async applyReverseDiff(filePath: string, reverseDiff: string): Promise<void> {
-    const tmpFile = path.join(
-      require('os').tmpdir(),
-      `doomcode-reverse-${Date.now()}-${randomUUID().slice(0, 8)}.patch`
-    );
+  private findConflicts(
+    snapshots: FileSnapshot[],
+    direction: Direction,
+    simulated?: SimulatedState
+  ): UndoConflict[] {
+    const conflicts: UndoConflict[] = [];
+
+    for (const snapshot of snapshots) {
+      const current = simulated?.has(snapshot.path)
+        ? (simulated.get(snapshot.path) ?? null)
+        : (this.readFileState(snapshot.path)?.hash ?? null);
+      const expected = direction === 'undo' ? snapshot.after : snapshot.before;
+      const target = direction === 'undo' ? snapshot.before : snapshot.after;
+
+      if (current === (expected?.hash ?? null)) continue;
+      if (current === (target?.hash ?? null)) continue;
+
+      conflicts.push({
+        path: snapshot.path,
+        reason: current === null ? 'missing' : !expected ? 'created' : 'modified',
+      });
+    }
 
-    try {
-      // Write the reverse diff to a temp file
-      fs.writeFileSync(tmpFile, reverseDiff, 'utf8');
+    return conflicts;
+  }
 
-      // Try to apply using git apply
-      try {
-        execSync(`git apply --check "${tmpFile}"`, {
-          cwd: this.workingDirectory,
-          stdio: 'pipe',
-        });
-        execSync(`git apply "${tmpFile}"`, {
-          cwd: this.workingDirectory,
-          stdio: 'pipe',
-        });
-      } catch (gitError) {
-        // Git apply failed, try manual revert
-        console.warn(`git apply failed for ${filePath}, attempting manual revert`);
-        this.manualRevert(filePath, reverseDiff);
+  private assertObjectsExist(snapshots: FileSnapshot[], side: 'before' | 'after'): void {
+    for (const snapshot of snapshots) {
+      const state = snapshot[side];
+      if (state && !fs.existsSync(this.getObjectPath(state.hash))) {
+        throw new Error(`Snapshot of ${snapshot.path} is missing from ${this.objectsDir}`);
       }
-    } finally {
-      // Clean up temp file
-      if (fs.existsSync(tmpFile)) {
-        fs.unlinkSync(tmpFile);
+    }
+  }
+
+  /**
+   * Narrow a prepared patch to some of its files, with the snapshots they need.
+   */
+  private keepFiles(patch: StoredPatch, keep: (file: PatchedFile) => boolean): void {
+    patch.files = patch.files.filter(keep);
+    patch.snapshots = patch.snapshots.filter((snapshot) =>
+      patch.files.some((file) => getFilePaths(file).includes(snapshot.path))
+    );
+  }
+
+  /**
+   * Write each path's before- or after-state to disk. Removals go first, so a
+   * rename's new path is gone before the old path comes back.
+   */
+  private restoreSnapshots(snapshots: FileSnapshot[], side: 'before' | 'after'): void {
+    const ordered = [...snapshots].sort((a, b) => Number(!!a[side]) - Number(!!b[side]));
+
+    for (const snapshot of ordered) {
+      const fullPath = this.resolveProjectPath(snapshot.path);
+      const state = snapshot[side];
+
+      if (!state) {
+        fs.rmSync(fullPath, { force: true });
+        continue;
       }
+
+      writeRegularFile(fullPath, fs.readFileSync(this.getObjectPath(state.hash)), state.mode);
     }
   }
 
   /**
-   * Fallback: manually revert a file by parsing the reverse diff.
-   * This is a simplified implementation for basic cases.
+   * Record a file's current state and store its content as an object.
    */
-  private manualRevert(filePath: string, reverseDiff: string): void {
-    const fullPath = path.join(this.workingDirectory, filePath);
+  private snapshotFile(filePath: string): FileState | null {
+    const fullPath = this.resolveProjectPath(filePath);
+    if (!isRegularFile(fullPath)) return null;
+
+    return this.storeObject({
+      content: fs.readFileSync(fullPath),
+      mode: fs.statSync(fullPath).mode & 0o7777,
+    });
+  }
+
+  private storeObject(file: BaselineFile | null): FileState | null {
+    if (!file) return null;
+
+    const { content } = file;
+    const state = { hash: this.hashContent(content), mode: file.mode };
+
+    const objectPath = this.getObjectPath(state.hash);
+    if (!fs.existsSync(objectPath)) {
+      makeProjectDataDir(this.objectsDir);
+      fs.writeFileSync(objectPath, content);
+    }
 
-    // For deleted files (reverse of add), just delete
-    if (reverseDiff.includes('new file mode')) {
-      if (fs.existsSync(fullPath)) {
-        fs.unlinkSync(fullPath);
+    return state;
+  }
+
+  private readFileState(filePath: string): FileState | null {
+    const fullPath = this.resolveProjectPath(filePath);
+    if (!isRegularFile(fullPath)) return null;
+
+    return {
+      hash: this.hashContent(fs.readFileSync(fullPath)),
+      mode: fs.statSync(fullPath).mode & 0o7777,
+    };
+  }
+
+  private getObjectPath(hash: string): string {
+    if (!OBJECT_HASH_PATTERN.test(hash)) {
+      throw new Error(`Invalid snapshot hash ${JSON.stringify(hash)}`);
+    }
+    return path.join(this.objectsDir, hash);
+  }
+
+  /**
+   * Absolute path of a project file. Throws for paths that lead outside the
+   * working directory, including through a symlinked directory.
+   */
+  private resolveProjectPath(filePath: string): string {
+    const fullPath = resolveInside(this.workingDirectory, filePath);
+
+    let existing = path.dirname(fullPath);
+    while (!fs.existsSync(existing)) existing = path.dirname(existing);
+    const root = fs.realpathSync(this.workingDirectory);
+    const real = fs.realpathSync(existing);
+    if (real !== root && !isInside(root, real)) {
+      throw new Error(`Refusing to touch ${filePath}: it is outside the project`);
+    }
+
+    return fullPath;
+  }
+
+  /**
+   * Delete stored objects no longer referenced by any applied, prepared or undone patch.
+   * Both sides are kept, as an applied patch needs its after-state to be redone once undone.
+   */
+  private collectGarbage(): void {
+    if (!fs.existsSync(this.objectsDir)) return;
+
+    const referenced = new Set<string>();
+    const patches = [...this.appliedPatches, ...this.preparedPatches.values(), ...this.redoStack];
+    for (const patch of patches) {
+      for (const snapshot of patch.snapshots) {
+        if (snapshot.before) referenced.add(snapshot.before.hash);
+        if (snapshot.after) referenced.add(snapshot.after.hash);
       }
-      return;
-    }
-
-    // For added files (reverse of delete), we'd need the original content
-    // This is a limitation - we should store original content for deleted files
-    if (reverseDiff.includes('deleted file mode')) {
-      console.warn(`Cannot restore deleted file ${filePath} - original content not preserved`);
-      return;
-    }
-
-    // For modified files, try line-by-line patch
-    // This is a simplified implementation
-    if (fs.existsSync(fullPath)) {
-      const content = fs.readFileSync(fullPath, 'utf8');
-      const lines = content.split('\n');
-      const diffLines = reverseDiff.split('\n');
-
-      // Parse diff hunks and apply changes
-      // Note: This is a basic implementation and may not handle all edge cases
-      let outputLines = [...lines];
-      let lineOffset = 0;
-
-      for (const diffLine of diffLines) {
-        if (diffLine.startsWith('@@')) {
-          // Parse hunk header: @@ -start,count +start,count @@
-          const match = diffLine.match(/@@ -(\d+),?\d* \+(\d+),?\d* @@/);
-          if (match) {
-            lineOffset = parseInt(match[2], 10) - 1;
-          }
-        } else if (diffLine.startsWith('+') && !diffLine.startsWith('+++')) {
-          // Add line
-          const lineContent = diffLine.slice(1);
-          outputLines.splice(lineOffset, 0, lineContent);
-          lineOffset++;
-        } else if (diffLine.startsWith('-') && !diffLine.startsWith('---')) {
-          // Remove line
-          if (outputLines[lineOffset] === diffLine.slice(1)) {
-            outputLines.splice(lineOffset, 1);
+    }
+
+    try {
+      for (const name of fs.readdirSync(this.objectsDir)) {
+        if (!referenced.has(name)) {
+          fs.rmSync(path.join(this.objectsDir, name), { force: true });
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to clean up patch snapshots:', error);
+    }
+  }
+
+  private removePatch(patchId: string): void {
+    this.appliedPatches = this.appliedPatches.filter((p) => p.patchId !== patchId);
+    this.deletePatchFile(patchId);
+  }
+
+  private getPatchFilePath(patchId: string): string {
+    // Agent-supplied IDs are not guaranteed to be filename-safe
+    return path.join(this.patchesDir, `${patchId.replace(/[^\w.-]/g, '_')}.json`);
+  }
+
+  private savePatch(patch: StoredPatch): void {
+    try {
+      makeProjectDataDir(this.patchesDir);
+      fs.writeFileSync(this.getPatchFilePath(patch.patchId), JSON.stringify(patch), 'utf8');
+    } catch (error) {
+      console.warn(`Failed to save patch ${patch.patchId}; it will not survive a restart:`, error);
+    }
+  }
+
+  private deletePatchFile(patchId: string): void {
+    try {
+      fs.rmSync(this.getPatchFilePath(patchId), { force: true });
+    } catch (error) {
+      console.warn(`Failed to delete stored patch ${patchId}:`, error);
+    }
+  }
+
+  private saveRedoStack(): void {
+    try {
+      makeProjectDataDir(path.dirname(this.redoPath));
+      fs.writeFileSync(this.redoPath, JSON.stringify(this.redoStack), 'utf8');
+    } catch (error) {
+      console.warn('Failed to save the redo stack:', error);
+    }
+  }
+
+  /**
+   * Load applied patches and the redo stack saved by earlier runs.
+   */
+  private loadHistory(): void {
+    if (fs.existsSync(this.patchesDir)) {
+      for (const name of fs.readdirSync(this.patchesDir)) {
+        if (!name.endsWith('.json')) continue;
+        try {
+          const patch = JSON.parse(
+            fs.readFileSync(path.join(this.patchesDir, name), 'utf8')
+          ) as StoredPatch;
+          if (isStoredPatch(patch)) {
+            this.appliedPatches.push(patch);
+          } else {
+            console.warn(`Skipping invalid patch record ${name}`);
           }
-        } else if (!diffLine.startsWith('\\')) {
-          // Context line
-          lineOffset++;
+        } catch (error) {
+          console.warn(`Skipping unreadable patch record ${name}:`, error);
         }
       }
 
-      fs.writeFileSync(fullPath, outputLines.join('\n'), 'utf8');
+      this.appliedPatches.sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    if (fs.existsSync(this.redoPath)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(this.redoPath, 'utf8')) as StoredPatch[];
+        this.redoStack = Array.isArray(parsed) ? parsed.filter(isStoredPatch) : [];
+        if (!Array.isArray(parsed) || this.redoStack.length < parsed.length) {
+          console.warn(`Skipping invalid entries in the redo stack ${this.redoPath}`);
+        }
+      } catch (error) {
+        console.warn(`Failed to read the redo stack ${this.redoPath}:`, error);
+      }
     }
   }
+
+  /**
+   * Hash file content for state verification.
+   */
+  private hashContent(content: Buffer): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+}
+
+/**
+ * Run `git apply` on plain files in a directory outside any repository.
+ */
+function gitApply(directory: string, patchText: string, args: string[] = []): void {
+  execSync(['git apply', ...args, '-'].join(' '), {
+    cwd: directory,
+    input: patchText,
+    // Keep git from finding a repository above the scratch directory
+    env: { ...process.env, GIT_CEILING_DIRECTORIES: path.dirname(directory) },
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+}
+
+function gitApplyError(error: unknown): string {
+  const stderr = (error as { stderr?: Buffer | string }).stderr?.toString().trim();
+  if (!stderr) return error instanceof Error ? error.message : String(error);
+  return stderr
+    .split('\n')
+    .map((line) => line.replace(/^error: /, ''))
+    .join('; ');
+}
+
+function getFilePaths(file: { path: string; oldPath?: string }): string[] {
+  return file.oldPath ? [file.oldPath, file.path] : [file.path];
+}
+
+/**
+ * Whether a record read from disk is a well-formed patch whose paths stay inside
+ * the project and whose snapshots name stored objects.
+ */
+function isStoredPatch(patch: StoredPatch): boolean {
+  if (!patch || typeof patch.patchId !== 'string' || !patch.patchId) return false;
+  if (typeof patch.timestamp !== 'number') return false;
+  if (!Array.isArray(patch.files) || !Array.isArray(patch.snapshots)) return false;
+
+  const isFileState = (state: unknown): boolean => {
+    if (state === null) return true;
+    const { hash, mode } = (state ?? {}) as Partial<FileState>;
+    return (
+      typeof hash === 'string' &&
+      OBJECT_HASH_PATTERN.test(hash) &&
+      Number.isInteger(mode) &&
+      mode! >= 0 &&
+      mode! <= 0o7777
+    );
+  };
+
+  return (
+    patch.files.every(
+      (file) =>
+        !!file &&
+        isRelativePath(file.path) &&
+        (file.oldPath === undefined || isRelativePath(file.oldPath))
+    ) &&
+    patch.snapshots.every(
+      (snapshot) =>
+        !!snapshot &&
+        isRelativePath(snapshot.path) &&
+        isFileState(snapshot.before) &&
+        isFileState(snapshot.after)
+    )
+  );
+}
+
+/** A non-empty relative path that does not climb out of its root */
+function isRelativePath(value: unknown): value is string {
+  if (typeof value !== 'string' || !value || path.isAbsolute(value)) return false;
+  const normalized = path.normalize(value);
+  return normalized !== '.' && normalized !== '..' && !normalized.startsWith(`..${path.sep}`);
+}
+
+function isInside(root: string, fullPath: string): boolean {
+  const relative = path.relative(root, fullPath);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Resolve a relative path under `root`, throwing if it would end up anywhere else.
+ */
+function resolveInside(root: string, filePath: string): string {
+  const fullPath = path.resolve(root, filePath);
+  if (!isInside(root, fullPath)) {
+    throw new Error(`Refusing to touch ${filePath}: it is outside the project`);
+  }
+  return fullPath;
+}
+
+/**
+ * Write a file's content and permissions, replacing a symlink at the path
+ * instead of writing through it.
+ */
+function writeRegularFile(fullPath: string, content: Buffer | string, mode?: number): void {
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  try {
+    if (fs.lstatSync(fullPath).isSymbolicLink()) fs.rmSync(fullPath);
+  } catch {
+    // Does not exist yet
+  }
+  fs.writeFileSync(fullPath, content);
+  if (mode !== undefined) fs.chmodSync(fullPath, mode & 0o777);
+}
+
+function isRegularFile(fullPath: string): boolean {
+  try {
+    return fs.statSync(fullPath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function conflictOutcome(
+  patch: AppliedPatch,
+  files: PatchedFile[],
+  conflicts: UndoConflict[]
+): PatchOutcome {
+  const requested = new Set(files.map((file) => file.path));
+  return {
+    patchId: patch.patchId,
+    status: 'conflict',
+    files: patch.files.map((file) => {
+      const conflict = requested.has(file.path)
+        ? conflicts.find((c) => getFilePaths(file).includes(c.path))
+        : undefined;
+      return conflict
+        ? { path: file.path, outcome: 'conflict', reason: conflict.reason }
+        : { path: file.path, outcome: 'skipped' };
+    }),
+  };
+}
+
+function skippedOutcome(patch: AppliedPatch): PatchOutcome {
+  return {
+    patchId: patch.patchId,
+    status: 'skipped',
+    files: patch.files.map((file) => ({ path: file.path, outcome: 'skipped' })),
+  };
+}
+
+/**
+ * Strip desktop-only fields before a patch leaves the tracker.
+ */
+function toAppliedPatch(patch: StoredPatch): AppliedPatch {
+  const { snapshots: _snapshots, ...applied } = patch;
+  return { ...applied, files: applied.files.map((file) => ({ ...file })) };
 }
@@ -6,6 +6,7 @@
 
 import type { PermissionRequestMessage, PermissionAction } from '@doomcode/protocol';
 import { randomUUID } from 'crypto';
+import type { PermissionPatternConfig } from './adapters.js';
 
 interface DetectionPattern {
   regex: RegExp;
@@ -73,10 +74,34 @@ const PATTERNS: DetectionPattern[] = [
   },
 ];
 
+/**
+ * Turn an adapter-configured pattern into a detection pattern.
+ */
+function fromConfig(config: PermissionPatternConfig): DetectionPattern {
+  return {
+    regex: new RegExp(config.pattern, 'i'),
+    action: config.action,
+    extractDetails: (match) => ({
+      description: config.description.replace(/\$(\d+)/g, (_, n) => match[Number(n)] ?? ''),
+      details: {
+        path: config.pathGroup !== undefined ? match[config.pathGroup] : undefined,
+        command: config.commandGroup !== undefined ? match[config.commandGroup] : undefined,
+      },
+    }),
+  };
+}
+
 export class PermissionDetector {
+  private patterns: DetectionPattern[];
+
+  /** Agent-specific patterns take precedence over the generic ones */
+  constructor(agentPatterns: PermissionPatternConfig[] = []) {
+    this.patterns = [...agentPatterns.map(fromConfig), ...PATTERNS];
+  }
+
   detect(output: string): PermissionRequestMessage | null {
     // Check against each pattern
-    for (const pattern of PATTERNS) {
+    for (const pattern of this.patterns) {
       const match = output.match(pattern.regex);
       if (match) {
         const { description, details } = pattern.extractDetails(match);
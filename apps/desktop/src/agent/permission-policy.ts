@@ -0,0 +1,313 @@
+/**
+ * Permission Policy
+ *
+ * Decides whether a permission request can be answered on the desktop without
+ * paging the phone. Combines the agent's ToolPermissions flags with remembered
+ * "always" decisions, which are persisted per project under
+ * `~/.doomcode/projects/` (see getPermissionRulesPath). Approve rules need a
+ * path, command or URL scope; one covering every request of an action is refused.
+ *
+ * Order of precedence:
+ *   1. ToolPermissions that forbid the action (e.g. allowShellCommands: false)
+ *   2. deny rules
+ *   3. approve rules
+ *   4. ToolPermissions that pre-approve the action (writes without requireApprovalForWrites)
+ *   5. otherwise ask the phone
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import type {
+  PermissionAction,
+  PermissionDecision,
+  PermissionRequestMessage,
+  PermissionRule,
+  PermissionRuleScope,
+  ToolPermissions,
+} from '@doomcode/protocol';
+import { getProjectStateDir } from '../project-state.js';
+import { evaluateToolPermission, type ToolPermissionVerdict } from './agent-config.js';
+
+export interface PolicyResult {
+  verdict: ToolPermissionVerdict;
+  /** Human-readable reason for an automatic answer */
+  reason?: string;
+  rule?: PermissionRule;
+}
+
+/** The parts of a permission request the policy looks at */
+export type PolicyRequest = Pick<PermissionRequestMessage, 'action' | 'details'>;
+
+/**
+ * Shell syntax that chains or redirects commands. A command containing any of these
+ * is never auto-approved by prefix, otherwise `git status; rm -rf ~` would match `git status`.
+ */
+const SHELL_CONTROL_PATTERN = /[;&|`<>\n]|\$\(/;
+
+/**
+ * Rule match counts are written at most this often; rule changes are written at
+ * once. A diff is evaluated file by file, so every match adds up quickly.
+ */
+const MATCH_SAVE_DELAY_MS = 5_000;
+
+/**
+ * Where a project's rules are kept. Not inside the project, where a cloned
+ * repository could bring its own approve rules.
+ */
+export function getPermissionRulesPath(workingDirectory: string): string {
+  return path.join(getProjectStateDir(workingDirectory), 'permission-rules.json');
+}
+
+export class PermissionPolicy {
+  private workingDirectory: string;
+  private rulesPath: string;
+  private rules: PermissionRule[] = [];
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(workingDirectory: string) {
+    this.workingDirectory = workingDirectory;
+    this.rulesPath = getPermissionRulesPath(workingDirectory);
+    this.load();
+
+    const projectRulesPath = path.join(workingDirectory, '.doomcode', 'permission-rules.json');
+    if (fs.existsSync(projectRulesPath)) {
+      console.warn(
+        `Ignoring ${projectRulesPath}: permission rules are only read from ${this.rulesPath}`
+      );
+    }
+  }
+
+  listRules(): PermissionRule[] {
+    return [...this.rules];
+  }
+
+  evaluate(request: PolicyRequest, toolPermissions: ToolPermissions): PolicyResult {
+    const flagVerdict = evaluateToolPermission(toolPermissions, request.action);
+    if (flagVerdict === 'deny') {
+      return { verdict: 'deny', reason: 'tool permissions' };
+    }
+
+    for (const decision of ['deny', 'approve'] as const) {
+      const rule = this.rules.find((r) => r.decision === decision && this.matches(r, request));
+      if (rule) {
+        rule.matchCount += 1;
+        rule.lastMatchedAt = Date.now();
+        this.scheduleSave();
+        return {
+          verdict: decision === 'approve' ? 'allow' : 'deny',
+          reason: `rule: ${rule.description}`,
+          rule,
+        };
+      }
+    }
+
+    if (flagVerdict === 'allow') {
+      return { verdict: 'allow', reason: 'writes do not require approval' };
+    }
+
+    return { verdict: 'ask' };
+  }
+
+  /**
+   * Remember an approve_always/deny_always answer. Returns the new rule, or null
+   * for one-off decisions and for approvals with nothing to scope them to.
+   */
+  addRule(
+    request: PermissionRequestMessage,
+    decision: PermissionDecision,
+    scope?: PermissionRuleScope
+  ): PermissionRule | null {
+    if (decision !== 'approve_always' && decision !== 'deny_always') {
+      return null;
+    }
+
+    const ruleScope = scope ?? this.defaultScope(request);
+    if (decision === 'approve_always' && !hasScope(ruleScope)) {
+      return null;
+    }
+
+    const rule: PermissionRule = {
+      ruleId: randomUUID(),
+      decision: decision === 'approve_always' ? 'approve' : 'deny',
+      action: request.action,
+      ...ruleScope,
+      description: describeRule(request.action, ruleScope),
+      createdAt: Date.now(),
+      matchCount: 0,
+    };
+
+    // A newer decision for the same scope replaces the old one
+    this.rules = this.rules.filter(
+      (r) =>
+        !(
+          r.action === rule.action &&
+          r.pathGlob === rule.pathGlob &&
+          r.commandPrefix === rule.commandPrefix &&
+          r.urlPrefix === rule.urlPrefix
+        )
+    );
+    this.rules.push(rule);
+    this.save();
+    return rule;
+  }
+
+  revokeRule(ruleId: string): boolean {
+    const before = this.rules.length;
+    this.rules = this.rules.filter((r) => r.ruleId !== ruleId);
+    if (this.rules.length === before) {
+      return false;
+    }
+    this.save();
+    return true;
+  }
+
+  private matches(rule: PermissionRule, request: PolicyRequest): boolean {
+    if (rule.action !== request.action) return false;
+    if (rule.decision === 'approve' && !hasScope(rule)) return false;
+
+    const { details } = request;
+
+    if (rule.pathGlob) {
+      const paths = details.files?.length ? details.files : details.path ? [details.path] : [];
+      if (paths.length === 0) return false;
+      const pattern = globToRegExp(rule.pathGlob);
+      // `**` would match any absolute path; only an absolute glob covers files outside the project
+      const covers = (filePath: string) =>
+        (!path.isAbsolute(filePath) || path.isAbsolute(rule.pathGlob!)) && pattern.test(filePath);
+      if (!paths.every((p) => covers(this.toRelativePath(p)))) return false;
+    }
+
+    if (rule.commandPrefix) {
+      const command = details.command?.trim();
+      if (!command) return false;
+      if (rule.decision === 'approve' && SHELL_CONTROL_PATTERN.test(command)) return false;
+      if (command !== rule.commandPrefix && !command.startsWith(`${rule.commandPrefix} `)) {
+        return false;
+      }
+    }
+
+    if (rule.urlPrefix) {
+      if (!details.url?.startsWith(rule.urlPrefix)) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Narrowest useful scope for a request: the exact file, the command name plus
+   * subcommand (`npm test`, `git status`), or the URL's origin.
+   */
+  private defaultScope(request: PermissionRequestMessage): PermissionRuleScope {
+    const { details } = request;
+
+    if (details.path) {
+      return { pathGlob: escapeGlob(this.toRelativePath(details.path)) };
+    }
+
+    if (details.command) {
+      const [name, sub] = details.command.trim().split(/\s+/);
+      const commandPrefix = sub && /^[A-Za-z0-9][\w:.-]*$/.test(sub) ? `${name} ${sub}` : name;
+      return { commandPrefix };
+    }
+
+    if (details.url) {
+      try {
+        return { urlPrefix: `${new URL(details.url).origin}/` };
+      } catch {
+        return { urlPrefix: details.url };
+      }
+    }
+
+    return {};
+  }
+
+  private toRelativePath(filePath: string): string {
+    const absolute = path.resolve(this.workingDirectory, filePath);
+    const relative = path.relative(this.workingDirectory, absolute);
+    // Paths outside the project stay absolute so a project glob never covers them
+    return relative.startsWith('..') || path.isAbsolute(relative) ? absolute : relative;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.rulesPath)) return;
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.rulesPath, 'utf8')) as {
+        rules?: PermissionRule[];
+      };
+      this.rules = Array.isArray(parsed.rules)
+        ? parsed.rules.filter((r) => r.decision !== 'approve' || hasScope(r))
+        : [];
+    } catch (error) {
+      console.warn(`Failed to read permission rules ${this.rulesPath}:`, error);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.save(), MATCH_SAVE_DELAY_MS);
+  }
+
+  private save(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.rulesPath), { recursive: true });
+      fs.writeFileSync(this.rulesPath, JSON.stringify({ rules: this.rules }, null, 2), 'utf8');
+    } catch (error) {
+      console.warn('Failed to write permission rules:', error);
+    }
+  }
+}
+
+function hasScope(scope: PermissionRuleScope): boolean {
+  return !!(scope.pathGlob || scope.commandPrefix || scope.urlPrefix);
+}
+
+function describeRule(action: PermissionAction, scope: PermissionRuleScope): string {
+  const target = scope.pathGlob ?? scope.commandPrefix ?? scope.urlPrefix;
+  const label = action.replace('_', ' ');
+  return target ? `${label} ${target}` : `any ${label}`;
+}
+
+/**
+ * Convert a path glob to a RegExp: `**` matches across directories, `*` and `?`
+ * within one path segment.
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]);
+    } else if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches zero directories
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeGlob(value: string): string {
+  return value.replace(/[\\*?]/g, '\\$&');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
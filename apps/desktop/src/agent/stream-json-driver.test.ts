@@ -0,0 +1,231 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { DiffPatchMessage, PermissionRequestMessage } from '@doomcode/protocol';
+import { StreamJsonDriver } from './stream-json-driver.js';
+
+/**
+ * A stand-in agent: answers each prompt with the events in $REPLY (strings are
+ * written as raw lines), records what it receives in $RECEIVED, and performs an
+ * allowed Write before reporting the tool result and ending the turn.
+ */
+const FAKE_AGENT = `
+const fs = require('fs');
+const out = (line) => process.stdout.write((typeof line === 'string' ? line : JSON.stringify(line)) + '\\n');
+require('readline').createInterface({ input: process.stdin }).on('line', (line) => {
+  fs.appendFileSync(process.env.RECEIVED, line + '\\n');
+  const message = JSON.parse(line);
+  if (message.type === 'user') {
+    for (const event of JSON.parse(process.env.REPLY)) out(event);
+  }
+  if (message.type === 'control_response' && message.response.subtype === 'success') {
+    const { behavior, updatedInput } = message.response.response;
+    if (behavior === 'allow' && updatedInput.file_path) {
+      fs.writeFileSync(updatedInput.file_path, updatedInput.content);
+      out({ type: 'user', message: { content: [{ type: 'tool_result', tool_use_id: 'tool-1', content: 'ok' }] } });
+    }
+    out({ type: 'result', subtype: 'success', duration_ms: 1200 });
+  }
+});
+`;
+
+/** Starting a node process can be slow on a busy machine */
+const eventually = (check: () => void) => vi.waitFor(check, { timeout: 5000 });
+
+const canUseTool = (toolName: string, input: Record<string, unknown>) => ({
+  type: 'control_request',
+  request_id: 'req-1',
+  request: { subtype: 'can_use_tool', tool_name: toolName, input },
+});
+
+describe('StreamJsonDriver', () => {
+  let dir: string;
+  let driver: StreamJsonDriver;
+  let output: string;
+  let diffs: DiffPatchMessage[];
+  let permissions: PermissionRequestMessage[];
+  let turns: number;
+  let exitCode: number | null;
+
+  const start = (reply: unknown[]) => {
+    const receivedPath = path.join(dir, 'received.jsonl');
+    driver = new StreamJsonDriver({
+      command: process.execPath,
+      args: ['-e', FAKE_AGENT],
+      workingDirectory: dir,
+      env: {
+        ...(process.env as Record<string, string>),
+        REPLY: JSON.stringify(reply),
+        RECEIVED: receivedPath,
+      },
+      onOutput: (_stream, data) => (output += data),
+      onPermissionRequest: (request) => permissions.push(request),
+      onDiff: (diff) => diffs.push(diff),
+      onStatusChange: () => {},
+      onTurnComplete: () => turns++,
+      onExit: (code) => (exitCode = code),
+    });
+    driver.start();
+    driver.sendPrompt('do it');
+
+    /** Messages the agent has received so far, after the prompt */
+    return () =>
+      fs
+        .readFileSync(receivedPath, 'utf8')
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line))
+        .slice(1);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'doomcode-stream-'));
+    output = '';
+    diffs = [];
+    permissions = [];
+    turns = 0;
+    exitCode = null;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    driver.stop();
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('sends the prompt and shows the agent output on the terminal', async () => {
+    const received = start([
+      'Warning: not JSON',
+      { type: 'system', subtype: 'init', model: 'test-model' },
+      {
+        type: 'assistant',
+        message: {
+          content: [
+            { type: 'text', text: 'line one\nline two' },
+            { type: 'tool_use', id: 'tool-1', name: 'Bash', input: { command: 'ls' } },
+          ],
+        },
+      },
+      { type: 'result', subtype: 'success', duration_ms: 1500, total_cost_usd: 0.01 },
+    ]);
+
+    await eventually(() => expect(turns).toBe(1));
+    expect(output).toContain('> do it');
+    expect(output).toContain('Warning: not JSON\r\n');
+    expect(output).toContain('Session started (test-model)');
+    expect(output).toContain('line one\r\nline two');
+    expect(output).toContain('● Bash\x1b[0m(ls)');
+    expect(output).toContain('(success in 1.5s, $0.0100)');
+    expect(received()).toEqual([]);
+  });
+
+  it('turns a Write request into a diff and resolves once the edit is applied', async () => {
+    fs.writeFileSync(path.join(dir, 'a.txt'), 'one\n');
+    const input = { file_path: path.join(dir, 'a.txt'), content: 'two\n' };
+    const received = start([
+      {
+        type: 'assistant',
+        message: { content: [{ type: 'tool_use', id: 'tool-1', name: 'Write', input }] },
+      },
+      canUseTool('Write', input),
+    ]);
+
+    await eventually(() => expect(diffs).toHaveLength(1));
+    const [diff] = diffs;
+    expect(diff.summary).toBe('Write a.txt');
+    expect(diff.files.map((f) => [f.path, f.status])).toEqual([['a.txt', 'modified']]);
+    expect(permissions).toEqual([]);
+
+    const applied = await driver.handlePatchDecision({
+      type: 'patch_decision',
+      patchId: diff.patchId,
+      decision: 'apply',
+    });
+    expect(applied).toBe(true);
+    expect(fs.readFileSync(path.join(dir, 'a.txt'), 'utf8')).toBe('two\n');
+    expect(received()[0].response).toEqual({
+      subtype: 'success',
+      request_id: 'req-1',
+      response: { behavior: 'allow', updatedInput: input },
+    });
+  });
+
+  it('denies a rejected edit and leaves the file alone', async () => {
+    const input = { file_path: path.join(dir, 'new.txt'), content: 'hello\n' };
+    const received = start([canUseTool('Write', input)]);
+
+    await eventually(() => expect(diffs).toHaveLength(1));
+    expect(diffs[0].files[0].status).toBe('added');
+
+    const applied = await driver.handlePatchDecision({
+      type: 'patch_decision',
+      patchId: diffs[0].patchId,
+      decision: 'reject',
+    });
+    expect(applied).toBe(false);
+    await eventually(() => expect(turns).toBe(1));
+    expect(received()[0].response.response).toMatchObject({ behavior: 'deny' });
+    expect(fs.existsSync(input.file_path)).toBe(false);
+  });
+
+  it('asks for permission before other tools and answers the agent', async () => {
+    const received = start([canUseTool('Bash', { command: 'git push' })]);
+
+    await eventually(() => expect(permissions).toHaveLength(1));
+    expect(permissions[0]).toMatchObject({
+      action: 'git',
+      description: 'Run command: git push',
+      details: { command: 'git push' },
+    });
+
+    driver.handlePermissionResponse({
+      type: 'permission_response',
+      requestId: permissions[0].requestId,
+      decision: 'deny',
+    });
+    await eventually(() => expect(turns).toBe(1));
+    expect(received()[0].response).toMatchObject({
+      request_id: 'req-1',
+      response: { behavior: 'deny' },
+    });
+  });
+
+  it('falls back to a permission prompt for an edit that does not apply', async () => {
+    fs.writeFileSync(path.join(dir, 'a.txt'), 'one\n');
+    start([
+      canUseTool('Edit', {
+        file_path: path.join(dir, 'a.txt'),
+        old_string: 'missing',
+        new_string: 'x',
+      }),
+    ]);
+
+    await eventually(() => expect(permissions).toHaveLength(1));
+    expect(permissions[0].action).toBe('file_write');
+    expect(diffs).toEqual([]);
+  });
+
+  it('refuses control requests it does not support', async () => {
+    const received = start([
+      { type: 'control_request', request_id: 'req-9', request: { subtype: 'mystery' } },
+    ]);
+
+    await eventually(() => expect(received()).toHaveLength(1));
+    expect(received()[0]).toEqual({
+      type: 'control_response',
+      response: {
+        subtype: 'error',
+        request_id: 'req-9',
+        error: 'Unsupported control request: mystery',
+      },
+    });
+  });
+
+  it('reports when the agent exits', async () => {
+    start([]);
+    driver.stop();
+    await eventually(() => expect(exitCode).toBe(0));
+  });
+});
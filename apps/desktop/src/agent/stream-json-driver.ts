@@ -0,0 +1,572 @@
+/**
+ * Stream-JSON Driver
+ *
+ * Drives agents that speak a line-delimited JSON protocol over stdin/stdout
+ * (Claude's `--input-format stream-json --output-format stream-json`).
+ * Tool permission prompts arrive as structured control requests, so they map
+ * directly to permission requests and diffs instead of being scraped from a PTY.
+ */
+
+import { execSync, spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type {
+  PermissionRequestMessage,
+  PermissionResponseMessage,
+  PermissionAction,
+  DiffPatchMessage,
+  PatchDecisionMessage,
+} from '@doomcode/protocol';
+import { formatDiff, parseDiff } from '@doomcode/diff-parser';
+import { DiffExtractor } from './diff-extractor.js';
+import type { AgentStatus } from './agent-manager.js';
+
+export interface StreamJsonDriverOptions {
+  command: string;
+  args: string[];
+  workingDirectory: string;
+  env: Record<string, string>;
+  onOutput: (stream: 'stdout' | 'stderr', data: string) => void;
+  onPermissionRequest: (request: PermissionRequestMessage) => void;
+  onDiff: (diff: DiffPatchMessage) => void;
+  onStatusChange: (status: AgentStatus) => void;
+  /** The agent finished responding to a prompt */
+  onTurnComplete?: () => void;
+  onExit: (code: number) => void;
+}
+
+type ToolInput = Record<string, unknown>;
+
+interface ContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: ToolInput;
+  tool_use_id?: string;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+}
+
+interface CanUseToolRequest {
+  subtype: 'can_use_tool';
+  tool_name: string;
+  input: ToolInput;
+  tool_use_id?: string;
+}
+
+interface StreamEvent {
+  type: string;
+  subtype?: string;
+  message?: { content?: string | ContentBlock[] };
+  request_id?: string;
+  request?: CanUseToolRequest | { subtype: string };
+  model?: string;
+  duration_ms?: number;
+  total_cost_usd?: number;
+  is_error?: boolean;
+}
+
+interface PendingToolCall {
+  controlRequestId: string;
+  toolName: string;
+  input: ToolInput;
+  toolUseId?: string;
+}
+
+/** Tools whose permission prompt is presented as a diff review */
+const FILE_EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write']);
+
+/** Lines of a tool result echoed to the terminal */
+const TOOL_RESULT_PREVIEW_LINES = 3;
+
+/** An approved edit counts as not applied if its tool result takes longer than this */
+const TOOL_RESULT_TIMEOUT_MS = 60_000;
+
+const DIM = '\x1b[2m';
+const BOLD = '\x1b[1m';
+const RED = '\x1b[31m';
+const RESET = '\x1b[0m';
+
+export class StreamJsonDriver {
+  private options: StreamJsonDriverOptions;
+  private process: ChildProcessWithoutNullStreams | null = null;
+  private diffExtractor = new DiffExtractor();
+  private lineBuffer = '';
+  private pendingPermissions = new Map<string, PendingToolCall>();
+  private pendingPatches = new Map<string, PendingToolCall>();
+  /** Tool calls announced by the assistant, used to correlate control requests */
+  private announcedToolUses = new Map<string, { name: string; input: string }>();
+  /** Resolvers waiting for a tool call to finish executing, told whether it succeeded */
+  private toolResultWaiters = new Map<string, (succeeded: boolean) => void>();
+
+  constructor(options: StreamJsonDriverOptions) {
+    this.options = options;
+  }
+
+  start(): number | undefined {
+    this.process = spawn(this.options.command, this.options.args, {
+      cwd: this.options.workingDirectory,
+      env: this.options.env,
+      stdio: 'pipe',
+    });
+
+    this.process.stdout.on('data', (buf: Buffer) => this.handleStdout(buf.toString()));
+    this.process.stderr.on('data', (buf: Buffer) => {
+      this.options.onOutput('stderr', toTerminal(buf.toString()));
+    });
+    this.process.on('exit', (code, signal) => {
+      console.log(`Agent exited with code ${code}, signal ${signal}`);
+      this.process = null;
+      this.releaseToolResultWaiters();
+      this.options.onStatusChange('idle');
+      this.options.onExit(code ?? 0);
+    });
+    this.process.on('error', (err) => {
+      console.error('Process spawn error:', err.message);
+      this.options.onStatusChange('error');
+      this.options.onOutput('stderr', `Process error: ${err.message}\r\n`);
+    });
+
+    return this.process.pid;
+  }
+
+  sendPrompt(prompt: string): void {
+    if (!this.process) {
+      console.error('>>> [AGENT] ERROR: Cannot send prompt: no process running');
+      return;
+    }
+
+    this.options.onOutput('stdout', `\r\n${BOLD}> ${toTerminal(prompt)}${RESET}\r\n\r\n`);
+    this.write({
+      type: 'user',
+      message: { role: 'user', content: prompt },
+      parent_tool_use_id: null,
+    });
+  }
+
+  handlePermissionResponse(response: PermissionResponseMessage): void {
+    const call = this.pendingPermissions.get(response.requestId);
+    if (!call) return;
+    this.pendingPermissions.delete(response.requestId);
+
+    if (response.decision === 'approve' || response.decision === 'approve_always') {
+      this.allow(call);
+    } else {
+      this.deny(call, 'The user denied this action from DoomCode.');
+    }
+  }
+
+  /**
+   * Resolves once an approved edit has been written by the agent, so callers
+   * can capture the after-state of the affected files. Resolves to false if
+   * the edit failed, or if the turn ended, the agent exited or the timeout
+   * passed without its tool result.
+   */
+  async handlePatchDecision(decision: PatchDecisionMessage): Promise<boolean> {
+    const call = this.pendingPatches.get(decision.patchId);
+    if (!call) return false;
+    this.pendingPatches.delete(decision.patchId);
+
+    if (decision.decision === 'edit') {
+      // DoomCode writes the edited version itself
+      this.deny(
+        call,
+        'The user edited this change in DoomCode and applied their version instead. ' +
+          'Read the file again before making further changes to it.'
+      );
+      return false;
+    }
+    if (decision.decision !== 'apply') {
+      this.deny(call, 'The user rejected this change from DoomCode.');
+      return false;
+    }
+
+    const applied = call.toolUseId ? this.waitForToolResult(call.toolUseId) : Promise.resolve(true);
+    this.allow(call);
+    return applied;
+  }
+
+  stop(): void {
+    if (!this.process) return;
+    try {
+      this.process.kill();
+    } catch {
+      // ignore
+    }
+    this.process = null;
+    this.releaseToolResultWaiters();
+  }
+
+  private write(payload: unknown): void {
+    try {
+      this.process?.stdin.write(JSON.stringify(payload) + '\n');
+    } catch (e) {
+      console.error('>>> [AGENT] Failed to write to agent:', e);
+    }
+  }
+
+  private handleStdout(chunk: string): void {
+    this.lineBuffer += chunk;
+    const lines = this.lineBuffer.split('\n');
+    this.lineBuffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      let event: StreamEvent;
+      try {
+        event = JSON.parse(line) as StreamEvent;
+      } catch {
+        // Not protocol output (e.g. a startup warning); show it as-is
+        this.options.onOutput('stdout', toTerminal(line) + '\r\n');
+        continue;
+      }
+
+      this.handleEvent(event);
+    }
+  }
+
+  private handleEvent(event: StreamEvent): void {
+    switch (event.type) {
+      case 'system':
+        if (event.subtype === 'init') {
+          this.options.onOutput('stdout', `${DIM}Session started${event.model ? ` (${event.model})` : ''}${RESET}\r\n`);
+        }
+        break;
+
+      case 'assistant':
+        for (const block of contentBlocks(event)) {
+          if (block.type === 'text' && block.text) {
+            this.options.onOutput('stdout', toTerminal(block.text) + '\r\n');
+          } else if (block.type === 'tool_use' && block.id && block.name) {
+            this.announcedToolUses.set(block.id, {
+              name: block.name,
+              input: JSON.stringify(block.input ?? {}),
+            });
+            this.options.onOutput(
+              'stdout',
+              `${BOLD}● ${block.name}${RESET}(${toTerminal(summarizeToolInput(block.name, block.input ?? {}))})\r\n`
+            );
+          }
+        }
+        break;
+
+      case 'user':
+        for (const block of contentBlocks(event)) {
+          if (block.type === 'tool_result' && block.tool_use_id) {
+            this.handleToolResult(block);
+          }
+        }
+        break;
+
+      case 'result': {
+        const seconds = ((event.duration_ms ?? 0) / 1000).toFixed(1);
+        const cost = event.total_cost_usd !== undefined ? `, $${event.total_cost_usd.toFixed(4)}` : '';
+        const color = event.is_error ? RED : DIM;
+        this.options.onOutput('stdout', `${color}(${event.subtype ?? 'done'} in ${seconds}s${cost})${RESET}\r\n`);
+        // Tool calls still waiting for a result will not get one in this turn
+        this.releaseToolResultWaiters();
+        this.options.onTurnComplete?.();
+        break;
+      }
+
+      case 'control_request':
+        if (event.request_id && event.request?.subtype === 'can_use_tool') {
+          this.handleCanUseTool(event.request_id, event.request as CanUseToolRequest);
+        } else if (event.request_id) {
+          this.write({
+            type: 'control_response',
+            response: {
+              subtype: 'error',
+              request_id: event.request_id,
+              error: `Unsupported control request: ${event.request?.subtype}`,
+            },
+          });
+        }
+        break;
+    }
+  }
+
+  private handleToolResult(block: ContentBlock): void {
+    const toolUseId = block.tool_use_id!;
+    this.announcedToolUses.delete(toolUseId);
+
+    const text =
+      typeof block.content === 'string'
+        ? block.content
+        : (block.content ?? []).map((c) => c.text ?? '').join('\n');
+    const lines = text.split('\n').filter((l) => l.trim());
+    const preview = lines.slice(0, TOOL_RESULT_PREVIEW_LINES).map((l) => l.slice(0, 200));
+    const more = lines.length > preview.length ? `\r\n     … +${lines.length - preview.length} lines` : '';
+    const color = block.is_error ? RED : DIM;
+    this.options.onOutput('stdout', `${color}  ⎿  ${toTerminal(preview.join('\n     ') || '(no output)')}${more}${RESET}\r\n`);
+
+    this.resolveToolResult(toolUseId, !block.is_error);
+  }
+
+  private handleCanUseTool(controlRequestId: string, request: CanUseToolRequest): void {
+    const call: PendingToolCall = {
+      controlRequestId,
+      toolName: request.tool_name,
+      input: request.input ?? {},
+      toolUseId: request.tool_use_id ?? this.findAnnouncedToolUse(request.tool_name, request.input),
+    };
+
+    this.options.onStatusChange('waiting_input');
+
+    if (FILE_EDIT_TOOLS.has(call.toolName)) {
+      const diff = this.buildEditDiff(call.toolName, call.input);
+      if (diff) {
+        this.pendingPatches.set(diff.patchId, call);
+        this.options.onDiff(diff);
+        return;
+      }
+      // Could not preview the edit - fall back to a plain permission prompt
+    }
+
+    const permissionRequest = toPermissionRequest(call.toolName, call.input);
+    this.pendingPermissions.set(permissionRequest.requestId, call);
+    this.options.onPermissionRequest(permissionRequest);
+  }
+
+  private findAnnouncedToolUse(name: string, input: ToolInput): string | undefined {
+    const serialized = JSON.stringify(input ?? {});
+    for (const [id, tool] of [...this.announcedToolUses].reverse()) {
+      if (tool.name === name && tool.input === serialized) {
+        return id;
+      }
+    }
+    return undefined;
+  }
+
+  private allow(call: PendingToolCall): void {
+    this.options.onStatusChange('running');
+    this.write({
+      type: 'control_response',
+      response: {
+        subtype: 'success',
+        request_id: call.controlRequestId,
+        response: { behavior: 'allow', updatedInput: call.input },
+      },
+    });
+  }
+
+  private deny(call: PendingToolCall, message: string): void {
+    this.options.onStatusChange('running');
+    this.write({
+      type: 'control_response',
+      response: {
+        subtype: 'success',
+        request_id: call.controlRequestId,
+        response: { behavior: 'deny', message },
+      },
+    });
+  }
+
+  private waitForToolResult(toolUseId: string): Promise<boolean> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(
+        () => this.resolveToolResult(toolUseId, false),
+        TOOL_RESULT_TIMEOUT_MS
+      );
+      this.toolResultWaiters.set(toolUseId, (succeeded) => {
+        clearTimeout(timer);
+        resolve(succeeded);
+      });
+    });
+  }
+
+  private resolveToolResult(toolUseId: string, succeeded: boolean): void {
+    const waiter = this.toolResultWaiters.get(toolUseId);
+    if (waiter) {
+      this.toolResultWaiters.delete(toolUseId);
+      waiter(succeeded);
+    }
+  }
+
+  /** Resolve every waiting tool call as failed */
+  private releaseToolResultWaiters(): void {
+    const waiters = [...this.toolResultWaiters.values()];
+    this.toolResultWaiters.clear();
+    for (const resolve of waiters) {
+      resolve(false);
+    }
+  }
+
+  /**
+   * Preview a file edit tool call as a unified diff against the current file.
+   */
+  private buildEditDiff(toolName: string, input: ToolInput): DiffPatchMessage | null {
+    const filePath = typeof input.file_path === 'string' ? input.file_path : null;
+    if (!filePath) return null;
+
+    const absolutePath = path.resolve(this.options.workingDirectory, filePath);
+    const relativePath = path.relative(this.options.workingDirectory, absolutePath);
+    const before = fs.existsSync(absolutePath) ? fs.readFileSync(absolutePath, 'utf8') : null;
+
+    const after = applyEditTool(toolName, input, before ?? '');
+    if (after === null) return null;
+
+    const diffText = unifiedDiff(before, after);
+    if (!diffText) return null;
+
+    // The diff compares temp files; point it at the real path before it is sent
+    const parsed = parseDiff(diffText);
+    if (parsed.files.length !== 1) return null;
+    const diff = this.diffExtractor.fromDiffText(
+      formatDiff({
+        ...parsed.files[0],
+        oldPath: relativePath,
+        newPath: relativePath,
+        status: before === null ? 'added' : 'modified',
+      })
+    );
+    if (!diff) return null;
+
+    return { ...diff, summary: `${toolName} ${relativePath}` };
+  }
+}
+
+function contentBlocks(event: StreamEvent): ContentBlock[] {
+  const content = event.message?.content;
+  if (!content) return [];
+  if (typeof content === 'string') return [{ type: 'text', text: content }];
+  return content;
+}
+
+/** Convert bare newlines for xterm, which expects CRLF */
+function toTerminal(text: string): string {
+  return text.replace(/\r?\n/g, '\r\n');
+}
+
+function summarizeToolInput(name: string, input: ToolInput): string {
+  const value =
+    input.command ?? input.file_path ?? input.path ?? input.pattern ?? input.url ?? input.query;
+  if (typeof value === 'string') {
+    return value.length > 80 ? `${value.slice(0, 77)}...` : value;
+  }
+  return name === 'Task' && typeof input.description === 'string' ? input.description : '';
+}
+
+function toPermissionRequest(toolName: string, input: ToolInput): PermissionRequestMessage {
+  const str = (key: string) => (typeof input[key] === 'string' ? (input[key] as string) : undefined);
+  let action: PermissionAction = 'other';
+  let description = `Use tool: ${toolName}`;
+  const details: PermissionRequestMessage['details'] = {};
+
+  switch (toolName) {
+    case 'Bash': {
+      const command = str('command') ?? '';
+      action = /^\s*git\s/.test(command) ? 'git' : 'shell_command';
+      description = `Run command: ${command}`;
+      details.command = command;
+      break;
+    }
+    case 'Read':
+    case 'NotebookRead':
+      action = 'file_read';
+      description = `Read file: ${str('file_path') ?? str('notebook_path')}`;
+      details.path = str('file_path') ?? str('notebook_path');
+      break;
+    case 'Glob':
+    case 'Grep':
+    case 'LS':
+      action = 'file_read';
+      description = `Search files: ${str('pattern') ?? str('path')}`;
+      details.path = str('path');
+      break;
+    case 'Edit':
+    case 'MultiEdit':
+    case 'Write':
+    case 'NotebookEdit':
+      action = 'file_write';
+      description = `Write to file: ${str('file_path') ?? str('notebook_path')}`;
+      details.path = str('file_path') ?? str('notebook_path');
+      break;
+    case 'WebFetch':
+      action = 'network';
+      description = `Fetch URL: ${str('url')}`;
+      details.url = str('url');
+      break;
+    case 'WebSearch':
+      action = 'network';
+      description = `Search the web: ${str('query')}`;
+      break;
+  }
+
+  return {
+    type: 'permission_request',
+    requestId: randomUUID(),
+    action,
+    description,
+    details,
+  };
+}
+
+/**
+ * Compute the file content a file edit tool call would produce.
+ * Returns null if the edit does not apply to the current content.
+ */
+function applyEditTool(toolName: string, input: ToolInput, content: string): string | null {
+  const applyOne = (text: string, edit: ToolInput): string | null => {
+    const oldString = typeof edit.old_string === 'string' ? edit.old_string : null;
+    const newString = typeof edit.new_string === 'string' ? edit.new_string : null;
+    if (oldString === null || newString === null) return null;
+    if (oldString === '') return text === '' ? newString : null;
+    if (!text.includes(oldString)) return null;
+    return edit.replace_all ? text.split(oldString).join(newString) : text.replace(oldString, () => newString);
+  };
+
+  switch (toolName) {
+    case 'Write':
+      return typeof input.content === 'string' ? input.content : null;
+    case 'Edit':
+      return applyOne(content, input);
+    case 'MultiEdit': {
+      if (!Array.isArray(input.edits)) return null;
+      let result: string | null = content;
+      for (const edit of input.edits as ToolInput[]) {
+        result = result === null ? null : applyOne(result, edit);
+      }
+      return result;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Unified diff between two versions of a file via `git diff --no-index`.
+ * A null `before` diffs against /dev/null (new file).
+ */
+function unifiedDiff(before: string | null, after: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'doomcode-diff-'));
+  try {
+    const afterPath = path.join(dir, 'after');
+    fs.writeFileSync(afterPath, after, 'utf8');
+
+    let beforePath = '/dev/null';
+    if (before !== null) {
+      beforePath = path.join(dir, 'before');
+      fs.writeFileSync(beforePath, before, 'utf8');
+    }
+
+    try {
+      execSync(`git diff --no-index --no-color --no-ext-diff -- "${beforePath}" "${afterPath}"`, {
+        encoding: 'utf-8',
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+      // Exit code 0: no differences
+      return '';
+    } catch (error) {
+      // Exit code 1 means the files differ; the diff is on stdout
+      const stdout = (error as { stdout?: string }).stdout;
+      return typeof stdout === 'string' ? stdout : '';
+    }
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AuditLog,
+  getAuditAnchorPath,
+  getAuditLogPath,
+  getAuditQuarantinePath,
+  verifyAuditLog,
+  type AuditEventInput,
+} from './audit-log.js';
+
+const event = (prompt: string): AuditEventInput => ({
+  type: 'prompt',
+  actor: 'mobile',
+  sessionId: 's1',
+  agentId: 'claude',
+  data: { prompt },
+});
+
+describe('AuditLog', () => {
+  let dir: string;
+  let home: string;
+  let logPath: string;
+  let anchorPath: string;
+
+  const writeEntries = (count: number, text = 'prompt') => {
+    const log = new AuditLog(dir);
+    for (let i = 0; i < count; i++) log.record(event(`${text} ${i}`));
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'doomcode-audit-'));
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'doomcode-home-'));
+    vi.stubEnv('HOME', home);
+    logPath = getAuditLogPath(dir);
+    anchorPath = getAuditAnchorPath(dir);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('continues the chain of an existing log', () => {
+    writeEntries(3);
+    new AuditLog(dir).record(event('after restart'));
+
+    const result = verifyAuditLog(logPath);
+    expect(result.valid).toBe(true);
+    expect(result.entries.map((e) => e.seq)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('moves a torn last line aside and continues from the entry before it', () => {
+    writeEntries(2);
+    fs.appendFileSync(logPath, '{"seq":3,"timestamp":17');
+
+    const entry = new AuditLog(dir).record(event('after crash'));
+
+    expect(entry.seq).toBe(3);
+    expect(verifyAuditLog(logPath).valid).toBe(true);
+    expect(fs.readFileSync(getAuditQuarantinePath(logPath), 'utf8')).toBe(
+      '{"seq":3,"timestamp":17'
+    );
+  });
+
+  it('moves aside a complete last line whose hash does not check out', () => {
+    writeEntries(2);
+    // A log from before anchors were kept
+    fs.rmSync(anchorPath);
+    const lines = fs.readFileSync(logPath, 'utf8').split('\n');
+    fs.writeFileSync(logPath, `${lines[0]}\n${lines[1].replace('prompt 1', 'prompt X')}\n`);
+
+    new AuditLog(dir).record(event('after corruption'));
+
+    const result = verifyAuditLog(logPath);
+    expect(result.valid).toBe(true);
+    expect(result.entries.map((e) => e.data.prompt)).toEqual(['prompt 0', 'after corruption']);
+  });
+
+  it('recovers a log that is only a torn first entry', () => {
+    fs.mkdirSync(path.dirname(logPath), { recursive: true });
+    fs.writeFileSync(logPath, '{"seq":1,"ti');
+
+    expect(new AuditLog(dir).record(event('first')).seq).toBe(1);
+    expect(verifyAuditLog(logPath).valid).toBe(true);
+  });
+
+  it('adds the missing newline after a whole last entry', () => {
+    writeEntries(2);
+    fs.truncateSync(logPath, fs.statSync(logPath).size - 1);
+
+    new AuditLog(dir).record(event('next'));
+
+    const result = verifyAuditLog(logPath);
+    expect(result.valid).toBe(true);
+    expect(result.entries).toHaveLength(3);
+    expect(fs.existsSync(getAuditQuarantinePath(logPath))).toBe(false);
+  });
+
+  it('refuses to append when more than the last line is broken', () => {
+    writeEntries(2);
+    fs.appendFileSync(logPath, 'garbage\n{"seq":');
+    const before = fs.readFileSync(logPath, 'utf8');
+
+    new AuditLog(dir).record(event('ignored'));
+
+    expect(fs.readFileSync(logPath, 'utf8')).toBe(before);
+    expect(fs.existsSync(getAuditQuarantinePath(logPath))).toBe(false);
+  });
+
+  it('finds the last entries when they are longer than the first read', () => {
+    const log = new AuditLog(dir);
+    log.record(event('x'.repeat(100 * 1024)));
+    log.record(event('y'.repeat(100 * 1024)));
+    fs.appendFileSync(logPath, '{"seq":3');
+
+    expect(new AuditLog(dir).record(event('next')).seq).toBe(3);
+    expect(verifyAuditLog(logPath).valid).toBe(true);
+  });
+
+  describe('anchor', () => {
+    const keepLines = (count: number) => {
+      const lines = fs.readFileSync(logPath, 'utf8').split('\n').slice(0, count);
+      fs.writeFileSync(logPath, `${lines.join('\n')}\n`);
+    };
+
+    it('is kept outside the project and follows the last entry', () => {
+      writeEntries(3);
+      expect(anchorPath.startsWith(home)).toBe(true);
+      expect(JSON.parse(fs.readFileSync(anchorPath, 'utf8'))).toEqual({
+        seq: 3,
+        hash: verifyAuditLog(logPath).entries[2].hash,
+      });
+      expect(verifyAuditLog(logPath, anchorPath).valid).toBe(true);
+    });
+
+    it('catches entries cut off the end of the log', () => {
+      writeEntries(3);
+      keepLines(1);
+
+      expect(verifyAuditLog(logPath).valid).toBe(true);
+      const result = verifyAuditLog(logPath, anchorPath);
+      expect(result.valid).toBe(false);
+      expect(result.entries).toHaveLength(1);
+      expect(result.error?.reason).toMatch(/ends at entry 1 but 3 were recorded/);
+    });
+
+    it('catches a log emptied or deleted after entries were recorded', () => {
+      writeEntries(2);
+      fs.rmSync(logPath);
+      expect(verifyAuditLog(logPath, anchorPath).valid).toBe(false);
+    });
+
+    it('catches an anchored entry replaced by a different valid chain', () => {
+      writeEntries(2);
+      const anchor = fs.readFileSync(anchorPath, 'utf8');
+      fs.rmSync(logPath);
+      fs.rmSync(anchorPath);
+      writeEntries(2, 'forged');
+      fs.writeFileSync(anchorPath, anchor);
+
+      const result = verifyAuditLog(logPath, anchorPath);
+      expect(result.valid).toBe(false);
+      expect(result.error).toEqual({ line: 2, reason: expect.stringMatching(/rewritten/) });
+    });
+
+    it('refuses to append to a log that was cut, so the cut stays visible', () => {
+      writeEntries(3);
+      keepLines(2);
+      const before = fs.readFileSync(logPath, 'utf8');
+
+      new AuditLog(dir).record(event('ignored'));
+
+      expect(fs.readFileSync(logPath, 'utf8')).toBe(before);
+      expect(verifyAuditLog(logPath, anchorPath).valid).toBe(false);
+    });
+
+    it('accepts a log that is ahead of its anchor', () => {
+      writeEntries(1);
+      const anchor = fs.readFileSync(anchorPath, 'utf8');
+      writeEntries(1);
+      // The anchor write after the second entry did not happen
+      fs.writeFileSync(anchorPath, anchor);
+
+      expect(verifyAuditLog(logPath, anchorPath).valid).toBe(true);
+      expect(new AuditLog(dir).record(event('next')).seq).toBe(3);
+    });
+  });
+});
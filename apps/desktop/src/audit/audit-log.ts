@@ -0,0 +1,463 @@
+/**
+ * Audit Log
+ *
+ * Append-only JSONL record of prompts, permission decisions, patches, undos,
+ * worktree tasks and pull requests, stored at `.doomcode/audit.jsonl`. Each
+ * entry carries the SHA-256 of the previous entry, so editing or deleting a
+ * line breaks the chain and is reported by `doomcode audit`.
+ *
+ * Cutting entries off the end leaves a valid chain, so the sequence number and
+ * hash of the last entry are also kept outside the project, under
+ * `~/.doomcode/projects/`. Someone who can rewrite both files can still hide
+ * changes; the log guards against edits in the project, not on the machine.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AgentId, PatchOutcome, PermissionRule } from '@doomcode/protocol';
+import { getProjectStateDir, makeProjectDataDir } from '../project-state.js';
+
+export type AuditEventType =
+  | 'prompt'
+  | 'permission'
+  | 'patch'
+  | 'undo'
+  | 'redo'
+  | 'pr_created'
+  | 'agent_config'
+  | 'permission_rule'
+  | 'task';
+
+export const AUDIT_EVENT_TYPES: AuditEventType[] = [
+  'prompt',
+  'permission',
+  'patch',
+  'undo',
+  'redo',
+  'pr_created',
+  'agent_config',
+  'permission_rule',
+  'task',
+];
+
+/** Who made the decision: the phone user, or the desktop (policy rules, ToolPermissions) */
+export type AuditActor = 'mobile' | 'desktop';
+
+export interface AuditEntry {
+  seq: number;
+  timestamp: number;
+  type: AuditEventType;
+  actor: AuditActor;
+  sessionId: string | null;
+  agentId: AgentId;
+  data: Record<string, unknown>;
+  /** Hash of the previous entry (all zeros for the first) */
+  prevHash: string;
+  /** SHA-256 over this entry's canonical JSON, excluding `hash` */
+  hash: string;
+}
+
+export type AuditEventInput = Omit<AuditEntry, 'seq' | 'timestamp' | 'prevHash' | 'hash'>;
+
+export interface AuditVerifyResult {
+  valid: boolean;
+  entries: AuditEntry[];
+  /** First broken line (1-based) and why */
+  error?: { line: number; reason: string };
+}
+
+const GENESIS_HASH = '0'.repeat(64);
+
+/** Bytes first read from the end of the log to find the last entry on startup */
+const TAIL_READ_BYTES = 64 * 1024;
+
+const NEWLINE = 0x0a;
+
+/** The last entry written, recorded outside the log */
+interface AuditAnchor {
+  seq: number;
+  hash: string;
+}
+
+/** A line of the log and its byte offset */
+interface LogLine {
+  text: string;
+  offset: number;
+}
+
+export function getAuditLogPath(workingDirectory: string): string {
+  return path.join(workingDirectory, '.doomcode', 'audit.jsonl');
+}
+
+export function getAuditAnchorPath(workingDirectory: string): string {
+  return path.join(getProjectStateDir(workingDirectory), 'audit-anchor.json');
+}
+
+/** Where a torn last line is moved before the log is appended to again */
+export function getAuditQuarantinePath(logPath: string): string {
+  return `${logPath}.corrupt`;
+}
+
+export class AuditLog {
+  private logPath: string;
+  private anchorPath: string;
+  private lastSeq = 0;
+  private lastHash = GENESIS_HASH;
+  /** Set when the log's end could not be recovered; nothing is appended then */
+  private unrecoverable = false;
+
+  constructor(workingDirectory: string) {
+    this.logPath = getAuditLogPath(workingDirectory);
+    this.anchorPath = getAuditAnchorPath(workingDirectory);
+    this.loadTail();
+    this.checkAnchor();
+  }
+
+  record(event: AuditEventInput): AuditEntry {
+    const unsigned: Omit<AuditEntry, 'hash'> = {
+      seq: this.lastSeq + 1,
+      timestamp: Date.now(),
+      type: event.type,
+      actor: event.actor,
+      sessionId: event.sessionId,
+      agentId: event.agentId,
+      data: event.data,
+      prevHash: this.lastHash,
+    };
+    const entry: AuditEntry = { ...unsigned, hash: hashEntry(unsigned) };
+    if (this.unrecoverable) {
+      return entry;
+    }
+
+    try {
+      makeProjectDataDir(path.dirname(this.logPath));
+      fs.appendFileSync(this.logPath, `${JSON.stringify(entry)}\n`, 'utf8');
+      this.lastSeq = entry.seq;
+      this.lastHash = entry.hash;
+    } catch (error) {
+      console.warn('Failed to write audit log:', error);
+      return entry;
+    }
+
+    try {
+      const anchor: AuditAnchor = { seq: entry.seq, hash: entry.hash };
+      fs.mkdirSync(path.dirname(this.anchorPath), { recursive: true });
+      fs.writeFileSync(this.anchorPath, JSON.stringify(anchor), 'utf8');
+    } catch (error) {
+      console.warn('Failed to write audit anchor:', error);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Refuse to append if the log ends before the last entry recorded in the
+   * anchor: new entries would reuse its sequence numbers and hide the cut.
+   */
+  private checkAnchor(): void {
+    const anchor = readAuditAnchor(this.anchorPath);
+    if (this.unrecoverable || !anchor) return;
+
+    const cut =
+      anchor.seq > this.lastSeq || (anchor.seq === this.lastSeq && anchor.hash !== this.lastHash);
+    if (cut) {
+      console.warn(
+        `Audit log ${this.logPath} ends before entry ${anchor.seq} recorded in ${this.anchorPath}; ` +
+          'not recording to it until it is repaired (run `doomcode audit` to find the problem)'
+      );
+      this.unrecoverable = true;
+    }
+  }
+
+  /**
+   * Pick up the chain where the existing log ends. A last line that is not a
+   * valid entry (torn by a crash mid-append) is moved to the quarantine file
+   * and cut off, if the entry before it is valid. Anything worse is left for
+   * `doomcode audit` to report, and nothing is appended: starting a new chain
+   * would break verification of every entry after it.
+   */
+  private loadTail(): void {
+    if (!fs.existsSync(this.logPath)) return;
+
+    let lines: LogLine[];
+    let size: number;
+    let terminated: boolean;
+    let fd: number | null = null;
+    try {
+      fd = fs.openSync(this.logPath, 'r');
+      size = fs.fstatSync(fd).size;
+      lines = readLastLines(fd, size, 2);
+      const lastByte = Buffer.alloc(1);
+      fs.readSync(fd, lastByte, 0, 1, Math.max(0, size - 1));
+      terminated = lastByte[0] === NEWLINE;
+    } catch (error) {
+      console.warn(`Failed to read audit log ${this.logPath}:`, error);
+      this.unrecoverable = true;
+      return;
+    } finally {
+      if (fd !== null) fs.closeSync(fd);
+    }
+
+    const last = lines.pop();
+    if (!last) return;
+
+    const lastEntry = parseEntry(last.text);
+    if (lastEntry) {
+      this.lastSeq = lastEntry.seq;
+      this.lastHash = lastEntry.hash;
+      // The entry was written whole but its newline was not
+      if (!terminated) this.repair(() => fs.appendFileSync(this.logPath, '\n', 'utf8'));
+      return;
+    }
+
+    // With no line before it, the torn line is the whole log
+    const previous = lines.pop();
+    const previousEntry = previous ? parseEntry(previous.text) : null;
+    if (previous && !previousEntry) {
+      console.warn(
+        `Audit log ${this.logPath} does not end in a valid entry; ` +
+          'not recording to it until it is repaired (run `doomcode audit` to find the problem)'
+      );
+      this.unrecoverable = true;
+      return;
+    }
+
+    this.repair(() => {
+      const torn = Buffer.alloc(size - last.offset);
+      const tornFd = fs.openSync(this.logPath, 'r');
+      try {
+        fs.readSync(tornFd, torn, 0, torn.length, last.offset);
+      } finally {
+        fs.closeSync(tornFd);
+      }
+      fs.appendFileSync(getAuditQuarantinePath(this.logPath), torn);
+      fs.truncateSync(this.logPath, last.offset);
+      console.warn(
+        `Moved a torn entry at the end of ${this.logPath} to ${getAuditQuarantinePath(this.logPath)}`
+      );
+    });
+    if (previousEntry) {
+      this.lastSeq = previousEntry.seq;
+      this.lastHash = previousEntry.hash;
+    }
+  }
+
+  private repair(fix: () => void): void {
+    try {
+      fix();
+    } catch (error) {
+      console.warn(`Failed to repair audit log ${this.logPath}:`, error);
+      this.unrecoverable = true;
+    }
+  }
+}
+
+/**
+ * The last `count` non-empty lines of the log (fewer if it has fewer), oldest
+ * first. Reads back from the end until they are whole.
+ */
+function readLastLines(fd: number, size: number, count: number): LogLine[] {
+  let length = Math.min(size, TAIL_READ_BYTES);
+
+  for (;;) {
+    const position = size - length;
+    const buffer = Buffer.alloc(length);
+    fs.readSync(fd, buffer, 0, length, position);
+
+    const lines: LogLine[] = [];
+    let end = buffer.length;
+    while (lines.length < count) {
+      while (end > 0 && buffer[end - 1] === NEWLINE) end--;
+      if (end === 0) break;
+      const start = buffer.lastIndexOf(NEWLINE, end - 1) + 1;
+      // The line may begin before what was read
+      if (start === 0 && position > 0) break;
+      lines.unshift({ text: buffer.toString('utf8', start, end), offset: position + start });
+      end = start;
+    }
+
+    if (lines.length === count || position === 0) {
+      return lines;
+    }
+    length = Math.min(size, length * 2);
+  }
+}
+
+/**
+ * An entry parsed from a log line, or null if the line is not an entry whose hash checks out.
+ */
+function parseEntry(line: string): AuditEntry | null {
+  try {
+    const entry = JSON.parse(line) as AuditEntry;
+    const { hash, ...unsigned } = entry;
+    return typeof entry.seq === 'number' && hashEntry(unsigned) === hash ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+function readAuditAnchor(anchorPath: string): AuditAnchor | null {
+  try {
+    const anchor = JSON.parse(fs.readFileSync(anchorPath, 'utf8')) as AuditAnchor;
+    return typeof anchor.seq === 'number' && typeof anchor.hash === 'string' ? anchor : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the whole log and check every entry's hash, sequence number and link to its
+ * predecessor, and, given the anchor, that no entries were cut off the end.
+ */
+export function verifyAuditLog(logPath: string, anchorPath?: string): AuditVerifyResult {
+  const entries: AuditEntry[] = [];
+  const anchor = anchorPath ? readAuditAnchor(anchorPath) : null;
+  const lines = fs.existsSync(logPath) ? fs.readFileSync(logPath, 'utf8').split('\n') : [];
+  let prevHash = GENESIS_HASH;
+  let prevSeq = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+
+    const fail = (reason: string): AuditVerifyResult => ({
+      valid: false,
+      entries,
+      error: { line: i + 1, reason },
+    });
+
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line) as AuditEntry;
+    } catch {
+      return fail('not valid JSON');
+    }
+
+    const { hash, ...unsigned } = entry;
+    if (hashEntry(unsigned) !== hash) {
+      return fail('entry hash does not match its contents');
+    }
+    if (entry.prevHash !== prevHash) {
+      return fail('previous-hash link is broken (an entry was removed or reordered)');
+    }
+    if (entry.seq !== prevSeq + 1) {
+      return fail(`expected sequence ${prevSeq + 1}, found ${entry.seq}`);
+    }
+
+    if (anchor && entry.seq === anchor.seq && hash !== anchor.hash) {
+      return fail(
+        `entry ${entry.seq} is not the one recorded in the anchor (the log was rewritten)`
+      );
+    }
+
+    entries.push(entry);
+    prevHash = hash;
+    prevSeq = entry.seq;
+  }
+
+  if (anchor && prevSeq < anchor.seq) {
+    return {
+      valid: false,
+      entries,
+      error: {
+        line: lines.filter((line) => line.trim()).length + 1,
+        reason: `log ends at entry ${prevSeq} but ${anchor.seq} were recorded (entries were removed from the end)`,
+      },
+    };
+  }
+
+  return { valid: true, entries };
+}
+
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  return createHash('sha256').update(canonicalJson(entry)).digest('hex');
+}
+
+/**
+ * JSON with object keys sorted, so the hash does not depend on key order.
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Parse an ISO date/time or a relative duration back from now (`30m`, `24h`, `7d`).
+ * Returns null if the value is not understood.
+ */
+export function parseAuditTime(value: string, now = Date.now()): number | null {
+  const relative = /^(\d+)\s*([smhd])$/.exec(value.trim());
+  if (relative) {
+    const unitMs = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as 's'];
+    return now - Number(relative[1]) * unitMs;
+  }
+
+  const timestamp = Date.parse(value);
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
+
+/**
+ * One-line human-readable summary of an entry.
+ */
+export function formatAuditEntry(entry: AuditEntry): string {
+  const data = entry.data;
+  let summary: string;
+
+  switch (entry.type) {
+    case 'prompt':
+      summary = JSON.stringify(data.prompt);
+      break;
+    case 'permission':
+      summary = `${data.decision} ${data.action}: ${data.description}`;
+      if (data.reason) summary += ` (${data.reason})`;
+      break;
+    case 'patch': {
+      const files = (data.files as { path: string }[] | undefined) ?? [];
+      summary = `${data.decision} ${data.patchId} [${files.map((f) => f.path).join(', ')}]`;
+      if (data.error) summary += ` failed: ${data.error}`;
+      break;
+    }
+    case 'undo':
+    case 'redo': {
+      // Single-patch undos record patchId; range, partial undo and redo record outcomes
+      const outcomes = data.patches as PatchOutcome[] | undefined;
+      const target = outcomes
+        ? outcomes.map((o) => `${o.patchId}:${o.status}`).join(', ')
+        : String(data.patchId);
+      const [verb, past] = entry.type === 'redo' ? ['reapply', 'reapplied'] : ['revert', 'reverted'];
+      summary = data.success ? `${past} ${target}` : `failed to ${verb} ${target}: ${data.error}`;
+      break;
+    }
+    case 'pr_created':
+      summary = data.success ? `${data.prUrl}` : `failed: ${data.error}`;
+      break;
+    case 'agent_config':
+      summary = `applied [${(data.applied as string[]).join(', ')}]`;
+      break;
+    case 'permission_rule': {
+      const rule = data.rule as PermissionRule | undefined;
+      summary = rule ? `added ${rule.decision} ${rule.description}` : `revoked ${data.ruleId}`;
+      break;
+    }
+    case 'task':
+      summary = `${data.action} ${data.branch}` + (data.error ? `: ${data.error}` : '');
+      break;
+    default:
+      summary = JSON.stringify(data);
+  }
+
+  const time = new Date(entry.timestamp).toISOString();
+  const columns = [`#${entry.seq}`, time, entry.type.padEnd(15), entry.actor.padEnd(7), entry.agentId];
+  return `${columns.join(' ')}  ${summary}`;
+}
@@ -5,6 +5,18 @@ import type {
   PRCreateResultMessage,
 } from '@doomcode/protocol';
 
+// The whole repository except DoomCode's own data
+const PATHSPEC = `-- ':/' ':(exclude).doomcode'`;
+
+/**
+ * A task worktree to open the pull request from instead of the main checkout.
+ */
+export interface PullRequestWorktree {
+  path: string;
+  /** Commit the task branched from; commits after it count as changes */
+  baseCommit: string;
+}
+
 interface GitHubCredentials {
   accessToken: string;
   tokenType: string;
@@ -44,7 +56,15 @@ export class GitHubHandler {
     return true;
   }
 
-  async createPullRequest(request: PRCreateRequestMessage): Promise<PRCreateResultMessage> {
+  /**
+   * Commit the changes on a new branch, push it and open a pull request. With a
+   * worktree, the task branch is renamed and pushed from there, so the user's
+   * checkout is left untouched.
+   */
+  async createPullRequest(
+    request: PRCreateRequestMessage,
+    worktree?: PullRequestWorktree
+  ): Promise<PRCreateResultMessage> {
     const result: PRCreateResultMessage = {
       type: 'pr_create_result',
       requestId: request.requestId,
@@ -57,6 +77,8 @@ export class GitHubHandler {
       return result;
     }
 
+    const cwd = worktree?.path ?? this.workingDirectory;
+
     try {
       // Check if we're in a git repo
       if (!this.isGitRepo()) {
@@ -65,16 +87,19 @@ export class GitHubHandler {
         return result;
       }
 
-      // Check for uncommitted changes
-      const status = this.execGit('status --porcelain');
-      if (!status.trim()) {
+      // Check for uncommitted changes (or, in a task worktree, commits made by the agent)
+      const status = this.execGit(`status --porcelain ${PATHSPEC}`, cwd);
+      const committed = worktree
+        ? Number(this.execGit(`rev-list --count ${worktree.baseCommit}..HEAD`, cwd).trim())
+        : 0;
+      if (!status.trim() && committed === 0) {
         result.error = 'No changes to commit. Make some changes first.';
         result.errorCode = 'NO_CHANGES';
         return result;
       }
 
       // Get current branch and base branch
-      const currentBranch = this.execGit('rev-parse --abbrev-ref HEAD').trim();
+      const currentBranch = this.execGit('rev-parse --abbrev-ref HEAD', cwd).trim();
       const baseBranch = request.baseBranch || this.getDefaultBranch();
 
       // Check if target branch already exists
@@ -95,26 +120,38 @@ export class GitHubHandler {
       console.log(`[GitHub] Creating PR: ${request.title}`);
       console.log(`[GitHub] Branch: ${request.branchName} -> ${baseBranch}`);
 
-      // Create and checkout new branch
-      console.log(`[GitHub] Creating branch: ${request.branchName}`);
-      this.execGit(`checkout -b ${this.escapeShellArg(request.branchName)}`);
+      if (worktree) {
+        // The task branch becomes the PR branch
+        console.log(`[GitHub] Renaming ${currentBranch} to ${request.branchName}`);
+        this.execGit(`branch -m ${this.escapeShellArg(request.branchName)}`, cwd);
+      } else {
+        // Create and checkout new branch
+        console.log(`[GitHub] Creating branch: ${request.branchName}`);
+        this.execGit(`checkout -b ${this.escapeShellArg(request.branchName)}`);
+      }
 
       // Stage all changes
-      this.execGit('add -A');
+      this.execGit(`add -A ${PATHSPEC}`, cwd);
 
       // Commit with message
-      const commitMessage = `${request.title}\n\n${request.body || 'Created via DoomCode'}`;
-      this.execGit(`commit -m ${this.escapeShellArg(commitMessage)}`);
+      if (status.trim()) {
+        const commitMessage = `${request.title}\n\n${request.body || 'Created via DoomCode'}`;
+        this.execGit(`commit -m ${this.escapeShellArg(commitMessage)}`, cwd);
+      }
 
       // Push with token authentication
       console.log('[GitHub] Pushing to remote...');
-      const pushResult = await this.pushWithToken(request.branchName, remote);
+      const pushResult = await this.pushWithToken(request.branchName, remote, cwd);
 
       if (!pushResult.success) {
         // Cleanup: go back to original branch and delete the new one
         try {
-          this.execGit(`checkout ${this.escapeShellArg(currentBranch)}`);
-          this.execGit(`branch -D ${this.escapeShellArg(request.branchName)}`);
+          if (worktree) {
+            this.execGit(`branch -m ${this.escapeShellArg(currentBranch)}`, cwd);
+          } else {
+            this.execGit(`checkout ${this.escapeShellArg(currentBranch)}`);
+            this.execGit(`branch -D ${this.escapeShellArg(request.branchName)}`);
+          }
         } catch {
           // Ignore cleanup errors
         }
@@ -164,9 +201,9 @@ export class GitHubHandler {
     }
   }
 
-  private execGit(command: string): string {
+  private execGit(command: string, cwd = this.workingDirectory): string {
     return execSync(`git ${command}`, {
-      cwd: this.workingDirectory,
+      cwd,
       encoding: 'utf-8',
       stdio: ['pipe', 'pipe', 'pipe'],
     });
@@ -233,7 +270,8 @@ export class GitHubHandler {
 
   private async pushWithToken(
     branchName: string,
-    remote: { owner: string; repo: string }
+    remote: { owner: string; repo: string },
+    cwd = this.workingDirectory
   ): Promise<{ success: boolean; error?: string }> {
     if (!this.credentials) {
       return { success: false, error: 'No token' };
@@ -247,7 +285,7 @@ export class GitHubHandler {
       execSync(
         `git push ${this.escapeShellArg(authUrl)} ${this.escapeShellArg(branchName)}:${this.escapeShellArg(branchName)}`,
         {
-          cwd: this.workingDirectory,
+          cwd,
           encoding: 'utf-8',
           stdio: ['pipe', 'pipe', 'pipe'],
         }
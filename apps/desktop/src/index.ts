@@ -2,7 +2,7 @@
 /**
  * DoomCode Desktop CLI
  *
- * Wraps Claude Code CLI and streams output to mobile via relay server.
+ * Wraps a CLI coding agent and streams output to mobile via relay server.
  */
 
 import { program } from 'commander';
@@ -10,19 +10,109 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { decodeBase64, type KeyPair } from '@doomcode/crypto';
 import { DoomCodeSession } from './session.js';
+import type { PatchRetention } from './agent/patch-tracker.js';
+import {
+  MERGE_STRATEGIES,
+  WorktreeManager,
+  type MergeStrategy,
+} from './worktree/worktree-manager.js';
+import { AGENT_DRIVER_MODES, type AgentDriverMode } from './agent/agent-manager.js';
+import { DIFF_SOURCES, type DiffSource } from './agent/change-detector.js';
+import {
+  AgentRegistry,
+  findAgentBinary,
+  getProjectAgentConfigPath,
+  getUserAgentConfigPath,
+} from './agent/adapters.js';
+import {
+  AUDIT_EVENT_TYPES,
+  formatAuditEntry,
+  getAuditAnchorPath,
+  getAuditLogPath,
+  parseAuditTime,
+  verifyAuditLog,
+  type AuditEventType,
+} from './audit/audit-log.js';
 
-const SUPPORTED_AGENTS = ['claude', 'codex', 'gemini'] as const;
-type SupportedAgent = (typeof SUPPORTED_AGENTS)[number];
-
-const normalizeAgentOption = (agent: string): SupportedAgent => {
+const normalizeAgentOption = (agent: string, dir: string): string => {
   const normalized = agent.toLowerCase().trim();
-  if ((SUPPORTED_AGENTS as readonly string[]).includes(normalized)) {
-    return normalized as SupportedAgent;
+  const registry = AgentRegistry.load(dir);
+  if (registry.has(normalized)) {
+    return normalized;
+  }
+  const known = registry.list().map((adapter) => adapter.id);
+  console.error(`Unsupported agent "${agent}". Use one of: ${known.join(', ')}`);
+  process.exit(1);
+};
+
+const normalizeDriverOption = (driver: string | undefined): AgentDriverMode | undefined => {
+  if (driver === undefined) return undefined;
+  const normalized = driver.toLowerCase().trim();
+  if ((AGENT_DRIVER_MODES as string[]).includes(normalized)) {
+    return normalized as AgentDriverMode;
+  }
+  console.error(`Unsupported driver "${driver}". Use one of: ${AGENT_DRIVER_MODES.join(', ')}`);
+  process.exit(1);
+};
+
+const normalizeDiffSourceOption = (source: string | undefined): DiffSource | undefined => {
+  if (source === undefined) return undefined;
+  const normalized = source.toLowerCase().trim();
+  if ((DIFF_SOURCES as string[]).includes(normalized)) {
+    return normalized as DiffSource;
   }
-  console.error(`Unsupported agent "${agent}". Use one of: ${SUPPORTED_AGENTS.join(', ')}`);
+  console.error(`Unsupported diff source "${source}". Use one of: ${DIFF_SOURCES.join(', ')}`);
   process.exit(1);
 };
 
+const parsePatchRetention = (options: {
+  maxPatches?: string;
+  patchMaxAge?: string;
+}): Partial<PatchRetention> => {
+  const retention: Partial<PatchRetention> = {};
+  if (options.maxPatches !== undefined) {
+    const maxPatches = Number(options.maxPatches);
+    if (!Number.isInteger(maxPatches) || maxPatches < 1) {
+      console.error(`Invalid --max-patches value "${options.maxPatches}"`);
+      process.exit(1);
+    }
+    retention.maxPatches = maxPatches;
+  }
+  if (options.patchMaxAge !== undefined) {
+    const days = Number(options.patchMaxAge);
+    if (!Number.isFinite(days) || days <= 0) {
+      console.error(`Invalid --patch-max-age value "${options.patchMaxAge}"`);
+      process.exit(1);
+    }
+    retention.maxAgeMs = days * 24 * 60 * 60 * 1000;
+  }
+  return retention;
+};
+
+const parseWorktreeOptions = (
+  options: { worktree?: boolean; mergeStrategy?: string },
+  dir: string
+): { worktree?: boolean; mergeStrategy?: MergeStrategy } => {
+  if (options.mergeStrategy !== undefined && !options.worktree) {
+    console.error('--merge-strategy requires --worktree');
+    process.exit(1);
+  }
+  if (!options.worktree) return {};
+
+  if (!WorktreeManager.isSupported(dir)) {
+    console.error('--worktree requires a git repository with at least one commit');
+    process.exit(1);
+  }
+  const strategy = (options.mergeStrategy ?? 'merge').toLowerCase().trim();
+  if (!(MERGE_STRATEGIES as string[]).includes(strategy)) {
+    console.error(
+      `Unsupported merge strategy "${options.mergeStrategy}". Use one of: ${MERGE_STRATEGIES.join(', ')}`
+    );
+    process.exit(1);
+  }
+  return { worktree: true, mergeStrategy: strategy as MergeStrategy };
+};
+
 // AWS API Gateway URLs
 const DEFAULT_WS_URL = 'wss://elz7wfhx70.execute-api.us-east-1.amazonaws.com/prod';
 const DEFAULT_HTTP_URL = 'https://jsmutqne72.execute-api.us-east-1.amazonaws.com/prod';
@@ -73,10 +163,26 @@ program
   .option('--ws-url <url>', 'WebSocket relay URL', DEFAULT_WS_URL)
   .option('--http-url <url>', 'HTTP API URL for session management', DEFAULT_HTTP_URL)
   .option('-d, --dir <path>', 'Working directory', process.cwd())
-  .option('-a, --agent <agent>', 'Agent to use (claude|codex|gemini)', 'claude')
+  .option('-a, --agent <agent>', 'Agent to use (see `doomcode agents`)', 'claude')
   .option('--reuse', 'Reuse the last session from the local cache')
+  .option(
+    '--driver <mode>',
+    'How to drive the agent (pty|stream-json); defaults to stream-json where supported'
+  )
+  .option(
+    '--diff-source <source>',
+    'How file changes are found for pty agents (git|terminal); defaults to git'
+  )
+  .option('--max-patches <count>', 'Applied patches kept for undo (default 50)')
+  .option('--patch-max-age <days>', 'Days applied patches stay undoable (default 30)')
+  .option('--worktree', 'Run each agent task in its own git worktree and branch')
+  .option('--merge-strategy <strategy>', 'How approved tasks are merged back (merge|cherry-pick)')
   .action(async (options) => {
-    const agent = normalizeAgentOption(options.agent);
+    const agent = normalizeAgentOption(options.agent, options.dir);
+    const driver = normalizeDriverOption(options.driver);
+    const diffSource = normalizeDiffSourceOption(options.diffSource);
+    const patchRetention = parsePatchRetention(options);
+    const worktreeOptions = parseWorktreeOptions(options, options.dir);
     const cachePath = getSessionCachePath(options.dir);
 
     if (options.reuse) {
@@ -87,9 +193,13 @@ program
           httpUrl: cached.httpUrl ?? options.httpUrl,
           workingDirectory: options.dir,
           agent,
+          drivers: driver ? { [agent]: driver } : undefined,
+          diffSource,
           sessionId: cached.sessionId,
           keyPair: cached.keyPair,
           sessionCachePath: cachePath,
+          patchRetention,
+          ...worktreeOptions,
         });
 
         try {
@@ -108,7 +218,11 @@ program
       httpUrl: options.httpUrl,
       workingDirectory: options.dir,
       agent,
+      drivers: driver ? { [agent]: driver } : undefined,
+      diffSource,
       sessionCachePath: cachePath,
+      patchRetention,
+      ...worktreeOptions,
     });
 
     try {
@@ -124,16 +238,36 @@ program
   .description('Connect to an existing session')
   .option('--ws-url <url>', 'WebSocket relay URL', DEFAULT_WS_URL)
   .option('--http-url <url>', 'HTTP API URL for session management', DEFAULT_HTTP_URL)
-  .option('-a, --agent <agent>', 'Agent to use (claude|codex|gemini)', 'claude')
+  .option('-a, --agent <agent>', 'Agent to use (see `doomcode agents`)', 'claude')
+  .option(
+    '--driver <mode>',
+    'How to drive the agent (pty|stream-json); defaults to stream-json where supported'
+  )
+  .option(
+    '--diff-source <source>',
+    'How file changes are found for pty agents (git|terminal); defaults to git'
+  )
+  .option('--max-patches <count>', 'Applied patches kept for undo (default 50)')
+  .option('--patch-max-age <days>', 'Days applied patches stay undoable (default 30)')
+  .option('--worktree', 'Run each agent task in its own git worktree and branch')
+  .option('--merge-strategy <strategy>', 'How approved tasks are merged back (merge|cherry-pick)')
   .action(async (sessionId, options) => {
-    const agent = normalizeAgentOption(options.agent);
+    const agent = normalizeAgentOption(options.agent, process.cwd());
+    const driver = normalizeDriverOption(options.driver);
+    const diffSource = normalizeDiffSourceOption(options.diffSource);
+    const patchRetention = parsePatchRetention(options);
+    const worktreeOptions = parseWorktreeOptions(options, process.cwd());
     const session = new DoomCodeSession({
       wsUrl: options.wsUrl,
       httpUrl: options.httpUrl,
       workingDirectory: process.cwd(),
       agent,
+      drivers: driver ? { [agent]: driver } : undefined,
+      diffSource,
       sessionId,
       sessionCachePath: getSessionCachePath(process.cwd()),
+      patchRetention,
+      ...worktreeOptions,
     });
 
     try {
@@ -144,4 +278,88 @@ program
     }
   });
 
+program
+  .command('agents')
+  .description('List available agents, including those from agents.json config files')
+  .option('-d, --dir <path>', 'Working directory', process.cwd())
+  .action((options) => {
+    const registry = AgentRegistry.load(options.dir);
+
+    for (const adapter of registry.list()) {
+      const binary = findAgentBinary(adapter);
+      const status = binary ? `✓ ${binary}` : '✗ not installed';
+      console.log(`${adapter.id.padEnd(12)} ${adapter.name.padEnd(20)} ${status}`);
+      if (adapter.source && adapter.source !== 'built-in') {
+        console.log(`${''.padEnd(12)} from ${adapter.source}`);
+      }
+    }
+
+    console.log(`\nConfig files: ${getUserAgentConfigPath()}, ${getProjectAgentConfigPath(options.dir)}`);
+  });
+
+program
+  .command('audit')
+  .description('Verify the tamper-evident audit log and list its entries')
+  .option('-d, --dir <path>', 'Working directory', process.cwd())
+  .option('--since <time>', 'Only entries at or after this time (ISO date, or 30m, 24h, 7d ago)')
+  .option('--until <time>', 'Only entries before this time (ISO date, or 30m, 24h, 7d ago)')
+  .option('-t, --type <types>', `Comma-separated event types (${AUDIT_EVENT_TYPES.join('|')})`)
+  .option('--json', 'Print matching entries as JSON lines')
+  .action((options) => {
+    const parseTime = (value: string | undefined, flag: string): number | null => {
+      if (value === undefined) return null;
+      const time = parseAuditTime(value);
+      if (time === null) {
+        console.error(`Invalid ${flag} value "${value}"`);
+        process.exit(1);
+      }
+      return time;
+    };
+    const since = parseTime(options.since, '--since');
+    const until = parseTime(options.until, '--until');
+
+    let types: AuditEventType[] | null = null;
+    if (options.type) {
+      types = String(options.type)
+        .split(',')
+        .map((t) => t.trim()) as AuditEventType[];
+      const unknown = types.filter((t) => !AUDIT_EVENT_TYPES.includes(t));
+      if (unknown.length > 0) {
+        console.error(`Unknown event type(s): ${unknown.join(', ')}`);
+        process.exit(1);
+      }
+    }
+
+    const logPath = getAuditLogPath(options.dir);
+    const anchorPath = getAuditAnchorPath(options.dir);
+    const result = verifyAuditLog(logPath, anchorPath);
+
+    const matching = result.entries.filter(
+      (entry) =>
+        (since === null || entry.timestamp >= since) &&
+        (until === null || entry.timestamp < until) &&
+        (types === null || types.includes(entry.type))
+    );
+
+    for (const entry of matching) {
+      console.log(options.json ? JSON.stringify(entry) : formatAuditEntry(entry));
+    }
+
+    // Verification status goes to stderr so --json output stays machine-readable
+    if (result.valid) {
+      console.error(`\n✓ Audit chain intact: ${result.entries.length} entries in ${logPath}`);
+      if (!fs.existsSync(anchorPath)) {
+        console.error(
+          `  No anchor at ${anchorPath}; entries removed from the end of the log cannot be detected`
+        );
+      }
+    } else {
+      console.error(
+        `\n✗ Audit chain broken at line ${result.error?.line}: ${result.error?.reason}` +
+          ` (${result.entries.length} entries verified before it)`
+      );
+      process.exit(1);
+    }
+  });
+
 program.parse();
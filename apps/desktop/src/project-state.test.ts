@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { makeProjectDataDir } from './project-state.js';
+
+describe('makeProjectDataDir', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'doomcode-project-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps everything under .doomcode out of git add -A', () => {
+    execSync('git init -q', { cwd: dir });
+    fs.writeFileSync(path.join(dir, 'app.ts'), 'export {};\n');
+
+    makeProjectDataDir(path.join(dir, '.doomcode', 'patches', 'objects'));
+    fs.writeFileSync(path.join(dir, '.doomcode', 'audit.jsonl'), '{}\n');
+    fs.writeFileSync(path.join(dir, '.doomcode', 'patches', 'p1.json'), '{}');
+
+    execSync('git add -A', { cwd: dir });
+    const staged = execSync('git diff --cached --name-only', { cwd: dir, encoding: 'utf8' });
+    expect(staged.trim().split('\n')).toEqual(['app.ts']);
+  });
+
+  it('leaves an existing .gitignore alone', () => {
+    const gitignore = path.join(dir, '.doomcode', '.gitignore');
+    fs.mkdirSync(path.dirname(gitignore));
+    fs.writeFileSync(gitignore, 'terminal/\n');
+
+    makeProjectDataDir(path.join(dir, '.doomcode', 'terminal'));
+    expect(fs.readFileSync(gitignore, 'utf8')).toBe('terminal/\n');
+  });
+
+  it('only adds a .gitignore inside a .doomcode directory', () => {
+    makeProjectDataDir(path.join(dir, 'cache'));
+    expect(fs.existsSync(path.join(dir, 'cache', '.gitignore'))).toBe(false);
+    expect(fs.existsSync(path.join(dir, '.gitignore'))).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Project State
+ *
+ * Per-project settings that decide what runs without asking the phone. They are
+ * kept under `~/.doomcode/projects/` rather than in the project's own `.doomcode`
+ * directory, because a cloned repository could otherwise ship its own.
+ *
+ * The project's `.doomcode` directory holds data about the checkout itself (patch
+ * history, terminal scrollback, the audit log). It ignores its own contents so
+ * none of it ends up in a commit.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Directory holding one project's state, keyed by the project's real path.
+ */
+export function getProjectStateDir(workingDirectory: string): string {
+  let projectPath = path.resolve(workingDirectory);
+  try {
+    projectPath = fs.realpathSync(projectPath);
+  } catch {
+    // Not created yet; key by the resolved path
+  }
+
+  const hash = createHash('sha256').update(projectPath).digest('hex').slice(0, 12);
+  return path.join(os.homedir(), '.doomcode', 'projects', `${path.basename(projectPath)}-${hash}`);
+}
+
+/**
+ * Create a directory at or under a project's `.doomcode`, adding a `.gitignore`
+ * that ignores everything in `.doomcode` the first time it is created.
+ */
+export function makeProjectDataDir(dirPath: string): void {
+  fs.mkdirSync(dirPath, { recursive: true });
+
+  for (let dir = path.resolve(dirPath); dir !== path.dirname(dir); dir = path.dirname(dir)) {
+    if (path.basename(dir) !== '.doomcode') continue;
+    try {
+      fs.writeFileSync(path.join(dir, '.gitignore'), '*\n', { flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+    return;
+  }
+}
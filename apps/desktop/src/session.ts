@@ -5,15 +5,20 @@
  */
 
 import { generateKeyPair, E2ECrypto, type KeyPair } from '@doomcode/crypto';
+import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import {
   createEnvelope,
   type MessageEnvelope,
   type Message,
-  type TerminalOutputMessage,
+  type TerminalHistoryRequestMessage,
+  type TerminalHistoryMessage,
+  type TerminalSearchRequestMessage,
+  type TerminalSearchResultMessage,
   type PermissionRequestMessage,
   type DiffPatchMessage,
+  type SessionStateMessage,
   type RelayClientMessage,
   type RelayServerMessage,
   type QRCodePayload,
@@ -22,16 +27,43 @@ import {
   type UndoRequestMessage,
   type UndoResultMessage,
   type PatchAppliedMessage,
+  type PatchDecisionMessage,
+  type PatchEditResultMessage,
   type GitHubTokenShareMessage,
   type PRCreateRequestMessage,
+  type AgentListMessage,
+  type AgentConfigResultMessage,
+  type PermissionRulesMessage,
+  type PatchListMessage,
+  type PatchHistoryResultMessage,
+  type UndoRangeRequestMessage,
+  type PartialUndoRequestMessage,
+  type RedoRequestMessage,
+  type TaskActionMessage,
+  type TaskStateMessage,
+  type ErrorMessage,
   type AgentId,
   encodeQRPayload,
 } from '@doomcode/protocol';
 import WebSocket from 'ws';
 import qrcode from 'qrcode-terminal';
-import { AgentManager } from './agent/agent-manager.js';
-import { PatchTracker } from './agent/patch-tracker.js';
+import { AgentManager, type AgentDriverMode } from './agent/agent-manager.js';
+import type { DiffSource } from './agent/change-detector.js';
+import { AgentRegistry } from './agent/adapters.js';
+import { AgentConfigStore } from './agent/agent-config.js';
+import { PermissionPolicy } from './agent/permission-policy.js';
+import { AuditLog, type AuditActor, type AuditEventType } from './audit/audit-log.js';
+import { TerminalScrollback } from './terminal/terminal-scrollback.js';
+import { createSearchPattern, searchTerminalOutput } from './terminal/terminal-search.js';
+import {
+  PatchTracker,
+  type BaselineReader,
+  type PatchHistoryResult,
+  type PatchRetention,
+} from './agent/patch-tracker.js';
 import { GitHubHandler } from './github/github-handler.js';
+import { makeProjectDataDir } from './project-state.js';
+import { WorktreeManager, type MergeStrategy } from './worktree/worktree-manager.js';
 
 export interface SessionOptions {
   /** WebSocket URL for the relay (e.g., wss://xxx.execute-api.region.amazonaws.com/prod) */
@@ -40,11 +72,37 @@ export interface SessionOptions {
   httpUrl: string;
   workingDirectory: string;
   agent: AgentId;
+  /** Driver override per agent; agents not listed use their default */
+  drivers?: Partial<Record<AgentId, AgentDriverMode>>;
+  /** How pty-driven agents' file changes are found (default: git snapshots) */
+  diffSource?: DiffSource;
   sessionId?: string;
   sessionCachePath?: string;
   keyPair?: KeyPair;
+  /** Limits on the undo history kept under .doomcode/patches */
+  patchRetention?: Partial<PatchRetention>;
+  /** Run each agent task in its own git worktree instead of editing the checkout in place */
+  worktree?: boolean;
+  /** How approved worktree tasks are brought back into the checkout */
+  mergeStrategy?: MergeStrategy;
 }
 
+/** Reconnection backoff: base delay doubles per attempt up to the cap, with jitter */
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+/** Interval for WebSocket pings; a missed pong means the connection is dead */
+const KEEPALIVE_INTERVAL_MS = 30000;
+
+/** Maximum messages held while disconnected from the relay (oldest dropped first) */
+const MAX_OUTBOX_MESSAGES = 2000;
+
+/** Character budget for terminal output in one message (relay frames are size-limited) */
+const MAX_TERMINAL_HISTORY_CHARS = 64 * 1024;
+
+/** Lines of `git status --short` included in a snapshot */
+const MAX_GIT_STATUS_LINES = 50;
+
 export class DoomCodeSession {
   private options: SessionOptions;
   private keyPair: KeyPair;
@@ -52,13 +110,37 @@ export class DoomCodeSession {
   private crypto: E2ECrypto | null = null;
   private sessionId: string | null = null;
   private agentManager: AgentManager | null = null;
+  private registry: AgentRegistry;
+  private agentConfigs: AgentConfigStore;
+  private permissionPolicy: PermissionPolicy;
+  private auditLog: AuditLog;
   private patchTracker: PatchTracker;
   private githubHandler: GitHubHandler;
-  private messageSequence = 0;
+  /** Null when the agent edits the working directory in place */
+  private worktrees: WorktreeManager | null;
+  /** Pending diff_patch that reviews the whole active task */
+  private taskReviewPatchId: string | null = null;
   private sessionCachePath: string | null = null;
   private debugSession = process.env.DOOMCODE_DEBUG_SESSION === '1';
   private lastPrompt: string | null = null;
-  private pendingPatchId: string | null = null;
+  /** Set once the first phone pairs; later pairings resume instead of starting the agent */
+  private paired = false;
+
+  // Relay connection state
+  private joined = false;
+  private hasConnected = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private keepaliveTimer: NodeJS.Timeout | null = null;
+  private outbox: Message[] = [];
+  private outboxOverflowed = false;
+  /** Last message the relay queued for us while offline; acked once processed */
+  private replayAckMessageId: string | null = null;
+
+  // State replayed to the phone via session_state on pair and reconnect
+  private scrollback: TerminalScrollback;
+  private pendingPermissions = new Map<string, PermissionRequestMessage>();
+  private pendingPatches = new Map<string, DiffPatchMessage>();
 
   private logDebug(message: string): void {
     if (this.debugSession) {
@@ -71,8 +153,16 @@ export class DoomCodeSession {
     this.keyPair = options.keyPair ?? generateKeyPair();
     this.sessionId = options.sessionId ?? null;
     this.sessionCachePath = options.sessionCachePath ?? null;
-    this.patchTracker = new PatchTracker(options.workingDirectory);
+    this.registry = AgentRegistry.load(options.workingDirectory);
+    this.agentConfigs = new AgentConfigStore(options.workingDirectory);
+    this.permissionPolicy = new PermissionPolicy(options.workingDirectory);
+    this.auditLog = new AuditLog(options.workingDirectory);
+    this.scrollback = new TerminalScrollback(options.workingDirectory);
+    this.patchTracker = new PatchTracker(options.workingDirectory, options.patchRetention);
     this.githubHandler = new GitHubHandler(options.workingDirectory);
+    this.worktrees = options.worktree
+      ? new WorktreeManager(options.workingDirectory, options.mergeStrategy)
+      : null;
   }
 
   async start(): Promise<void> {
@@ -126,7 +216,7 @@ export class DoomCodeSession {
     };
 
     try {
-      fs.mkdirSync(path.dirname(this.sessionCachePath), { recursive: true });
+      makeProjectDataDir(path.dirname(this.sessionCachePath));
       fs.writeFileSync(this.sessionCachePath, JSON.stringify(payload, null, 2), 'utf8');
     } catch (error) {
       console.warn('Failed to write session cache:', error);
@@ -135,12 +225,16 @@ export class DoomCodeSession {
 
   private async connectToRelay(): Promise<void> {
     // API Gateway WebSocket - all connections go to the same URL
-    this.ws = new WebSocket(this.options.wsUrl);
+    const ws = new WebSocket(this.options.wsUrl);
+    this.ws = ws;
 
     return new Promise((resolve, reject) => {
-      if (!this.ws) return reject(new Error('WebSocket not initialized'));
+      let opened = false;
 
-      this.ws.on('open', () => {
+      ws.on('open', () => {
+        opened = true;
+        this.hasConnected = true;
+        this.reconnectAttempts = 0;
         console.log('Connected to relay server');
 
         // Join the session (API Gateway handles routing via messages, not URL path)
@@ -150,26 +244,107 @@ export class DoomCodeSession {
           clientType: 'desktop',
           publicKey: this.keyPair.publicKey,
         };
-        this.ws!.send(JSON.stringify(joinMsg));
+        ws.send(JSON.stringify(joinMsg));
+        this.startKeepalive(ws);
         resolve();
       });
 
-      this.ws.on('message', (data) => {
+      ws.on('message', (data) => {
         this.handleMessage(data.toString());
       });
 
-      this.ws.on('close', () => {
+      ws.on('pong', () => {
+        (ws as WebSocket & { isAlive?: boolean }).isAlive = true;
+      });
+
+      ws.on('close', () => {
+        // A replaced socket closing late must not tear down the current one
+        if (this.ws !== ws) return;
+
+        this.ws = null;
+        this.joined = false;
+        this.stopKeepalive();
         console.log('Disconnected from relay server');
-        // TODO: Implement reconnection logic
+
+        // Only retry sessions that were established at least once; an initial
+        // connection failure is reported to the caller instead.
+        if (this.hasConnected) {
+          this.scheduleReconnect();
+        }
       });
 
-      this.ws.on('error', (error) => {
-        console.error('WebSocket error:', error);
-        reject(error);
+      ws.on('error', (error) => {
+        if (this.reconnectAttempts > 0) {
+          console.error(`WebSocket error: ${error.message}`);
+        } else {
+          console.error('WebSocket error:', error);
+        }
+        if (!opened) {
+          reject(error);
+        }
       });
     });
   }
 
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+
+    // Exponential backoff with equal jitter so many desktops behind the same
+    // flaky network don't all hammer the relay at once
+    const exponential = Math.min(
+      RECONNECT_MAX_DELAY_MS,
+      RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts
+    );
+    const delay = Math.round(exponential / 2 + Math.random() * (exponential / 2));
+    this.reconnectAttempts++;
+
+    console.log(`Reconnecting in ${(delay / 1000).toFixed(1)}s (attempt ${this.reconnectAttempts})...`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connectToRelay().catch(() => {
+        // The close handler schedules the next attempt
+      });
+    }, delay);
+  }
+
+  private startKeepalive(ws: WebSocket): void {
+    this.stopKeepalive();
+
+    const tracked = ws as WebSocket & { isAlive?: boolean };
+    tracked.isAlive = true;
+
+    this.keepaliveTimer = setInterval(() => {
+      if (!tracked.isAlive) {
+        // Half-open connection (e.g. network dropped without a FIN); force a reconnect
+        this.logDebug('>>> [DESKTOP] Relay keepalive timed out');
+        ws.terminate();
+        return;
+      }
+      tracked.isAlive = false;
+      ws.ping();
+    }, KEEPALIVE_INTERVAL_MS);
+  }
+
+  private stopKeepalive(): void {
+    if (this.keepaliveTimer) {
+      clearInterval(this.keepaliveTimer);
+      this.keepaliveTimer = null;
+    }
+  }
+
+  private ackQueuedMessages(lastMessageId: string): void {
+    this.replayAckMessageId = null;
+    if (!this.sessionId || this.ws?.readyState !== WebSocket.OPEN) return;
+
+    const ack: RelayClientMessage = {
+      action: 'ack',
+      sessionId: this.sessionId,
+      lastMessageId,
+    };
+    this.ws.send(JSON.stringify(ack));
+  }
+
   private displayQRCode(): void {
     if (!this.sessionId) return;
 
@@ -203,7 +378,13 @@ export class DoomCodeSession {
       if ('action' in parsed) {
         this.handleRelayMessage(parsed as RelayServerMessage);
       } else if ('encryptedPayload' in parsed) {
-        this.handleEncryptedMessage(parsed as MessageEnvelope);
+        const envelope = parsed as MessageEnvelope;
+        const handled = this.handleEncryptedMessage(envelope);
+
+        // A replay that failed to decrypt stays queued on the relay for the next join
+        if (handled && envelope.messageId === this.replayAckMessageId) {
+          this.ackQueuedMessages(envelope.messageId);
+        }
       }
     } catch (error) {
       console.error('Failed to parse message:', error);
@@ -218,8 +399,12 @@ export class DoomCodeSession {
 
       case 'session_joined':
         console.log('Joined session');
+        this.joined = true;
         if (msg.peerPublicKey) {
           this.onPeerConnected(msg.peerPublicKey);
+        } else {
+          // Phone is offline; the relay queues anything we send until it rejoins
+          this.flushOutbox();
         }
         break;
 
@@ -232,44 +417,108 @@ export class DoomCodeSession {
         console.log('Mobile device disconnected');
         break;
 
+      case 'queue_status':
+        if (msg.recipient === 'desktop' && msg.queuedMessages > 0) {
+          console.log(`Receiving ${msg.queuedMessages} messages sent while offline`);
+          this.replayAckMessageId = msg.lastMessageId ?? null;
+        }
+        break;
+
       case 'error':
         console.error(`Relay error: ${msg.code} - ${msg.message}`);
+        if (msg.code === 'SESSION_NOT_FOUND' && !this.joined) {
+          // Session expired on the relay; retrying cannot succeed
+          console.error('Session no longer exists on the relay. Start a new session to continue.');
+          this.hasConnected = false;
+          this.ws?.close();
+        } else if (msg.code === 'ALREADY_CONNECTED' && !this.joined) {
+          // Relay still holds our previous connection; back off until it notices it's gone
+          this.ws?.close();
+        }
         break;
     }
   }
 
   private onPeerConnected(publicKey: string): void {
+    // Always rebuild: the phone may have re-paired with a new key
     this.crypto = new E2ECrypto(this.keyPair.secretKey, publicKey);
 
+    if (this.paired) {
+      // Resuming an existing session - catch the phone up instead of restarting the agent
+      this.flushOutbox();
+      this.sendAgentList();
+      this.sendPermissionRules();
+      this.sendSessionState();
+      this.sendTaskState();
+      return;
+    }
+
+    this.paired = true;
     console.log('\n✓ Mobile device paired successfully!');
     console.log('Starting agent...\n');
 
-    // Start the agent
-    this.startAgent();
+    // Start the agent, then give the phone its initial snapshot
+    this.sendAgentList();
+    this.sendPermissionRules();
+    this.startAgent()
+      .then(() => {
+        this.sendSessionState();
+        this.sendTaskState();
+      })
+      .catch((error) => this.reportFailure('start the agent', 'AGENT_START_FAILED', error));
   }
 
-  private async startAgent(): Promise<void> {
+  private async startAgent(resume = false): Promise<void> {
+    const adapter = this.registry.get(this.options.agent);
+    if (!adapter) {
+      throw new Error(`Unknown agent: ${this.options.agent}`);
+    }
+
     this.agentManager = new AgentManager({
-      agent: this.options.agent,
-      workingDirectory: this.options.workingDirectory,
+      adapter,
+      workingDirectory: this.getAgentDirectory(),
+      driver: this.options.drivers?.[this.options.agent],
+      config: this.agentConfigs.get(this.options.agent),
+      resume,
+      diffSource: this.options.diffSource,
       onOutput: (stream, data) => this.handleAgentOutput(stream, data),
       onPermissionRequest: (request) => this.handlePermissionRequest(request),
-      onDiff: (diff) => this.handleDiff(diff),
+      onDiff: (diff, baseline) => this.handleDiff(diff, baseline),
+      onTurnComplete: () => this.handleTurnComplete(),
       onExit: (code) => this.handleAgentExit(code),
     });
 
     await this.agentManager.start();
   }
 
+  /**
+   * Where the agent runs: the active task's worktree (started on demand) in
+   * worktree mode, otherwise the working directory itself.
+   */
+  private getAgentDirectory(): string {
+    if (!this.worktrees) return this.options.workingDirectory;
+
+    try {
+      if (!this.worktrees.getActiveTask()) {
+        const task = this.worktrees.createTask();
+        console.log(`Task ${task.taskId} started on ${task.branch}`);
+        this.audit('task', 'desktop', {
+          action: 'created',
+          taskId: task.taskId,
+          branch: task.branch,
+          baseCommit: task.baseCommit,
+        });
+      }
+      return this.worktrees.getTaskDirectory()!;
+    } catch (error) {
+      console.error('Failed to create a task worktree; editing the checkout in place:', error);
+      return this.options.workingDirectory;
+    }
+  }
+
   private handleAgentOutput(stream: 'stdout' | 'stderr', data: string): void {
     // Send to mobile
-    const msg: TerminalOutputMessage = {
-      type: 'terminal_output',
-      stream,
-      data,
-      sequence: this.messageSequence++,
-    };
-
+    const msg = this.scrollback.append(stream, data);
     this.sendEncrypted(msg);
 
     // Also print locally
@@ -280,19 +529,129 @@ export class DoomCodeSession {
     }
   }
 
+  /**
+   * Relaunch the agent so it picks up new launch arguments, resuming the
+   * conversation if the adapter supports it. Returns whether it resumed.
+   */
+  private async restartAgent(): Promise<boolean> {
+    const resume = !!this.registry.get(this.options.agent)?.continueArgs;
+
+    this.stopAgent();
+    await this.startAgent(resume);
+    this.sendSessionState();
+    return resume;
+  }
+
+  private stopAgent(): void {
+    this.agentManager?.stop();
+    this.agentManager = null;
+
+    // Requests from the old process can no longer be answered
+    this.pendingPermissions.clear();
+    for (const patchId of this.pendingPatches.keys()) {
+      this.patchTracker.discardPatch(patchId);
+    }
+    this.pendingPatches.clear();
+    this.taskReviewPatchId = null;
+  }
+
+  /**
+   * Log a failed background operation and tell the phone about it.
+   */
+  private reportFailure(action: string, code: string, error: unknown): void {
+    console.error(`Failed to ${action}:`, error);
+    const msg: ErrorMessage = {
+      type: 'error',
+      code,
+      message: `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`,
+      recoverable: true,
+    };
+    this.sendEncrypted(msg);
+  }
+
+  /**
+   * Print a desktop notice into the agent terminal stream so the phone sees it too.
+   */
+  private sendNotice(text: string): void {
+    this.handleAgentOutput('stderr', `\r\n[doomcode] ${text}\r\n`);
+  }
+
+  private audit(type: AuditEventType, actor: AuditActor, data: Record<string, unknown>): void {
+    this.auditLog.record({
+      type,
+      actor,
+      sessionId: this.sessionId,
+      agentId: this.options.agent,
+      data,
+    });
+  }
+
   private handlePermissionRequest(request: PermissionRequestMessage): void {
+    const { toolPermissions } = this.agentConfigs.get(this.options.agent);
+    const { verdict, reason, rule } = this.permissionPolicy.evaluate(request, toolPermissions);
+    if (verdict !== 'ask') {
+      const decision = verdict === 'allow' ? 'approve' : 'deny';
+      this.sendNotice(
+        `${verdict === 'allow' ? 'Auto-approved' : 'Auto-denied'} (${reason}): ${request.description}`
+      );
+      this.audit('permission', 'desktop', {
+        requestId: request.requestId,
+        action: request.action,
+        description: request.description,
+        details: request.details,
+        decision,
+        reason,
+        ruleId: rule?.ruleId,
+      });
+      this.agentManager?.handlePermissionResponse({
+        type: 'permission_response',
+        requestId: request.requestId,
+        decision,
+      });
+      return;
+    }
+
     console.log(`\n[Permission required: ${request.description}]`);
+    this.pendingPermissions.set(request.requestId, request);
     this.sendEncrypted(request);
   }
 
-  private async handleDiff(diff: DiffPatchMessage): Promise<void> {
+  private async handleDiff(diff: DiffPatchMessage, baseline?: BaselineReader): Promise<void> {
+    const verdict = this.evaluateDiff(diff);
+    if (verdict === 'deny') {
+      this.sendNotice(`Auto-denied: changes to ${diff.files.length} files`);
+      this.audit('patch', 'desktop', {
+        patchId: diff.patchId,
+        decision: 'reject',
+        prompt: this.lastPrompt,
+        files: diff.files.map((file) => ({ path: file.path, status: file.status })),
+      });
+      await this.agentManager?.handlePatchDecision({
+        type: 'patch_decision',
+        patchId: diff.patchId,
+        decision: 'reject',
+      });
+      return;
+    }
+
+    if (this.worktrees?.getActiveTask()) {
+      // The edit only touches the task worktree; the phone reviews the task as a whole
+      await this.agentManager?.handlePatchDecision({
+        type: 'patch_decision',
+        patchId: diff.patchId,
+        decision: 'apply',
+      });
+      return;
+    }
+
     console.log(`\n[Diff ready for review: ${diff.files.length} files]`);
 
     // Prepare patch tracking before sending to mobile
     const patchId = await this.patchTracker.prepareForPatch(
       diff,
       this.lastPrompt ?? '',
-      this.options.agent
+      this.options.agent,
+      baseline
     );
 
     // Update the diff with the tracking patch ID
@@ -301,18 +660,141 @@ export class DoomCodeSession {
       patchId,
     };
 
-    this.pendingPatchId = patchId;
+    this.pendingPatches.set(patchId, trackedDiff);
+
+    if (verdict === 'allow') {
+      this.sendNotice(`Auto-applied changes to ${diff.files.length} files`);
+      await this.handlePatchDecision(
+        { type: 'patch_decision', patchId, decision: 'apply' },
+        'desktop'
+      );
+      return;
+    }
+
     this.sendEncrypted(trackedDiff);
   }
 
+  /**
+   * Run each changed file through the permission policy: any denial rejects the
+   * whole patch; it is only applied without review if every file is allowed.
+   */
+  private evaluateDiff(diff: DiffPatchMessage): 'allow' | 'deny' | 'ask' {
+    const { toolPermissions } = this.agentConfigs.get(this.options.agent);
+    const verdicts = diff.files.map(
+      (file) =>
+        this.permissionPolicy.evaluate(
+          {
+            action: file.status === 'deleted' ? 'file_delete' : 'file_write',
+            details: { path: file.path },
+          },
+          toolPermissions
+        ).verdict
+    );
+
+    if (verdicts.includes('deny')) return 'deny';
+    if (verdicts.length > 0 && verdicts.every((v) => v === 'allow')) return 'allow';
+    return 'ask';
+  }
+
+  private handleTurnComplete(): void {
+    if (this.worktrees?.getActiveTask()) {
+      this.reviewTask(false).catch((error) =>
+        this.reportFailure('prepare the task review', 'TASK_REVIEW_FAILED', error)
+      );
+    }
+  }
+
+  /**
+   * Send the active task's changes against its base commit as one diff_patch.
+   */
+  private async reviewTask(requested: boolean): Promise<void> {
+    const task = this.worktrees?.getActiveTask();
+    if (!this.worktrees || !task) return;
+
+    if (this.taskReviewPatchId) {
+      this.pendingPatches.delete(this.taskReviewPatchId);
+      this.patchTracker.discardPatch(this.taskReviewPatchId);
+      this.taskReviewPatchId = null;
+    }
+
+    const diff = this.worktrees.getDiff();
+    if (!diff) {
+      // Turns that only answered a question have nothing to review
+      if (requested) this.sendNotice(`No changes on ${task.branch} to review`);
+      return;
+    }
+
+    // Snapshot the main checkout, which is what a merge will change. Reviews of
+    // the same task share an ID so the phone replaces the earlier one.
+    const patchId = await this.patchTracker.prepareForPatch(
+      { ...diff, patchId: `task-${task.taskId}` },
+      task.prompt ?? this.lastPrompt ?? '',
+      this.options.agent
+    );
+    const review: DiffPatchMessage = {
+      ...diff,
+      patchId,
+      summary: `${task.branch}: ${diff.summary}`,
+    };
+
+    console.log(`\n[Task ready for review: ${diff.files.length} files on ${task.branch}]`);
+    this.pendingPatches.set(patchId, review);
+    this.taskReviewPatchId = patchId;
+    this.sendEncrypted(review);
+  }
+
+  /**
+   * Remove the active task's worktree and restart the agent in a fresh task.
+   */
+  private async endTask(
+    action: 'merged' | 'discarded' | 'pull_request',
+    actor: AuditActor
+  ): Promise<void> {
+    const task = this.worktrees?.getActiveTask();
+    if (!this.worktrees || !task) return;
+
+    // The agent is running inside the worktree that is about to go away
+    this.stopAgent();
+    this.worktrees.removeTask({ keepBranch: action === 'pull_request' });
+    this.audit('task', actor, { action, taskId: task.taskId, branch: task.branch });
+    console.log(`Task ${task.taskId} ended (${action})`);
+
+    await this.startAgent();
+    this.sendTaskState();
+    this.sendSessionState();
+  }
+
+  private async handleTaskAction(msg: TaskActionMessage): Promise<void> {
+    const task = this.worktrees?.getActiveTask();
+    if (!task || task.taskId !== msg.taskId) {
+      // The phone is acting on a task that already ended
+      this.sendTaskState();
+      return;
+    }
+
+    switch (msg.action) {
+      case 'review':
+        await this.reviewTask(true);
+        break;
+
+      case 'discard':
+        await this.endTask('discarded', 'mobile');
+        break;
+    }
+  }
+
   private handleAgentExit(code: number): void {
     console.log(`\nAgent exited with code ${code}`);
   }
 
-  private handleEncryptedMessage(envelope: MessageEnvelope): void {
+  /**
+   * Decrypt and dispatch a message from the phone.
+   * Returns false if it could not be decrypted or handled.
+   */
+  private handleEncryptedMessage(envelope: MessageEnvelope): boolean {
     if (!this.crypto) {
       console.error('Cannot decrypt: no crypto context');
-      return;
+      return false;
     }
 
     try {
@@ -323,8 +805,10 @@ export class DoomCodeSession {
 
       const msg = JSON.parse(decrypted) as Message;
       this.handleDecryptedMessage(msg);
+      return true;
     } catch (error) {
       console.error('Failed to decrypt message:', error);
+      return false;
     }
   }
 
@@ -332,24 +816,70 @@ export class DoomCodeSession {
     this.logDebug(`\n>>> [DESKTOP] Received decrypted message type: ${msg.type}`);
 
     switch (msg.type) {
-      case 'permission_response':
+      case 'permission_response': {
         console.log(`Permission ${msg.decision} for ${msg.requestId}`);
+        const request = this.pendingPermissions.get(msg.requestId);
+        this.pendingPermissions.delete(msg.requestId);
         this.agentManager?.handlePermissionResponse(msg);
+
+        if (request) {
+          this.audit('permission', 'mobile', {
+            requestId: msg.requestId,
+            action: request.action,
+            description: request.description,
+            details: request.details,
+            decision: msg.decision,
+          });
+        }
+
+        const rule = request && this.permissionPolicy.addRule(request, msg.decision, msg.scope);
+        if (rule) {
+          console.log(`Remembered: ${rule.decision} ${rule.description}`);
+          this.audit('permission_rule', 'mobile', { change: 'added', rule });
+          this.sendPermissionRules();
+        }
+        break;
+      }
+
+      case 'permission_rules_request':
+        this.sendPermissionRules();
+        break;
+
+      case 'permission_rule_revoke':
+        if (this.permissionPolicy.revokeRule(msg.ruleId)) {
+          console.log(`Permission rule revoked: ${msg.ruleId}`);
+          this.audit('permission_rule', 'mobile', { change: 'revoked', ruleId: msg.ruleId });
+        }
+        this.sendPermissionRules();
         break;
 
       case 'patch_decision':
         console.log(`Patch ${msg.decision} for ${msg.patchId}`);
-        this.handlePatchDecision(msg);
+        this.handlePatchDecision(msg).catch((error) =>
+          this.reportFailure(`${msg.decision} the patch`, 'PATCH_DECISION_FAILED', error)
+        );
         break;
 
       case 'user_prompt':
         this.logDebug(`>>> [DESKTOP] USER PROMPT RECEIVED: "${msg.prompt}"`);
         this.logDebug('>>> [DESKTOP] Calling agentManager.sendPrompt()...');
         this.lastPrompt = msg.prompt;
+        this.audit('prompt', 'mobile', { prompt: msg.prompt, context: msg.context });
+        if (this.worktrees?.recordPrompt(msg.prompt)) {
+          this.sendTaskState();
+        }
         this.agentManager?.sendPrompt(msg.prompt);
         this.logDebug('>>> [DESKTOP] sendPrompt() returned');
         break;
 
+      case 'terminal_history_request':
+        this.sendTerminalHistory(msg as TerminalHistoryRequestMessage);
+        break;
+
+      case 'terminal_search_request':
+        this.handleTerminalSearch(msg as TerminalSearchRequestMessage);
+        break;
+
       case 'heartbeat':
         // Respond with heartbeat
         this.sendEncrypted({
@@ -364,7 +894,27 @@ export class DoomCodeSession {
         break;
 
       case 'undo_request':
-        this.handleUndoRequest(msg as UndoRequestMessage);
+        this.handleUndoRequest(msg as UndoRequestMessage).catch((error) =>
+          this.reportFailure('undo the patch', 'UNDO_FAILED', error)
+        );
+        break;
+
+      case 'patch_list_request':
+        this.sendPatchList();
+        break;
+
+      case 'undo_range_request':
+      case 'partial_undo_request':
+      case 'redo_request':
+        this.handlePatchHistoryRequest(msg).catch((error) =>
+          this.reportFailure('update the patch history', 'PATCH_HISTORY_FAILED', error)
+        );
+        break;
+
+      case 'task_action':
+        this.handleTaskAction(msg).catch((error) =>
+          this.reportFailure(`${msg.action} the task`, 'TASK_ACTION_FAILED', error)
+        );
         break;
 
       case 'github_token_share':
@@ -384,29 +934,44 @@ export class DoomCodeSession {
   private handleAgentControl(msg: AgentControlMessage): void {
     this.logDebug(`>>> [DESKTOP] Agent control: ${msg.command} for ${msg.agentId}`);
 
+    if (msg.command !== 'stop' && !this.registry.has(msg.agentId)) {
+      const error: ErrorMessage = {
+        type: 'error',
+        code: 'UNKNOWN_AGENT',
+        message: `Agent "${msg.agentId}" is not configured on this desktop`,
+        recoverable: true,
+      };
+      this.sendEncrypted(error);
+      return;
+    }
+
     switch (msg.command) {
       case 'start':
         if (msg.agentId !== this.options.agent) {
-          this.agentManager?.stop();
-          this.agentManager = null;
+          this.stopAgent();
           this.options.agent = msg.agentId;
+          this.sendSessionState();
         }
         if (!this.agentManager || this.agentManager.getStatus() === 'idle') {
-          this.startAgent();
+          this.startAgent().catch((error) =>
+            this.reportFailure('start the agent', 'AGENT_START_FAILED', error)
+          );
         }
         this.sendAgentStatusUpdate();
         break;
 
       case 'stop':
-        this.agentManager?.stop();
+        // Also drops the permission and patch requests the stopped process left pending
+        this.stopAgent();
+        this.sendSessionState();
         this.sendAgentStatusUpdate();
         break;
 
       case 'retry':
         if (msg.agentId !== this.options.agent) {
-          this.agentManager?.stop();
-          this.agentManager = null;
+          this.stopAgent();
           this.options.agent = msg.agentId;
+          this.sendSessionState();
         }
         if (this.lastPrompt && this.agentManager?.getStatus() === 'idle') {
           this.agentManager?.sendPrompt(this.lastPrompt);
@@ -415,14 +980,123 @@ export class DoomCodeSession {
         break;
 
       case 'configure':
-        // Handle configuration updates (model, temperature, permissions)
-        // For now, log and acknowledge - full implementation requires agent restart
-        console.log('Agent configuration update:', msg.config);
-        this.sendAgentStatusUpdate();
+        this.handleConfigure(msg).catch((error) =>
+          this.reportFailure('apply the agent configuration', 'AGENT_CONFIG_FAILED', error)
+        );
         break;
     }
   }
 
+  private async handleConfigure(msg: AgentControlMessage): Promise<void> {
+    const adapter = this.registry.get(msg.agentId);
+    if (!adapter) return;
+
+    const result = this.agentConfigs.update(adapter, msg.config ?? {});
+    console.log(
+      `Agent configuration for ${adapter.id}: applied [${result.applied.join(', ')}]` +
+        (result.rejected.length > 0
+          ? `, rejected [${result.rejected.map((r) => r.setting).join(', ')}]`
+          : '')
+    );
+
+    // Only the running agent needs relaunching; others pick the config up on next start
+    let restarted = false;
+    let continued = false;
+    if (result.needsRestart && msg.agentId === this.options.agent && this.agentManager?.isRunning()) {
+      continued = await this.restartAgent();
+      restarted = true;
+    }
+
+    this.audit('agent_config', 'mobile', {
+      applied: result.applied,
+      rejected: result.rejected,
+      restarted,
+      config: result.config,
+    });
+
+    const ack: AgentConfigResultMessage = {
+      type: 'agent_config_result',
+      agentId: adapter.id,
+      applied: result.applied,
+      rejected: result.rejected,
+      restarted,
+      continued,
+      config: result.config,
+    };
+    this.sendEncrypted(ack);
+    this.sendAgentStatusUpdate();
+  }
+
+  private sendPermissionRules(): void {
+    const rules: PermissionRulesMessage = {
+      type: 'permission_rules',
+      rules: this.permissionPolicy.listRules(),
+    };
+    this.sendEncrypted(rules);
+  }
+
+  private sendPatchList(): void {
+    const patchList: PatchListMessage = {
+      type: 'patch_list',
+      patches: this.patchTracker.getAppliedPatches(),
+      redoable: this.patchTracker.getRedoStack(),
+    };
+    this.sendEncrypted(patchList);
+  }
+
+  private sendTerminalHistory(request: TerminalHistoryRequestMessage): void {
+    const history: TerminalHistoryMessage = {
+      type: 'terminal_history',
+      before: request.before,
+      ...(request.from !== undefined && { from: request.from }),
+      chunks: this.scrollback.read(request, MAX_TERMINAL_HISTORY_CHARS),
+      oldestSequence: this.scrollback.getOldestSequence(),
+    };
+    this.sendEncrypted(history);
+  }
+
+  private handleTerminalSearch(msg: TerminalSearchRequestMessage): void {
+    const result: TerminalSearchResultMessage = {
+      type: 'terminal_search_result',
+      requestId: msg.requestId,
+      matches: [],
+      total: 0,
+    };
+
+    let pattern: RegExp | null = null;
+    try {
+      pattern = createSearchPattern(msg.query, msg);
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Invalid pattern';
+    }
+
+    if (pattern) {
+      const before = msg.before ?? this.scrollback.getNextSequence();
+      Object.assign(result, searchTerminalOutput(this.scrollback.chunks({ before }), pattern));
+    }
+    this.sendEncrypted(result);
+  }
+
+  private sendTaskState(): void {
+    if (!this.worktrees) return;
+
+    const taskState: TaskStateMessage = {
+      type: 'task_state',
+      task: this.worktrees.getActiveTask(),
+      mergeStrategy: this.worktrees.getMergeStrategy(),
+    };
+    this.sendEncrypted(taskState);
+  }
+
+  private sendAgentList(): void {
+    const agentList: AgentListMessage = {
+      type: 'agent_list',
+      agents: this.registry.describe(),
+      activeAgentId: this.options.agent,
+    };
+    this.sendEncrypted(agentList);
+  }
+
   private sendAgentStatusUpdate(): void {
     const statusUpdate: AgentStatusUpdateMessage = {
       type: 'agent_status_update',
@@ -436,7 +1110,8 @@ export class DoomCodeSession {
   private async handleUndoRequest(msg: UndoRequestMessage): Promise<void> {
     this.logDebug(`>>> [DESKTOP] Undo request for patch: ${msg.patchId}`);
 
-    const result = await this.patchTracker.undoPatch(msg.patchId);
+    const dryRun = msg.dryRun === true;
+    const result = await this.patchTracker.undoPatch(msg.patchId, { dryRun });
 
     const undoResult: UndoResultMessage = {
       type: 'undo_result',
@@ -444,54 +1119,365 @@ export class DoomCodeSession {
       success: result.success,
       error: result.error,
       revertedFiles: result.revertedFiles,
+      dryRun: dryRun || undefined,
+      conflicts: result.conflicts,
     };
 
     this.sendEncrypted(undoResult);
 
+    // A dry run changes nothing, so there is nothing to audit or resync
+    if (dryRun) {
+      const conflicts = result.conflicts?.length ?? 0;
+      console.log(`Undo check for ${msg.patchId}: ${conflicts} conflict(s)`);
+      return;
+    }
+
+    this.audit('undo', 'mobile', {
+      patchId: msg.patchId,
+      success: result.success,
+      error: result.error,
+      revertedFiles: result.revertedFiles,
+      conflicts: result.conflicts,
+    });
+
     if (result.success) {
       console.log(`Undo successful: reverted ${result.revertedFiles.length} files`);
     } else {
       console.log(`Undo failed: ${result.error}`);
     }
+    // Keeps the phone's redo list current, and resyncs a stale history (e.g. a pruned patch)
+    this.sendPatchList();
   }
 
-  private async handlePatchDecision(msg: { type: 'patch_decision'; patchId: string; decision: string; editedDiff?: string }): Promise<void> {
-    if (msg.decision === 'apply' && this.pendingPatchId === msg.patchId) {
-      // Finalize the patch and send applied notification
-      const appliedPatch = await this.patchTracker.finalizePatch(msg.patchId);
-      if (appliedPatch) {
-        const patchApplied: PatchAppliedMessage = {
-          type: 'patch_applied',
-          patch: appliedPatch,
-        };
-        this.sendEncrypted(patchApplied);
+  private async handlePatchHistoryRequest(
+    msg: UndoRangeRequestMessage | PartialUndoRequestMessage | RedoRequestMessage
+  ): Promise<void> {
+    const dryRun = msg.dryRun === true;
+    let operation: PatchHistoryResultMessage['operation'];
+    let result: PatchHistoryResult;
+
+    switch (msg.type) {
+      case 'undo_range_request':
+        operation = 'undo_range';
+        result = await this.patchTracker.undoRange(msg.toPatchId, { dryRun });
+        break;
+      case 'partial_undo_request':
+        operation = 'partial_undo';
+        result = await this.patchTracker.undoFiles(msg.patchId, msg.files, { dryRun });
+        break;
+      case 'redo_request':
+        operation = 'redo';
+        result = await this.patchTracker.redo({ dryRun });
+        break;
+    }
+
+    const historyResult: PatchHistoryResultMessage = {
+      type: 'patch_history_result',
+      requestId: msg.requestId,
+      operation,
+      success: result.success,
+      dryRun: dryRun || undefined,
+      error: result.error,
+      patches: result.patches,
+    };
+    this.sendEncrypted(historyResult);
+
+    if (dryRun) return;
+
+    this.audit(operation === 'redo' ? 'redo' : 'undo', 'mobile', {
+      operation,
+      success: result.success,
+      error: result.error,
+      patches: result.patches,
+    });
+
+    const changed = result.patches.filter((p) => p.status !== 'conflict' && p.status !== 'skipped');
+    console.log(
+      `${operation === 'redo' ? 'Redo' : 'Undo'}: ${changed.length} patch(es) changed` +
+        (result.error ? ` (${result.error})` : '')
+    );
+    this.sendPatchList();
+  }
+
+  private async handlePatchDecision(
+    msg: PatchDecisionMessage,
+    actor: AuditActor = 'mobile'
+  ): Promise<void> {
+    const pending = this.pendingPatches.get(msg.patchId);
+    this.pendingPatches.delete(msg.patchId);
+
+    if (msg.decision === 'edit') {
+      await this.handlePatchEdit(msg, pending, actor);
+      return;
+    }
+
+    const task = msg.patchId === this.taskReviewPatchId ? this.worktrees?.getActiveTask() : null;
+    let error: string | undefined;
+
+    if (task && msg.decision === 'apply' && msg.selection && pending) {
+      // Merging is all or nothing, so keep the review pending
+      this.pendingPatches.set(msg.patchId, pending);
+      this.sendNotice('Task changes can only be applied as a whole; ask the agent to revise them');
+      return;
+    }
+
+    let accepted = msg.decision === 'apply' && !!pending;
+    if (task) {
+      // A task review is applied by merging the task branch; rejecting it keeps the task going
+      this.taskReviewPatchId = null;
+      if (msg.decision === 'apply') {
+        try {
+          const subject = task.prompt?.split('\n')[0].slice(0, 72);
+          this.worktrees!.commitTask(subject || `DoomCode task ${task.taskId}`);
+          this.worktrees!.mergeTask();
+        } catch (err) {
+          error = err instanceof Error ? err.message : String(err);
+          this.sendNotice(error);
+        }
+      }
+    } else {
+      // Let the agent act on the decision first; resolves once an applied patch is on disk
+      const written = (await this.agentManager?.handlePatchDecision(msg)) ?? true;
+      if (accepted && !written) {
+        accepted = false;
+        error = 'The agent did not apply the change';
+        this.sendNotice(error);
+      }
+      if (accepted && msg.selection) {
+        // The whole patch is on disk now; put back the parts the phone left out
+        accepted = this.patchTracker.applySelection(msg.patchId, pending!.files, msg.selection);
+      }
+    }
+
+    const appliedPatch =
+      accepted && !error ? await this.patchTracker.finalizePatch(msg.patchId) : null;
+    if (!appliedPatch) {
+      this.patchTracker.discardPatch(msg.patchId);
+    }
+
+    this.audit('patch', actor, {
+      patchId: msg.patchId,
+      decision: msg.decision,
+      selection: msg.selection,
+      prompt: appliedPatch?.prompt ?? this.lastPrompt,
+      files: appliedPatch
+        ? appliedPatch.files.map((file) => ({
+            path: file.path,
+            beforeHash: file.beforeHash,
+            afterHash: file.afterHash,
+          }))
+        : pending?.files.map((file) => ({ path: file.path, status: file.status })),
+      ...(task && { branch: task.branch }),
+      ...(error && { error }),
+    });
+
+    if (appliedPatch) {
+      // Send applied notification
+      const patchApplied: PatchAppliedMessage = {
+        type: 'patch_applied',
+        patch: appliedPatch,
+      };
+      this.sendEncrypted(patchApplied);
+    }
+
+    if (task && appliedPatch) {
+      await this.endTask('merged', actor);
+    }
+  }
+
+  /**
+   * Apply a patch as edited on the phone in place of the agent's version. If
+   * the edit does not check out, the original stays pending and is sent again.
+   */
+  private async handlePatchEdit(
+    msg: PatchDecisionMessage,
+    pending: DiffPatchMessage | undefined,
+    actor: AuditActor
+  ): Promise<void> {
+    const fail = (error: string, keepPending: boolean) => {
+      if (pending && keepPending) {
+        this.pendingPatches.set(msg.patchId, pending);
+        this.sendEncrypted(pending);
       }
-      this.pendingPatchId = null;
+      const result: PatchEditResultMessage = {
+        type: 'patch_edit_result',
+        patchId: msg.patchId,
+        success: false,
+        error,
+      };
+      this.sendEncrypted(result);
+      this.audit('patch', actor, { patchId: msg.patchId, decision: msg.decision, error });
+    };
+
+    if (!pending) {
+      fail('Patch not found', false);
+      return;
+    }
+    if (msg.patchId === this.taskReviewPatchId) {
+      fail('Task changes can only be applied as a whole; ask the agent to revise them', true);
+      return;
+    }
+    if (!msg.editedDiff) {
+      fail('No edited diff was sent', true);
+      return;
+    }
+
+    const check = this.patchTracker.applyEditedDiff(msg.patchId, msg.editedDiff, {
+      dryRun: true,
+    });
+    if (!check.success) {
+      fail(check.error ?? 'The edited diff does not apply', true);
+      return;
+    }
+
+    // From here the agent's version is out of the picture
+    await this.agentManager?.handlePatchDecision(msg);
+    const applied = this.patchTracker.applyEditedDiff(msg.patchId, msg.editedDiff);
+    const appliedPatch = applied.success ? await this.patchTracker.finalizePatch(msg.patchId) : null;
+    if (!appliedPatch) {
+      this.patchTracker.discardPatch(msg.patchId);
+      fail(applied.error ?? 'Nothing was applied', false);
+      return;
     }
 
-    this.agentManager?.handlePatchDecision(msg as any);
+    const result: PatchEditResultMessage = {
+      type: 'patch_edit_result',
+      patchId: msg.patchId,
+      success: true,
+    };
+    this.sendEncrypted(result);
+    const patchApplied: PatchAppliedMessage = { type: 'patch_applied', patch: appliedPatch };
+    this.sendEncrypted(patchApplied);
+
+    this.audit('patch', actor, {
+      patchId: msg.patchId,
+      decision: msg.decision,
+      prompt: appliedPatch.prompt,
+      files: appliedPatch.files.map((file) => ({
+        path: file.path,
+        beforeHash: file.beforeHash,
+        afterHash: file.afterHash,
+      })),
+    });
   }
 
   private async handlePRCreateRequest(msg: PRCreateRequestMessage): Promise<void> {
     this.logDebug(`>>> [DESKTOP] PR create request: ${msg.title}`);
 
-    const result = await this.githubHandler.createPullRequest(msg);
+    // With an active task the PR comes from its branch, leaving the checkout alone
+    const task = this.worktrees?.getActiveTask();
+    const worktreePath = this.worktrees?.getWorktreePath();
+    const result = await this.githubHandler.createPullRequest(
+      msg,
+      task && worktreePath ? { path: worktreePath, baseCommit: task.baseCommit } : undefined
+    );
     this.sendEncrypted(result);
+    this.audit('pr_created', 'mobile', {
+      requestId: msg.requestId,
+      title: msg.title,
+      branchName: msg.branchName,
+      baseBranch: msg.baseBranch,
+      success: result.success,
+      prUrl: result.prUrl,
+      prNumber: result.prNumber,
+      error: result.error,
+    });
 
     if (result.success) {
       console.log(`\n✓ Pull request created: ${result.prUrl}`);
     } else {
       console.log(`\n✗ Failed to create pull request: ${result.error}`);
     }
+
+    if (result.success && task) {
+      await this.endTask('pull_request', 'mobile');
+    }
+  }
+
+  private sendSessionState(): void {
+    const state: SessionStateMessage = {
+      type: 'session_state',
+      pendingPermissions: [...this.pendingPermissions.values()],
+      pendingPatches: [...this.pendingPatches.values()],
+      terminalHistory: this.scrollback.read(
+        { before: this.scrollback.getNextSequence() },
+        MAX_TERMINAL_HISTORY_CHARS
+      ),
+      terminalOldestSequence: this.scrollback.getOldestSequence(),
+      currentAgent: this.options.agent,
+      workingDirectory: this.options.workingDirectory,
+      ...this.getGitInfo(),
+      agentStatus: this.agentManager?.getStatus() ?? 'idle',
+    };
+    this.sendEncrypted(state);
+  }
+
+  private getGitInfo(): { gitBranch?: string; gitStatus?: string } {
+    const git = (command: string) =>
+      execSync(`git ${command}`, {
+        cwd: this.options.workingDirectory,
+        encoding: 'utf-8',
+        stdio: ['pipe', 'pipe', 'pipe'],
+      }).trim();
+
+    try {
+      const gitBranch = git('rev-parse --abbrev-ref HEAD');
+      const statusLines = git('status --short').split('\n').filter(Boolean);
+      const gitStatus =
+        statusLines.length > MAX_GIT_STATUS_LINES
+          ? [
+              ...statusLines.slice(0, MAX_GIT_STATUS_LINES),
+              `... ${statusLines.length - MAX_GIT_STATUS_LINES} more`,
+            ].join('\n')
+          : statusLines.join('\n');
+
+      return { gitBranch, gitStatus };
+    } catch {
+      // Not a git repository (or git unavailable)
+      return {};
+    }
+  }
+
+  private isRelayReady(): boolean {
+    return this.joined && this.ws?.readyState === WebSocket.OPEN && !!this.crypto;
+  }
+
+  private flushOutbox(): void {
+    if (!this.isRelayReady() || this.outbox.length === 0) return;
+
+    const queued = this.outbox;
+    this.outbox = [];
+    this.outboxOverflowed = false;
+    this.logDebug(`>>> [DESKTOP] Flushing ${queued.length} buffered messages`);
+
+    for (const msg of queued) {
+      this.sendEncrypted(msg);
+    }
   }
 
   private sendEncrypted(msg: Message): void {
-    if (!this.ws || !this.crypto || !this.sessionId) {
-      console.error('Cannot send: not connected');
+    if (!this.sessionId) {
+      console.error('Cannot send: no session');
+      return;
+    }
+
+    if (!this.isRelayReady()) {
+      // Heartbeat replies are only meaningful live
+      if (msg.type === 'heartbeat') return;
+
+      // Buffer until the relay connection is back; flushed in order on rejoin
+      this.outbox.push(msg);
+      if (this.outbox.length > MAX_OUTBOX_MESSAGES) {
+        this.outbox.shift();
+        if (!this.outboxOverflowed) {
+          this.outboxOverflowed = true;
+          console.warn('Offline buffer full; dropping oldest messages');
+        }
+      }
       return;
     }
 
-    const encrypted = this.crypto.encrypt(JSON.stringify(msg));
+    const encrypted = this.crypto!.encrypt(JSON.stringify(msg));
     const envelope = createEnvelope({
       sessionId: this.sessionId,
       sender: 'desktop',
@@ -499,6 +1485,6 @@ export class DoomCodeSession {
       encryptedPayload: encrypted.ciphertext,
     });
 
-    this.ws.send(JSON.stringify(envelope));
+    this.ws!.send(JSON.stringify(envelope));
   }
 }
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getTerminalScrollbackDir, TerminalScrollback } from './terminal-scrollback.js';
+
+describe('TerminalScrollback', () => {
+  let dir: string;
+  let scrollback: TerminalScrollback;
+
+  const appendMany = (count: number, data = (i: number) => `chunk ${i}\n`) => {
+    for (let i = 0; i < count; i++) scrollback.append('stdout', data(i));
+  };
+  const sequences = (chunks: { sequence: number }[]) => chunks.map((c) => c.sequence);
+  const range = (from: number, before: number) =>
+    Array.from({ length: before - from }, (_, i) => from + i);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'doomcode-scrollback-'));
+    scrollback = new TerminalScrollback(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('numbers chunks in order', () => {
+    appendMany(3);
+    expect(sequences(scrollback.read({ before: 3 }, Infinity))).toEqual([0, 1, 2]);
+    expect(scrollback.getNextSequence()).toBe(3);
+    expect(scrollback.getOldestSequence()).toBe(0);
+  });
+
+  describe('pages', () => {
+    it('returns the newest chunks that fit, oldest first', () => {
+      appendMany(10, () => '0123456789');
+
+      const page = scrollback.read({ before: scrollback.getNextSequence() }, 35);
+      expect(sequences(page)).toEqual([7, 8, 9]);
+
+      const previous = scrollback.read({ before: page[0].sequence }, 35);
+      expect(sequences(previous)).toEqual([4, 5, 6]);
+    });
+
+    it('returns one chunk even if it is larger than the budget', () => {
+      appendMany(2, () => 'x'.repeat(100));
+      expect(sequences(scrollback.read({ before: 2 }, 10))).toEqual([1]);
+    });
+
+    it('returns nothing before the oldest chunk', () => {
+      appendMany(2);
+      expect(scrollback.read({ before: 0 }, Infinity)).toEqual([]);
+    });
+
+    it('pages back from memory into chunks only on disk', () => {
+      appendMany(700);
+
+      const page = scrollback.read({ before: 210 }, Infinity);
+      expect(sequences(page)).toEqual(range(0, 210));
+      expect(page[5].data).toBe('chunk 5\n');
+    });
+  });
+
+  describe('gaps', () => {
+    it('returns the chunks from `from` up to `before`', () => {
+      appendMany(10);
+      expect(sequences(scrollback.read({ from: 3, before: 7 }, Infinity))).toEqual([3, 4, 5, 6]);
+    });
+
+    it('cuts a gap that does not fit the budget from its old end', () => {
+      appendMany(10, () => '0123456789');
+      expect(sequences(scrollback.read({ from: 2, before: 8 }, 30))).toEqual([5, 6, 7]);
+    });
+
+    it('fills a gap that spans disk and memory', () => {
+      appendMany(700);
+      const gap = scrollback.read({ from: 190, before: 210 }, Infinity);
+      expect(sequences(gap)).toEqual(range(190, 210));
+      expect(gap.map((c) => c.data)).toEqual(range(190, 210).map((i) => `chunk ${i}\n`));
+    });
+
+    it('clamps a gap to what is stored', () => {
+      appendMany(5);
+      expect(sequences(scrollback.read({ from: 3, before: 100 }, Infinity))).toEqual([3, 4]);
+    });
+  });
+
+  it('iterates over every chunk in a range', () => {
+    appendMany(700);
+    expect(sequences([...scrollback.chunks({ before: 700 })])).toEqual(range(0, 700));
+    expect(sequences([...scrollback.chunks({ from: 150, before: 250 })])).toEqual(range(150, 250));
+  });
+
+  describe('across restarts', () => {
+    it('continues the numbering and reads the earlier output from disk', () => {
+      appendMany(5);
+
+      const restarted = new TerminalScrollback(dir);
+      expect(restarted.getNextSequence()).toBe(5);
+      expect(restarted.append('stdout', 'after').sequence).toBe(5);
+      expect(restarted.read({ before: 6 }, Infinity).map((c) => c.data)).toEqual([
+        'chunk 0\n',
+        'chunk 1\n',
+        'chunk 2\n',
+        'chunk 3\n',
+        'chunk 4\n',
+        'after',
+      ]);
+    });
+
+    it('drops a line cut short by a crash', () => {
+      appendMany(3);
+      const [segment] = fs.readdirSync(getTerminalScrollbackDir(dir));
+      fs.appendFileSync(path.join(getTerminalScrollbackDir(dir), segment), '{"type":"term');
+
+      const restarted = new TerminalScrollback(dir);
+      expect(restarted.getNextSequence()).toBe(3);
+      restarted.append('stdout', 'next');
+      expect(sequences(restarted.read({ before: 4 }, Infinity))).toEqual([0, 1, 2, 3]);
+    });
+  });
+
+  describe('segments', () => {
+    const chunk = 'x'.repeat(100 * 1024);
+
+    it('starts a new segment once one is full, and deletes the oldest past the budget', () => {
+      appendMany(200, () => chunk);
+
+      const files = fs.readdirSync(getTerminalScrollbackDir(dir));
+      const stored = files.reduce(
+        (sum, name) => sum + fs.statSync(path.join(getTerminalScrollbackDir(dir), name)).size,
+        0
+      );
+      expect(files.length).toBeGreaterThan(1);
+      expect(stored).toBeLessThanOrEqual(16 * 1024 * 1024);
+
+      // Chunks deleted from disk can still be read while they are kept in memory
+      const oldestStored = Math.min(...files.map((name) => parseInt(name, 10)));
+      expect(oldestStored).toBeGreaterThan(0);
+      expect(scrollback.getOldestSequence()).toBe(0);
+
+      const restarted = new TerminalScrollback(dir);
+      expect(restarted.getOldestSequence()).toBe(oldestStored);
+      expect(sequences(restarted.read({ before: oldestStored + 2 }, Infinity))).toEqual([
+        oldestStored,
+        oldestStored + 1,
+      ]);
+    });
+
+    it('reads across a segment boundary', () => {
+      appendMany(30, () => chunk);
+      const second = fs
+        .readdirSync(getTerminalScrollbackDir(dir))
+        .map((name) => parseInt(name, 10))
+        .sort((a, b) => a - b)[1];
+
+      const restarted = new TerminalScrollback(dir);
+      const page = restarted.read({ from: second - 2, before: second + 2 }, Infinity);
+      expect(sequences(page)).toEqual(range(second - 2, second + 2));
+    });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Terminal Scrollback
+ *
+ * Bounded, disk-backed record of the agent's terminal output, indexed by
+ * `TerminalOutputMessage.sequence`, so the phone can page back through a long
+ * run and fetch output it missed while disconnected. Chunks are appended as
+ * JSONL to segment files under `.doomcode/terminal/`, each named after the
+ * sequence of its first chunk; once the segments pass the size budget the
+ * oldest is deleted. Sequence numbers are handed out here and carry on from
+ * the stored output after a desktop restart.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TerminalOutputMessage } from '@doomcode/protocol';
+import { makeProjectDataDir } from '../project-state.js';
+
+/** A segment is closed once it reaches this size */
+const SEGMENT_BYTES = 1024 * 1024;
+
+/** Total size of the stored segments; the oldest segment is deleted past it */
+const MAX_SCROLLBACK_BYTES = 16 * 1024 * 1024;
+
+/** Newest chunks also kept in memory, so snapshots don't read the disk */
+const MAX_RECENT_CHUNKS = 500;
+
+const SEGMENT_FILE = /^(\d+)\.jsonl$/;
+
+interface Segment {
+  filePath: string;
+  firstSequence: number;
+  /** Byte offset of each chunk's line; chunk i has sequence firstSequence + i */
+  offsets: number[];
+  size: number;
+}
+
+/** Chunks with sequences in [from, before) */
+export interface ScrollbackRange {
+  before: number;
+  from?: number;
+}
+
+export function getTerminalScrollbackDir(workingDirectory: string): string {
+  return path.join(workingDirectory, '.doomcode', 'terminal');
+}
+
+export class TerminalScrollback {
+  private dir: string;
+  private segments: Segment[] = [];
+  /** Segment being appended to; null when the next chunk starts a new one */
+  private current: Segment | null = null;
+  private recent: TerminalOutputMessage[] = [];
+  private nextSequence = 0;
+
+  constructor(workingDirectory: string) {
+    this.dir = getTerminalScrollbackDir(workingDirectory);
+    this.loadSegments();
+  }
+
+  /** Sequence the next chunk will get */
+  getNextSequence(): number {
+    return this.nextSequence;
+  }
+
+  /** Oldest sequence that can still be read */
+  getOldestSequence(): number {
+    const stored = this.segments[0]?.firstSequence ?? this.nextSequence;
+    return Math.min(stored, this.recent[0]?.sequence ?? this.nextSequence);
+  }
+
+  /**
+   * Number and store an output chunk.
+   */
+  append(stream: TerminalOutputMessage['stream'], data: string): TerminalOutputMessage {
+    const msg: TerminalOutputMessage = {
+      type: 'terminal_output',
+      stream,
+      data,
+      sequence: this.nextSequence++,
+    };
+
+    this.recent.push(msg);
+    if (this.recent.length > MAX_RECENT_CHUNKS) {
+      this.recent.shift();
+    }
+
+    this.writeChunk(msg);
+    return msg;
+  }
+
+  /**
+   * Stored chunks in `range`, oldest first. Chunks are collected from the
+   * newest down until their data passes `maxChars`; at least one is returned
+   * if the range has any.
+   */
+  read(range: ScrollbackRange, maxChars: number): TerminalOutputMessage[] {
+    const from = Math.max(range.from ?? 0, this.getOldestSequence());
+    const chunks: TerminalOutputMessage[] = [];
+    let chars = 0;
+
+    let sequence = Math.min(range.before, this.nextSequence) - 1;
+    while (sequence >= from) {
+      const batch = this.readBatch(from, sequence);
+      if (batch.length === 0) {
+        // Lost to a failed write; carry on from the newest stored chunk before it
+        const earlier = this.segments.filter((s) => s.firstSequence < sequence).pop();
+        sequence = earlier
+          ? Math.min(sequence - 1, earlier.firstSequence + earlier.offsets.length - 1)
+          : from - 1;
+        continue;
+      }
+
+      for (let i = batch.length - 1; i >= 0; i--) {
+        chars += batch[i].data.length;
+        if (chars > maxChars && chunks.length > 0) return chunks;
+        chunks.unshift(batch[i]);
+      }
+      sequence = batch[0].sequence - 1;
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Every stored chunk in `range`, oldest first, read one segment at a time.
+   */
+  *chunks(range: ScrollbackRange): Generator<TerminalOutputMessage> {
+    const from = Math.max(range.from ?? 0, this.getOldestSequence());
+    const before = Math.min(range.before, this.nextSequence);
+    const firstRecent = this.recent[0]?.sequence ?? this.nextSequence;
+
+    for (const segment of [...this.segments]) {
+      const first = Math.max(from, segment.firstSequence);
+      const last =
+        Math.min(segment.firstSequence + segment.offsets.length, before, firstRecent) - 1;
+      if (last >= first) yield* this.readBatch(first, last);
+    }
+
+    yield* this.recent.filter((c) => c.sequence >= from && c.sequence < before);
+  }
+
+  /**
+   * Chunks from `from` up to and including `last`, served from memory or from
+   * the one segment holding `last`. Empty if `last` is not stored.
+   */
+  private readBatch(from: number, last: number): TerminalOutputMessage[] {
+    const firstRecent = this.recent[0]?.sequence;
+    if (firstRecent !== undefined && last >= firstRecent) {
+      const end = last - firstRecent + 1;
+      return this.recent.slice(Math.max(0, from - firstRecent), end);
+    }
+
+    const segment = this.segments.find(
+      (s) => last >= s.firstSequence && last < s.firstSequence + s.offsets.length
+    );
+    if (!segment) return [];
+
+    const startIndex = Math.max(0, from - segment.firstSequence);
+    const endIndex = last - segment.firstSequence + 1;
+    const start = segment.offsets[startIndex];
+    const end = segment.offsets[endIndex] ?? segment.size;
+
+    let fd: number | null = null;
+    try {
+      fd = fs.openSync(segment.filePath, 'r');
+      const buffer = Buffer.alloc(end - start);
+      fs.readSync(fd, buffer, 0, buffer.length, start);
+      return buffer
+        .toString('utf8')
+        .split('\n')
+        .filter((line) => line)
+        .map((line) => JSON.parse(line) as TerminalOutputMessage);
+    } catch (error) {
+      console.warn(`Failed to read terminal scrollback ${segment.filePath}:`, error);
+      return [];
+    } finally {
+      if (fd !== null) fs.closeSync(fd);
+    }
+  }
+
+  private writeChunk(msg: TerminalOutputMessage): void {
+    const line = `${JSON.stringify(msg)}\n`;
+
+    try {
+      if (!this.current) {
+        makeProjectDataDir(this.dir);
+        this.current = {
+          filePath: path.join(this.dir, `${msg.sequence}.jsonl`),
+          firstSequence: msg.sequence,
+          offsets: [],
+          size: 0,
+        };
+        this.segments.push(this.current);
+      }
+
+      fs.appendFileSync(this.current.filePath, line, 'utf8');
+      this.current.offsets.push(this.current.size);
+      this.current.size += Buffer.byteLength(line);
+    } catch (error) {
+      console.warn('Failed to write terminal scrollback:', error);
+      // Start a new segment so sequences within a segment stay contiguous
+      this.current = null;
+      return;
+    }
+
+    if (this.current.size >= SEGMENT_BYTES) {
+      this.current = null;
+    }
+    this.prune();
+  }
+
+  /**
+   * Delete the oldest segments until the rest fit the size budget.
+   */
+  private prune(): void {
+    let total = this.segments.reduce((sum, segment) => sum + segment.size, 0);
+
+    while (total > MAX_SCROLLBACK_BYTES && this.segments.length > 1) {
+      const oldest = this.segments.shift()!;
+      total -= oldest.size;
+      try {
+        fs.rmSync(oldest.filePath, { force: true });
+      } catch (error) {
+        console.warn(`Failed to delete terminal scrollback ${oldest.filePath}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Index the segments left by earlier runs and continue numbering after them.
+   * A line cut short by a crash is dropped.
+   */
+  private loadSegments(): void {
+    if (!fs.existsSync(this.dir)) return;
+
+    try {
+      const files = fs
+        .readdirSync(this.dir)
+        .map((name) => ({ name, match: SEGMENT_FILE.exec(name) }))
+        .filter(({ match }) => match)
+        .map(({ name, match }) => ({ name, firstSequence: Number(match![1]) }))
+        .sort((a, b) => a.firstSequence - b.firstSequence);
+
+      for (const { name, firstSequence } of files) {
+        const filePath = path.join(this.dir, name);
+        const content = fs.readFileSync(filePath);
+
+        const size = content.lastIndexOf('\n') + 1;
+        if (size < content.length) {
+          fs.truncateSync(filePath, size);
+        }
+        if (size === 0) {
+          fs.rmSync(filePath, { force: true });
+          continue;
+        }
+
+        const offsets: number[] = [0];
+        for (let i = content.indexOf('\n'); i !== -1 && i + 1 < size; ) {
+          offsets.push(i + 1);
+          i = content.indexOf('\n', i + 1);
+        }
+        this.segments.push({ filePath, firstSequence, offsets, size });
+      }
+    } catch (error) {
+      console.warn(`Failed to read terminal scrollback ${this.dir}:`, error);
+    }
+
+    const last = this.segments[this.segments.length - 1];
+    if (last) {
+      this.nextSequence = last.firstSequence + last.offsets.length;
+    }
+    this.prune();
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { TerminalOutputMessage } from '@doomcode/protocol';
+import { createSearchPattern, searchTerminalOutput } from './terminal-search.js';
+
+const output = (...data: string[]): TerminalOutputMessage[] =>
+  data.map((chunk, sequence) => ({
+    type: 'terminal_output',
+    stream: 'stdout',
+    data: chunk,
+    sequence,
+  }));
+
+const search = (query: string, chunks: TerminalOutputMessage[], regex = false) =>
+  searchTerminalOutput(chunks, createSearchPattern(query, { regex }));
+
+describe('createSearchPattern', () => {
+  it('matches plain queries literally and ignores case by default', () => {
+    const pattern = createSearchPattern('a.b (1)', {});
+    expect(pattern.test('see A.B (1)')).toBe(true);
+    expect(pattern.test('axb (1)')).toBe(false);
+  });
+
+  it('matches case when asked to', () => {
+    expect(createSearchPattern('Error', { caseSensitive: true }).test('error')).toBe(false);
+  });
+
+  it('accepts regular expressions', () => {
+    expect(createSearchPattern('^fail(ed|ure)$', { regex: true }).test('failure')).toBe(true);
+  });
+
+  it('throws for an invalid regular expression', () => {
+    expect(() => createSearchPattern('(unclosed', { regex: true })).toThrow(SyntaxError);
+    expect(() => createSearchPattern('[a-', { regex: true })).toThrow(/Invalid regular expression/);
+    expect(() => createSearchPattern('(unclosed', {})).not.toThrow();
+  });
+});
+
+describe('searchTerminalOutput', () => {
+  it('finds matching lines and the chunk each one starts in', () => {
+    const result = search('error', output('ok\nerror: one\n', 'fine\n', 'another error\n'));
+    expect(result).toEqual({
+      total: 2,
+      matches: [
+        { sequence: 0, line: 'error: one' },
+        { sequence: 2, line: 'another error' },
+      ],
+    });
+  });
+
+  it('matches a line split across chunks as a whole', () => {
+    const result = search('build failed', output('\nbuild ', 'fail', 'ed in 3s\n'));
+    expect(result.matches).toEqual([{ sequence: 0, line: 'build failed in 3s' }]);
+  });
+
+  it('starts a line in the chunk of its first character', () => {
+    const result = search('second', output('first\n', 'second\n'));
+    expect(result.matches).toEqual([{ sequence: 1, line: 'second' }]);
+  });
+
+  it('strips escape sequences, including ones split across chunks', () => {
+    const result = search('red text', output('\x1b[3', '1mred\x1b[0m t', 'ext\n'));
+    // The first chunk shows nothing, so the line starts in the second
+    expect(result.matches).toEqual([{ sequence: 1, line: 'red text' }]);
+  });
+
+  it('matches the last line even without a trailing newline', () => {
+    expect(search('prompt', output('done\n$ prompt')).total).toBe(1);
+  });
+
+  it('matches what a line shows after carriage returns', () => {
+    const chunks = output('progress 10%\r', 'progress 100%\r\n');
+    expect(search('100%', chunks).matches).toEqual([{ sequence: 0, line: 'progress 100%' }]);
+    expect(search('progress 10%', chunks).total).toBe(0);
+  });
+
+  it('counts every match but returns only the newest 200', () => {
+    const lines = Array.from({ length: 250 }, (_, i) => `match ${i}\n`);
+    const result = search('match', output(...lines));
+
+    expect(result.total).toBe(250);
+    expect(result.matches).toHaveLength(200);
+    expect(result.matches[0]).toEqual({ sequence: 50, line: 'match 50' });
+    expect(result.matches[199]).toEqual({ sequence: 249, line: 'match 249' });
+  });
+
+  it('cuts long matching lines', () => {
+    const [match] = search('needle', output(`needle ${'x'.repeat(500)}\n`)).matches;
+    expect(match.line).toHaveLength(200);
+  });
+
+  it('keeps only the end of a very long unfinished line', () => {
+    const result = search('start', output('start', 'x'.repeat(20_000), ' end\n'));
+    expect(result.total).toBe(0);
+    expect(search('end$', output('start', 'x'.repeat(20_000), ' end\n'), true).total).toBe(1);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Terminal Search
+ *
+ * Finds the lines of stored terminal output that match a search from the
+ * phone, which can only search the output it has loaded itself. Escape
+ * sequences are stripped with a stream parser, so a line split across chunks
+ * (or a sequence split across them) is still matched whole.
+ */
+
+import { createAnsiStream } from '@doomcode/ansi-parser';
+import type { TerminalOutputMessage, TerminalSearchMatch } from '@doomcode/protocol';
+
+export interface TerminalSearchOptions {
+  regex?: boolean;
+  caseSensitive?: boolean;
+}
+
+export interface TerminalSearchResult {
+  /** The newest matches, oldest first */
+  matches: TerminalSearchMatch[];
+  total: number;
+}
+
+/** Matches sent to the phone; `total` counts all of them */
+const MAX_MATCHES = 200;
+
+/** Matching lines are cut to this length */
+const MAX_LINE_LENGTH = 200;
+
+/** An unfinished line is cut to its end past this length */
+const MAX_PENDING_LINE = 10_000;
+
+/**
+ * The pattern for a query. Throws if `query` is not a valid regular expression.
+ */
+export function createSearchPattern(query: string, options: TerminalSearchOptions): RegExp {
+  const source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(source, options.caseSensitive ? '' : 'i');
+}
+
+/**
+ * Match `pattern` against each line of the output in `chunks` (oldest first).
+ */
+export function searchTerminalOutput(
+  chunks: Iterable<TerminalOutputMessage>,
+  pattern: RegExp
+): TerminalSearchResult {
+  const stream = createAnsiStream();
+  const matches: TerminalSearchMatch[] = [];
+  let total = 0;
+  let line = '';
+  let lineStart: number | null = null;
+
+  const endLine = () => {
+    const text = visibleText(line);
+    if (lineStart !== null && pattern.test(text)) {
+      total++;
+      matches.push({ sequence: lineStart, line: text.slice(0, MAX_LINE_LENGTH) });
+      if (matches.length > MAX_MATCHES) matches.shift();
+    }
+    line = '';
+    lineStart = null;
+  };
+
+  for (const chunk of chunks) {
+    const text = stream
+      .push(chunk.data)
+      .map((span) => span.text)
+      .join('');
+
+    text.split('\n').forEach((part, i) => {
+      if (i > 0) endLine();
+      if (part && lineStart === null) lineStart = chunk.sequence;
+      line += part;
+    });
+
+    if (line.length > MAX_PENDING_LINE) {
+      line = visibleText(line).slice(-MAX_PENDING_LINE);
+    }
+  }
+  endLine();
+
+  return { matches, total };
+}
+
+/**
+ * What a line shows once carriage returns have let later text overwrite it
+ * (progress bars, spinners): the text after the last one.
+ */
+function visibleText(line: string): string {
+  const parts = line.split('\r').filter((part) => part);
+  return parts[parts.length - 1] ?? '';
+}
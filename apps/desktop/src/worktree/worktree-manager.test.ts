@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorktreeManager } from './worktree-manager.js';
+
+describe('WorktreeManager', () => {
+  let repo: string;
+  let home: string;
+
+  const git = (command: string, cwd = repo) =>
+    execSync(`git ${command}`, { cwd, encoding: 'utf8', stdio: ['pipe', 'pipe', 'pipe'] });
+  const write = (dir: string, name: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+    fs.writeFileSync(path.join(dir, name), content);
+  };
+  const read = (dir: string, name: string) => fs.readFileSync(path.join(dir, name), 'utf8');
+
+  beforeEach(() => {
+    repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'doomcode-repo-')));
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'doomcode-home-'));
+    vi.stubEnv('HOME', home);
+    vi.stubEnv('GIT_CONFIG_NOSYSTEM', '1');
+    for (const role of ['AUTHOR', 'COMMITTER']) {
+      vi.stubEnv(`GIT_${role}_NAME`, 'Test');
+      vi.stubEnv(`GIT_${role}_EMAIL`, 'test@example.com');
+    }
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    git('init -q -b main');
+    write(repo, 'a.txt', 'one\n');
+    git('add -A');
+    git('commit -q -m initial');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    fs.rmSync(repo, { recursive: true, force: true });
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('needs a repository with a commit', () => {
+    expect(WorktreeManager.isSupported(repo)).toBe(true);
+    expect(WorktreeManager.isSupported(home)).toBe(false);
+  });
+
+  describe('createTask', () => {
+    it('creates a worktree outside the checkout on a new branch from HEAD', () => {
+      const manager = new WorktreeManager(repo);
+      const task = manager.createTask();
+      const worktree = manager.getWorktreePath()!;
+
+      expect(task.branch).toBe(`doomcode/task-${task.taskId}`);
+      expect(task.baseCommit).toBe(git('rev-parse HEAD').trim());
+      expect(worktree.startsWith(path.join(home, '.doomcode', 'worktrees'))).toBe(true);
+      expect(git('rev-parse --abbrev-ref HEAD', worktree).trim()).toBe(task.branch);
+      expect(read(worktree, 'a.txt')).toBe('one\n');
+      expect(() => manager.createTask()).toThrow(/still active/);
+    });
+
+    it('is picked back up by the next manager, unless its worktree is gone', () => {
+      const task = new WorktreeManager(repo).createTask();
+      const reloaded = new WorktreeManager(repo);
+      expect(reloaded.getActiveTask()).toEqual(task);
+
+      fs.rmSync(reloaded.getWorktreePath()!, { recursive: true, force: true });
+      expect(new WorktreeManager(repo).getActiveTask()).toBeNull();
+      // The stale task was forgotten, not just skipped
+      expect(fs.existsSync(path.join(repo, '.doomcode', 'worktree-task.json'))).toBe(false);
+    });
+
+    it('maps a subdirectory of the repository into the worktree', () => {
+      fs.mkdirSync(path.join(repo, 'pkg'));
+      const manager = new WorktreeManager(path.join(repo, 'pkg'));
+      manager.createTask();
+      expect(manager.getTaskDirectory()).toBe(path.join(manager.getWorktreePath()!, 'pkg'));
+    });
+  });
+
+  it('records only the first prompt of a task', () => {
+    const manager = new WorktreeManager(repo);
+    expect(manager.recordPrompt('ignored')).toBe(false);
+    manager.createTask();
+    expect(manager.recordPrompt('first')).toBe(true);
+    expect(manager.recordPrompt('second')).toBe(false);
+    expect(manager.getActiveTask()?.prompt).toBe('first');
+  });
+
+  it('diffs committed, modified and untracked files against the base commit', () => {
+    const manager = new WorktreeManager(repo);
+    manager.createTask();
+    const worktree = manager.getWorktreePath()!;
+    expect(manager.getDiff()).toBeNull();
+
+    write(worktree, 'committed.txt', 'c\n');
+    git('add -A', worktree);
+    git('commit -q -m agent', worktree);
+    write(worktree, 'a.txt', 'two\n');
+    write(worktree, 'new/untracked.txt', 'u\n');
+
+    const diff = manager.getDiff()!;
+    expect(diff.files.map((f) => [f.path, f.status]).sort()).toEqual([
+      ['a.txt', 'modified'],
+      ['committed.txt', 'added'],
+      ['new/untracked.txt', 'added'],
+    ]);
+    expect(read(repo, 'a.txt')).toBe('one\n');
+  });
+
+  describe('mergeTask', () => {
+    const finishTask = (manager: WorktreeManager) => {
+      manager.createTask();
+      write(manager.getWorktreePath()!, 'a.txt', 'two\n');
+      expect(manager.commitTask('Change a')).toBe(true);
+      expect(manager.commitTask('Nothing left')).toBe(false);
+    };
+
+    it('merges the task branch with a merge commit', () => {
+      const manager = new WorktreeManager(repo);
+      finishTask(manager);
+      const { branch } = manager.getActiveTask()!;
+
+      manager.mergeTask();
+      expect(read(repo, 'a.txt')).toBe('two\n');
+      expect(git('log -1 --format=%s').trim()).toBe(`Merge ${branch}`);
+    });
+
+    it('replays the task commits with cherry-pick', () => {
+      const manager = new WorktreeManager(repo, 'cherry-pick');
+      finishTask(manager);
+
+      manager.mergeTask();
+      expect(read(repo, 'a.txt')).toBe('two\n');
+      expect(git('log --format=%s').trim().split('\n')).toEqual(['Change a', 'initial']);
+    });
+
+    it('refuses a branch without commits', () => {
+      const manager = new WorktreeManager(repo);
+      expect(() => manager.mergeTask()).toThrow(/No active task/);
+      manager.createTask();
+      expect(() => manager.mergeTask()).toThrow(/no commits to merge/);
+    });
+
+    it('aborts a conflicting merge and leaves the checkout as it was', () => {
+      const manager = new WorktreeManager(repo);
+      finishTask(manager);
+      write(repo, 'a.txt', 'three\n');
+      git('commit -q -am diverge');
+
+      expect(() => manager.mergeTask()).toThrow(/Could not merge/);
+      expect(read(repo, 'a.txt')).toBe('three\n');
+      expect(git('status --porcelain').trim()).toBe('');
+    });
+  });
+
+  describe('removeTask', () => {
+    it('removes the worktree and its branch', () => {
+      const manager = new WorktreeManager(repo);
+      manager.createTask();
+      const worktree = manager.getWorktreePath()!;
+
+      manager.removeTask();
+      expect(fs.existsSync(worktree)).toBe(false);
+      expect(git("branch --list 'doomcode/*'").trim()).toBe('');
+      expect(new WorktreeManager(repo).getActiveTask()).toBeNull();
+    });
+
+    it('can keep the branch, e.g. for a pull request', () => {
+      const manager = new WorktreeManager(repo);
+      const { branch } = manager.createTask();
+
+      manager.removeTask({ keepBranch: true });
+      expect(git("branch --list 'doomcode/*'").trim()).toBe(branch);
+    });
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Worktree Manager
+ *
+ * Isolates agent tasks in dedicated git worktrees so the agent never edits the
+ * developer's checkout. Each task gets a worktree under `~/.doomcode/worktrees/`
+ * on a generated `doomcode/task-<id>` branch created from HEAD. The task is
+ * reviewed as one diff against that base commit and, once approved, merged or
+ * cherry-picked back into the main checkout. The active task is persisted in
+ * `.doomcode/worktree-task.json` so a restarted desktop picks it back up.
+ */
+
+import { execSync } from 'child_process';
+import { createHash, randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { DiffPatchMessage, WorktreeTask } from '@doomcode/protocol';
+import { DiffExtractor } from '../agent/diff-extractor.js';
+import { makeProjectDataDir } from '../project-state.js';
+
+/**
+ * How approved task changes reach the main checkout: a merge commit of the task
+ * branch, or its commits replayed on top of the current branch.
+ */
+export type MergeStrategy = 'merge' | 'cherry-pick';
+
+export const MERGE_STRATEGIES: MergeStrategy[] = ['merge', 'cherry-pick'];
+
+interface StoredTask extends WorktreeTask {
+  worktreePath: string;
+}
+
+export class WorktreeManager {
+  private workingDirectory: string;
+  private mergeStrategy: MergeStrategy;
+  private statePath: string;
+  private diffExtractor = new DiffExtractor();
+  private task: StoredTask | null = null;
+
+  constructor(workingDirectory: string, mergeStrategy: MergeStrategy = 'merge') {
+    this.workingDirectory = workingDirectory;
+    this.mergeStrategy = mergeStrategy;
+    this.statePath = path.join(workingDirectory, '.doomcode', 'worktree-task.json');
+    this.loadTask();
+  }
+
+  /**
+   * Whether a directory is inside a git repository with at least one commit,
+   * which is what a worktree needs to branch from.
+   */
+  static isSupported(directory: string): boolean {
+    try {
+      execSync('git rev-parse --verify HEAD', { cwd: directory, stdio: ['pipe', 'pipe', 'pipe'] });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getMergeStrategy(): MergeStrategy {
+    return this.mergeStrategy;
+  }
+
+  getActiveTask(): WorktreeTask | null {
+    if (!this.task) return null;
+    const { worktreePath: _worktreePath, ...task } = this.task;
+    return task;
+  }
+
+  /**
+   * Root of the active task's worktree.
+   */
+  getWorktreePath(): string | null {
+    return this.task?.worktreePath ?? null;
+  }
+
+  /**
+   * Directory inside the active worktree that corresponds to the working
+   * directory, for when the session runs in a subdirectory of the repository.
+   */
+  getTaskDirectory(): string | null {
+    if (!this.task) return null;
+    const prefix = this.git('rev-parse --show-prefix').trim();
+    return path.resolve(this.task.worktreePath, prefix);
+  }
+
+  /**
+   * Create a worktree on a new branch from the current HEAD and make it the active task.
+   */
+  createTask(): WorktreeTask {
+    if (this.task) {
+      throw new Error(`Task ${this.task.taskId} is still active`);
+    }
+
+    const taskId = `${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`;
+    const branch = `doomcode/task-${taskId}`;
+    const baseCommit = this.git('rev-parse HEAD').trim();
+    const worktreePath = path.join(this.getWorktreesRoot(), taskId);
+
+    fs.mkdirSync(path.dirname(worktreePath), { recursive: true });
+    // Forget worktrees whose directories were deleted by hand
+    this.git('worktree prune');
+    this.git(
+      `worktree add -b ${escapeShellArg(branch)} ${escapeShellArg(worktreePath)} ${baseCommit}`
+    );
+
+    this.task = { taskId, branch, baseCommit, createdAt: Date.now(), worktreePath };
+    this.saveTask();
+    return this.getActiveTask()!;
+  }
+
+  /**
+   * Remember the prompt that started the task; later prompts refine the same
+   * task. Returns whether the task changed.
+   */
+  recordPrompt(prompt: string): boolean {
+    if (!this.task || this.task.prompt) return false;
+    this.task.prompt = prompt;
+    this.saveTask();
+    return true;
+  }
+
+  /**
+   * Everything the task changed relative to its base commit, including files
+   * the agent committed itself and untracked files. Null if nothing changed.
+   */
+  getDiff(): DiffPatchMessage | null {
+    const taskDirectory = this.getTaskDirectory();
+    if (!this.task || !taskDirectory) return null;
+
+    this.git('add -A', this.task.worktreePath);
+    const diffText = this.git(`diff --cached --relative ${this.task.baseCommit}`, taskDirectory);
+    if (!diffText.trim()) return null;
+
+    return this.diffExtractor.fromDiffText(diffText);
+  }
+
+  /**
+   * Commit outstanding worktree changes on the task branch. Returns false if
+   * there was nothing left to commit.
+   */
+  commitTask(message: string): boolean {
+    if (!this.task) return false;
+
+    const cwd = this.task.worktreePath;
+    this.git('add -A', cwd);
+    if (!this.git('diff --cached --name-only', cwd).trim()) return false;
+
+    this.git(`commit -m ${escapeShellArg(message)}`, cwd);
+    return true;
+  }
+
+  /**
+   * Bring the task branch into the main checkout's current branch. A conflict
+   * aborts the merge, leaving the checkout as it was, and throws.
+   */
+  mergeTask(): void {
+    if (!this.task) {
+      throw new Error('No active task');
+    }
+
+    const { branch, baseCommit } = this.task;
+    const commits = this.git(`rev-list --count ${baseCommit}..${escapeShellArg(branch)}`).trim();
+    if (commits === '0') {
+      throw new Error(`${branch} has no commits to merge`);
+    }
+
+    try {
+      if (this.mergeStrategy === 'cherry-pick') {
+        this.git(`cherry-pick ${baseCommit}..${escapeShellArg(branch)}`);
+      } else {
+        const message = escapeShellArg(`Merge ${branch}`);
+        this.git(`merge --no-ff -m ${message} ${escapeShellArg(branch)}`);
+      }
+    } catch (error) {
+      try {
+        this.git(this.mergeStrategy === 'cherry-pick' ? 'cherry-pick --abort' : 'merge --abort');
+      } catch {
+        // Nothing to abort: git refused before touching the checkout
+      }
+      throw new Error(`Could not ${this.mergeStrategy} ${branch}: ${gitErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Remove the active task's worktree. The branch is deleted too unless it is
+   * kept, e.g. because a pull request was opened from it.
+   */
+  removeTask(options: { keepBranch?: boolean } = {}): void {
+    if (!this.task) return;
+
+    const { worktreePath, branch } = this.task;
+    this.task = null;
+    this.saveTask();
+
+    try {
+      this.git(`worktree remove --force ${escapeShellArg(worktreePath)}`);
+    } catch (error) {
+      console.warn(`Failed to remove worktree ${worktreePath}:`, gitErrorMessage(error));
+    }
+
+    if (!options.keepBranch) {
+      try {
+        this.git(`branch -D ${escapeShellArg(branch)}`);
+      } catch {
+        // Already gone (e.g. renamed for a pull request)
+      }
+    }
+  }
+
+  private getWorktreesRoot(): string {
+    // Outside the checkout, so worktrees never show up in its status or searches
+    const repoRoot = this.git('rev-parse --show-toplevel').trim();
+    const hash = createHash('sha256').update(repoRoot).digest('hex').slice(0, 8);
+    return path.join(os.homedir(), '.doomcode', 'worktrees', `${path.basename(repoRoot)}-${hash}`);
+  }
+
+  private git(command: string, cwd = this.workingDirectory): string {
+    return execSync(`git ${command}`, {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+      maxBuffer: 64 * 1024 * 1024,
+    });
+  }
+
+  private loadTask(): void {
+    if (!fs.existsSync(this.statePath)) return;
+
+    try {
+      const task = JSON.parse(fs.readFileSync(this.statePath, 'utf8')) as StoredTask;
+      if (fs.existsSync(task.worktreePath)) {
+        this.task = task;
+      } else {
+        console.warn(`Worktree for task ${task.taskId} no longer exists; starting a new task`);
+        this.saveTask();
+      }
+    } catch (error) {
+      console.warn('Failed to load worktree task:', error);
+    }
+  }
+
+  private saveTask(): void {
+    try {
+      if (!this.task) {
+        if (fs.existsSync(this.statePath)) fs.unlinkSync(this.statePath);
+        return;
+      }
+      makeProjectDataDir(path.dirname(this.statePath));
+      fs.writeFileSync(this.statePath, JSON.stringify(this.task, null, 2));
+    } catch (error) {
+      console.warn('Failed to persist worktree task:', error);
+    }
+  }
+}
+
+function escapeShellArg(arg: string): string {
+  return `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+function gitErrorMessage(error: unknown): string {
+  // Merge conflicts are reported on stdout; the resolution hints don't apply after an abort
+  const { stderr, stdout } = error as { stderr?: string; stdout?: string };
+  const output = (stderr?.trim() || stdout?.trim() || '')
+    .split('\n')
+    .filter((line) => !line.startsWith('hint:'))
+    .join('\n');
+  if (output) return output;
+  return error instanceof Error ? error.message : String(error);
+}
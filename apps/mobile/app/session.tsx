@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -8,13 +8,18 @@ import {
   Platform,
   StatusBar,
   Alert,
+  Linking,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import type { FileSelection, TerminalOutputMessage, UserPromptMessage } from '@doomcode/protocol';
+import { createAnsiStream } from '@doomcode/ansi-parser';
 import { useRouter } from 'expo-router';
-import { useSessionStore } from '../src/store/session';
+import { useSessionStore, hasEarlierOutput } from '../src/store/session';
 import { useAgentStore } from '../src/store/agentStore';
 import { useGitHubStore } from '../src/store/githubStore';
-import { TerminalView } from '../src/components/TerminalView';
+import { TerminalView, type TerminalViewHandle } from '../src/components/TerminalView';
+import { TerminalSearchBar } from '../src/components/terminal';
+import { useTerminalSearch } from '../src/hooks/useTerminalSearch';
 import { PermissionModal } from '../src/components/PermissionModal';
 import { YesNoModal } from '../src/components/YesNoModal';
 import { Toast } from '../src/components/Toast';
@@ -50,6 +55,11 @@ const YES_NO_PATTERNS = [
   /shall i/i,
 ];
 
+// Chunks of replaced history checked for a question
+const RECENT_CHUNKS = 5;
+// Longest unfinished line carried over between output chunks
+const MAX_PARTIAL_LINE = 1000;
+
 function detectYesNoQuestion(text: string): string | null {
   for (const pattern of YES_NO_PATTERNS) {
     if (pattern.test(text)) {
@@ -73,6 +83,8 @@ export default function SessionScreen() {
     type: 'info',
   });
   const [yesNoQuestion, setYesNoQuestion] = useState<string | null>(null);
+  // Window title set by the agent's terminal output (e.g. the current task)
+  const [agentTitle, setAgentTitle] = useState('');
   const [answeredQuestions, setAnsweredQuestions] = useState<Set<string>>(new Set());
   const [showCreatePR, setShowCreatePR] = useState(false);
 
@@ -81,6 +93,8 @@ export default function SessionScreen() {
     pendingPermissions,
     pendingDiffs,
     agentStatus,
+    gitBranch,
+    queuedForDesktop,
     sendPrompt,
     respondToPermission,
     respondToDiff,
@@ -88,9 +102,14 @@ export default function SessionScreen() {
     sendGitHubToken,
     revokeGitHubToken,
     requestCreatePR,
+    loadEarlierOutput,
+    loadingEarlierOutput,
   } = useSessionStore();
+  const canLoadEarlier = useSessionStore(hasEarlierOutput);
+  const terminalRef = useRef<TerminalViewHandle>(null);
+  const terminalSearch = useTerminalSearch(terminalRef);
 
-  const { activeAgentId, setLastPrompt } = useAgentStore();
+  const { activeAgentId, availableAgents, setLastPrompt } = useAgentStore();
   const { isAuthenticated: githubAuthenticated, tokenSharedWithDesktop } = useGitHubStore();
   const currentPermission = pendingPermissions[0];
   const router = useRouter();
@@ -114,17 +133,41 @@ export default function SessionScreen() {
     );
   };
 
+  // Output chunks can end mid escape sequence, so questions are looked for in the
+  // plain text of the stream. The unfinished last line is kept for the next chunk.
+  const ansiStreamRef = useRef(createAnsiStream({ onTitle: setAgentTitle }));
+  const lastOutputRef = useRef<TerminalOutputMessage | null>(null);
+  const partialLineRef = useRef('');
+
   // Detect yes/no questions from terminal output
   useEffect(() => {
-    if (terminalOutput.length === 0) return;
-
-    const recentOutput = terminalOutput.slice(-5);
-    for (const msg of recentOutput.reverse()) {
-      const question = detectYesNoQuestion(msg.data);
-      if (question && !answeredQuestions.has(question)) {
-        setYesNoQuestion(question);
-        break;
-      }
+    const last = lastOutputRef.current;
+    const seen = last ? terminalOutput.indexOf(last) : -1;
+    if (seen === -1) {
+      // History was replaced (or cleared); start over from its last few chunks
+      ansiStreamRef.current.reset();
+      partialLineRef.current = '';
+    }
+    const fresh =
+      seen === -1 ? terminalOutput.slice(-RECENT_CHUNKS) : terminalOutput.slice(seen + 1);
+    if (fresh.length === 0) return;
+    lastOutputRef.current = fresh[fresh.length - 1];
+
+    const text =
+      partialLineRef.current +
+      fresh
+        .map((msg) =>
+          ansiStreamRef.current
+            .push(msg.data)
+            .map((span) => span.text)
+            .join('')
+        )
+        .join('');
+    partialLineRef.current = text.slice(text.lastIndexOf('\n') + 1).slice(-MAX_PARTIAL_LINE);
+
+    const question = detectYesNoQuestion(text);
+    if (question && !answeredQuestions.has(question)) {
+      setYesNoQuestion(question);
     }
   }, [terminalOutput, answeredQuestions]);
 
@@ -146,6 +189,22 @@ export default function SessionScreen() {
     setLastPrompt(prompt);
   };
 
+  const handleLinkPress = (uri: string) => {
+    if (/^https?:\/\//i.test(uri)) {
+      Linking.openURL(uri);
+      return;
+    }
+    // Other links (file://) point at the desktop's disk, so have the agent show the file
+    const path = decodeURIComponent(uri.replace(/^file:\/\/[^/]*/i, ''));
+    Alert.alert(path, 'This file is on your desktop.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Ask Agent',
+        onPress: () => sendPrompt(`Show me ${path}`, { selectedFile: path }),
+      },
+    ]);
+  };
+
   const togglePanel = (panel: PanelType) => {
     setActivePanel(current => current === panel ? null : panel);
   };
@@ -164,14 +223,29 @@ export default function SessionScreen() {
     setActivePanel(null);
   };
 
-  const handleDiffApprove = (patchId: string) => {
-    respondToDiff(patchId, 'apply');
+  const handleDiffApprove = (patchId: string, selection?: FileSelection[]) => {
+    respondToDiff(patchId, 'apply', { selection });
   };
 
   const handleDiffReject = (patchId: string) => {
     respondToDiff(patchId, 'reject');
   };
 
+  const handleDiffEdit = (patchId: string, editedDiff: string) => {
+    respondToDiff(patchId, 'edit', { editedDiff });
+  };
+
+  const handleDiffComment = (
+    patchId: string,
+    prompt: string,
+    context: UserPromptMessage['context'],
+    keepPending: boolean
+  ) => {
+    // Reject first so the agent is no longer waiting on the patch when the comments arrive
+    if (!keepPending) respondToDiff(patchId, 'reject');
+    sendPrompt(prompt, context);
+  };
+
   const getPanelTitle = () => {
     switch (activePanel) {
       case 'agent': return 'Agent';
@@ -213,6 +287,8 @@ export default function SessionScreen() {
             pendingDiffs={pendingDiffs}
             onApprove={handleDiffApprove}
             onReject={handleDiffReject}
+            onEdit={handleDiffEdit}
+            onComment={handleDiffComment}
           />
         );
       case 'help':
@@ -228,7 +304,7 @@ export default function SessionScreen() {
       case 'claude': return 'Claude';
       case 'codex': return 'Codex';
       case 'gemini': return 'Gemini';
-      default: return 'Agent';
+      default: return availableAgents.find((a) => a.id === activeAgentId)?.name ?? 'Agent';
     }
   };
 
@@ -271,6 +347,16 @@ export default function SessionScreen() {
                agentStatus === 'error' ? 'Error' :
                agentStatus === 'waiting_input' ? 'Waiting' : 'Idle'}
             </Text>
+            {agentTitle !== '' && (
+              <Text style={styles.titleText} numberOfLines={1}>
+                {agentTitle}
+              </Text>
+            )}
+            {gitBranch && (
+              <Text style={styles.branchText} numberOfLines={1}>
+                {gitBranch}
+              </Text>
+            )}
           </View>
           <View style={styles.statusRight}>
             {pendingPermissions.length > 0 && (
@@ -278,15 +364,61 @@ export default function SessionScreen() {
                 <Text style={styles.badgeText}>{pendingPermissions.length}</Text>
               </View>
             )}
+            <TouchableOpacity
+              style={[styles.searchButton, terminalSearch.visible && styles.searchButtonActive]}
+              onPress={terminalSearch.visible ? terminalSearch.close : terminalSearch.open}
+            >
+              <Text style={styles.searchButtonText}>⌕</Text>
+            </TouchableOpacity>
             <TouchableOpacity style={styles.endButton} onPress={handleEndSession}>
               <Text style={styles.endButtonText}>✕</Text>
             </TouchableOpacity>
           </View>
         </View>
 
+        {queuedForDesktop > 0 && (
+          <View style={styles.queueBanner}>
+            <Text style={styles.queueBannerText}>
+              {queuedForDesktop} {queuedForDesktop === 1 ? 'message' : 'messages'} waiting for desktop
+            </Text>
+          </View>
+        )}
+
+        {canLoadEarlier && (
+          <TouchableOpacity
+            style={styles.earlierOutputBar}
+            onPress={() => loadEarlierOutput()}
+            disabled={loadingEarlierOutput}
+          >
+            <Text style={styles.earlierOutputText}>
+              {loadingEarlierOutput ? 'Loading earlier output…' : 'Load earlier output'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {terminalSearch.visible && (
+          <TerminalSearchBar
+            search={terminalSearch.search}
+            onChange={terminalSearch.setSearch}
+            invalid={terminalSearch.invalid}
+            results={terminalSearch.results}
+            earlierCount={terminalSearch.earlierCount}
+            loadingEarlier={terminalSearch.loadingEarlier}
+            filterCounts={terminalSearch.filterCounts}
+            onNext={terminalSearch.findNext}
+            onPrevious={terminalSearch.findPrevious}
+            onClose={terminalSearch.close}
+          />
+        )}
+
         {/* Full-Height Terminal View */}
         <View style={styles.terminalContainer}>
-          <TerminalView output={terminalOutput} />
+          <TerminalView
+            ref={terminalRef}
+            output={terminalOutput}
+            onLinkPress={handleLinkPress}
+            onSearchResults={terminalSearch.onSearchResults}
+          />
         </View>
 
         {/* Slide-up Panel */}
@@ -326,6 +458,7 @@ export default function SessionScreen() {
             onAlwaysApprove={() =>
               respondToPermission(currentPermission.requestId, 'approve_always')
             }
+            onAlwaysDeny={() => respondToPermission(currentPermission.requestId, 'deny_always')}
           />
         )}
 
@@ -412,6 +545,41 @@ const styles = StyleSheet.create({
   statusTextDisconnected: {
     color: '#ef4444',
   },
+  titleText: {
+    color: '#aaaaaa',
+    fontSize: 12,
+    marginLeft: 8,
+    flexShrink: 1,
+  },
+  branchText: {
+    color: '#888888',
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginLeft: 8,
+    flexShrink: 1,
+  },
+  queueBanner: {
+    backgroundColor: '#111111',
+    borderBottomWidth: 1,
+    borderBottomColor: '#333333',
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+  },
+  queueBannerText: {
+    color: '#fbbf24',
+    fontSize: 12,
+  },
+  earlierOutputBar: {
+    backgroundColor: '#111111',
+    borderBottomWidth: 1,
+    borderBottomColor: '#333333',
+    paddingVertical: 6,
+    alignItems: 'center',
+  },
+  earlierOutputText: {
+    color: '#888888',
+    fontSize: 12,
+  },
   badge: {
     backgroundColor: '#4ade80',
     borderRadius: 10,
@@ -425,6 +593,23 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: 'bold',
   },
+  searchButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#1a1a1a',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  searchButtonActive: {
+    borderColor: '#4ade80',
+  },
+  searchButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+  },
   endButton: {
     width: 32,
     height: 32,
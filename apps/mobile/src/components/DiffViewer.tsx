@@ -1,21 +1,145 @@
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
-import type { DiffPatchMessage } from '@doomcode/protocol';
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput } from 'react-native';
+import type {
+  DiffPatchMessage,
+  FileDiff,
+  FileSelection,
+  UserPromptMessage,
+} from '@doomcode/protocol';
 import { DiffSummaryCard } from './diff/DiffSummaryCard';
+import { PatchEditor } from './diff/PatchEditor';
+import { LINE_PREFIX, parseHunks, type ParsedHunk } from './diff/hunks';
+import { LineText } from './diff/LineText';
+import { buildReviewContext, buildReviewPrompt, type ReviewComment } from './diff/review';
+import { useSessionStore } from '../store/session';
 
 interface Props {
   diff: DiffPatchMessage;
-  onApprove: () => void;
+  /** Called with the accepted parts, or no selection when everything is accepted */
+  onApprove: (selection?: FileSelection[]) => void;
   onReject: () => void;
+  /** Called with the patch as edited on the phone, to apply in place of the agent's */
+  onEdit: (editedDiff: string) => void;
+  /** Called with review comments batched into a follow-up prompt for the agent */
+  onComment: (prompt: string, context: UserPromptMessage['context'], keepPending: boolean) => void;
 }
 
-export function DiffViewer({ diff, onApprove, onReject }: Props) {
+// Excluded parts are keyed `file`, `file:hunk` and `file:hunk:line` by index
+const fileKey = (file: number) => `${file}`;
+const hunkKey = (file: number, hunk: number) => `${file}:${hunk}`;
+const lineKey = (file: number, hunk: number, line: number) => `${file}:${hunk}:${line}`;
+
+const buildSelection = (
+  files: FileDiff[],
+  hunksByFile: ParsedHunk[][],
+  excluded: Set<string>
+): FileSelection[] => {
+  const selection: FileSelection[] = [];
+  files.forEach((file, f) => {
+    if (excluded.has(fileKey(f))) return;
+
+    const hunks = hunksByFile[f];
+    const partial = hunks.some(
+      (hunk, h) =>
+        excluded.has(hunkKey(f, h)) || hunk.body.some((_, l) => excluded.has(lineKey(f, h, l)))
+    );
+    if (!partial) {
+      selection.push({ path: file.path });
+      return;
+    }
+
+    selection.push({
+      path: file.path,
+      hunks: hunks.flatMap((hunk, h) => {
+        if (excluded.has(hunkKey(f, h))) return [];
+        const lines = hunk.body.flatMap((line, l) =>
+          line.type !== 'context' && !excluded.has(lineKey(f, h, l)) ? [l] : []
+        );
+        const whole = lines.length === hunk.body.filter((line) => line.type !== 'context').length;
+        if (whole) return [{ index: h }];
+        return lines.length > 0 ? [{ index: h, lines }] : [];
+      }),
+    });
+  });
+  return selection;
+};
+
+export function DiffViewer({ diff, onApprove, onReject, onEdit, onComment }: Props) {
   const [showDetails, setShowDetails] = useState(false);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState(false);
+  // Review comments by line key; long-pressing a line starts one
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [commenting, setCommenting] = useState<string | null>(null);
+  const commentCount = Object.keys(comments).length;
+  const editError = useSessionStore((s) => s.patchEditErrors[diff.patchId]);
+  const hunksByFile = useMemo(() => diff.files.map(parseHunks), [diff.files]);
+  // Binary changes can't be expressed in an edited text diff
+  const editable = diff.files.every((file) => !file.binary);
+
+  const toggle = (key: string) => {
+    setExcluded((current) => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleApprove = () => {
+    if (excluded.size === 0) {
+      onApprove();
+      return;
+    }
+    const selection = buildSelection(diff.files, hunksByFile, excluded);
+    if (selection.length === 0) onReject();
+    else onApprove(selection);
+  };
+
+  const saveComment = (key: string, text: string) => {
+    setComments((current) => {
+      const { [key]: _, ...rest } = current;
+      return text.trim() ? { ...rest, [key]: text.trim() } : rest;
+    });
+    setCommenting(null);
+  };
+
+  const sendComments = (keepPending: boolean) => {
+    const review: ReviewComment[] = Object.entries(comments)
+      .map(([key, text]) => {
+        const [file, hunk, line] = key.split(':').map(Number);
+        return { file, hunk, line, text };
+      })
+      .sort((a, b) => a.file - b.file || a.hunk - b.hunk || a.line - b.line);
+
+    onComment(
+      buildReviewPrompt(diff.files, hunksByFile, review),
+      buildReviewContext(diff.files, hunksByFile, review),
+      keepPending
+    );
+    setComments({});
+    setCommenting(null);
+  };
+
+  if (editing) {
+    return (
+      <View style={styles.container}>
+        <DiffSummaryCard diff={diff} commentCount={commentCount} />
+        <PatchEditor
+          files={diff.files}
+          hunksByFile={hunksByFile}
+          error={editError}
+          onSubmit={onEdit}
+          onCancel={() => setEditing(false)}
+        />
+      </View>
+    );
+  }
 
   return (
     <View style={styles.container}>
       {/* Summary Card */}
-      <DiffSummaryCard diff={diff} />
+      <DiffSummaryCard diff={diff} commentCount={commentCount} />
 
       {/* Toggle Details */}
       <TouchableOpacity
@@ -32,35 +156,189 @@ export function DiffViewer({ diff, onApprove, onReject }: Props) {
       {/* File List (Collapsible) */}
       {showDetails && (
         <ScrollView style={styles.fileList} nestedScrollEnabled>
-          {diff.files.map((file, index) => (
-            <View key={index} style={styles.file}>
-              <View style={styles.fileHeader}>
-                <StatusBadge status={file.status} />
-                <Text style={styles.fileName} numberOfLines={1}>
-                  {file.path}
-                </Text>
+          {diff.files.map((file, f) => {
+            const fileExcluded = excluded.has(fileKey(f));
+            return (
+              <View key={f} style={styles.file}>
+                <TouchableOpacity
+                  style={styles.fileHeader}
+                  onPress={() => toggle(fileKey(f))}
+                  activeOpacity={0.7}
+                >
+                  <Checkbox checked={!fileExcluded} />
+                  <StatusBadge status={file.status} />
+                  <Text
+                    style={[styles.fileName, fileExcluded && styles.excluded]}
+                    numberOfLines={1}
+                  >
+                    {file.path}
+                  </Text>
+                </TouchableOpacity>
+                {!fileExcluded && (
+                  <ScrollView horizontal style={styles.diffContent}>
+                    {file.binary ? (
+                      <Text style={styles.binaryText}>Binary file changed</Text>
+                    ) : (
+                      <View>
+                        {hunksByFile[f].map((hunk, h) => {
+                          const hunkExcluded = excluded.has(hunkKey(f, h));
+                          return (
+                            <View key={h}>
+                              <TouchableOpacity
+                                style={styles.hunkHeader}
+                                onPress={() => toggle(hunkKey(f, h))}
+                                activeOpacity={0.7}
+                              >
+                                <Checkbox checked={!hunkExcluded} />
+                                <Text style={styles.hunkHeaderText}>{hunk.header}</Text>
+                              </TouchableOpacity>
+                              {hunk.body.map((line, l) => {
+                                const key = lineKey(f, h, l);
+                                const lineExcluded = hunkExcluded || excluded.has(key);
+                                const text = (
+                                  <Text
+                                    style={[
+                                      styles.diffText,
+                                      line.type === 'addition' && styles.additionText,
+                                      line.type === 'deletion' && styles.deletionText,
+                                      line.type !== 'context' && lineExcluded && styles.excluded,
+                                    ]}
+                                  >
+                                    {LINE_PREFIX[line.type]}
+                                    <LineText line={line} highlight={!lineExcluded} />
+                                  </Text>
+                                );
+                                // Only changed lines can be left out; context always stays
+                                const toggleable = line.type !== 'context' && !hunkExcluded;
+                                return (
+                                  <View key={l}>
+                                    <TouchableOpacity
+                                      onPress={toggleable ? () => toggle(key) : undefined}
+                                      onLongPress={() => setCommenting(key)}
+                                      activeOpacity={0.7}
+                                    >
+                                      {text}
+                                    </TouchableOpacity>
+                                    {(commenting === key || comments[key]) && (
+                                      <CommentBox
+                                        text={comments[key] ?? ''}
+                                        editing={commenting === key}
+                                        onEdit={() => setCommenting(key)}
+                                        onSave={(value) => saveComment(key, value)}
+                                        onCancel={() => setCommenting(null)}
+                                      />
+                                    )}
+                                  </View>
+                                );
+                              })}
+                            </View>
+                          );
+                        })}
+                      </View>
+                    )}
+                  </ScrollView>
+                )}
               </View>
-              <ScrollView horizontal style={styles.diffContent}>
-                <Text style={styles.diffText}>{file.diff}</Text>
-              </ScrollView>
-            </View>
-          ))}
+            );
+          })}
         </ScrollView>
       )}
 
+      {/* Review comments */}
+      {commentCount > 0 && (
+        <View style={styles.review}>
+          <Text style={styles.reviewText}>
+            {commentCount} {commentCount === 1 ? 'comment' : 'comments'} for the agent
+          </Text>
+          <View style={styles.reviewActions}>
+            <TouchableOpacity style={styles.reviewButton} onPress={() => sendComments(true)}>
+              <Text style={styles.reviewButtonText}>Send & Keep Pending</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.reviewButton} onPress={() => sendComments(false)}>
+              <Text style={styles.reviewButtonText}>Send & Reject</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
       {/* Actions */}
       <View style={styles.actions}>
         <TouchableOpacity style={[styles.button, styles.rejectButton]} onPress={onReject}>
           <Text style={styles.buttonText}>Reject</Text>
         </TouchableOpacity>
-        <TouchableOpacity style={[styles.button, styles.approveButton]} onPress={onApprove}>
-          <Text style={styles.buttonText}>Apply Changes</Text>
+        {editable && (
+          <TouchableOpacity
+            style={[styles.button, styles.editButton]}
+            onPress={() => setEditing(true)}
+          >
+            <Text style={styles.buttonText}>Edit</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={[styles.button, styles.approveButton]} onPress={handleApprove}>
+          <Text style={styles.buttonText}>
+            {excluded.size > 0 ? 'Apply Selected' : 'Apply Changes'}
+          </Text>
         </TouchableOpacity>
       </View>
     </View>
   );
 }
 
+interface CommentBoxProps {
+  text: string;
+  editing: boolean;
+  onEdit: () => void;
+  onSave: (text: string) => void;
+  onCancel: () => void;
+}
+
+function CommentBox({ text, editing, onEdit, onSave, onCancel }: CommentBoxProps) {
+  const [draft, setDraft] = useState(text);
+
+  if (!editing) {
+    return (
+      <TouchableOpacity style={styles.comment} onPress={onEdit} activeOpacity={0.7}>
+        <Text style={styles.commentText}>{text}</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={styles.comment}>
+      <TextInput
+        style={styles.commentInput}
+        value={draft}
+        onChangeText={setDraft}
+        placeholder="Comment for the agent (empty to remove)"
+        placeholderTextColor="#666"
+        multiline
+        autoFocus
+      />
+      <View style={styles.commentActions}>
+        <TouchableOpacity
+          onPress={() => {
+            setDraft(text);
+            onCancel();
+          }}
+        >
+          <Text style={styles.commentCancel}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => onSave(draft)}>
+          <Text style={styles.commentSave}>Save</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+function Checkbox({ checked }: { checked: boolean }) {
+  return (
+    <View style={[styles.checkbox, checked && styles.checkboxChecked]}>
+      {checked && <Text style={styles.checkboxMark}>✓</Text>}
+    </View>
+  );
+}
+
 function StatusBadge({ status }: { status: string }) {
   const getStyle = () => {
     switch (status) {
@@ -178,6 +456,50 @@ const styles = StyleSheet.create({
     fontFamily: 'monospace',
     lineHeight: 16,
   },
+  additionText: {
+    color: '#4ade80',
+  },
+  deletionText: {
+    color: '#ef4444',
+  },
+  excluded: {
+    color: '#666666',
+    textDecorationLine: 'line-through',
+  },
+  hunkHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  hunkHeaderText: {
+    color: '#aaaaaa',
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+  checkbox: {
+    width: 16,
+    height: 16,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#666666',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+  checkboxChecked: {
+    backgroundColor: '#4ade80',
+    borderColor: '#4ade80',
+  },
+  checkboxMark: {
+    color: '#000000',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  binaryText: {
+    color: '#666666',
+    fontSize: 11,
+    fontStyle: 'italic',
+  },
   actions: {
     flexDirection: 'row',
     padding: 16,
@@ -194,6 +516,70 @@ const styles = StyleSheet.create({
   rejectButton: {
     backgroundColor: '#333333',
   },
+  comment: {
+    width: 260,
+    backgroundColor: '#111111',
+    borderLeftWidth: 2,
+    borderLeftColor: '#4ade80',
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    marginVertical: 4,
+  },
+  commentText: {
+    color: '#ffffff',
+    fontSize: 12,
+  },
+  commentInput: {
+    color: '#ffffff',
+    fontSize: 12,
+    minHeight: 40,
+    textAlignVertical: 'top',
+  },
+  commentActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 4,
+  },
+  commentCancel: {
+    color: '#aaaaaa',
+    fontSize: 12,
+  },
+  commentSave: {
+    color: '#4ade80',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  review: {
+    backgroundColor: '#111111',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  reviewText: {
+    color: '#aaaaaa',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  reviewActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  reviewButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#333333',
+    alignItems: 'center',
+  },
+  reviewButtonText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  editButton: {
+    backgroundColor: '#aaaaaa',
+  },
   approveButton: {
     backgroundColor: '#ffffff',
   },
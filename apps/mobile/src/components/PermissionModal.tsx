@@ -6,9 +6,16 @@ interface Props {
   onApprove: () => void;
   onDeny: () => void;
   onAlwaysApprove: () => void;
+  onAlwaysDeny?: () => void;
 }
 
-export function PermissionModal({ permission, onApprove, onDeny, onAlwaysApprove }: Props) {
+export function PermissionModal({
+  permission,
+  onApprove,
+  onDeny,
+  onAlwaysApprove,
+  onAlwaysDeny,
+}: Props) {
   const getActionIcon = () => {
     switch (permission.action) {
       case 'file_read':
@@ -63,9 +70,16 @@ export function PermissionModal({ permission, onApprove, onDeny, onAlwaysApprove
             </TouchableOpacity>
           </View>
 
-          <TouchableOpacity style={styles.alwaysButton} onPress={onAlwaysApprove}>
-            <Text style={styles.alwaysButtonText}>Always allow this action</Text>
-          </TouchableOpacity>
+          <View style={styles.alwaysRow}>
+            <TouchableOpacity style={styles.alwaysButton} onPress={onAlwaysApprove}>
+              <Text style={styles.alwaysButtonText}>Always allow this action</Text>
+            </TouchableOpacity>
+            {onAlwaysDeny && (
+              <TouchableOpacity style={styles.alwaysButton} onPress={onAlwaysDeny}>
+                <Text style={styles.alwaysButtonText}>Always deny</Text>
+              </TouchableOpacity>
+            )}
+          </View>
         </View>
       </View>
     </Modal>
@@ -142,6 +156,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  alwaysRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 24,
+  },
   alwaysButton: {
     marginTop: 16,
     alignItems: 'center',
@@ -1,19 +1,57 @@
-import { useRef, useEffect, useMemo } from 'react';
+import { forwardRef, useImperativeHandle, useRef, useEffect, useMemo } from 'react';
 import { StyleSheet, View } from 'react-native';
 import { WebView } from 'react-native-webview';
 import type { TerminalOutputMessage } from '@doomcode/protocol';
 import { useTerminalPrefsStore } from '../store/terminalPrefsStore';
 import { TERMINAL_THEMES, type TerminalTheme } from '../constants/terminalThemes';
+import type { TerminalSearchQuery, TerminalSearchResults } from './terminal/search';
+
+export interface TerminalViewHandle {
+  /**
+   * Highlight every match and select the next or previous one. `from` starts
+   * over at the newest output ('end'), or just before the output that was shown
+   * before earlier output was last loaded ('earlierOutput').
+   */
+  search: (
+    search: TerminalSearchQuery,
+    direction: 'next' | 'previous',
+    from?: 'end' | 'earlierOutput'
+  ) => void;
+  clearSearch: () => void;
+}
 
 interface Props {
   output: TerminalOutputMessage[];
+  /** Called with the target of a tapped hyperlink or URL in the output */
+  onLinkPress?: (uri: string) => void;
+  /** Called when the number of matches or the selected match changes */
+  onSearchResults?: (results: TerminalSearchResults) => void;
 }
 
-export function TerminalView({ output }: Props) {
+export const TerminalView = forwardRef<TerminalViewHandle, Props>(function TerminalView(
+  { output, onLinkPress, onSearchResults },
+  ref
+) {
   const webViewRef = useRef<WebView>(null);
   const readyRef = useRef(false);
   const pendingRef = useRef('');
-  const lastIndexRef = useRef(0);
+  // Track chunks by identity rather than array index or sequence: the store trims old
+  // chunks, inserts earlier output before ones we have rendered, and replaces the whole
+  // array when the desktop's output starts over
+  const renderedRef = useRef(new WeakSet<TerminalOutputMessage>());
+  const firstRenderedRef = useRef<TerminalOutputMessage | null>(null);
+  const lastRenderedRef = useRef<TerminalOutputMessage | null>(null);
+
+  const post = (message: object) => webViewRef.current?.postMessage(JSON.stringify(message));
+
+  useImperativeHandle(ref, () => ({
+    search: (search, direction, from) => {
+      if (readyRef.current) post({ type: 'search', ...search, direction, from });
+    },
+    clearSearch: () => {
+      if (readyRef.current) post({ type: 'clearSearch' });
+    },
+  }));
 
   const { theme, fontSize } = useTerminalPrefsStore();
   const themeConfig = TERMINAL_THEMES[theme];
@@ -21,24 +59,54 @@ export function TerminalView({ output }: Props) {
   const html = useMemo(() => buildTerminalHtml(themeConfig, fontSize), [themeConfig, fontSize]);
 
   useEffect(() => {
-    if (output.length < lastIndexRef.current) {
-      lastIndexRef.current = 0;
+    if (output.length === 0) {
+      renderedRef.current = new WeakSet();
+      firstRenderedRef.current = null;
+      lastRenderedRef.current = null;
       pendingRef.current = '';
+      return;
     }
 
-    const startIndex = lastIndexRef.current;
-    if (output.length <= startIndex) return;
+    const lastRendered = lastRenderedRef.current;
+    const seen = lastRendered ? output.lastIndexOf(lastRendered) : -1;
+    let earlier: TerminalOutputMessage[] = [];
+    let fresh: TerminalOutputMessage[];
+    if (
+      lastRendered &&
+      (seen === -1 || output.slice(0, seen).some((msg) => !renderedRef.current.has(msg)))
+    ) {
+      // Earlier output was loaded or the history was replaced; redraw from scratch
+      pendingRef.current = '';
+      if (readyRef.current) {
+        post({ type: 'clear' });
+      }
+      renderedRef.current = new WeakSet();
+      // Output loaded in front of what was shown is written first, so the page can
+      // mark where the rest starts
+      const split = firstRenderedRef.current ? output.indexOf(firstRenderedRef.current) : -1;
+      earlier = output.slice(0, Math.max(split, 0));
+      fresh = output.slice(earlier.length);
+    } else {
+      fresh = output.slice(seen + 1);
+    }
+    [...earlier, ...fresh].forEach((msg) => renderedRef.current.add(msg));
+    firstRenderedRef.current = output[0];
+    lastRenderedRef.current = output[output.length - 1];
 
-    const chunk = output.slice(startIndex).map((msg) => msg.data).join('');
-    lastIndexRef.current = output.length;
+    const earlierChunk = earlier.map((msg) => msg.data).join('');
+    const chunk = fresh.map((msg) => msg.data).join('');
 
-    if (!chunk) return;
     if (!readyRef.current) {
-      pendingRef.current += chunk;
+      pendingRef.current += earlierChunk + chunk;
       return;
     }
 
-    webViewRef.current?.postMessage(JSON.stringify({ type: 'output', data: chunk }));
+    if (earlierChunk) {
+      post({ type: 'output', data: earlierChunk, mark: true });
+    }
+    if (chunk) {
+      post({ type: 'output', data: chunk });
+    }
   }, [output]);
 
   // Send theme/font updates to WebView
@@ -68,7 +136,18 @@ export function TerminalView({ output }: Props) {
         javaScriptEnabled
         domStorageEnabled
         onMessage={(event) => {
-          if (event.nativeEvent.data !== 'ready') return;
+          if (event.nativeEvent.data !== 'ready') {
+            try {
+              const msg = JSON.parse(event.nativeEvent.data);
+              if (msg.type === 'link') onLinkPress?.(msg.uri);
+              if (msg.type === 'searchResults') {
+                onSearchResults?.({ index: msg.index, count: msg.count });
+              }
+            } catch {
+              // Not a message from the terminal page
+            }
+            return;
+          }
           readyRef.current = true;
           if (pendingRef.current) {
             webViewRef.current?.postMessage(
@@ -80,7 +159,7 @@ export function TerminalView({ output }: Props) {
       />
     </View>
   );
-}
+});
 
 function buildTerminalHtml(theme: TerminalTheme, fontSize: number): string {
   return `<!doctype html>
@@ -128,7 +207,17 @@ function buildTerminalHtml(theme: TerminalTheme, fontSize: number): string {
     <div id="terminal"></div>
     <script src="https://cdn.jsdelivr.net/npm/xterm@5.3.0/lib/xterm.js"></script>
     <script src="https://cdn.jsdelivr.net/npm/xterm-addon-fit@0.8.0/lib/xterm-addon-fit.js"></script>
+    <script src="https://cdn.jsdelivr.net/npm/xterm-addon-web-links@0.9.0/lib/xterm-addon-web-links.js"></script>
+    <script src="https://cdn.jsdelivr.net/npm/xterm-addon-search@0.13.0/lib/xterm-addon-search.js"></script>
     <script>
+      const postToApp = (message) => {
+        window.ReactNativeWebView &&
+          window.ReactNativeWebView.postMessage(JSON.stringify(message));
+      };
+
+      // Links open in the app, not in the WebView
+      const openLink = (event, uri) => postToApp({ type: 'link', uri });
+
       const term = new Terminal({
         cursorBlink: true,
         fontSize: ${fontSize},
@@ -142,10 +231,33 @@ function buildTerminalHtml(theme: TerminalTheme, fontSize: number): string {
         scrollback: 10000,
         allowTransparency: true,
         scrollOnUserInput: true,
-        convertEol: true
+        convertEol: true,
+        // Search highlighting uses the decoration API
+        allowProposedApi: true,
+        // OSC 8 hyperlinks, including file:// links
+        linkHandler: { activate: openLink, allowNonHttpProtocols: true }
       });
       const fitAddon = new FitAddon.FitAddon();
       term.loadAddon(fitAddon);
+      // Plain URLs in the output
+      term.loadAddon(new WebLinksAddon.WebLinksAddon(openLink));
+      const searchAddon = new SearchAddon.SearchAddon();
+      term.loadAddon(searchAddon);
+      searchAddon.onDidChangeResults((results) =>
+        postToApp({ type: 'searchResults', index: results.resultIndex, count: results.resultCount })
+      );
+      const searchDecorations = {
+        matchBackground: '#854d0e',
+        matchOverviewRuler: '#854d0e',
+        activeMatchBackground: '#ca8a04',
+        activeMatchColorOverviewRuler: '#ca8a04'
+      };
+      // Where the output shown before the last load of earlier output starts
+      let earlierOutputEnd = null;
+      const markEarlierOutputEnd = () => {
+        const buffer = term.buffer.active;
+        earlierOutputEnd = { col: buffer.cursorX, row: buffer.baseY + buffer.cursorY };
+      };
       term.open(document.getElementById('terminal'));
 
       // Multiple fit attempts to ensure proper sizing
@@ -174,7 +286,8 @@ function buildTerminalHtml(theme: TerminalTheme, fontSize: number): string {
         try {
           const msg = JSON.parse(event.data);
           if (msg.type === 'output') {
-            term.write(msg.data);
+            // A marked write is earlier output loaded in front of what was shown
+            term.write(msg.data, msg.mark ? markEarlierOutputEnd : undefined);
           } else if (msg.type === 'config') {
             if (msg.theme) {
               term.options.theme = msg.theme;
@@ -185,7 +298,28 @@ function buildTerminalHtml(theme: TerminalTheme, fontSize: number): string {
               fitAddon.fit();
             }
           } else if (msg.type === 'clear') {
-            term.clear();
+            term.reset();
+            earlierOutputEnd = null;
+          } else if (msg.type === 'search') {
+            // Searches start from the selection, or from the end when there is none
+            if (msg.from === 'end') {
+              term.clearSelection();
+            } else if (msg.from === 'earlierOutput' && earlierOutputEnd) {
+              term.select(earlierOutputEnd.col, earlierOutputEnd.row, 1);
+            }
+            const options = {
+              regex: msg.regex,
+              caseSensitive: msg.caseSensitive,
+              decorations: searchDecorations
+            };
+            if (msg.direction === 'next') {
+              searchAddon.findNext(msg.query, options);
+            } else {
+              searchAddon.findPrevious(msg.query, options);
+            }
+          } else if (msg.type === 'clearSearch') {
+            searchAddon.clearDecorations();
+            term.clearSelection();
           }
         } catch (e) {
           console.error('Message parse error:', e);
@@ -7,44 +7,16 @@ import {
   StyleSheet,
   Pressable,
 } from 'react-native';
-import type { AgentId } from '@doomcode/protocol';
+import type { AgentInfo } from '@doomcode/protocol';
 import { useAgentStore } from '../../store/agentStore';
 
-interface AgentOption {
-  id: AgentId;
-  name: string;
-  description: string;
-  available: boolean;
-}
-
-const AGENT_OPTIONS: AgentOption[] = [
-  {
-    id: 'claude',
-    name: 'Claude Code',
-    description: 'Anthropic Claude CLI agent',
-    available: true,
-  },
-  {
-    id: 'codex',
-    name: 'Codex CLI',
-    description: 'OpenAI Codex CLI agent',
-    available: true,
-  },
-  {
-    id: 'gemini',
-    name: 'Gemini CLI',
-    description: 'Google Gemini CLI agent',
-    available: true,
-  },
-];
-
 export function AgentSelector() {
   const [isOpen, setIsOpen] = useState(false);
-  const { activeAgentId, setActiveAgent } = useAgentStore();
+  const { activeAgentId, availableAgents, setActiveAgent } = useAgentStore();
 
-  const currentAgent = AGENT_OPTIONS.find((a) => a.id === activeAgentId) ?? AGENT_OPTIONS[0];
+  const currentAgent = availableAgents.find((a) => a.id === activeAgentId);
 
-  const handleSelect = (agent: AgentOption) => {
+  const handleSelect = (agent: AgentInfo) => {
     if (agent.available) {
       setActiveAgent(agent.id);
       setIsOpen(false);
@@ -59,7 +31,7 @@ export function AgentSelector() {
         activeOpacity={0.7}
       >
         <View style={styles.selectorContent}>
-          <Text style={styles.agentName}>{currentAgent.name}</Text>
+          <Text style={styles.agentName}>{currentAgent?.name ?? activeAgentId}</Text>
           <Text style={styles.chevron}>▼</Text>
         </View>
       </TouchableOpacity>
@@ -73,7 +45,7 @@ export function AgentSelector() {
         <Pressable style={styles.overlay} onPress={() => setIsOpen(false)}>
           <View style={styles.dropdown}>
             <Text style={styles.dropdownTitle}>Select Agent</Text>
-            {AGENT_OPTIONS.map((agent) => (
+            {availableAgents.map((agent) => (
               <TouchableOpacity
                 key={agent.id}
                 style={[
@@ -95,16 +67,18 @@ export function AgentSelector() {
                   >
                     {agent.name}
                   </Text>
-                  <Text
-                    style={[
-                      styles.optionDescription,
-                      !agent.available && styles.optionNameDisabled,
-                    ]}
-                  >
-                    {agent.description}
-                  </Text>
+                  {agent.description && (
+                    <Text
+                      style={[
+                        styles.optionDescription,
+                        !agent.available && styles.optionNameDisabled,
+                      ]}
+                    >
+                      {agent.description}
+                    </Text>
+                  )}
                   {!agent.available && (
-                    <Text style={styles.comingSoon}>Coming soon</Text>
+                    <Text style={styles.notInstalled}>Not installed on desktop</Text>
                   )}
                 </View>
                 {agent.id === activeAgentId && (
@@ -198,7 +172,7 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 2,
   },
-  comingSoon: {
+  notInstalled: {
     color: '#aaaaaa',
     fontSize: 11,
     fontStyle: 'italic',
@@ -37,19 +37,20 @@ const GEMINI_MODELS: ModelOption[] = [
 ];
 
 export function AgentSettingsPanel() {
-  const { activeAgentId, updateConfig, getActiveConfig } = useAgentStore();
+  const { activeAgentId, updateConfig, getActiveConfig, lastConfigResult } = useAgentStore();
   const { sendAgentControl, connected } = useSessionStore();
 
   const config = getActiveConfig();
   const modelOptions = useMemo(() => {
     switch (activeAgentId) {
+      case 'claude':
+        return CLAUDE_MODELS;
       case 'codex':
         return CODEX_MODELS;
       case 'gemini':
         return GEMINI_MODELS;
-      case 'claude':
       default:
-        return CLAUDE_MODELS;
+        return [];
     }
   }, [activeAgentId]);
 
@@ -100,8 +101,30 @@ export function AgentSettingsPanel() {
     }
   };
 
+  const configResult = lastConfigResult?.agentId === activeAgentId ? lastConfigResult : null;
+
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Result of the last configure command */}
+      {configResult && (
+        <View style={styles.resultBox}>
+          {configResult.applied.length > 0 && (
+            <Text style={styles.resultApplied}>
+              Applied: {configResult.applied.join(', ')}
+              {configResult.restarted &&
+                (configResult.continued
+                  ? ' (agent restarted, conversation continued)'
+                  : ' (agent restarted, new conversation)')}
+            </Text>
+          )}
+          {configResult.rejected.map((rejection) => (
+            <Text key={rejection.setting} style={styles.resultRejected}>
+              Not applied: {rejection.setting} - {rejection.reason}
+            </Text>
+          ))}
+        </View>
+      )}
+
       {/* Model Selection */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Model</Text>
@@ -283,6 +306,23 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: 24,
   },
+  resultBox: {
+    backgroundColor: '#111111',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#333333',
+    padding: 12,
+    marginBottom: 16,
+    gap: 4,
+  },
+  resultApplied: {
+    color: '#4ade80',
+    fontSize: 13,
+  },
+  resultRejected: {
+    color: '#ef4444',
+    fontSize: 13,
+  },
   sectionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
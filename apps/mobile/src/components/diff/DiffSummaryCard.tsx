@@ -4,9 +4,11 @@ import type { DiffPatchMessage } from '@doomcode/protocol';
 
 interface DiffSummaryCardProps {
   diff: DiffPatchMessage;
+  /** Review comments not yet sent to the agent */
+  commentCount?: number;
 }
 
-export function DiffSummaryCard({ diff }: DiffSummaryCardProps) {
+export function DiffSummaryCard({ diff, commentCount = 0 }: DiffSummaryCardProps) {
   const getRiskColor = () => {
     switch (diff.estimatedRisk) {
       case 'high':
@@ -40,6 +42,11 @@ export function DiffSummaryCard({ diff }: DiffSummaryCardProps) {
     return parts.join(', ') || 'No file changes';
   };
 
+  const getCommentNote = () => {
+    if (commentCount === 0) return '';
+    return ` · ${commentCount} review ${commentCount === 1 ? 'comment' : 'comments'}`;
+  };
+
   return (
     <View style={styles.container}>
       {/* Summary Header */}
@@ -77,7 +84,10 @@ export function DiffSummaryCard({ diff }: DiffSummaryCardProps) {
 
       {/* Change Breakdown */}
       <View style={styles.breakdown}>
-        <Text style={styles.breakdownText}>{getChangeDescription()}</Text>
+        <Text style={styles.breakdownText}>
+          {getChangeDescription()}
+          {getCommentNote()}
+        </Text>
       </View>
     </View>
   );
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Text, StyleSheet } from 'react-native';
+import type { DiffLine } from '@doomcode/diff-parser';
+import { splitChanges } from './hunks';
+
+interface LineTextProps {
+  line: DiffLine;
+  /** Mark the parts that differ from the paired line (off for lines left out of a patch) */
+  highlight?: boolean;
+}
+
+/**
+ * A diff line's content, with the changed words of a paired removed/added
+ * line shown on a darker background. Rendered inside the line's own Text.
+ */
+export function LineText({ line, highlight = true }: LineTextProps) {
+  if (!highlight || !line.changes) return <>{line.content}</>;
+
+  const changedStyle = line.type === 'addition' ? styles.addition : styles.deletion;
+  return (
+    <>
+      {splitChanges(line).map((part, i) => (
+        <Text key={i} style={part.changed ? changedStyle : undefined}>
+          {part.text}
+        </Text>
+      ))}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  addition: {
+    backgroundColor: '#14532d',
+  },
+  deletion: {
+    backgroundColor: '#7f1d1d',
+  },
+});
@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import type { FileDiff } from '@doomcode/protocol';
+import { formatDiff, parseFileDiff, type DiffHunk, type DiffLine } from '@doomcode/diff-parser';
+import { LINE_PREFIX, type ParsedHunk } from './hunks';
+import { LineText } from './LineText';
+
+interface Props {
+  files: FileDiff[];
+  hunksByFile: ParsedHunk[][];
+  /** Why the last edit was refused by the desktop */
+  error?: string;
+  onSubmit: (editedDiff: string) => void;
+  onCancel: () => void;
+}
+
+/** A run of added lines (editable) or of other lines (shown as is) within a hunk */
+interface Segment {
+  start: number;
+  added: boolean;
+  lines: DiffLine[];
+}
+
+const segmentBody = (body: DiffLine[]): Segment[] => {
+  const segments: Segment[] = [];
+  body.forEach((line, index) => {
+    const added = line.type === 'addition';
+    const last = segments[segments.length - 1];
+    if (last && last.added && added) {
+      last.lines.push(line);
+    } else {
+      segments.push({ start: index, added, lines: [line] });
+    }
+  });
+  return segments;
+};
+
+// Edited runs of added lines are keyed `file:hunk:firstLine` by index
+const editKey = (file: number, hunk: number, start: number) => `${file}:${hunk}:${start}`;
+
+/**
+ * Rebuild the patch as a git diff with the edited added lines, adjusting each
+ * hunk header to the new line counts.
+ */
+const buildEditedDiff = (
+  files: FileDiff[],
+  hunksByFile: ParsedHunk[][],
+  edits: Record<string, string>
+): string =>
+  files
+    .map((file, f) => {
+      // Hunks after an edit that changed the line count start at a different new line
+      let offset = 0;
+      const hunks: DiffHunk[] = hunksByFile[f].map((hunk, h) => {
+        const body: DiffLine[] = [];
+        for (const segment of segmentBody(hunk.body)) {
+          const edited = edits[editKey(f, h, segment.start)];
+          if (!segment.added || edited === undefined) {
+            body.push(...segment.lines);
+          } else if (edited !== '') {
+            // Clearing the text removes the added lines altogether
+            const noNewline = segment.lines[segment.lines.length - 1].noNewline;
+            const lines = edited.split('\n');
+            lines.forEach((content, i) =>
+              body.push({
+                type: 'addition',
+                content,
+                noNewline: noNewline && i === lines.length - 1,
+              })
+            );
+          }
+        }
+
+        const newLines = body.filter((line) => line.type !== 'deletion').length;
+        const section = hunk.header.match(/^@@.*?@@(.*)$/)?.[1] ?? '';
+        const edited: DiffHunk = {
+          ...hunk,
+          newStart: hunk.newStart + offset,
+          newLines,
+          lines: [{ type: 'header', content: section }, ...body],
+        };
+        offset += newLines - hunk.newLines;
+        return edited;
+      });
+
+      // Keep what the original diff says about modes and renames
+      const original = parseFileDiff(file.diff);
+      return formatDiff({
+        additions: 0,
+        deletions: 0,
+        isBinary: false,
+        ...original,
+        oldPath: file.oldPath ?? file.path,
+        newPath: file.path,
+        status: file.status,
+        hunks,
+      });
+    })
+    .join('');
+
+/**
+ * Edits the added lines of a pending patch. The desktop checks the result
+ * and applies it in place of the agent's version.
+ */
+export function PatchEditor({ files, hunksByFile, error, onSubmit, onCancel }: Props) {
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const edited = Object.keys(edits).length > 0;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.hint}>Edit the added lines, then apply your version.</Text>
+
+      {files.map((file, f) => (
+        <View key={f} style={styles.file}>
+          <Text style={styles.fileName} numberOfLines={1}>
+            {file.path}
+          </Text>
+          {hunksByFile[f].map((hunk, h) => (
+            <View key={h} style={styles.hunk}>
+              <Text style={styles.hunkHeader}>{hunk.header}</Text>
+              {segmentBody(hunk.body).map((segment) => {
+                const key = editKey(f, h, segment.start);
+                if (!segment.added) {
+                  return segment.lines.map((line, i) => (
+                    <Text
+                      key={`${key}:${i}`}
+                      style={[styles.line, line.type === 'deletion' && styles.deletion]}
+                    >
+                      {LINE_PREFIX[line.type]}
+                      <LineText line={line} />
+                    </Text>
+                  ));
+                }
+                return (
+                  <TextInput
+                    key={key}
+                    style={styles.input}
+                    value={edits[key] ?? segment.lines.map((line) => line.content).join('\n')}
+                    onChangeText={(text) => setEdits((current) => ({ ...current, [key]: text }))}
+                    multiline
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    textAlignVertical="top"
+                  />
+                );
+              })}
+            </View>
+          ))}
+        </View>
+      ))}
+
+      {error && <Text style={styles.error}>{error}</Text>}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.applyButton, !edited && styles.disabled]}
+          onPress={() => onSubmit(buildEditedDiff(files, hunksByFile, edits))}
+          disabled={!edited}
+        >
+          <Text style={styles.applyText}>Apply Edits</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#111111',
+    borderRadius: 12,
+    padding: 12,
+  },
+  hint: {
+    color: '#aaaaaa',
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  file: {
+    marginBottom: 12,
+  },
+  fileName: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontFamily: 'monospace',
+    marginBottom: 4,
+  },
+  hunk: {
+    backgroundColor: '#000000',
+    borderRadius: 6,
+    padding: 8,
+    marginBottom: 6,
+  },
+  hunkHeader: {
+    color: '#666666',
+    fontSize: 11,
+    fontFamily: 'monospace',
+    marginBottom: 2,
+  },
+  line: {
+    color: '#aaaaaa',
+    fontSize: 11,
+    fontFamily: 'monospace',
+    lineHeight: 16,
+  },
+  deletion: {
+    color: '#ef4444',
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#4ade80',
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+    marginVertical: 2,
+    color: '#4ade80',
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+  error: {
+    color: '#ef4444',
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#333333',
+  },
+  cancelText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  applyButton: {
+    backgroundColor: '#4ade80',
+  },
+  applyText: {
+    color: '#000000',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
@@ -1,20 +1,83 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
-import type { AppliedPatch } from '@doomcode/protocol';
+import type { AppliedPatch, PatchFileResult, PatchHistoryResultMessage } from '@doomcode/protocol';
 import { usePatchHistoryStore } from '../../store/patchHistoryStore';
 import { useSessionStore } from '../../store/session';
 
+type UndoResult = NonNullable<ReturnType<typeof usePatchHistoryStore.getState>['lastUndoResult']>;
+
+const describeUndoResult = (result: UndoResult) => {
+  if (result.dryRun && result.success) {
+    return `Undo would restore ${result.revertedFiles.length} file(s) cleanly`;
+  }
+  if (result.success) {
+    return `Reverted ${result.revertedFiles.length} file(s)`;
+  }
+  return result.error || 'Undo failed';
+};
+
+const describeHistoryResult = (result: PatchHistoryResultMessage) => {
+  const changed = result.patches.filter((p) => p.status === 'reverted' || p.status === 'partial');
+  if (result.operation === 'redo' && result.success) {
+    return result.dryRun ? 'Redo would reapply cleanly' : 'Reapplied the last undone patch';
+  }
+  if (result.success) {
+    return result.dryRun
+      ? `Undo would revert ${changed.length} patch(es) cleanly`
+      : `Reverted ${changed.length} patch(es)`;
+  }
+  if (changed.length > 0 && !result.dryRun) {
+    return `Reverted ${changed.length} patch(es), then stopped: ${result.error}`;
+  }
+  return result.error || 'Undo failed';
+};
+
+const FILE_OUTCOME_ICONS: Record<PatchFileResult['outcome'], string> = {
+  reverted: '↩',
+  reapplied: '↪',
+  conflict: '✗',
+  skipped: '·',
+};
+
 export function PatchHistory() {
-  const { patches, pendingUndo, lastUndoResult, clearLastUndoResult } = usePatchHistoryStore();
-  const { sendUndoRequest, connected } = useSessionStore();
+  const {
+    patches,
+    redoable,
+    pendingUndo,
+    lastUndoResult,
+    clearLastUndoResult,
+    lastHistoryResult,
+    setLastHistoryResult,
+  } = usePatchHistoryStore();
+  const { sendPatchHistoryRequest, connected } = useSessionStore();
 
-  if (patches.length === 0) {
+  if (patches.length === 0 && redoable.length === 0) {
     return null;
   }
 
+  // Undo everything from the newest patch back to and including this one
   const handleUndo = (patchId: string) => {
     if (connected && !pendingUndo) {
-      sendUndoRequest(patchId);
+      sendPatchHistoryRequest({ type: 'undo_range_request', toPatchId: patchId });
+    }
+  };
+
+  const handleCheck = (patchId: string) => {
+    if (connected && !pendingUndo) {
+      sendPatchHistoryRequest({ type: 'undo_range_request', toPatchId: patchId, dryRun: true });
+    }
+  };
+
+  const handleRedo = () => {
+    if (connected && !pendingUndo) {
+      sendPatchHistoryRequest({ type: 'redo_request' });
+    }
+  };
+
+  const handleRevertFiles = (patchId: string, files: string[]) => {
+    if (connected && !pendingUndo) {
+      setLastHistoryResult(null);
+      sendPatchHistoryRequest({ type: 'partial_undo_request', patchId, files });
     }
   };
 
@@ -34,9 +97,36 @@ export function PatchHistory() {
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Applied Patches</Text>
-        <Text style={styles.subtitle}>{patches.length} patches can be undone</Text>
+        <Text style={styles.subtitle}>
+          {patches.length} patches can be undone; ↩ reverts back to and including that patch
+        </Text>
       </View>
 
+      {redoable.length > 0 && (
+        <View style={styles.redoRow}>
+          <Text style={styles.redoText} numberOfLines={1}>
+            Undone: {redoable[0].prompt || 'No prompt recorded'}
+          </Text>
+          <TouchableOpacity
+            style={[styles.redoButton, (!connected || !!pendingUndo) && styles.undoButtonDisabled]}
+            onPress={handleRedo}
+            disabled={!connected || !!pendingUndo}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.redoButtonText}>↪ Redo ({redoable.length})</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {lastHistoryResult && (
+        <HistoryResultBanner
+          result={lastHistoryResult}
+          onDismiss={() => setLastHistoryResult(null)}
+          onRevertFiles={handleRevertFiles}
+          canAct={connected && !pendingUndo}
+        />
+      )}
+
       {/* Undo Result Feedback */}
       {lastUndoResult && (
         <TouchableOpacity
@@ -47,11 +137,12 @@ export function PatchHistory() {
           onPress={clearLastUndoResult}
           activeOpacity={0.8}
         >
-          <Text style={styles.resultText}>
-            {lastUndoResult.success
-              ? `Reverted ${lastUndoResult.revertedFiles.length} file(s)`
-              : lastUndoResult.error || 'Undo failed'}
-          </Text>
+          <Text style={styles.resultText}>{describeUndoResult(lastUndoResult)}</Text>
+          {lastUndoResult.conflicts?.map((conflict) => (
+            <Text key={conflict.path} style={styles.conflictText}>
+              {conflict.path} ({conflict.reason})
+            </Text>
+          ))}
           <Text style={styles.resultDismiss}>Tap to dismiss</Text>
         </TouchableOpacity>
       )}
@@ -64,6 +155,7 @@ export function PatchHistory() {
             isLatest={index === 0}
             isPending={pendingUndo === patch.patchId}
             onUndo={() => handleUndo(patch.patchId)}
+            onCheck={() => handleCheck(patch.patchId)}
             formatTime={formatTime}
             canUndo={connected && !pendingUndo}
           />
@@ -73,16 +165,84 @@ export function PatchHistory() {
   );
 }
 
+interface HistoryResultBannerProps {
+  result: PatchHistoryResultMessage;
+  onDismiss: () => void;
+  onRevertFiles: (patchId: string, files: string[]) => void;
+  canAct: boolean;
+}
+
+function HistoryResultBanner({
+  result,
+  onDismiss,
+  onRevertFiles,
+  canAct,
+}: HistoryResultBannerProps) {
+  // When a patch only partly conflicts, offer to revert the files that are still clean
+  const blocked = result.patches.find((p) => p.status === 'conflict');
+  const cleanFiles =
+    blocked?.files.filter((file) => file.outcome === 'skipped').map((file) => file.path) ?? [];
+
+  return (
+    <View style={styles.resultBanner}>
+      <TouchableOpacity onPress={onDismiss} activeOpacity={0.8}>
+        <Text style={styles.resultText}>{describeHistoryResult(result)}</Text>
+        {result.patches.map((outcome) => (
+          <View key={outcome.patchId} style={styles.outcome}>
+            <Text style={styles.outcomeStatus}>{outcome.status.toUpperCase()}</Text>
+            {outcome.files.map((file) => (
+              <Text
+                key={file.path}
+                style={[
+                  styles.outcomeFile,
+                  file.outcome === 'conflict' && styles.outcomeConflict,
+                  file.outcome === 'skipped' && styles.outcomeSkipped,
+                ]}
+              >
+                {FILE_OUTCOME_ICONS[file.outcome]} {file.path}
+                {file.reason ? ` (${file.reason})` : ''}
+              </Text>
+            ))}
+          </View>
+        ))}
+        <Text style={styles.resultDismiss}>Tap to dismiss</Text>
+      </TouchableOpacity>
+
+      {blocked && cleanFiles.length > 0 && (
+        <TouchableOpacity
+          style={[styles.partialButton, !canAct && styles.undoButtonDisabled]}
+          onPress={() => onRevertFiles(blocked.patchId, cleanFiles)}
+          disabled={!canAct}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.partialButtonText}>
+            Revert the other {cleanFiles.length} file(s) only
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
 interface PatchItemProps {
   patch: AppliedPatch;
   isLatest: boolean;
   isPending: boolean;
   onUndo: () => void;
+  onCheck: () => void;
   formatTime: (ts: number) => string;
   canUndo: boolean;
 }
 
-function PatchItem({ patch, isLatest, isPending, onUndo, formatTime, canUndo }: PatchItemProps) {
+function PatchItem({
+  patch,
+  isLatest,
+  isPending,
+  onUndo,
+  onCheck,
+  formatTime,
+  canUndo,
+}: PatchItemProps) {
   const truncatePrompt = (prompt: string, maxLen: number = 50) => {
     if (prompt.length <= maxLen) return prompt;
     return prompt.substring(0, maxLen) + '...';
@@ -103,6 +263,15 @@ function PatchItem({ patch, isLatest, isPending, onUndo, formatTime, canUndo }:
         </Text>
       </View>
 
+      <TouchableOpacity
+        style={[styles.checkButton, !canUndo && styles.undoButtonDisabled]}
+        onPress={onCheck}
+        disabled={!canUndo || isPending}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.checkButtonText}>Check</Text>
+      </TouchableOpacity>
+
       <TouchableOpacity
         style={[
           styles.undoButton,
@@ -159,6 +328,69 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
+  conflictText: {
+    color: '#ef4444',
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+  outcome: {
+    marginTop: 6,
+    alignSelf: 'stretch',
+  },
+  outcomeStatus: {
+    color: '#aaaaaa',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  outcomeFile: {
+    color: '#4ade80',
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  outcomeConflict: {
+    color: '#ef4444',
+  },
+  outcomeSkipped: {
+    color: '#666666',
+  },
+  partialButton: {
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: '#333333',
+    alignItems: 'center',
+  },
+  partialButtonText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  redoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333333',
+  },
+  redoText: {
+    flex: 1,
+    color: '#aaaaaa',
+    fontSize: 12,
+  },
+  redoButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#333333',
+    marginLeft: 12,
+  },
+  redoButtonText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
   resultDismiss: {
     color: 'rgba(255,255,255,0.7)',
     fontSize: 11,
@@ -215,6 +447,19 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginLeft: 12,
   },
+  checkButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#333333',
+    marginLeft: 12,
+  },
+  checkButtonText: {
+    color: '#aaaaaa',
+    fontSize: 11,
+    fontWeight: '600',
+  },
   undoButtonPending: {
     backgroundColor: '#111111',
   },
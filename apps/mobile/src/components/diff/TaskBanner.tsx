@@ -0,0 +1,102 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useSessionStore } from '../../store/session';
+
+const formatAge = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ago`;
+};
+
+/**
+ * Shows the worktree task the agent is working in. Its changes arrive as one
+ * pending diff; approving it merges the task branch into the desktop checkout.
+ */
+export function TaskBanner() {
+  const task = useSessionStore((s) => s.task);
+  const mergeStrategy = useSessionStore((s) => s.taskMergeStrategy);
+  const sendTaskAction = useSessionStore((s) => s.sendTaskAction);
+
+  if (!task) return null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.info}>
+        <Text style={styles.branch} numberOfLines={1}>
+          {task.branch}
+        </Text>
+        <Text style={styles.detail} numberOfLines={1}>
+          {task.prompt ? `"${task.prompt}"` : 'Waiting for a prompt'} · started{' '}
+          {formatAge(task.createdAt)}
+        </Text>
+        <Text style={styles.detail}>
+          From {task.baseCommit.slice(0, 7)} · approving{' '}
+          {mergeStrategy === 'cherry-pick' ? 'cherry-picks' : 'merges'} it into the checkout
+        </Text>
+      </View>
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.reviewButton} onPress={() => sendTaskAction('review')}>
+          <Text style={styles.reviewButtonText}>Review changes</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.discardButton} onPress={() => sendTaskAction('discard')}>
+          <Text style={styles.discardButtonText}>Discard</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#111111',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+    padding: 12,
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  info: {
+    marginBottom: 10,
+  },
+  branch: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
+  detail: {
+    color: '#aaaaaa',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+  },
+  reviewButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: '#4ade80',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  reviewButtonText: {
+    color: '#000000',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  discardButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: '#333333',
+    alignItems: 'center',
+  },
+  discardButtonText: {
+    color: '#ef4444',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
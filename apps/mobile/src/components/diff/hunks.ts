@@ -0,0 +1,68 @@
+import type { FileDiff } from '@doomcode/protocol';
+import {
+  addInlineChanges,
+  parseFileDiff,
+  type DiffHunk,
+  type DiffLine,
+} from '@doomcode/diff-parser';
+
+export interface ParsedHunk extends Omit<DiffHunk, 'lines'> {
+  /** Lines after the @@ header; positions match HunkSelection.lines */
+  body: DiffLine[];
+}
+
+/**
+ * Split a file's diff into hunks, with the changed parts of paired lines
+ * marked. Lines past the counts in a hunk's header (such as the empty line a
+ * trailing newline parses as) are dropped.
+ */
+export const parseHunks = (file: FileDiff): ParsedHunk[] => {
+  if (file.binary) return [];
+  const hunks: DiffHunk[] = parseFileDiff(file.diff)?.hunks ?? [];
+
+  return hunks
+    .map((hunk) => addInlineChanges(hunk))
+    .map(({ lines, ...hunk }) => {
+      let oldSeen = 0;
+      let newSeen = 0;
+      const body = lines.filter((line) => {
+        if (line.type === 'header') return false;
+        if (oldSeen >= hunk.oldLines && newSeen >= hunk.newLines) return false;
+        if (line.type !== 'addition') oldSeen++;
+        if (line.type !== 'deletion') newSeen++;
+        return true;
+      });
+      return { ...hunk, body };
+    });
+};
+
+export const LINE_PREFIX: Record<DiffLine['type'], string> = {
+  addition: '+',
+  deletion: '-',
+  context: ' ',
+  header: '',
+};
+
+/** A piece of a line's content, marked if it differs from the paired line */
+export interface LinePart {
+  text: string;
+  changed: boolean;
+}
+
+export const splitChanges = (line: DiffLine): LinePart[] => {
+  if (!line.changes?.length) return [{ text: line.content, changed: false }];
+
+  const parts: LinePart[] = [];
+  let position = 0;
+  for (const range of line.changes) {
+    if (range.start > position) {
+      parts.push({ text: line.content.slice(position, range.start), changed: false });
+    }
+    parts.push({ text: line.content.slice(range.start, range.end), changed: true });
+    position = range.end;
+  }
+  if (position < line.content.length) {
+    parts.push({ text: line.content.slice(position), changed: false });
+  }
+  return parts;
+};
@@ -1,2 +1,4 @@
 export { DiffSummaryCard } from './DiffSummaryCard';
 export { PatchHistory } from './PatchHistory';
+export { TaskBanner } from './TaskBanner';
+export { PatchEditor } from './PatchEditor';
@@ -0,0 +1,70 @@
+import type { FileDiff, UserPromptMessage } from '@doomcode/protocol';
+import type { DiffLine } from '@doomcode/diff-parser';
+import { LINE_PREFIX, type ParsedHunk } from './hunks';
+
+/** Lines of the hunk shown on either side of a commented line */
+const CONTEXT_LINES = 3;
+
+/** A comment left on one line of a pending patch, located by index */
+export interface ReviewComment {
+  file: number;
+  hunk: number;
+  line: number;
+  text: string;
+}
+
+const lineNumber = (line: DiffLine) => line.newLineNumber ?? line.oldLineNumber ?? 0;
+
+const describeLine = (line: DiffLine) =>
+  line.type === 'deletion' ? `removed line ${line.oldLineNumber}` : `line ${line.newLineNumber}`;
+
+/**
+ * Batch review comments into one follow-up prompt, quoting the part of the
+ * hunk each comment is on.
+ */
+export const buildReviewPrompt = (
+  files: FileDiff[],
+  hunksByFile: ParsedHunk[][],
+  comments: ReviewComment[]
+): string => {
+  const sections = comments.map((comment, index) => {
+    const hunk = hunksByFile[comment.file][comment.hunk];
+    const line = hunk.body[comment.line];
+    const excerpt = hunk.body
+      .slice(Math.max(0, comment.line - CONTEXT_LINES), comment.line + CONTEXT_LINES + 1)
+      .map((l) => LINE_PREFIX[l.type] + l.content);
+
+    return [
+      `${index + 1}. ${files[comment.file].path}, ${describeLine(line)}: ${comment.text}`,
+      '```diff',
+      hunk.header,
+      ...excerpt,
+      '```',
+    ].join('\n');
+  });
+
+  return [
+    'I reviewed your changes and left these comments. Please revise the changes to address them.',
+    ...sections,
+  ].join('\n\n');
+};
+
+/**
+ * Prompt context for review comments: the file and line range, when they are all in one file.
+ */
+export const buildReviewContext = (
+  files: FileDiff[],
+  hunksByFile: ParsedHunk[][],
+  comments: ReviewComment[]
+): UserPromptMessage['context'] => {
+  const paths = new Set(comments.map((comment) => files[comment.file].path));
+  if (paths.size !== 1) return undefined;
+
+  const numbers = comments.map((comment) =>
+    lineNumber(hunksByFile[comment.file][comment.hunk].body[comment.line])
+  );
+  return {
+    selectedFile: [...paths][0],
+    selectedLines: [Math.min(...numbers), Math.max(...numbers)],
+  };
+};
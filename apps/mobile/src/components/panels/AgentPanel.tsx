@@ -3,19 +3,13 @@ import type { AgentId } from '@doomcode/protocol';
 import { useAgentStore } from '../../store/agentStore';
 import { AgentControls } from '../agent';
 
-const AGENTS: { id: AgentId; name: string; description: string }[] = [
-  { id: 'claude', name: 'Claude', description: 'Anthropic Claude - Best for complex reasoning' },
-  { id: 'codex', name: 'Codex', description: 'OpenAI Codex - Great for code generation' },
-  { id: 'gemini', name: 'Gemini', description: 'Google Gemini - Fast and versatile' },
-];
-
 interface Props {
   agentStatus: 'idle' | 'running' | 'waiting_input' | 'error';
   onClose?: () => void;
 }
 
 export function AgentPanel({ agentStatus, onClose }: Props) {
-  const { activeAgentId, setActiveAgent } = useAgentStore();
+  const { activeAgentId, availableAgents, setActiveAgent } = useAgentStore();
 
   const handleSelectAgent = (id: AgentId) => {
     setActiveAgent(id);
@@ -44,17 +38,27 @@ export function AgentPanel({ agentStatus, onClose }: Props) {
 
       <ScrollView style={styles.list}>
         <Text style={styles.sectionTitle}>Select Agent</Text>
-        {AGENTS.map((agent) => (
+        {availableAgents.map((agent) => (
           <TouchableOpacity
             key={agent.id}
-            style={[styles.agentItem, activeAgentId === agent.id && styles.agentItemActive]}
+            style={[
+              styles.agentItem,
+              activeAgentId === agent.id && styles.agentItemActive,
+              !agent.available && styles.agentItemDisabled,
+            ]}
             onPress={() => handleSelectAgent(agent.id)}
+            disabled={!agent.available}
           >
             <View style={styles.agentInfo}>
               <Text style={[styles.agentName, activeAgentId === agent.id && styles.agentNameActive]}>
                 {agent.name}
               </Text>
-              <Text style={styles.agentDescription}>{agent.description}</Text>
+              {agent.description && (
+                <Text style={styles.agentDescription}>{agent.description}</Text>
+              )}
+              {!agent.available && (
+                <Text style={styles.agentDescription}>Not installed on desktop</Text>
+              )}
             </View>
             {activeAgentId === agent.id && <Text style={styles.checkmark}>OK</Text>}
           </TouchableOpacity>
@@ -122,6 +126,9 @@ const styles = StyleSheet.create({
   agentItemActive: {
     borderColor: '#4ade80',
   },
+  agentItemDisabled: {
+    opacity: 0.5,
+  },
   agentInfo: {
     flex: 1,
   },
@@ -1,17 +1,27 @@
 import { View, Text, StyleSheet, ScrollView } from 'react-native';
-import type { DiffPatchMessage } from '@doomcode/protocol';
+import type { DiffPatchMessage, FileSelection, UserPromptMessage } from '@doomcode/protocol';
 import { DiffViewer } from '../DiffViewer';
 import { PatchHistory } from '../diff/PatchHistory';
+import { TaskBanner } from '../diff/TaskBanner';
 
 interface Props {
   pendingDiffs: DiffPatchMessage[];
-  onApprove: (patchId: string) => void;
+  onApprove: (patchId: string, selection?: FileSelection[]) => void;
   onReject: (patchId: string) => void;
+  onEdit: (patchId: string, editedDiff: string) => void;
+  onComment: (
+    patchId: string,
+    prompt: string,
+    context: UserPromptMessage['context'],
+    keepPending: boolean
+  ) => void;
 }
 
-export function DiffsPanel({ pendingDiffs, onApprove, onReject }: Props) {
+export function DiffsPanel({ pendingDiffs, onApprove, onReject, onEdit, onComment }: Props) {
   return (
     <ScrollView style={styles.container}>
+      <TaskBanner />
+
       {pendingDiffs.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Text style={styles.emptyIcon}>D</Text>
@@ -27,8 +37,12 @@ export function DiffsPanel({ pendingDiffs, onApprove, onReject }: Props) {
             <DiffViewer
               key={diff.patchId}
               diff={diff}
-              onApprove={() => onApprove(diff.patchId)}
+              onApprove={(selection) => onApprove(diff.patchId, selection)}
               onReject={() => onReject(diff.patchId)}
+              onEdit={(editedDiff) => onEdit(diff.patchId, editedDiff)}
+              onComment={(prompt, context, keepPending) =>
+                onComment(diff.patchId, prompt, context, keepPending)
+              }
             />
           ))}
         </>
@@ -3,9 +3,10 @@ import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-nati
 import type { ViewStyle, TextStyle } from 'react-native';
 import { AgentSettingsPanel } from '../agent';
 import { TerminalPrefsPanel } from '../settings/TerminalPrefsPanel';
+import { PermissionRulesPanel } from '../settings/PermissionRulesPanel';
 import { GitHubSettingsPanel } from '../github';
 
-type SettingsSection = 'agent' | 'terminal' | 'github';
+type SettingsSection = 'agent' | 'rules' | 'terminal' | 'github';
 
 interface Props {
   connected: boolean;
@@ -39,6 +40,14 @@ export function SettingsPanel({
             Agent
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, activeSection === 'rules' && styles.tabActive]}
+          onPress={() => setActiveSection('rules')}
+        >
+          <Text style={[styles.tabText, activeSection === 'rules' && styles.tabTextActive]}>
+            Rules
+          </Text>
+        </TouchableOpacity>
         <TouchableOpacity
           style={[styles.tab, activeSection === 'terminal' && styles.tabActive]}
           onPress={() => setActiveSection('terminal')}
@@ -59,6 +68,7 @@ export function SettingsPanel({
 
       <ScrollView style={styles.content}>
         {activeSection === 'agent' && <AgentSettingsPanel />}
+        {activeSection === 'rules' && <PermissionRulesPanel />}
         {activeSection === 'terminal' && <TerminalPrefsPanel />}
         {activeSection === 'github' && (
           <View style={styles.githubSection}>
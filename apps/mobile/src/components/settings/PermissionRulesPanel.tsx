@@ -0,0 +1,135 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import type { PermissionRule } from '@doomcode/protocol';
+import { useSessionStore } from '../../store/session';
+
+const formatLastUsed = (rule: PermissionRule) => {
+  if (!rule.lastMatchedAt) return 'Never used';
+  const date = new Date(rule.lastMatchedAt);
+  return `Used ${rule.matchCount}x, last ${date.toLocaleDateString()} ${date.toLocaleTimeString()}`;
+};
+
+export function PermissionRulesPanel() {
+  const { permissionRules, requestPermissionRules, revokePermissionRule, connected } =
+    useSessionStore();
+
+  useEffect(() => {
+    if (connected) {
+      requestPermissionRules();
+    }
+  }, [connected, requestPermissionRules]);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.sectionTitle}>Remembered Decisions</Text>
+      <Text style={styles.hint}>
+        Requests matching these rules are answered on the desktop without asking.
+      </Text>
+
+      {permissionRules.length === 0 && (
+        <Text style={styles.empty}>
+          {connected
+            ? 'No rules yet. Use "Always allow" or "Always deny" on a permission prompt.'
+            : 'Connect to a desktop to see its rules.'}
+        </Text>
+      )}
+
+      {permissionRules.map((rule) => (
+        <View key={rule.ruleId} style={styles.rule}>
+          <View style={styles.ruleInfo}>
+            <Text
+              style={[
+                styles.ruleDecision,
+                rule.decision === 'approve' ? styles.ruleApprove : styles.ruleDeny,
+              ]}
+            >
+              {rule.decision === 'approve' ? 'ALLOW' : 'DENY'}
+            </Text>
+            <Text style={styles.ruleDescription}>{rule.description}</Text>
+            <Text style={styles.ruleMeta}>{formatLastUsed(rule)}</Text>
+          </View>
+          <TouchableOpacity
+            style={styles.revokeButton}
+            onPress={() => revokePermissionRule(rule.ruleId)}
+            disabled={!connected}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.revokeButtonText}>Revoke</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  hint: {
+    color: '#aaaaaa',
+    fontSize: 12,
+    marginBottom: 16,
+  },
+  empty: {
+    color: '#666666',
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
+  rule: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#111111',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#333333',
+    padding: 12,
+    marginBottom: 8,
+  },
+  ruleInfo: {
+    flex: 1,
+  },
+  ruleDecision: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    marginBottom: 2,
+  },
+  ruleApprove: {
+    color: '#4ade80',
+  },
+  ruleDeny: {
+    color: '#ef4444',
+  },
+  ruleDescription: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  ruleMeta: {
+    color: '#666666',
+    fontSize: 11,
+    marginTop: 4,
+  },
+  revokeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: '#333333',
+    marginLeft: 8,
+  },
+  revokeButtonText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
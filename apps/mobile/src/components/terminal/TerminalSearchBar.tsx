@@ -0,0 +1,248 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import {
+  QUICK_FILTERS,
+  sameSearch,
+  type TerminalSearchQuery,
+  type TerminalSearchResults,
+} from './search';
+
+interface TerminalSearchBarProps {
+  search: TerminalSearchQuery;
+  onChange: (search: TerminalSearchQuery) => void;
+  /** The query is not a valid regular expression */
+  invalid: boolean;
+  results: TerminalSearchResults | null;
+  /** Matches in output that has not been loaded yet */
+  earlierCount: number;
+  loadingEarlier: boolean;
+  /** Matching lines in the loaded output for each quick filter */
+  filterCounts: number[];
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Search field for the terminal with regex and case toggles, the match
+ * position, older/newer navigation and quick filters.
+ */
+export function TerminalSearchBar({
+  search,
+  onChange,
+  invalid,
+  results,
+  earlierCount,
+  loadingEarlier,
+  filterCounts,
+  onNext,
+  onPrevious,
+  onClose,
+}: TerminalSearchBarProps) {
+  const hasMatches = (results?.count ?? 0) > 0 || earlierCount > 0;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchRow}>
+        <TextInput
+          style={styles.input}
+          value={search.query}
+          onChangeText={(query) => onChange({ ...search, query })}
+          placeholder="Search output..."
+          placeholderTextColor="#666666"
+          selectionColor="#ffffff"
+          cursorColor="#ffffff"
+          returnKeyType="search"
+          onSubmitEditing={onPrevious}
+          autoCapitalize="none"
+          autoCorrect={false}
+          blurOnSubmit={false}
+          autoFocus
+        />
+        <Toggle
+          label=".*"
+          active={search.regex}
+          onPress={() => onChange({ ...search, regex: !search.regex })}
+        />
+        <Toggle
+          label="Aa"
+          active={search.caseSensitive}
+          onPress={() => onChange({ ...search, caseSensitive: !search.caseSensitive })}
+        />
+        <TouchableOpacity style={styles.iconButton} onPress={onClose}>
+          <Text style={styles.iconText}>✕</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.statusRow}>
+        <Text style={[styles.statusText, invalid && styles.statusTextError]} numberOfLines={1}>
+          {describeResults(search, invalid, results, earlierCount, loadingEarlier)}
+        </Text>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={onPrevious}
+          disabled={!hasMatches || loadingEarlier}
+        >
+          <Text style={[styles.iconText, (!hasMatches || loadingEarlier) && styles.disabled]}>
+            ↑
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.iconButton} onPress={onNext} disabled={!hasMatches}>
+          <Text style={[styles.iconText, !hasMatches && styles.disabled]}>↓</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.filters}
+        keyboardShouldPersistTaps="handled"
+      >
+        {QUICK_FILTERS.map((filter, i) => {
+          const active = sameSearch(search, filter.search);
+          return (
+            <TouchableOpacity
+              key={filter.label}
+              style={[styles.filter, active && styles.filterActive]}
+              onPress={() => onChange(active ? { ...search, query: '' } : filter.search)}
+            >
+              <Text style={[styles.filterText, active && styles.filterTextActive]}>
+                {filter.label} {filterCounts[i]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+function Toggle({
+  label,
+  active,
+  onPress,
+}: {
+  label: string;
+  active: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity style={[styles.toggle, active && styles.toggleActive]} onPress={onPress}>
+      <Text style={[styles.toggleText, active && styles.toggleTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+function describeResults(
+  search: TerminalSearchQuery,
+  invalid: boolean,
+  results: TerminalSearchResults | null,
+  earlierCount: number,
+  loadingEarlier: boolean
+): string {
+  if (!search.query) return 'Type to search, or pick a filter';
+  if (invalid) return 'Invalid regular expression';
+  if (loadingEarlier) return 'Loading earlier output...';
+
+  const count = results?.count ?? 0;
+  const earlier = earlierCount > 0 ? ` (+${earlierCount} earlier)` : '';
+  if (count === 0) return earlierCount > 0 ? `${earlierCount} earlier` : 'No matches';
+  if (results && results.index >= 0) return `${results.index + 1} of ${count}${earlier}`;
+  return `${count} matches${earlier}`;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#111111',
+    borderBottomWidth: 1,
+    borderBottomColor: '#333333',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#333333',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    color: '#ffffff',
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  toggle: {
+    minWidth: 32,
+    height: 32,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#333333',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  toggleActive: {
+    backgroundColor: '#4ade80',
+    borderColor: '#4ade80',
+  },
+  toggleText: {
+    color: '#aaaaaa',
+    fontSize: 13,
+    fontFamily: 'monospace',
+  },
+  toggleTextActive: {
+    color: '#000000',
+    fontWeight: '600',
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconText: {
+    color: '#ffffff',
+    fontSize: 16,
+  },
+  disabled: {
+    color: '#444444',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statusText: {
+    flex: 1,
+    color: '#888888',
+    fontSize: 12,
+  },
+  statusTextError: {
+    color: '#ef4444',
+  },
+  filters: {
+    gap: 6,
+  },
+  filter: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  filterActive: {
+    borderColor: '#4ade80',
+  },
+  filterText: {
+    color: '#aaaaaa',
+    fontSize: 12,
+  },
+  filterTextActive: {
+    color: '#4ade80',
+  },
+});
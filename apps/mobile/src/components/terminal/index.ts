@@ -0,0 +1 @@
+export { TerminalSearchBar } from './TerminalSearchBar';
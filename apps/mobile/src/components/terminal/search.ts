@@ -0,0 +1,81 @@
+import { stripAnsi } from '@doomcode/ansi-parser';
+import type { TerminalOutputMessage } from '@doomcode/protocol';
+
+export interface TerminalSearchQuery {
+  query: string;
+  regex: boolean;
+  caseSensitive: boolean;
+}
+
+/** Position of the selected match in the terminal; `index` is -1 when none is selected */
+export interface TerminalSearchResults {
+  index: number;
+  count: number;
+}
+
+export interface QuickFilter {
+  label: string;
+  search: TerminalSearchQuery;
+}
+
+export const EMPTY_SEARCH: TerminalSearchQuery = { query: '', regex: false, caseSensitive: false };
+
+/** Searches for the lines most worth jumping to in agent output */
+export const QUICK_FILTERS: QuickFilter[] = [
+  {
+    label: 'Errors',
+    search: {
+      query: '\\b(error|errors|failed|failure|exception|fatal|panic)\\b',
+      regex: true,
+      caseSensitive: false,
+    },
+  },
+  {
+    label: 'Prompts',
+    search: {
+      query: '[[(]y/n[\\])]|\\b(allow|approve|permission|proceed)\\b.*\\?',
+      regex: true,
+      caseSensitive: false,
+    },
+  },
+  {
+    label: 'Diff headers',
+    search: {
+      query: '^(diff --git |@@ .* @@|\\+\\+\\+ |--- )',
+      regex: true,
+      caseSensitive: true,
+    },
+  },
+];
+
+/**
+ * The pattern for a search, or null if the query is empty or not a valid
+ * regular expression.
+ */
+export const createSearchPattern = (search: TerminalSearchQuery): RegExp | null => {
+  if (!search.query) return null;
+  const source = search.regex ? search.query : search.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  try {
+    return new RegExp(source, search.caseSensitive ? '' : 'i');
+  } catch {
+    return null;
+  }
+};
+
+export const sameSearch = (a: TerminalSearchQuery, b: TerminalSearchQuery) =>
+  a.query === b.query && a.regex === b.regex && a.caseSensitive === b.caseSensitive;
+
+/**
+ * The output as plain-text lines. Text before a carriage return within a line
+ * is dropped, as it is overwritten on screen (progress bars, spinners).
+ */
+export const getOutputLines = (output: TerminalOutputMessage[]): string[] =>
+  stripAnsi(output.map((msg) => msg.data).join(''))
+    .split('\n')
+    .map((line) => {
+      const parts = line.split('\r').filter((part) => part);
+      return parts[parts.length - 1] ?? '';
+    });
+
+export const countMatchingLines = (lines: string[], pattern: RegExp): number =>
+  lines.reduce((count, line) => (pattern.test(line) ? count + 1 : count), 0);
@@ -0,0 +1,113 @@
+import { useState, useEffect, useMemo, useRef, type RefObject } from 'react';
+import { useSessionStore, firstTerminalSequence } from '../store/session';
+import type { TerminalViewHandle } from '../components/TerminalView';
+import {
+  EMPTY_SEARCH,
+  QUICK_FILTERS,
+  countMatchingLines,
+  createSearchPattern,
+  getOutputLines,
+  type TerminalSearchQuery,
+  type TerminalSearchResults,
+} from '../components/terminal/search';
+
+/** Pause after typing before the desktop is asked to search earlier output */
+const EARLIER_SEARCH_DELAY_MS = 400;
+
+/**
+ * Search over the terminal: matches in the WebView are highlighted and
+ * selected there, and the desktop reports matches in output not loaded yet.
+ * Going back from the oldest loaded match loads earlier output up to the next
+ * match and selects it.
+ */
+export function useTerminalSearch(terminalRef: RefObject<TerminalViewHandle | null>) {
+  const {
+    terminalOutput,
+    earlierOutputSearch,
+    loadingEarlierOutput,
+    loadEarlierOutput,
+    searchEarlierOutput,
+  } = useSessionStore();
+
+  const [visible, setVisible] = useState(false);
+  const [search, setSearch] = useState<TerminalSearchQuery>(EMPTY_SEARCH);
+  const [results, setResults] = useState<TerminalSearchResults | null>(null);
+  const jumpPendingRef = useRef(false);
+
+  const pattern = useMemo(() => createSearchPattern(search), [search]);
+
+  useEffect(() => {
+    if (!visible || !pattern) {
+      terminalRef.current?.clearSearch();
+      setResults(null);
+      searchEarlierOutput(null);
+      return;
+    }
+
+    terminalRef.current?.search(search, 'previous', 'end');
+    const timer = setTimeout(() => searchEarlierOutput(search), EARLIER_SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [visible, search, pattern]);
+
+  // Matches the desktop found that are still before the loaded output
+  const firstSequence = firstTerminalSequence(terminalOutput);
+  const earlierMatches = useMemo(
+    () =>
+      earlierOutputSearch && firstSequence !== null
+        ? earlierOutputSearch.matches.filter((match) => match.sequence < firstSequence)
+        : [],
+    [earlierOutputSearch, firstSequence]
+  );
+  const earlierCount = earlierOutputSearch
+    ? earlierOutputSearch.total - (earlierOutputSearch.matches.length - earlierMatches.length)
+    : 0;
+
+  // Matching lines per quick filter, in the loaded output
+  const filterCounts = useMemo(() => {
+    if (!visible) return QUICK_FILTERS.map(() => 0);
+    const lines = getOutputLines(terminalOutput);
+    return QUICK_FILTERS.map((filter) =>
+      countMatchingLines(lines, createSearchPattern(filter.search)!)
+    );
+  }, [visible, terminalOutput]);
+
+  // Once earlier output has loaded, select the newest match in it
+  useEffect(() => {
+    if (!jumpPendingRef.current || loadingEarlierOutput) return;
+    jumpPendingRef.current = false;
+    if (pattern) terminalRef.current?.search(search, 'previous', 'earlierOutput');
+  }, [loadingEarlierOutput]);
+
+  const findNext = () => {
+    if (pattern) terminalRef.current?.search(search, 'next');
+  };
+
+  const findPrevious = () => {
+    if (!pattern) return;
+    const atOldest = !results || results.count === 0 || results.index === 0;
+    if (atOldest && earlierCount > 0) {
+      if (loadingEarlierOutput) return;
+      loadEarlierOutput(earlierMatches[earlierMatches.length - 1]?.sequence);
+      jumpPendingRef.current = useSessionStore.getState().loadingEarlierOutput;
+      return;
+    }
+    terminalRef.current?.search(search, 'previous');
+  };
+
+  return {
+    visible,
+    open: () => setVisible(true),
+    close: () => setVisible(false),
+    search,
+    setSearch,
+    /** The query is not a valid regular expression */
+    invalid: search.query !== '' && !pattern,
+    results,
+    onSearchResults: setResults,
+    earlierCount,
+    loadingEarlier: loadingEarlierOutput,
+    filterCounts,
+    findNext,
+    findPrevious,
+  };
+}
@@ -3,9 +3,11 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import type {
   AgentId,
+  AgentInfo,
   AgentConfig,
   ToolPermissions,
   AgentControlMessage,
+  AgentConfigResultMessage,
 } from '@doomcode/protocol';
 
 type AgentStatus = 'idle' | 'running' | 'waiting_input' | 'error';
@@ -42,20 +44,50 @@ const defaultGeminiConfig: AgentConfig = {
 
 const getDefaultConfig = (id: AgentId): AgentConfig => {
   switch (id) {
+    case 'claude':
+      return defaultClaudeConfig;
     case 'codex':
       return defaultCodexConfig;
     case 'gemini':
       return defaultGeminiConfig;
-    case 'claude':
     default:
-      return defaultClaudeConfig;
+      // Custom agent from the desktop's agents.json; model is left to the agent
+      return { id, temperature: 0.7, toolPermissions: defaultToolPermissions };
   }
 };
 
+// Shown until the desktop advertises its own list via agent_list
+const defaultAvailableAgents: AgentInfo[] = [
+  {
+    id: 'claude',
+    name: 'Claude Code',
+    description: 'Anthropic Claude CLI agent',
+    available: true,
+    capabilities: ['stream_json', 'permission_prompts', 'diff_review'],
+  },
+  {
+    id: 'codex',
+    name: 'Codex CLI',
+    description: 'OpenAI Codex CLI agent',
+    available: true,
+    capabilities: ['permission_prompts', 'diff_review'],
+  },
+  {
+    id: 'gemini',
+    name: 'Gemini CLI',
+    description: 'Google Gemini CLI agent',
+    available: true,
+    capabilities: ['permission_prompts', 'diff_review'],
+  },
+];
+
 interface AgentState {
   // Current active agent
   activeAgentId: AgentId;
 
+  // Agents advertised by the desktop (not persisted)
+  availableAgents: AgentInfo[];
+
   // Per-agent configuration (persisted)
   configs: Partial<Record<AgentId, AgentConfig>>;
 
@@ -68,12 +100,17 @@ interface AgentState {
   // Pending control command (for tracking in-flight commands)
   pendingCommand: AgentControlMessage['command'] | null;
 
+  // Desktop's answer to the last configure command (not persisted)
+  lastConfigResult: AgentConfigResultMessage | null;
+
   // Actions
   setActiveAgent: (id: AgentId) => void;
+  setAvailableAgents: (agents: AgentInfo[]) => void;
   updateConfig: (id: AgentId, config: Partial<AgentConfig>) => void;
   updateStatus: (id: AgentId, status: AgentStatus) => void;
   setLastPrompt: (prompt: string) => void;
   setPendingCommand: (command: AgentControlMessage['command'] | null) => void;
+  setLastConfigResult: (result: AgentConfigResultMessage | null) => void;
   getActiveConfig: () => AgentConfig;
   getActiveStatus: () => AgentStatus;
 }
@@ -82,6 +119,7 @@ export const useAgentStore = create<AgentState>()(
   persist(
     (set, get) => ({
       activeAgentId: 'claude',
+      availableAgents: defaultAvailableAgents,
       configs: {
         claude: defaultClaudeConfig,
         codex: defaultCodexConfig,
@@ -92,6 +130,7 @@ export const useAgentStore = create<AgentState>()(
       },
       lastPrompt: null,
       pendingCommand: null,
+      lastConfigResult: null,
 
       setActiveAgent: (id) =>
         set({
@@ -105,6 +144,8 @@ export const useAgentStore = create<AgentState>()(
               },
         }),
 
+      setAvailableAgents: (agents) => set({ availableAgents: agents }),
+
       updateConfig: (id, config) =>
         set((state) => ({
           configs: {
@@ -133,6 +174,8 @@ export const useAgentStore = create<AgentState>()(
 
       setPendingCommand: (command) => set({ pendingCommand: command }),
 
+      setLastConfigResult: (result) => set({ lastConfigResult: result }),
+
       getActiveConfig: () => {
         const state = get();
         return state.configs[state.activeAgentId] ?? getDefaultConfig(state.activeAgentId);
@@ -1,10 +1,13 @@
 import { create } from 'zustand';
-import type { AppliedPatch } from '@doomcode/protocol';
+import type { AppliedPatch, PatchHistoryResultMessage, UndoConflict } from '@doomcode/protocol';
 
 interface PatchHistoryState {
   // Stack of applied patches (newest first)
   patches: AppliedPatch[];
 
+  // Undone patches that can be reapplied (most recently undone first)
+  redoable: AppliedPatch[];
+
   // Maximum number of patches to keep in history
   maxSize: number;
 
@@ -17,15 +20,23 @@ interface PatchHistoryState {
     success: boolean;
     error?: string;
     revertedFiles: string[];
+    dryRun?: boolean;
+    conflicts?: UndoConflict[];
   } | null;
 
+  // Last range undo / partial undo / redo result, with per-file outcomes
+  lastHistoryResult: PatchHistoryResultMessage | null;
+
   // Actions
   recordPatch: (patch: AppliedPatch) => void;
+  setPatches: (patches: AppliedPatch[], redoable?: AppliedPatch[]) => void;
   markUndoPending: (patchId: string) => void;
   clearUndoPending: () => void;
   removePatch: (patchId: string) => void;
   setLastUndoResult: (result: PatchHistoryState['lastUndoResult']) => void;
   clearLastUndoResult: () => void;
+  setLastHistoryResult: (result: PatchHistoryResultMessage | null) => void;
+  canRedo: () => boolean;
   getLastPatch: () => AppliedPatch | undefined;
   canUndo: () => boolean;
   getPatchById: (patchId: string) => AppliedPatch | undefined;
@@ -34,15 +45,28 @@ interface PatchHistoryState {
 
 export const usePatchHistoryStore = create<PatchHistoryState>((set, get) => ({
   patches: [],
+  redoable: [],
   maxSize: 50,
   pendingUndo: null,
   lastUndoResult: null,
+  lastHistoryResult: null,
 
   recordPatch: (patch) =>
     set((state) => ({
       patches: [patch, ...state.patches].slice(0, state.maxSize),
     })),
 
+  // The desktop's list is authoritative (it survives restarts and prunes old patches)
+  setPatches: (patches, redoable = []) =>
+    set((state) => ({
+      patches: patches.slice(0, state.maxSize),
+      redoable,
+      pendingUndo:
+        state.pendingUndo && patches.some((p) => p.patchId === state.pendingUndo)
+          ? state.pendingUndo
+          : null,
+    })),
+
   markUndoPending: (patchId) => set({ pendingUndo: patchId }),
 
   clearUndoPending: () => set({ pendingUndo: null }),
@@ -57,6 +81,8 @@ export const usePatchHistoryStore = create<PatchHistoryState>((set, get) => ({
 
   clearLastUndoResult: () => set({ lastUndoResult: null }),
 
+  setLastHistoryResult: (result) => set({ lastHistoryResult: result }),
+
   getLastPatch: () => get().patches[0],
 
   canUndo: () => {
@@ -64,7 +90,19 @@ export const usePatchHistoryStore = create<PatchHistoryState>((set, get) => ({
     return state.patches.length > 0 && state.pendingUndo === null;
   },
 
+  canRedo: () => {
+    const state = get();
+    return state.redoable.length > 0 && state.pendingUndo === null;
+  },
+
   getPatchById: (patchId) => get().patches.find((p) => p.patchId === patchId),
 
-  clearHistory: () => set({ patches: [], pendingUndo: null, lastUndoResult: null }),
+  clearHistory: () =>
+    set({
+      patches: [],
+      redoable: [],
+      pendingUndo: null,
+      lastUndoResult: null,
+      lastHistoryResult: null,
+    }),
 }));
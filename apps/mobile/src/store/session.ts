@@ -3,15 +3,24 @@ import type {
   QRCodePayload,
   Message,
   TerminalOutputMessage,
+  TerminalSearchRequestMessage,
+  TerminalSearchResultMessage,
   PermissionRequestMessage,
   DiffPatchMessage,
   PermissionDecision,
+  PermissionRule,
+  PermissionRuleScope,
   PatchDecision,
+  FileSelection,
+  UserPromptMessage,
   MessageEnvelope,
   AgentId,
   AgentConfig,
   AgentControlMessage,
   PRCreateResultMessage,
+  TaskAction,
+  TaskStateMessage,
+  WorktreeTask,
 } from '@doomcode/protocol';
 import { createEnvelope } from '@doomcode/protocol';
 import { generateKeyPair, E2ECrypto, type KeyPair } from '@doomcode/crypto';
@@ -21,6 +30,21 @@ import { useGitHubStore } from './githubStore';
 
 type AgentStatus = 'idle' | 'running' | 'waiting_input' | 'error';
 
+/** Undo-history operations answered by a patch_history_result */
+export type PatchHistoryRequest =
+  | { type: 'undo_range_request'; toPatchId: string; dryRun?: boolean }
+  | { type: 'partial_undo_request'; patchId: string; files: string[]; dryRun?: boolean }
+  | { type: 'redo_request'; dryRun?: boolean };
+
+/** Terminal chunks kept while following live output */
+const MAX_TERMINAL_OUTPUT = 500;
+
+/** Terminal chunks kept at most, including earlier output loaded on request */
+const MAX_LOADED_TERMINAL_OUTPUT = 5000;
+
+/** Sequence of prompts echoed locally; they are not part of the desktop's output */
+const LOCAL_ECHO_SEQUENCE = -1;
+
 interface SessionState {
   // Connection
   connected: boolean;
@@ -32,21 +56,61 @@ interface SessionState {
 
   // Session data
   terminalOutput: TerminalOutputMessage[];
+  /** Chunks kept in terminalOutput; raised as earlier output is loaded */
+  terminalOutputLimit: number;
+  /** Oldest sequence the desktop still stores (null until it says) */
+  terminalOldestSequence: number | null;
+  loadingEarlierOutput: boolean;
+  /** Keep loading earlier output until this sequence is in terminalOutput */
+  earlierOutputTarget: number | null;
+  /** Desktop's matches for the current search in output before terminalOutput */
+  earlierOutputSearch: TerminalSearchResultMessage | null;
+  earlierOutputSearchId: string | null;
   pendingPermissions: PermissionRequestMessage[];
   pendingDiffs: DiffPatchMessage[];
+  /** Why the desktop refused the last edit of a pending patch, by patchId */
+  patchEditErrors: Record<string, string>;
   agentStatus: AgentStatus;
+  workingDirectory: string | null;
+  gitBranch: string | null;
+  gitStatus: string | null;
+  queuedForDesktop: number;
+  permissionRules: PermissionRule[];
+  // Active worktree task (null when the desktop edits its checkout in place)
+  task: WorktreeTask | null;
+  taskMergeStrategy: TaskStateMessage['mergeStrategy'] | null;
 
   // Actions
   connect: (payload: QRCodePayload) => Promise<void>;
   disconnect: () => void;
-  sendPrompt: (prompt: string) => void;
-  respondToPermission: (requestId: string, decision: PermissionDecision) => void;
-  respondToDiff: (patchId: string, decision: PatchDecision) => void;
+  sendPrompt: (prompt: string, context?: UserPromptMessage['context']) => void;
+  respondToPermission: (
+    requestId: string,
+    decision: PermissionDecision,
+    scope?: PermissionRuleScope
+  ) => void;
+  requestPermissionRules: () => void;
+  revokePermissionRule: (ruleId: string) => void;
+  requestPatchList: () => void;
+  /** Fetch the page of terminal output before the oldest chunk shown, or pages up to `toSequence` */
+  loadEarlierOutput: (toSequence?: number) => void;
+  requestTerminalHistory: (range: { before: number; from?: number }) => void;
+  /** Ask the desktop to search the output we have not loaded; null clears the search */
+  searchEarlierOutput: (
+    search: Pick<TerminalSearchRequestMessage, 'query' | 'regex' | 'caseSensitive'> | null
+  ) => void;
+  respondToDiff: (
+    patchId: string,
+    decision: PatchDecision,
+    options?: { selection?: FileSelection[]; editedDiff?: string }
+  ) => void;
   sendAgentControl: (
     command: AgentControlMessage['command'],
     config?: Partial<AgentConfig>
   ) => void;
-  sendUndoRequest: (patchId: string) => void;
+  sendUndoRequest: (patchId: string, options?: { dryRun?: boolean }) => void;
+  sendPatchHistoryRequest: (request: PatchHistoryRequest) => void;
+  sendTaskAction: (action: TaskAction) => void;
 
   // GitHub actions
   sendGitHubToken: () => void;
@@ -67,9 +131,23 @@ export const useSessionStore = create<SessionState>((set, get) => ({
   crypto: null,
   ws: null,
   terminalOutput: [],
+  terminalOutputLimit: MAX_TERMINAL_OUTPUT,
+  terminalOldestSequence: null,
+  loadingEarlierOutput: false,
+  earlierOutputTarget: null,
+  earlierOutputSearch: null,
+  earlierOutputSearchId: null,
   pendingPermissions: [],
   pendingDiffs: [],
+  patchEditErrors: {},
   agentStatus: 'idle',
+  workingDirectory: null,
+  gitBranch: null,
+  gitStatus: null,
+  queuedForDesktop: 0,
+  permissionRules: [],
+  task: null,
+  taskMergeStrategy: null,
 
   connect: async (payload: QRCodePayload) => {
     const keyPair = generateKeyPair();
@@ -146,6 +224,9 @@ export const useSessionStore = create<SessionState>((set, get) => ({
               succeed();
             } else if (data.action === 'peer_disconnected') {
               set({ agentStatus: 'idle' });
+            } else if (data.action === 'queue_status' && data.recipient === 'desktop') {
+              // Messages the relay is holding until the desktop comes back
+              set({ queuedForDesktop: data.queuedMessages });
             } else if (data.action === 'error') {
               const message =
                 typeof data.message === 'string' ? data.message : 'Failed to join session';
@@ -173,10 +254,71 @@ export const useSessionStore = create<SessionState>((set, get) => ({
             const msg = JSON.parse(decrypted) as Message;
 
             switch (msg.type) {
-              case 'terminal_output':
+              case 'terminal_output': {
+                const last = lastTerminalSequence(get().terminalOutput);
                 set((s) => ({
-                  terminalOutput: [...s.terminalOutput, msg].slice(-500), // Keep last 500
+                  terminalOutput:
+                    last === null || msg.sequence > last
+                      ? [...s.terminalOutput, msg].slice(-s.terminalOutputLimit)
+                      : mergeTerminalOutput(s.terminalOutput, [msg], s.terminalOutputLimit),
                 }));
+                // Chunks were lost on the way (e.g. the desktop's outbox overflowed)
+                if (last !== null && msg.sequence > last + 1) {
+                  get().requestTerminalHistory(
+                    gapRange(last, msg.sequence, get().terminalOutputLimit)
+                  );
+                }
+                break;
+              }
+
+              case 'terminal_history': {
+                const first = msg.chunks[0]?.sequence;
+                if (msg.from !== undefined) {
+                  set((s) => ({
+                    terminalOutput: mergeTerminalOutput(
+                      s.terminalOutput,
+                      msg.chunks,
+                      s.terminalOutputLimit
+                    ),
+                    terminalOldestSequence: msg.oldestSequence,
+                  }));
+                  // A gap too large for one message is filled from its newest end back
+                  if (first !== undefined && first > Math.max(msg.from, msg.oldestSequence)) {
+                    get().requestTerminalHistory({ from: msg.from, before: first });
+                  }
+                  break;
+                }
+
+                set((s) => {
+                  const limit = Math.min(
+                    s.terminalOutputLimit + msg.chunks.length,
+                    MAX_LOADED_TERMINAL_OUTPUT
+                  );
+                  return {
+                    terminalOutput: mergeTerminalOutput(s.terminalOutput, msg.chunks, limit),
+                    terminalOutputLimit: limit,
+                    terminalOldestSequence: msg.oldestSequence,
+                  };
+                });
+                // Keep paging back until the output we were asked for is loaded
+                const target = get().earlierOutputTarget;
+                if (
+                  target !== null &&
+                  first !== undefined &&
+                  first > target &&
+                  hasEarlierOutput(get())
+                ) {
+                  get().requestTerminalHistory({ before: first });
+                } else {
+                  set({ loadingEarlierOutput: false, earlierOutputTarget: null });
+                }
+                break;
+              }
+
+              case 'terminal_search_result':
+                if (msg.requestId === get().earlierOutputSearchId) {
+                  set({ earlierOutputSearch: msg });
+                }
                 break;
 
               case 'permission_request':
@@ -187,8 +329,9 @@ export const useSessionStore = create<SessionState>((set, get) => ({
                 break;
 
               case 'diff_patch':
+                // A task review is re-sent under the same ID when the task changes
                 set((s) => ({
-                  pendingDiffs: [...s.pendingDiffs, msg],
+                  pendingDiffs: [...s.pendingDiffs.filter((d) => d.patchId !== msg.patchId), msg],
                 }));
                 break;
 
@@ -196,13 +339,73 @@ export const useSessionStore = create<SessionState>((set, get) => ({
                 set({ agentStatus: msg.agentStatus });
                 break;
 
-              case 'session_state':
+              case 'session_state': {
+                // Authoritative snapshot from the desktop (sent on pair and on every rejoin).
+                // Its terminal history is only the newest output, so it is merged into ours
+                // unless the desktop's sequence started over.
+                const { terminalOutput, terminalOutputLimit } = get();
+                const last = lastTerminalSequence(terminalOutput);
+                const snapshotFirst = msg.terminalHistory[0]?.sequence;
+                const snapshotLast = lastTerminalSequence(msg.terminalHistory);
+                const restarted = last !== null && (snapshotLast === null || snapshotLast < last);
                 set({
                   pendingPermissions: msg.pendingPermissions,
                   pendingDiffs: msg.pendingPatches,
-                  terminalOutput: msg.terminalHistory,
+                  terminalOutput:
+                    last === null || restarted
+                      ? msg.terminalHistory
+                      : mergeTerminalOutput(
+                          terminalOutput,
+                          msg.terminalHistory,
+                          terminalOutputLimit
+                        ),
+                  terminalOutputLimit:
+                    last === null || restarted ? MAX_TERMINAL_OUTPUT : terminalOutputLimit,
+                  terminalOldestSequence: msg.terminalOldestSequence ?? null,
                   agentStatus: msg.agentStatus,
+                  workingDirectory: msg.workingDirectory,
+                  gitBranch: msg.gitBranch ?? null,
+                  gitStatus: msg.gitStatus ?? null,
                 });
+                if (msg.currentAgent) {
+                  useAgentStore.getState().setActiveAgent(msg.currentAgent);
+                  useAgentStore.getState().updateStatus(msg.currentAgent, msg.agentStatus);
+                }
+                // Undo history may have changed while we were away (desktop restart, pruning)
+                get().requestPatchList();
+                // Output sent while we were away that the snapshot does not reach back to
+                if (
+                  last !== null &&
+                  !restarted &&
+                  snapshotFirst !== undefined &&
+                  snapshotFirst > last + 1
+                ) {
+                  get().requestTerminalHistory(gapRange(last, snapshotFirst, terminalOutputLimit));
+                }
+                break;
+              }
+
+              case 'task_state':
+                set({ task: msg.task, taskMergeStrategy: msg.mergeStrategy });
+                break;
+
+              case 'agent_list':
+                useAgentStore.getState().setAvailableAgents(msg.agents);
+                useAgentStore.getState().setActiveAgent(msg.activeAgentId);
+                break;
+
+              case 'permission_rules':
+                set({ permissionRules: msg.rules });
+                break;
+
+              case 'agent_config_result':
+                useAgentStore.getState().setLastConfigResult(msg);
+                useAgentStore.getState().setPendingCommand(null);
+                break;
+
+              case 'error':
+                console.warn(`Desktop error (${msg.code}): ${msg.message}`);
+                useAgentStore.getState().setPendingCommand(null);
                 break;
 
               case 'agent_status_update':
@@ -215,11 +418,39 @@ export const useSessionStore = create<SessionState>((set, get) => ({
                 set({ agentStatus: msg.status });
                 break;
 
+              case 'patch_edit_result':
+                // On failure the desktop re-sends the patch, which stays open in the editor
+                set((s) => {
+                  const { [msg.patchId]: _, ...patchEditErrors } = s.patchEditErrors;
+                  return msg.success
+                    ? {
+                        patchEditErrors,
+                        pendingDiffs: s.pendingDiffs.filter((d) => d.patchId !== msg.patchId),
+                      }
+                    : {
+                        patchEditErrors: {
+                          ...patchEditErrors,
+                          [msg.patchId]: msg.error ?? 'Edit failed',
+                        },
+                      };
+                });
+                break;
+
               case 'patch_applied':
                 // Record the applied patch for undo functionality
                 usePatchHistoryStore.getState().recordPatch(msg.patch);
                 break;
 
+              case 'patch_list':
+                usePatchHistoryStore.getState().setPatches(msg.patches, msg.redoable);
+                break;
+
+              case 'patch_history_result':
+                // The desktop follows up with a patch_list reflecting the new history
+                usePatchHistoryStore.getState().clearUndoPending();
+                usePatchHistoryStore.getState().setLastHistoryResult(msg);
+                break;
+
               case 'undo_result':
                 // Handle undo result from desktop
                 usePatchHistoryStore.getState().clearUndoPending();
@@ -228,8 +459,10 @@ export const useSessionStore = create<SessionState>((set, get) => ({
                   success: msg.success,
                   error: msg.error,
                   revertedFiles: msg.revertedFiles,
+                  dryRun: msg.dryRun,
+                  conflicts: msg.conflicts,
                 });
-                if (msg.success) {
+                if (msg.success && !msg.dryRun) {
                   usePatchHistoryStore.getState().removePatch(msg.patchId);
                 }
                 break;
@@ -274,13 +507,27 @@ export const useSessionStore = create<SessionState>((set, get) => ({
       crypto: null,
       ws: null,
       terminalOutput: [],
+      terminalOutputLimit: MAX_TERMINAL_OUTPUT,
+      terminalOldestSequence: null,
+      loadingEarlierOutput: false,
+      earlierOutputTarget: null,
+      earlierOutputSearch: null,
+      earlierOutputSearchId: null,
       pendingPermissions: [],
       pendingDiffs: [],
+      patchEditErrors: {},
       agentStatus: 'idle',
+      workingDirectory: null,
+      gitBranch: null,
+      gitStatus: null,
+      queuedForDesktop: 0,
+      permissionRules: [],
+      task: null,
+      taskMergeStrategy: null,
     });
   },
 
-  sendPrompt: (prompt: string) => {
+  sendPrompt: (prompt: string, context?: UserPromptMessage['context']) => {
     const { ws, crypto, sessionId } = get();
     if (!ws || !crypto || !sessionId) {
       console.warn('sendPrompt skipped: not connected/paired yet');
@@ -296,14 +543,15 @@ export const useSessionStore = create<SessionState>((set, get) => ({
           type: 'terminal_output' as const,
           stream: 'stdout' as const,
           data: `\n> ${prompt}\n`,
-          sequence: Date.now(),
+          sequence: LOCAL_ECHO_SEQUENCE,
         },
-      ].slice(-500),
+      ].slice(-s.terminalOutputLimit),
     }));
 
     const msg: Message = {
       type: 'user_prompt',
       prompt,
+      ...(context && { context }),
     };
 
     const encrypted = crypto.encrypt(JSON.stringify(msg));
@@ -317,7 +565,11 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     ws.send(JSON.stringify(envelope));
   },
 
-  respondToPermission: (requestId: string, decision: PermissionDecision) => {
+  respondToPermission: (
+    requestId: string,
+    decision: PermissionDecision,
+    scope?: PermissionRuleScope
+  ) => {
     const { ws, crypto, sessionId } = get();
     if (!ws || !crypto || !sessionId) return;
 
@@ -325,6 +577,7 @@ export const useSessionStore = create<SessionState>((set, get) => ({
       type: 'permission_response',
       requestId,
       decision,
+      scope,
     };
 
     const encrypted = crypto.encrypt(JSON.stringify(msg));
@@ -344,7 +597,126 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     }));
   },
 
-  respondToDiff: (patchId: string, decision: PatchDecision) => {
+  requestPermissionRules: () => {
+    const { ws, crypto, sessionId } = get();
+    if (!ws || !crypto || !sessionId) return;
+
+    const msg: Message = { type: 'permission_rules_request' };
+
+    const encrypted = crypto.encrypt(JSON.stringify(msg));
+    const envelope = createEnvelope({
+      sessionId,
+      sender: 'mobile',
+      nonce: encrypted.nonce,
+      encryptedPayload: encrypted.ciphertext,
+    });
+
+    ws.send(JSON.stringify(envelope));
+  },
+
+  requestPatchList: () => {
+    const { ws, crypto, sessionId } = get();
+    if (!ws || !crypto || !sessionId) return;
+
+    const msg: Message = { type: 'patch_list_request' };
+
+    const encrypted = crypto.encrypt(JSON.stringify(msg));
+    const envelope = createEnvelope({
+      sessionId,
+      sender: 'mobile',
+      nonce: encrypted.nonce,
+      encryptedPayload: encrypted.ciphertext,
+    });
+
+    ws.send(JSON.stringify(envelope));
+  },
+
+  loadEarlierOutput: (toSequence?: number) => {
+    const state = get();
+    const first = firstTerminalSequence(state.terminalOutput);
+    if (first === null || state.loadingEarlierOutput || !hasEarlierOutput(state)) return;
+
+    set({ loadingEarlierOutput: true, earlierOutputTarget: toSequence ?? null });
+    state.requestTerminalHistory({ before: first });
+  },
+
+  requestTerminalHistory: (range) => {
+    const { ws, crypto, sessionId } = get();
+    if (!ws || !crypto || !sessionId) {
+      set({ loadingEarlierOutput: false, earlierOutputTarget: null });
+      return;
+    }
+
+    const msg: Message = { type: 'terminal_history_request', ...range };
+
+    const encrypted = crypto.encrypt(JSON.stringify(msg));
+    const envelope = createEnvelope({
+      sessionId,
+      sender: 'mobile',
+      nonce: encrypted.nonce,
+      encryptedPayload: encrypted.ciphertext,
+    });
+
+    ws.send(JSON.stringify(envelope));
+  },
+
+  searchEarlierOutput: (search) => {
+    const state = get();
+    const { ws, crypto, sessionId } = state;
+    const first = firstTerminalSequence(state.terminalOutput);
+    if (!search || first === null || !hasEarlierOutput(state) || !ws || !crypto || !sessionId) {
+      set({ earlierOutputSearch: null, earlierOutputSearchId: null });
+      return;
+    }
+
+    const requestId = `search-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+    set({ earlierOutputSearch: null, earlierOutputSearchId: requestId });
+
+    const msg: Message = {
+      type: 'terminal_search_request',
+      requestId,
+      ...search,
+      before: first,
+    };
+
+    const encrypted = crypto.encrypt(JSON.stringify(msg));
+    const envelope = createEnvelope({
+      sessionId,
+      sender: 'mobile',
+      nonce: encrypted.nonce,
+      encryptedPayload: encrypted.ciphertext,
+    });
+
+    ws.send(JSON.stringify(envelope));
+  },
+
+  revokePermissionRule: (ruleId: string) => {
+    const { ws, crypto, sessionId } = get();
+    if (!ws || !crypto || !sessionId) return;
+
+    const msg: Message = { type: 'permission_rule_revoke', ruleId };
+
+    const encrypted = crypto.encrypt(JSON.stringify(msg));
+    const envelope = createEnvelope({
+      sessionId,
+      sender: 'mobile',
+      nonce: encrypted.nonce,
+      encryptedPayload: encrypted.ciphertext,
+    });
+
+    ws.send(JSON.stringify(envelope));
+
+    // Optimistically hide it; the desktop answers with the updated list
+    set((s) => ({
+      permissionRules: s.permissionRules.filter((r) => r.ruleId !== ruleId),
+    }));
+  },
+
+  respondToDiff: (
+    patchId: string,
+    decision: PatchDecision,
+    options?: { selection?: FileSelection[]; editedDiff?: string }
+  ) => {
     const { ws, crypto, sessionId } = get();
     if (!ws || !crypto || !sessionId) return;
 
@@ -352,6 +724,8 @@ export const useSessionStore = create<SessionState>((set, get) => ({
       type: 'patch_decision',
       patchId,
       decision,
+      ...(options?.selection && { selection: options.selection }),
+      ...(options?.editedDiff && { editedDiff: options.editedDiff }),
     };
 
     const encrypted = crypto.encrypt(JSON.stringify(msg));
@@ -364,6 +738,15 @@ export const useSessionStore = create<SessionState>((set, get) => ({
 
     ws.send(JSON.stringify(envelope));
 
+    if (decision === 'edit') {
+      // Stays pending until the desktop reports whether the edit applied
+      set((s) => {
+        const { [patchId]: _, ...patchEditErrors } = s.patchEditErrors;
+        return { patchEditErrors };
+      });
+      return;
+    }
+
     // Remove from pending
     set((s) => ({
       pendingDiffs: s.pendingDiffs.filter((d) => d.patchId !== patchId),
@@ -404,7 +787,7 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     ws.send(JSON.stringify(envelope));
   },
 
-  sendUndoRequest: (patchId: string) => {
+  sendUndoRequest: (patchId: string, options?: { dryRun?: boolean }) => {
     const { ws, crypto, sessionId } = get();
     if (!ws || !crypto || !sessionId) {
       console.warn('sendUndoRequest skipped: not connected/paired yet');
@@ -423,6 +806,70 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     const msg: Message = {
       type: 'undo_request',
       patchId,
+      dryRun: options?.dryRun,
+    };
+
+    const encrypted = crypto.encrypt(JSON.stringify(msg));
+    const envelope = createEnvelope({
+      sessionId,
+      sender: 'mobile',
+      nonce: encrypted.nonce,
+      encryptedPayload: encrypted.ciphertext,
+    });
+
+    ws.send(JSON.stringify(envelope));
+  },
+
+  sendPatchHistoryRequest: (request: PatchHistoryRequest) => {
+    const { ws, crypto, sessionId } = get();
+    if (!ws || !crypto || !sessionId) {
+      console.warn('sendPatchHistoryRequest skipped: not connected/paired yet');
+      return;
+    }
+
+    const patchStore = usePatchHistoryStore.getState();
+    const allowed = request.type === 'redo_request' ? patchStore.canRedo() : patchStore.canUndo();
+    if (!allowed) {
+      console.warn('sendPatchHistoryRequest skipped: cannot change history right now');
+      return;
+    }
+
+    // Mark the patch being acted on so its button shows progress
+    patchStore.markUndoPending(
+      request.type === 'undo_range_request'
+        ? request.toPatchId
+        : request.type === 'partial_undo_request'
+          ? request.patchId
+          : patchStore.redoable[0].patchId
+    );
+
+    const msg: Message = {
+      ...request,
+      requestId: `history-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    };
+
+    const encrypted = crypto.encrypt(JSON.stringify(msg));
+    const envelope = createEnvelope({
+      sessionId,
+      sender: 'mobile',
+      nonce: encrypted.nonce,
+      encryptedPayload: encrypted.ciphertext,
+    });
+
+    ws.send(JSON.stringify(envelope));
+  },
+
+  sendTaskAction: (action: TaskAction) => {
+    const { ws, crypto, sessionId, task } = get();
+    if (!ws || !crypto || !sessionId || !task) {
+      console.warn('sendTaskAction skipped: no active task');
+      return;
+    }
+
+    const msg: Message = {
+      type: 'task_action',
+      taskId: task.taskId,
+      action,
     };
 
     const encrypted = crypto.encrypt(JSON.stringify(msg));
@@ -533,3 +980,57 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     ws.send(JSON.stringify(envelope));
   },
 }));
+
+/**
+ * Whether the desktop stores output from before the oldest chunk we hold, and
+ * there is room to load it.
+ */
+export function hasEarlierOutput(state: SessionState): boolean {
+  const first = firstTerminalSequence(state.terminalOutput);
+  if (first === null || state.terminalOutputLimit >= MAX_LOADED_TERMINAL_OUTPUT) return false;
+  return first > (state.terminalOldestSequence ?? 0);
+}
+
+/** Sequence of the oldest desktop chunk in the feed, skipping local echoes */
+export function firstTerminalSequence(output: TerminalOutputMessage[]): number | null {
+  return output.find((c) => c.sequence !== LOCAL_ECHO_SEQUENCE)?.sequence ?? null;
+}
+
+function lastTerminalSequence(output: TerminalOutputMessage[]): number | null {
+  for (let i = output.length - 1; i >= 0; i--) {
+    if (output[i].sequence !== LOCAL_ECHO_SEQUENCE) return output[i].sequence;
+  }
+  return null;
+}
+
+/**
+ * The missing sequences between `last` and `next`, trimmed to the ones that
+ * would still be kept in a feed of `limit` chunks.
+ */
+function gapRange(last: number, next: number, limit: number): { from: number; before: number } {
+  return { from: Math.max(last + 1, next - limit), before: next };
+}
+
+/**
+ * Add desktop chunks to the feed in sequence order, skipping ones we already
+ * have, and keep the newest `limit`. Local echoes stay where they were.
+ */
+function mergeTerminalOutput(
+  output: TerminalOutputMessage[],
+  chunks: TerminalOutputMessage[],
+  limit: number
+): TerminalOutputMessage[] {
+  const seen = new Set(output.map((c) => c.sequence));
+  const merged = [...output];
+
+  // `chunks` is in sequence order, so each insertion point is at or after the last
+  let position = 0;
+  for (const chunk of chunks) {
+    if (seen.has(chunk.sequence)) continue;
+    seen.add(chunk.sequence);
+    while (position < merged.length && merged[position].sequence <= chunk.sequence) position++;
+    merged.splice(position++, 0, chunk);
+  }
+
+  return merged.slice(-limit);
+}
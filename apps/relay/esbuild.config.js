@@ -1,7 +1,26 @@
 import * as esbuild from 'esbuild';
-import { readdirSync, writeFileSync } from 'fs';
+import { readdirSync } from 'fs';
 import { join } from 'path';
 
+const awsExternals = [
+  '@aws-sdk/client-apigatewaymanagementapi',
+  '@aws-sdk/client-dynamodb',
+  '@aws-sdk/lib-dynamodb',
+];
+
+// Bundle the standalone server first - the Lambda handler bundles below
+// overwrite dist/handlers in place with CommonJS.
+await esbuild.build({
+  entryPoints: ['./dist/cli.js'],
+  bundle: true,
+  platform: 'node',
+  target: 'node20',
+  format: 'esm',
+  outfile: './dist/cli.js',
+  allowOverwrite: true,
+  external: [...awsExternals, 'better-sqlite3', 'ws'],
+});
+
 const handlersDir = './dist/handlers';
 const handlers = readdirSync(handlersDir)
   .filter((f) => f.endsWith('.js'))
@@ -17,16 +36,12 @@ for (const handler of handlers) {
     format: 'cjs',
     outfile: handler,
     allowOverwrite: true,
-    external: [
-      '@aws-sdk/client-apigatewaymanagementapi',
-      '@aws-sdk/client-dynamodb',
-      '@aws-sdk/lib-dynamodb',
-    ],
+    external: awsExternals,
   });
 }
 
-// Also bundle db.js and websocket.js
-const utilFiles = ['./dist/db.js', './dist/websocket.js'];
+// Also bundle the shared Lambda modules
+const utilFiles = ['./dist/lambda.js', './dist/storage/dynamodb.js', './dist/websocket.js'];
 for (const file of utilFiles) {
   await esbuild.build({
     entryPoints: [file],
@@ -36,11 +51,7 @@ for (const file of utilFiles) {
     format: 'cjs',
     outfile: file,
     allowOverwrite: true,
-    external: [
-      '@aws-sdk/client-apigatewaymanagementapi',
-      '@aws-sdk/client-dynamodb',
-      '@aws-sdk/lib-dynamodb',
-    ],
+    external: awsExternals,
   });
 }
 
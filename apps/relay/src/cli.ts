@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+/**
+ * Standalone relay entry point.
+ *
+ * Usage: node dist/cli.js [--port 8787] [--host 0.0.0.0] [--storage memory|sqlite] [--db relay.db]
+ * Each option can also be set via RELAY_PORT, RELAY_HOST, RELAY_STORAGE and RELAY_DB.
+ */
+
+import { parseArgs } from 'util';
+import { startRelayServer } from './server.js';
+import { createMemoryStorage } from './storage/memory.js';
+import { createSqliteStorage } from './storage/sqlite.js';
+import type { RelayStorage } from './storage/types.js';
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_DB_PATH = 'doomcode-relay.db';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', short: 'p' },
+    host: { type: 'string' },
+    storage: { type: 'string' },
+    db: { type: 'string' },
+  },
+});
+
+const port = Number(values.port ?? process.env.RELAY_PORT ?? DEFAULT_PORT);
+const host = values.host ?? process.env.RELAY_HOST;
+const storageType = (values.storage ?? process.env.RELAY_STORAGE ?? 'memory').toLowerCase();
+const dbPath = values.db ?? process.env.RELAY_DB ?? DEFAULT_DB_PATH;
+
+if (!Number.isInteger(port) || port < 0) {
+  console.error(`Invalid port "${values.port ?? process.env.RELAY_PORT}"`);
+  process.exit(1);
+}
+
+let storage: RelayStorage;
+switch (storageType) {
+  case 'memory':
+    storage = createMemoryStorage();
+    break;
+  case 'sqlite':
+    storage = createSqliteStorage(dbPath);
+    break;
+  default:
+    console.error(`Unsupported storage "${storageType}". Use one of: memory, sqlite`);
+    process.exit(1);
+}
+
+const server = await startRelayServer({ port, host, storage });
+const base = `${host ?? 'localhost'}:${server.port}`;
+
+console.log(`DoomCode relay listening (${storageType} storage)`);
+console.log(`  WebSocket: ws://${base}`);
+console.log(`  HTTP:      http://${base}`);
+console.log('');
+console.log(`Start a desktop session with:`);
+console.log(`  doomcode start --ws-url ws://${base} --http-url http://${base}`);
+
+const shutdown = () => {
+  server.close().then(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
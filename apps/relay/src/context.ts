@@ -0,0 +1,15 @@
+/**
+ * Runtime context shared by the relay handlers.
+ * Lets the same routing logic run on API Gateway Lambdas or the standalone server.
+ */
+
+import type { RelayStorage } from './storage/types.js';
+
+export interface RelayContext {
+  storage: RelayStorage;
+  /**
+   * Send a payload to a connected client.
+   * Resolves false if the connection is gone.
+   */
+  send: (connectionId: string, data: unknown) => Promise<boolean>;
+}
@@ -3,28 +3,44 @@
  */
 
 import type { APIGatewayProxyWebsocketHandlerV2 } from 'aws-lambda';
-import {
-  getConnection,
-  deleteConnection,
-  getSession,
-  clearSessionClient,
-} from '../db.js';
-import { sendToConnection } from '../websocket.js';
+import type { RelayContext } from '../context.js';
+import { createLambdaContext } from '../lambda.js';
 
 export const handler: APIGatewayProxyWebsocketHandlerV2 = async (event) => {
   const connectionId = event.requestContext.connectionId;
+  const ctx = createLambdaContext(event.requestContext.domainName!, event.requestContext.stage);
+
+  await processDisconnect(ctx, connectionId);
+
+  return {
+    statusCode: 200,
+    body: 'Disconnected',
+  };
+};
+
+/**
+ * Clean up after a closed connection and notify the peer.
+ */
+export async function processDisconnect(ctx: RelayContext, connectionId: string): Promise<void> {
+  const { storage } = ctx;
   console.log(`Connection closed: ${connectionId}`);
 
   try {
     // Get connection info
-    const connection = await getConnection(connectionId);
+    const connection = await storage.getConnection(connectionId);
     if (!connection) {
-      return { statusCode: 200, body: 'OK' };
+      return;
     }
 
     // Get session to notify peer
-    const session = await getSession(connection.sessionId);
-    if (session) {
+    const session = await storage.getSession(connection.sessionId);
+    const ownConnectionId =
+      connection.clientType === 'desktop'
+        ? session?.desktopConnectionId
+        : session?.mobileConnectionId;
+
+    // Skip if the client already rejoined on a new connection before this one closed
+    if (session && ownConnectionId === connectionId) {
       // Notify peer of disconnection
       const peerConnectionId =
         connection.clientType === 'desktop'
@@ -32,29 +48,19 @@ export const handler: APIGatewayProxyWebsocketHandlerV2 = async (event) => {
           : session.desktopConnectionId;
 
       if (peerConnectionId) {
-        await sendToConnection(
-          event.requestContext.domainName!,
-          event.requestContext.stage,
-          peerConnectionId,
-          {
-            action: 'peer_disconnected',
-            peerType: connection.clientType,
-          }
-        );
+        await ctx.send(peerConnectionId, {
+          action: 'peer_disconnected',
+          peerType: connection.clientType,
+        });
       }
 
       // Clear from session
-      await clearSessionClient(connection.sessionId, connection.clientType);
+      await storage.clearSessionClient(connection.sessionId, connection.clientType);
     }
 
     // Delete connection record
-    await deleteConnection(connectionId);
+    await storage.deleteConnection(connectionId);
   } catch (error) {
     console.error('Error in disconnect handler:', error);
   }
-
-  return {
-    statusCode: 200,
-    body: 'Disconnected',
-  };
-};
+}
@@ -4,80 +4,82 @@
 
 import type { APIGatewayProxyHandlerV2, APIGatewayProxyResultV2 } from 'aws-lambda';
 import { randomUUID } from 'crypto';
-import { createSession, getSession } from '../db.js';
+import type { RelayStorage } from '../storage/types.js';
+import { getLambdaStorage } from '../lambda.js';
 
-const headers = {
+export const RESPONSE_HEADERS = {
   'Content-Type': 'application/json',
   'Access-Control-Allow-Origin': '*',
 };
 
-export const createSessionHandler: APIGatewayProxyHandlerV2 = async (): Promise<APIGatewayProxyResultV2> => {
+export interface HttpResult {
+  statusCode: number;
+  body: Record<string, unknown>;
+}
+
+function toLambdaResult(result: HttpResult): APIGatewayProxyResultV2 {
+  return {
+    statusCode: result.statusCode,
+    headers: RESPONSE_HEADERS,
+    body: JSON.stringify(result.body),
+  };
+}
+
+export async function createSessionRoute(storage: RelayStorage): Promise<HttpResult> {
   try {
     const sessionId = randomUUID();
-    await createSession(sessionId);
+    await storage.createSession(sessionId);
 
-    return {
-      statusCode: 200,
-      headers,
-      body: JSON.stringify({ sessionId }),
-    };
+    return { statusCode: 200, body: { sessionId } };
   } catch (error) {
     console.error('Error creating session:', error);
-    return {
-      statusCode: 500,
-      headers,
-      body: JSON.stringify({ error: 'Failed to create session' }),
-    };
+    return { statusCode: 500, body: { error: 'Failed to create session' } };
   }
-};
-
-export const getSessionHandler: APIGatewayProxyHandlerV2 = async (event): Promise<APIGatewayProxyResultV2> => {
-  const sessionId = event.pathParameters?.sessionId;
+}
 
+export async function getSessionRoute(
+  storage: RelayStorage,
+  sessionId: string | undefined
+): Promise<HttpResult> {
   if (!sessionId) {
-    return {
-      statusCode: 400,
-      headers,
-      body: JSON.stringify({ error: 'Session ID required' }),
-    };
+    return { statusCode: 400, body: { error: 'Session ID required' } };
   }
 
   try {
-    const session = await getSession(sessionId);
+    const session = await storage.getSession(sessionId);
 
     if (!session) {
-      return {
-        statusCode: 404,
-        headers,
-        body: JSON.stringify({ error: 'Session not found' }),
-      };
+      return { statusCode: 404, body: { error: 'Session not found' } };
     }
 
     return {
       statusCode: 200,
-      headers,
-      body: JSON.stringify({
+      body: {
         sessionId: session.sessionId,
         hasDesktop: !!session.desktopConnectionId,
         hasMobile: !!session.mobileConnectionId,
         createdAt: session.createdAt,
         expiresAt: session.expiresAt,
-      }),
+      },
     };
   } catch (error) {
     console.error('Error getting session:', error);
-    return {
-      statusCode: 500,
-      headers,
-      body: JSON.stringify({ error: 'Failed to get session' }),
-    };
+    return { statusCode: 500, body: { error: 'Failed to get session' } };
   }
+}
+
+export function healthRoute(): HttpResult {
+  return { statusCode: 200, body: { status: 'ok', timestamp: Date.now() } };
+}
+
+export const createSessionHandler: APIGatewayProxyHandlerV2 = async (): Promise<APIGatewayProxyResultV2> => {
+  return toLambdaResult(await createSessionRoute(getLambdaStorage()));
+};
+
+export const getSessionHandler: APIGatewayProxyHandlerV2 = async (event): Promise<APIGatewayProxyResultV2> => {
+  return toLambdaResult(await getSessionRoute(getLambdaStorage(), event.pathParameters?.sessionId));
 };
 
 export const healthHandler: APIGatewayProxyHandlerV2 = async (): Promise<APIGatewayProxyResultV2> => {
-  return {
-    statusCode: 200,
-    headers,
-    body: JSON.stringify({ status: 'ok', timestamp: Date.now() }),
-  };
+  return toLambdaResult(healthRoute());
 };
@@ -8,65 +8,64 @@ import type {
   RelayClientMessage,
   MessageEnvelope,
 } from '@doomcode/protocol';
-import {
-  saveConnection,
-  getConnection,
-  deleteConnection,
-  createSession,
-  getSession,
-  updateSessionClient,
-  clearSessionClient,
-  queueMessage,
-  getQueuedMessages,
-  deleteQueuedMessages,
-  clearAllQueuedMessages,
-} from '../db.js';
-import { sendToConnection } from '../websocket.js';
+import type { RelayContext } from '../context.js';
+import { createLambdaContext } from '../lambda.js';
 
 export const handler: APIGatewayProxyWebsocketHandlerV2 = async (event) => {
   const connectionId = event.requestContext.connectionId;
-  const domain = event.requestContext.domainName!;
-  const stage = event.requestContext.stage;
+  const ctx = createLambdaContext(event.requestContext.domainName!, event.requestContext.stage);
 
   if (!event.body) {
     return { statusCode: 400, body: 'Empty message' };
   }
 
+  const ok = await processMessage(ctx, connectionId, event.body);
+  return ok ? { statusCode: 200, body: 'OK' } : { statusCode: 500, body: 'Error' };
+};
+
+/**
+ * Route a raw WebSocket message from a client.
+ * Returns false if the message could not be processed.
+ */
+export async function processMessage(
+  ctx: RelayContext,
+  connectionId: string,
+  body: string
+): Promise<boolean> {
   try {
-    const data = JSON.parse(event.body);
+    const data = JSON.parse(body);
 
     // Check if this is a control message or encrypted envelope
     if ('action' in data) {
-      await handleControlMessage(domain, stage, connectionId, data as RelayClientMessage);
+      await handleControlMessage(ctx, connectionId, data as RelayClientMessage);
     } else if ('encryptedPayload' in data) {
-      await handleEncryptedMessage(domain, stage, connectionId, data as MessageEnvelope);
+      await handleEncryptedMessage(ctx, connectionId, data as MessageEnvelope);
     }
 
-    return { statusCode: 200, body: 'OK' };
+    return true;
   } catch (error) {
     console.error('Error handling message:', error);
-    await sendToConnection(domain, stage, connectionId, {
+    await ctx.send(connectionId, {
       action: 'error',
       code: 'INTERNAL_ERROR',
       message: 'Failed to process message',
     });
-    return { statusCode: 500, body: 'Error' };
+    return false;
   }
-};
+}
 
 async function handleControlMessage(
-  domain: string,
-  stage: string,
+  ctx: RelayContext,
   connectionId: string,
   msg: RelayClientMessage
 ): Promise<void> {
   switch (msg.action) {
     case 'create':
-      await handleCreate(domain, stage, connectionId, msg.publicKey);
+      await handleCreate(ctx, connectionId, msg.publicKey);
       break;
 
     case 'join':
-      await handleJoin(domain, stage, connectionId, msg.sessionId, msg.clientType, msg.publicKey);
+      await handleJoin(ctx, connectionId, msg.sessionId, msg.clientType, msg.publicKey);
       break;
 
     case 'leave':
@@ -74,28 +73,28 @@ async function handleControlMessage(
       break;
 
     case 'queue_status':
-      await handleQueueStatus(domain, stage, connectionId, msg.sessionId);
+      await handleQueueStatus(ctx, connectionId, msg.sessionId, msg.recipient);
       break;
 
     case 'ack':
-      await deleteQueuedMessages(msg.sessionId, msg.lastMessageId);
+      await handleAck(ctx, connectionId, msg.sessionId, msg.lastMessageId);
       break;
   }
 }
 
 async function handleCreate(
-  domain: string,
-  stage: string,
+  ctx: RelayContext,
   connectionId: string,
   publicKey: string
 ): Promise<void> {
+  const { storage } = ctx;
   const sessionId = randomUUID();
 
   // Create session
-  await createSession(sessionId);
+  await storage.createSession(sessionId);
 
   // Save connection
-  await saveConnection({
+  await storage.saveConnection({
     connectionId,
     sessionId,
     clientType: 'desktop',
@@ -104,27 +103,28 @@ async function handleCreate(
   });
 
   // Update session with desktop info
-  await updateSessionClient(sessionId, 'desktop', connectionId, publicKey);
+  await storage.updateSessionClient(sessionId, 'desktop', connectionId, publicKey);
 
   // Send confirmation
-  await sendToConnection(domain, stage, connectionId, {
+  await ctx.send(connectionId, {
     action: 'session_created',
     sessionId,
   });
 }
 
 async function handleJoin(
-  domain: string,
-  stage: string,
+  ctx: RelayContext,
   connectionId: string,
   sessionId: string,
   clientType: 'desktop' | 'mobile',
   publicKey: string
 ): Promise<void> {
+  const { storage } = ctx;
+
   // Check session exists
-  const session = await getSession(sessionId);
+  const session = await storage.getSession(sessionId);
   if (!session) {
-    await sendToConnection(domain, stage, connectionId, {
+    await ctx.send(connectionId, {
       action: 'error',
       code: 'SESSION_NOT_FOUND',
       message: 'Session does not exist',
@@ -132,12 +132,6 @@ async function handleJoin(
     return;
   }
 
-  // If the mobile public key changes (common after reinstall/re-pair), any queued
-  // messages from the old key are undecryptable. Drop them to avoid decrypt errors.
-  if (clientType === 'mobile' && session.mobilePublicKey && session.mobilePublicKey !== publicKey) {
-    await clearAllQueuedMessages(sessionId);
-  }
-
   // Check if this client type is already connected
   const existingConnectionId =
     clientType === 'desktop' ? session.desktopConnectionId : session.mobileConnectionId;
@@ -145,17 +139,17 @@ async function handleJoin(
     // If the recorded connection is stale (common when apps are killed / networks drop),
     // API Gateway will return GoneException when we try to send.
     // In that case, clear the session slot so the client can re-join immediately.
-    const isAlive = await sendToConnection(domain, stage, existingConnectionId, {
+    const isAlive = await ctx.send(existingConnectionId, {
       action: 'ping',
       timestamp: Date.now(),
     });
 
     if (!isAlive) {
-      await clearSessionClient(sessionId, clientType);
-      await deleteConnection(existingConnectionId);
+      await storage.clearSessionClient(sessionId, clientType);
+      await storage.deleteConnection(existingConnectionId);
       // Continue to allow this join
     } else {
-    await sendToConnection(domain, stage, connectionId, {
+    await ctx.send(connectionId, {
       action: 'error',
       code: 'ALREADY_CONNECTED',
       message: `A ${clientType} is already connected to this session`,
@@ -164,8 +158,16 @@ async function handleJoin(
     }
   }
 
+  // If the mobile public key changes (common after reinstall/re-pair), messages queued
+  // for the old key are undecryptable. Drop them to avoid decrypt errors; messages the
+  // phone queued for the desktop are still delivered. Only done once the join is accepted,
+  // so a rejected join cannot wipe the queue.
+  if (clientType === 'mobile' && session.mobilePublicKey && session.mobilePublicKey !== publicKey) {
+    await storage.clearQueuedMessages(sessionId, 'mobile');
+  }
+
   // Save connection
-  await saveConnection({
+  await storage.saveConnection({
     connectionId,
     sessionId,
     clientType,
@@ -174,14 +176,14 @@ async function handleJoin(
   });
 
   // Update session
-  await updateSessionClient(sessionId, clientType, connectionId, publicKey);
+  await storage.updateSessionClient(sessionId, clientType, connectionId, publicKey);
 
   // Get peer's public key if available
   const peerPublicKey =
     clientType === 'desktop' ? session.mobilePublicKey : session.desktopPublicKey;
 
   // Send join confirmation
-  await sendToConnection(domain, stage, connectionId, {
+  await ctx.send(connectionId, {
     action: 'session_joined',
     sessionId,
     peerPublicKey,
@@ -192,55 +194,108 @@ async function handleJoin(
     clientType === 'desktop' ? session.mobileConnectionId : session.desktopConnectionId;
 
   if (peerConnectionId) {
-    await sendToConnection(domain, stage, peerConnectionId, {
+    await ctx.send(peerConnectionId, {
       action: 'peer_connected',
       peerPublicKey: publicKey,
       peerType: clientType,
     });
   }
 
-  // If mobile reconnecting, send queue status and replay messages
-  if (clientType === 'mobile') {
-    const queuedMessages = await getQueuedMessages(sessionId);
-    if (queuedMessages.length > 0) {
-      await sendToConnection(domain, stage, connectionId, {
-        action: 'queue_status',
-        queuedMessages: queuedMessages.length,
-        oldestTimestamp: queuedMessages[0]?.queuedAt,
-      });
-
-      // Replay messages
-      for (const msg of queuedMessages) {
-        await sendToConnection(domain, stage, connectionId, msg.envelope);
-      }
+  // If reconnecting, send queue status and replay messages queued for this client
+  const queuedMessages = await storage.getQueuedMessages(sessionId, clientType);
+  if (queuedMessages.length > 0) {
+    await ctx.send(connectionId, {
+      action: 'queue_status',
+      recipient: clientType,
+      queuedMessages: queuedMessages.length,
+      oldestTimestamp: queuedMessages[0]?.queuedAt,
+      lastMessageId: queuedMessages[queuedMessages.length - 1]?.messageId,
+    });
+
+    // Replay messages
+    for (const msg of queuedMessages) {
+      await ctx.send(connectionId, msg.envelope);
     }
   }
+
+  // Let a returning phone know what is still waiting for the desktop
+  if (clientType === 'mobile' && !session.desktopConnectionId) {
+    await sendQueueStatus(ctx, connectionId, sessionId, 'desktop');
+  }
 }
 
-async function handleQueueStatus(
-  domain: string,
-  stage: string,
+async function sendQueueStatus(
+  ctx: RelayContext,
   connectionId: string,
-  sessionId: string
+  sessionId: string,
+  recipient: 'desktop' | 'mobile'
 ): Promise<void> {
-  const messages = await getQueuedMessages(sessionId);
-  await sendToConnection(domain, stage, connectionId, {
+  const messages = await ctx.storage.getQueuedMessages(sessionId, recipient);
+  await ctx.send(connectionId, {
     action: 'queue_status',
+    recipient,
     queuedMessages: messages.length,
     oldestTimestamp: messages[0]?.queuedAt,
+    lastMessageId: messages[messages.length - 1]?.messageId,
   });
 }
 
+async function handleQueueStatus(
+  ctx: RelayContext,
+  connectionId: string,
+  sessionId: string,
+  recipient: 'desktop' | 'mobile' | undefined
+): Promise<void> {
+  // Only clients joined to the session may see its queues
+  const connection = await ctx.storage.getConnection(connectionId);
+  if (!connection || connection.sessionId !== sessionId) {
+    await ctx.send(connectionId, {
+      action: 'error',
+      code: 'NOT_JOINED',
+      message: 'Must join this session first',
+    });
+    return;
+  }
+
+  await sendQueueStatus(ctx, connectionId, sessionId, recipient ?? connection.clientType);
+}
+
+async function handleAck(
+  ctx: RelayContext,
+  connectionId: string,
+  sessionId: string,
+  lastMessageId: string
+): Promise<void> {
+  const { storage } = ctx;
+
+  // Clients can only acknowledge messages that were queued for them
+  const connection = await storage.getConnection(connectionId);
+  if (!connection || connection.sessionId !== sessionId) {
+    return;
+  }
+
+  await storage.deleteQueuedMessages(sessionId, connection.clientType, lastMessageId);
+
+  // Desktop caught up - tell the phone its backlog was delivered
+  if (connection.clientType === 'desktop') {
+    const session = await storage.getSession(sessionId);
+    if (session?.mobileConnectionId) {
+      await sendQueueStatus(ctx, session.mobileConnectionId, sessionId, 'desktop');
+    }
+  }
+}
+
 async function handleEncryptedMessage(
-  domain: string,
-  stage: string,
+  ctx: RelayContext,
   connectionId: string,
   envelope: MessageEnvelope
 ): Promise<void> {
+  const { storage } = ctx;
+
   // Get sender connection info
-  const connection = await getConnection(connectionId);
+  const connection = await storage.getConnection(connectionId);
   if (!connection) {
-    await sendToConnection(domain, stage, connectionId, {
+    await ctx.send(connectionId, {
       action: 'error',
       code: 'NOT_JOINED',
       message: 'Must join a session first',
@@ -249,7 +304,7 @@ async function handleEncryptedMessage(
   }
 
   // Get session
-  const session = await getSession(connection.sessionId);
+  const session = await storage.getSession(connection.sessionId);
   if (!session) {
     return;
   }
@@ -260,12 +315,18 @@ async function handleEncryptedMessage(
       ? session.mobileConnectionId
       : session.desktopConnectionId;
 
-  if (peerConnectionId) {
-    // Forward to peer
-    await sendToConnection(domain, stage, peerConnectionId, envelope);
-  } else if (connection.clientType === 'desktop') {
-    // Mobile offline - queue the message
-    await queueMessage(connection.sessionId, envelope);
+  // Forward to peer
+  if (peerConnectionId && (await ctx.send(peerConnectionId, envelope))) {
+    return;
+  }
+
+  // Peer offline, or its connection went away before the relay noticed - queue the
+  // message until it rejoins
+  const recipient = connection.clientType === 'desktop' ? 'mobile' : 'desktop';
+  await storage.queueMessage(connection.sessionId, recipient, envelope);
+
+  // The phone shows how much is waiting for the desktop
+  if (recipient === 'desktop') {
+    await sendQueueStatus(ctx, connectionId, connection.sessionId, recipient);
   }
-  // Messages from mobile when desktop is offline are dropped
 }
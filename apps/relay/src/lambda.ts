@@ -0,0 +1,28 @@
+/**
+ * Relay context for the API Gateway + Lambda deployment (DynamoDB storage).
+ */
+
+import type { RelayContext } from './context.js';
+import { createDynamoStorage } from './storage/dynamodb.js';
+import type { RelayStorage } from './storage/types.js';
+import { sendToConnection } from './websocket.js';
+
+let storage: RelayStorage | null = null;
+
+export function getLambdaStorage(): RelayStorage {
+  if (!storage) {
+    storage = createDynamoStorage({
+      connectionsTable: process.env.CONNECTIONS_TABLE!,
+      sessionsTable: process.env.SESSIONS_TABLE!,
+      messagesTable: process.env.MESSAGES_TABLE!,
+    });
+  }
+  return storage;
+}
+
+export function createLambdaContext(domain: string, stage: string): RelayContext {
+  return {
+    storage: getLambdaStorage(),
+    send: (connectionId, data) => sendToConnection(domain, stage, connectionId, data),
+  };
+}
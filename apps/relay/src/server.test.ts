@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import type { MessageEnvelope, Sender } from '@doomcode/protocol';
+import { startRelayServer, type RelayServer } from './server.js';
+import { createMemoryStorage } from './storage/memory.js';
+
+interface TestClient {
+  send: (data: unknown) => void;
+  /** Resolves with the next message the relay sent to this client */
+  next: () => Promise<Record<string, unknown>>;
+  close: () => Promise<void>;
+}
+
+function connect(port: number): Promise<TestClient> {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+  const received: Record<string, unknown>[] = [];
+  const waiting: ((message: Record<string, unknown>) => void)[] = [];
+
+  socket.on('message', (data) => {
+    const message = JSON.parse(data.toString());
+    const waiter = waiting.shift();
+    if (waiter) waiter(message);
+    else received.push(message);
+  });
+
+  const client: TestClient = {
+    send: (data) => socket.send(JSON.stringify(data)),
+    next: () => {
+      const message = received.shift();
+      return message ? Promise.resolve(message) : new Promise((resolve) => waiting.push(resolve));
+    },
+    close: () =>
+      new Promise((resolve) => {
+        if (socket.readyState === WebSocket.CLOSED) return resolve();
+        socket.once('close', () => resolve());
+        socket.close();
+      }),
+  };
+
+  return new Promise((resolve, reject) => {
+    socket.once('open', () => resolve(client));
+    socket.once('error', reject);
+  });
+}
+
+const envelope = (sessionId: string, sender: Sender, messageId: string): MessageEnvelope => ({
+  version: 1,
+  sessionId,
+  messageId,
+  timestamp: Date.now(),
+  sender,
+  nonce: 'nonce',
+  encryptedPayload: `payload ${messageId}`,
+});
+
+describe('standalone relay', () => {
+  let server: RelayServer;
+  const clients: TestClient[] = [];
+
+  const open = async () => {
+    const client = await connect(server.port);
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    server = await startRelayServer({ port: 0, host: '127.0.0.1', storage: createMemoryStorage() });
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  it('creates, joins, queues, replays, acks and forwards', async () => {
+    const desktop = await open();
+    desktop.send({ action: 'create', publicKey: 'desktop-key' });
+    const created = await desktop.next();
+    expect(created).toMatchObject({ action: 'session_created' });
+    const sessionId = created.sessionId as string;
+
+    // Nobody to forward to yet, so the relay queues it for the phone
+    const queued = envelope(sessionId, 'desktop', 'queued-1');
+    desktop.send(queued);
+
+    const mobile = await open();
+    mobile.send({ action: 'join', sessionId, clientType: 'mobile', publicKey: 'mobile-key' });
+    expect(await mobile.next()).toEqual({
+      action: 'session_joined',
+      sessionId,
+      peerPublicKey: 'desktop-key',
+    });
+    expect(await desktop.next()).toEqual({
+      action: 'peer_connected',
+      peerPublicKey: 'mobile-key',
+      peerType: 'mobile',
+    });
+
+    // The queue is announced, then replayed
+    expect(await mobile.next()).toMatchObject({
+      action: 'queue_status',
+      recipient: 'mobile',
+      queuedMessages: 1,
+      lastMessageId: 'queued-1',
+    });
+    expect(await mobile.next()).toEqual(queued);
+
+    // Acking empties the queue
+    mobile.send({ action: 'ack', sessionId, lastMessageId: 'queued-1' });
+    mobile.send({ action: 'queue_status', sessionId });
+    expect(await mobile.next()).toMatchObject({
+      action: 'queue_status',
+      recipient: 'mobile',
+      queuedMessages: 0,
+    });
+
+    // With both sides connected, envelopes go straight through
+    const live = envelope(sessionId, 'mobile', 'live-1');
+    mobile.send(live);
+    expect(await desktop.next()).toEqual(live);
+  });
+
+  it('replays messages queued for the desktop until it acks them', async () => {
+    const desktop = await open();
+    desktop.send({ action: 'create', publicKey: 'desktop-key' });
+    const { sessionId } = (await desktop.next()) as { sessionId: string };
+
+    const mobile = await open();
+    mobile.send({ action: 'join', sessionId, clientType: 'mobile', publicKey: 'mobile-key' });
+    expect(await mobile.next()).toMatchObject({ action: 'session_joined' });
+    expect(await desktop.next()).toMatchObject({ action: 'peer_connected' });
+
+    await desktop.close();
+    expect(await mobile.next()).toEqual({ action: 'peer_disconnected', peerType: 'desktop' });
+
+    // The phone sees each message waiting for the desktop
+    const sent = [envelope(sessionId, 'mobile', 'm1'), envelope(sessionId, 'mobile', 'm2')];
+    for (const [i, message] of sent.entries()) {
+      mobile.send(message);
+      expect(await mobile.next()).toMatchObject({
+        action: 'queue_status',
+        recipient: 'desktop',
+        queuedMessages: i + 1,
+        lastMessageId: message.messageId,
+      });
+    }
+
+    const rejoin = async () => {
+      const client = await open();
+      client.send({ action: 'join', sessionId, clientType: 'desktop', publicKey: 'desktop-key' });
+      expect(await client.next()).toMatchObject({
+        action: 'session_joined',
+        peerPublicKey: 'mobile-key',
+      });
+      expect(await mobile.next()).toMatchObject({ action: 'peer_connected', peerType: 'desktop' });
+      expect(await client.next()).toMatchObject({
+        action: 'queue_status',
+        recipient: 'desktop',
+        queuedMessages: 2,
+        lastMessageId: 'm2',
+      });
+      expect(await client.next()).toEqual(sent[0]);
+      expect(await client.next()).toEqual(sent[1]);
+      return client;
+    };
+
+    // Without an ack the relay keeps the messages for the next join
+    const unacked = await rejoin();
+    await unacked.close();
+    expect(await mobile.next()).toMatchObject({ action: 'peer_disconnected' });
+
+    const acked = await rejoin();
+    acked.send({ action: 'ack', sessionId, lastMessageId: 'm2' });
+    expect(await mobile.next()).toMatchObject({
+      action: 'queue_status',
+      recipient: 'desktop',
+      queuedMessages: 0,
+    });
+  });
+
+  it('rejects a join to an unknown session', async () => {
+    const mobile = await open();
+    mobile.send({ action: 'join', sessionId: 'missing', clientType: 'mobile', publicKey: 'k' });
+    expect(await mobile.next()).toMatchObject({ action: 'error', code: 'SESSION_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Standalone relay server.
+ *
+ * Serves the same WebSocket protocol and HTTP API as the API Gateway deployment
+ * from a single Node process, backed by any RelayStorage implementation.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { RelayContext } from './context.js';
+import type { RelayStorage } from './storage/types.js';
+import { processMessage } from './handlers/message.js';
+import { processDisconnect } from './handlers/disconnect.js';
+import {
+  RESPONSE_HEADERS,
+  createSessionRoute,
+  getSessionRoute,
+  healthRoute,
+  type HttpResult,
+} from './handlers/http.js';
+
+export interface RelayServerOptions {
+  port: number;
+  host?: string;
+  storage: RelayStorage;
+}
+
+export interface RelayServer {
+  /** Port the server is listening on (useful when started with port 0). */
+  port: number;
+  close: () => Promise<void>;
+}
+
+const SESSION_PATH_REGEX = /^\/session\/([^/]+)$/;
+
+async function routeHttp(storage: RelayStorage, req: IncomingMessage): Promise<HttpResult> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const pathname = url.pathname.replace(/\/+$/, '') || '/';
+
+  if (req.method === 'POST' && pathname === '/session') {
+    return createSessionRoute(storage);
+  }
+
+  const sessionMatch = pathname.match(SESSION_PATH_REGEX);
+  if (req.method === 'GET' && sessionMatch) {
+    return getSessionRoute(storage, decodeURIComponent(sessionMatch[1]));
+  }
+
+  if (req.method === 'GET' && pathname === '/health') {
+    return healthRoute();
+  }
+
+  return { statusCode: 404, body: { error: 'Not found' } };
+}
+
+async function handleHttp(
+  storage: RelayStorage,
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      ...RESPONSE_HEADERS,
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end();
+    return;
+  }
+
+  // Drain the request body; none of the routes read it.
+  req.resume();
+
+  const result = await routeHttp(storage, req);
+  res.writeHead(result.statusCode, RESPONSE_HEADERS);
+  res.end(JSON.stringify(result.body));
+}
+
+export function startRelayServer(options: RelayServerOptions): Promise<RelayServer> {
+  const sockets = new Map<string, WebSocket>();
+
+  const ctx: RelayContext = {
+    storage: options.storage,
+    send: async (connectionId, data) => {
+      const socket = sockets.get(connectionId);
+      if (!socket || socket.readyState !== WebSocket.OPEN) {
+        // Connection is stale - client disconnected
+        console.log(`Connection ${connectionId} is gone`);
+        return false;
+      }
+      socket.send(JSON.stringify(data));
+      return true;
+    },
+  };
+
+  const server = createServer((req, res) => {
+    handleHttp(options.storage, req, res).catch((error) => {
+      console.error('Error handling HTTP request:', error);
+      res.writeHead(500, RESPONSE_HEADERS);
+      res.end(JSON.stringify({ error: 'Internal error' }));
+    });
+  });
+
+  const wss = new WebSocketServer({ server });
+
+  wss.on('connection', (socket) => {
+    const connectionId = randomUUID();
+    sockets.set(connectionId, socket);
+    console.log(`Connection established: ${connectionId}`);
+
+    // Handlers are async; process each connection's events strictly in order,
+    // the same way API Gateway delivers them.
+    let pending: Promise<unknown> = Promise.resolve();
+
+    socket.on('message', (data) => {
+      const body = data.toString();
+      if (!body) return;
+      pending = pending.then(() => processMessage(ctx, connectionId, body));
+    });
+
+    socket.on('close', () => {
+      sockets.delete(connectionId);
+      pending = pending.then(() => processDisconnect(ctx, connectionId));
+    });
+
+    socket.on('error', (error) => {
+      console.error(`WebSocket error on ${connectionId}:`, error);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : options.port;
+
+      resolve({
+        port,
+        close: () =>
+          new Promise<void>((resolveClose) => {
+            for (const socket of sockets.values()) {
+              socket.terminate();
+            }
+            wss.close(() => server.close(() => resolveClose()));
+          }),
+      });
+    });
+  });
+}
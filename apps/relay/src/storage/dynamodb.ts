@@ -0,0 +1,259 @@
+/**
+ * DynamoDB operations for session and connection management.
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  DeleteCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type { MessageEnvelope } from '@doomcode/protocol';
+import {
+  SESSION_TTL_MS,
+  MESSAGE_TTL_SECONDS,
+  type Connection,
+  type Session,
+  type QueuedMessage,
+  type RelayStorage,
+} from './types.js';
+
+export interface DynamoStorageOptions {
+  connectionsTable: string;
+  sessionsTable: string;
+  messagesTable: string;
+}
+
+export function createDynamoStorage(options: DynamoStorageOptions): RelayStorage {
+  const client = new DynamoDBClient({});
+  const docClient = DynamoDBDocumentClient.from(client);
+
+  const { connectionsTable, sessionsTable, messagesTable } = options;
+
+  // ==========================================================================
+  // Connection operations
+  // ==========================================================================
+
+  async function saveConnection(connection: Connection): Promise<void> {
+    await docClient.send(
+      new PutCommand({
+        TableName: connectionsTable,
+        Item: connection,
+      })
+    );
+  }
+
+  async function getConnection(connectionId: string): Promise<Connection | null> {
+    const result = await docClient.send(
+      new GetCommand({
+        TableName: connectionsTable,
+        Key: { connectionId },
+      })
+    );
+    return (result.Item as Connection) || null;
+  }
+
+  async function deleteConnection(connectionId: string): Promise<void> {
+    await docClient.send(
+      new DeleteCommand({
+        TableName: connectionsTable,
+        Key: { connectionId },
+      })
+    );
+  }
+
+  // ==========================================================================
+  // Session operations
+  // ==========================================================================
+
+  async function createSession(sessionId: string): Promise<Session> {
+    const now = Date.now();
+    const session: Session = {
+      sessionId,
+      createdAt: now,
+      expiresAt: now + SESSION_TTL_MS,
+    };
+
+    await docClient.send(
+      new PutCommand({
+        TableName: sessionsTable,
+        Item: {
+          ...session,
+          ttl: Math.floor(session.expiresAt / 1000),
+        },
+      })
+    );
+
+    return session;
+  }
+
+  async function getSession(sessionId: string): Promise<Session | null> {
+    const result = await docClient.send(
+      new GetCommand({
+        TableName: sessionsTable,
+        Key: { sessionId },
+      })
+    );
+    return (result.Item as Session) || null;
+  }
+
+  async function updateSessionClient(
+    sessionId: string,
+    clientType: 'desktop' | 'mobile',
+    connectionId: string,
+    publicKey: string
+  ): Promise<void> {
+    const updateExpr =
+      clientType === 'desktop'
+        ? 'SET desktopConnectionId = :connId, desktopPublicKey = :pubKey'
+        : 'SET mobileConnectionId = :connId, mobilePublicKey = :pubKey';
+
+    await docClient.send(
+      new UpdateCommand({
+        TableName: sessionsTable,
+        Key: { sessionId },
+        UpdateExpression: updateExpr,
+        ExpressionAttributeValues: {
+          ':connId': connectionId,
+          ':pubKey': publicKey,
+        },
+      })
+    );
+  }
+
+  async function clearSessionClient(
+    sessionId: string,
+    clientType: 'desktop' | 'mobile'
+  ): Promise<void> {
+    const updateExpr =
+      clientType === 'desktop'
+        ? 'REMOVE desktopConnectionId, desktopPublicKey'
+        : 'REMOVE mobileConnectionId, mobilePublicKey';
+
+    await docClient.send(
+      new UpdateCommand({
+        TableName: sessionsTable,
+        Key: { sessionId },
+        UpdateExpression: updateExpr,
+      })
+    );
+  }
+
+  // ==========================================================================
+  // Message queue operations (for offline support)
+  // ==========================================================================
+
+  async function queueMessage(
+    sessionId: string,
+    recipient: 'desktop' | 'mobile',
+    envelope: MessageEnvelope
+  ): Promise<void> {
+    const item: QueuedMessage = {
+      sessionId,
+      messageId: envelope.messageId,
+      recipient,
+      envelope,
+      queuedAt: Date.now(),
+      ttl: Math.floor(Date.now() / 1000) + MESSAGE_TTL_SECONDS,
+    };
+
+    await docClient.send(
+      new PutCommand({
+        TableName: messagesTable,
+        Item: item,
+      })
+    );
+  }
+
+  async function queryAllQueuedMessages(sessionId: string): Promise<QueuedMessage[]> {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: messagesTable,
+        KeyConditionExpression: 'sessionId = :sid',
+        ExpressionAttributeValues: {
+          ':sid': sessionId,
+        },
+      })
+    );
+
+    const items = (result.Items as QueuedMessage[]) || [];
+    // The range key is the (random) message ID, so order by queue time instead.
+    // Items written before per-recipient queues were all desktop->mobile.
+    return items
+      .map((item) => ({ ...item, recipient: item.recipient ?? 'mobile' }))
+      .sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  async function getQueuedMessages(
+    sessionId: string,
+    recipient: 'desktop' | 'mobile'
+  ): Promise<QueuedMessage[]> {
+    const messages = await queryAllQueuedMessages(sessionId);
+    return messages.filter((m) => m.recipient === recipient);
+  }
+
+  async function deleteQueuedMessages(
+    sessionId: string,
+    recipient: 'desktop' | 'mobile',
+    upToMessageId: string
+  ): Promise<void> {
+    const messages = await getQueuedMessages(sessionId, recipient);
+    const index = messages.findIndex((m) => m.messageId === upToMessageId);
+
+    if (index === -1) return;
+
+    // Delete all messages up to and including the acked one
+    const toDelete = messages.slice(0, index + 1);
+
+    for (const msg of toDelete) {
+      await docClient.send(
+        new DeleteCommand({
+          TableName: messagesTable,
+          Key: {
+            sessionId: msg.sessionId,
+            messageId: msg.messageId,
+          },
+        })
+      );
+    }
+  }
+
+  /**
+   * Delete the messages queued for one recipient of a session.
+   * Useful when the mobile public key changes (old queued messages will be undecryptable).
+   */
+  async function clearQueuedMessages(
+    sessionId: string,
+    recipient: 'desktop' | 'mobile'
+  ): Promise<void> {
+    const messages = await getQueuedMessages(sessionId, recipient);
+    for (const msg of messages) {
+      await docClient.send(
+        new DeleteCommand({
+          TableName: messagesTable,
+          Key: {
+            sessionId: msg.sessionId,
+            messageId: msg.messageId,
+          },
+        })
+      );
+    }
+  }
+
+  return {
+    saveConnection,
+    getConnection,
+    deleteConnection,
+    createSession,
+    getSession,
+    updateSessionClient,
+    clearSessionClient,
+    queueMessage,
+    getQueuedMessages,
+    deleteQueuedMessages,
+    clearQueuedMessages,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * In-memory storage for the standalone relay.
+ * State is lost on restart - intended for local development and integration tests.
+ */
+
+import type { MessageEnvelope } from '@doomcode/protocol';
+import {
+  SESSION_TTL_MS,
+  MESSAGE_TTL_SECONDS,
+  type Connection,
+  type Session,
+  type QueuedMessage,
+  type RelayStorage,
+} from './types.js';
+
+export function createMemoryStorage(): RelayStorage {
+  const connections = new Map<string, Connection>();
+  const sessions = new Map<string, Session>();
+  // Per-session queue, oldest first (both recipients interleaved)
+  const queues = new Map<string, QueuedMessage[]>();
+
+  const isExpired = (ttlSeconds: number) => ttlSeconds * 1000 <= Date.now();
+
+  const liveQueue = (sessionId: string): QueuedMessage[] => {
+    const queue = (queues.get(sessionId) ?? []).filter((m) => !isExpired(m.ttl));
+    queues.set(sessionId, queue);
+    return queue;
+  };
+
+  return {
+    async saveConnection(connection) {
+      connections.set(connection.connectionId, { ...connection });
+    },
+
+    async getConnection(connectionId) {
+      const connection = connections.get(connectionId);
+      return connection ? { ...connection } : null;
+    },
+
+    async deleteConnection(connectionId) {
+      connections.delete(connectionId);
+    },
+
+    async createSession(sessionId) {
+      const now = Date.now();
+      const session: Session = {
+        sessionId,
+        createdAt: now,
+        expiresAt: now + SESSION_TTL_MS,
+      };
+      sessions.set(sessionId, session);
+      return { ...session };
+    },
+
+    async getSession(sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) return null;
+      if (session.expiresAt <= Date.now()) {
+        sessions.delete(sessionId);
+        queues.delete(sessionId);
+        return null;
+      }
+      return { ...session };
+    },
+
+    async updateSessionClient(sessionId, clientType, connectionId, publicKey) {
+      const session = sessions.get(sessionId);
+      if (!session) return;
+      if (clientType === 'desktop') {
+        session.desktopConnectionId = connectionId;
+        session.desktopPublicKey = publicKey;
+      } else {
+        session.mobileConnectionId = connectionId;
+        session.mobilePublicKey = publicKey;
+      }
+    },
+
+    async clearSessionClient(sessionId, clientType) {
+      const session = sessions.get(sessionId);
+      if (!session) return;
+      if (clientType === 'desktop') {
+        delete session.desktopConnectionId;
+        delete session.desktopPublicKey;
+      } else {
+        delete session.mobileConnectionId;
+        delete session.mobilePublicKey;
+      }
+    },
+
+    async queueMessage(sessionId, recipient, envelope: MessageEnvelope) {
+      liveQueue(sessionId).push({
+        sessionId,
+        messageId: envelope.messageId,
+        recipient,
+        envelope,
+        queuedAt: Date.now(),
+        ttl: Math.floor(Date.now() / 1000) + MESSAGE_TTL_SECONDS,
+      });
+    },
+
+    async getQueuedMessages(sessionId, recipient) {
+      return liveQueue(sessionId).filter((m) => m.recipient === recipient);
+    },
+
+    async deleteQueuedMessages(sessionId, recipient, upToMessageId) {
+      const queue = liveQueue(sessionId);
+      const index = queue.findIndex(
+        (m) => m.recipient === recipient && m.messageId === upToMessageId
+      );
+      if (index === -1) return;
+
+      // Delete this recipient's messages up to and including the acked one
+      queues.set(
+        sessionId,
+        queue.filter((m, i) => i > index || m.recipient !== recipient)
+      );
+    },
+
+    async clearQueuedMessages(sessionId, recipient) {
+      queues.set(
+        sessionId,
+        liveQueue(sessionId).filter((m) => m.recipient !== recipient)
+      );
+    },
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * SQLite storage for the standalone relay.
+ * Persists sessions and queued messages across relay restarts on a single host.
+ */
+
+import Database from 'better-sqlite3';
+import type { MessageEnvelope } from '@doomcode/protocol';
+import {
+  SESSION_TTL_MS,
+  MESSAGE_TTL_SECONDS,
+  type Connection,
+  type Session,
+  type QueuedMessage,
+  type RelayStorage,
+} from './types.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS connections (
+    connection_id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    client_type TEXT NOT NULL,
+    public_key TEXT NOT NULL,
+    connected_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    session_id TEXT PRIMARY KEY,
+    desktop_connection_id TEXT,
+    desktop_public_key TEXT,
+    mobile_connection_id TEXT,
+    mobile_public_key TEXT,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS messages (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    message_id TEXT NOT NULL,
+    recipient TEXT NOT NULL DEFAULT 'mobile',
+    envelope TEXT NOT NULL,
+    queued_at INTEGER NOT NULL,
+    ttl INTEGER NOT NULL,
+    UNIQUE (session_id, message_id)
+  );
+
+  CREATE INDEX IF NOT EXISTS messages_by_session ON messages (session_id, seq);
+`;
+
+/**
+ * Bring databases created before per-recipient queues up to date.
+ * Existing rows were all desktop->mobile, which the column default covers.
+ */
+function migrate(db: Database.Database): void {
+  const columns = db.prepare('PRAGMA table_info(messages)').all() as { name: string }[];
+  if (!columns.some((c) => c.name === 'recipient')) {
+    db.exec("ALTER TABLE messages ADD COLUMN recipient TEXT NOT NULL DEFAULT 'mobile'");
+  }
+}
+
+interface ConnectionRow {
+  connection_id: string;
+  session_id: string;
+  client_type: 'desktop' | 'mobile';
+  public_key: string;
+  connected_at: number;
+}
+
+interface SessionRow {
+  session_id: string;
+  desktop_connection_id: string | null;
+  desktop_public_key: string | null;
+  mobile_connection_id: string | null;
+  mobile_public_key: string | null;
+  created_at: number;
+  expires_at: number;
+}
+
+interface MessageRow {
+  seq: number;
+  session_id: string;
+  message_id: string;
+  recipient: 'desktop' | 'mobile';
+  envelope: string;
+  queued_at: number;
+  ttl: number;
+}
+
+function toSession(row: SessionRow): Session {
+  return {
+    sessionId: row.session_id,
+    desktopConnectionId: row.desktop_connection_id ?? undefined,
+    desktopPublicKey: row.desktop_public_key ?? undefined,
+    mobileConnectionId: row.mobile_connection_id ?? undefined,
+    mobilePublicKey: row.mobile_public_key ?? undefined,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+function toQueuedMessage(row: MessageRow): QueuedMessage {
+  return {
+    sessionId: row.session_id,
+    messageId: row.message_id,
+    recipient: row.recipient,
+    envelope: JSON.parse(row.envelope) as MessageEnvelope,
+    queuedAt: row.queued_at,
+    ttl: row.ttl,
+  };
+}
+
+export function createSqliteStorage(filename: string): RelayStorage {
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+  migrate(db);
+
+  const statements = {
+    saveConnection: db.prepare(
+      `INSERT OR REPLACE INTO connections (connection_id, session_id, client_type, public_key, connected_at)
+       VALUES (@connectionId, @sessionId, @clientType, @publicKey, @connectedAt)`
+    ),
+    getConnection: db.prepare('SELECT * FROM connections WHERE connection_id = ?'),
+    deleteConnection: db.prepare('DELETE FROM connections WHERE connection_id = ?'),
+    createSession: db.prepare(
+      `INSERT OR REPLACE INTO sessions (session_id, created_at, expires_at)
+       VALUES (@sessionId, @createdAt, @expiresAt)`
+    ),
+    getSession: db.prepare('SELECT * FROM sessions WHERE session_id = ?'),
+    deleteSession: db.prepare('DELETE FROM sessions WHERE session_id = ?'),
+    setDesktop: db.prepare(
+      'UPDATE sessions SET desktop_connection_id = ?, desktop_public_key = ? WHERE session_id = ?'
+    ),
+    setMobile: db.prepare(
+      'UPDATE sessions SET mobile_connection_id = ?, mobile_public_key = ? WHERE session_id = ?'
+    ),
+    queueMessage: db.prepare(
+      `INSERT OR REPLACE INTO messages (session_id, message_id, recipient, envelope, queued_at, ttl)
+       VALUES (@sessionId, @messageId, @recipient, @envelope, @queuedAt, @ttl)`
+    ),
+    getQueuedMessages: db.prepare(
+      'SELECT * FROM messages WHERE session_id = ? AND recipient = ? AND ttl > ? ORDER BY seq ASC'
+    ),
+    getMessageSeq: db.prepare(
+      'SELECT seq FROM messages WHERE session_id = ? AND recipient = ? AND message_id = ?'
+    ),
+    deleteMessagesUpTo: db.prepare(
+      'DELETE FROM messages WHERE session_id = ? AND recipient = ? AND seq <= ?'
+    ),
+    deleteAllMessages: db.prepare('DELETE FROM messages WHERE session_id = ?'),
+    deleteRecipientMessages: db.prepare(
+      'DELETE FROM messages WHERE session_id = ? AND recipient = ?'
+    ),
+    deleteExpiredMessages: db.prepare('DELETE FROM messages WHERE ttl <= ?'),
+  };
+
+  const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+  return {
+    async saveConnection(connection: Connection) {
+      statements.saveConnection.run(connection);
+    },
+
+    async getConnection(connectionId) {
+      const row = statements.getConnection.get(connectionId) as ConnectionRow | undefined;
+      if (!row) return null;
+      return {
+        connectionId: row.connection_id,
+        sessionId: row.session_id,
+        clientType: row.client_type,
+        publicKey: row.public_key,
+        connectedAt: row.connected_at,
+      };
+    },
+
+    async deleteConnection(connectionId) {
+      statements.deleteConnection.run(connectionId);
+    },
+
+    async createSession(sessionId) {
+      const now = Date.now();
+      const session: Session = {
+        sessionId,
+        createdAt: now,
+        expiresAt: now + SESSION_TTL_MS,
+      };
+      statements.createSession.run(session);
+      return session;
+    },
+
+    async getSession(sessionId) {
+      const row = statements.getSession.get(sessionId) as SessionRow | undefined;
+      if (!row) return null;
+      if (row.expires_at <= Date.now()) {
+        statements.deleteSession.run(sessionId);
+        statements.deleteAllMessages.run(sessionId);
+        return null;
+      }
+      return toSession(row);
+    },
+
+    async updateSessionClient(sessionId, clientType, connectionId, publicKey) {
+      const statement = clientType === 'desktop' ? statements.setDesktop : statements.setMobile;
+      statement.run(connectionId, publicKey, sessionId);
+    },
+
+    async clearSessionClient(sessionId, clientType) {
+      const statement = clientType === 'desktop' ? statements.setDesktop : statements.setMobile;
+      statement.run(null, null, sessionId);
+    },
+
+    async queueMessage(sessionId, recipient, envelope: MessageEnvelope) {
+      statements.deleteExpiredMessages.run(nowSeconds());
+      statements.queueMessage.run({
+        sessionId,
+        messageId: envelope.messageId,
+        recipient,
+        envelope: JSON.stringify(envelope),
+        queuedAt: Date.now(),
+        ttl: nowSeconds() + MESSAGE_TTL_SECONDS,
+      });
+    },
+
+    async getQueuedMessages(sessionId, recipient) {
+      const rows = statements.getQueuedMessages.all(
+        sessionId,
+        recipient,
+        nowSeconds()
+      ) as MessageRow[];
+      return rows.map(toQueuedMessage);
+    },
+
+    async deleteQueuedMessages(sessionId, recipient, upToMessageId) {
+      const row = statements.getMessageSeq.get(sessionId, recipient, upToMessageId) as
+        | Pick<MessageRow, 'seq'>
+        | undefined;
+      if (!row) return;
+
+      // Delete this recipient's messages up to and including the acked one
+      statements.deleteMessagesUpTo.run(sessionId, recipient, row.seq);
+    },
+
+    async clearQueuedMessages(sessionId, recipient) {
+      statements.deleteRecipientMessages.run(sessionId, recipient);
+    },
+  };
+}
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MessageEnvelope } from '@doomcode/protocol';
+import { createMemoryStorage } from './memory.js';
+import { createSqliteStorage } from './sqlite.js';
+import { MESSAGE_TTL_SECONDS, SESSION_TTL_MS, type RelayStorage } from './types.js';
+
+const envelope = (messageId: string): MessageEnvelope => ({
+  version: 1,
+  sessionId: 'session-1',
+  messageId,
+  timestamp: 0,
+  sender: 'desktop',
+  nonce: 'nonce',
+  encryptedPayload: `payload ${messageId}`,
+});
+
+const ids = (messages: { messageId: string }[]) => messages.map((m) => m.messageId);
+
+// Every backend must behave the same; DynamoDB needs AWS and is not covered here
+describe.each([
+  ['memory', () => createMemoryStorage()],
+  ['sqlite', () => createSqliteStorage(':memory:')],
+])('%s storage', (_name, createStorage: () => RelayStorage) => {
+  let storage: RelayStorage;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(1_700_000_000_000);
+    storage = createStorage();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('connections', () => {
+    it('saves, reads and deletes a connection', async () => {
+      const connection = {
+        connectionId: 'conn-1',
+        sessionId: 'session-1',
+        clientType: 'mobile' as const,
+        publicKey: 'key',
+        connectedAt: 123,
+      };
+
+      await storage.saveConnection(connection);
+      expect(await storage.getConnection('conn-1')).toEqual(connection);
+
+      await storage.deleteConnection('conn-1');
+      expect(await storage.getConnection('conn-1')).toBeNull();
+    });
+
+    it('returns null for an unknown connection', async () => {
+      expect(await storage.getConnection('missing')).toBeNull();
+    });
+  });
+
+  describe('sessions', () => {
+    it('creates a session that expires after the session TTL', async () => {
+      const created = await storage.createSession('session-1');
+      expect(created).toEqual({
+        sessionId: 'session-1',
+        createdAt: Date.now(),
+        expiresAt: Date.now() + SESSION_TTL_MS,
+      });
+      expect(await storage.getSession('session-1')).toEqual(created);
+
+      vi.setSystemTime(Date.now() + SESSION_TTL_MS);
+      expect(await storage.getSession('session-1')).toBeNull();
+    });
+
+    it('returns null for an unknown session', async () => {
+      expect(await storage.getSession('missing')).toBeNull();
+    });
+
+    it('sets and clears each client independently', async () => {
+      await storage.createSession('session-1');
+      await storage.updateSessionClient('session-1', 'desktop', 'conn-d', 'key-d');
+      await storage.updateSessionClient('session-1', 'mobile', 'conn-m', 'key-m');
+      expect(await storage.getSession('session-1')).toMatchObject({
+        desktopConnectionId: 'conn-d',
+        desktopPublicKey: 'key-d',
+        mobileConnectionId: 'conn-m',
+        mobilePublicKey: 'key-m',
+      });
+
+      await storage.clearSessionClient('session-1', 'desktop');
+      const session = await storage.getSession('session-1');
+      expect(session?.desktopConnectionId).toBeUndefined();
+      expect(session?.desktopPublicKey).toBeUndefined();
+      expect(session?.mobileConnectionId).toBe('conn-m');
+    });
+  });
+
+  describe('message queue', () => {
+    beforeEach(async () => {
+      await storage.createSession('session-1');
+    });
+
+    it('keeps one queue per recipient, oldest first', async () => {
+      await storage.queueMessage('session-1', 'mobile', envelope('m1'));
+      await storage.queueMessage('session-1', 'desktop', envelope('d1'));
+      await storage.queueMessage('session-1', 'mobile', envelope('m2'));
+
+      const queued = await storage.getQueuedMessages('session-1', 'mobile');
+      expect(ids(queued)).toEqual(['m1', 'm2']);
+      expect(queued[0]).toEqual({
+        sessionId: 'session-1',
+        messageId: 'm1',
+        recipient: 'mobile',
+        envelope: envelope('m1'),
+        queuedAt: Date.now(),
+        ttl: Math.floor(Date.now() / 1000) + MESSAGE_TTL_SECONDS,
+      });
+      expect(ids(await storage.getQueuedMessages('session-1', 'desktop'))).toEqual(['d1']);
+      expect(await storage.getQueuedMessages('other-session', 'mobile')).toEqual([]);
+    });
+
+    it("deletes a recipient's messages up to and including the acked one", async () => {
+      for (const id of ['m1', 'm2', 'm3']) {
+        await storage.queueMessage('session-1', 'mobile', envelope(id));
+      }
+      await storage.queueMessage('session-1', 'desktop', envelope('d1'));
+
+      await storage.deleteQueuedMessages('session-1', 'mobile', 'm2');
+      expect(ids(await storage.getQueuedMessages('session-1', 'mobile'))).toEqual(['m3']);
+      expect(ids(await storage.getQueuedMessages('session-1', 'desktop'))).toEqual(['d1']);
+    });
+
+    it('ignores an ack for a message not queued for that recipient', async () => {
+      await storage.queueMessage('session-1', 'mobile', envelope('m1'));
+      await storage.queueMessage('session-1', 'desktop', envelope('d1'));
+
+      await storage.deleteQueuedMessages('session-1', 'mobile', 'd1');
+      await storage.deleteQueuedMessages('session-1', 'mobile', 'unknown');
+      expect(ids(await storage.getQueuedMessages('session-1', 'mobile'))).toEqual(['m1']);
+      expect(ids(await storage.getQueuedMessages('session-1', 'desktop'))).toEqual(['d1']);
+    });
+
+    it("clears only one recipient's queue", async () => {
+      await storage.queueMessage('session-1', 'mobile', envelope('m1'));
+      await storage.queueMessage('session-1', 'desktop', envelope('d1'));
+
+      await storage.clearQueuedMessages('session-1', 'mobile');
+      expect(await storage.getQueuedMessages('session-1', 'mobile')).toEqual([]);
+      expect(ids(await storage.getQueuedMessages('session-1', 'desktop'))).toEqual(['d1']);
+    });
+
+    it('drops messages older than the message TTL', async () => {
+      await storage.queueMessage('session-1', 'mobile', envelope('old'));
+      vi.setSystemTime(Date.now() + MESSAGE_TTL_SECONDS * 1000);
+      await storage.queueMessage('session-1', 'mobile', envelope('new'));
+
+      expect(ids(await storage.getQueuedMessages('session-1', 'mobile'))).toEqual(['new']);
+    });
+  });
+});
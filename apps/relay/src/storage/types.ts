@@ -0,0 +1,73 @@
+/**
+ * Storage interface for relay connection, session and message queue state.
+ * Implemented by DynamoDB (Lambda deployment), SQLite and in-memory backends.
+ */
+
+import type { MessageEnvelope } from '@doomcode/protocol';
+
+export interface Connection {
+  connectionId: string;
+  sessionId: string;
+  clientType: 'desktop' | 'mobile';
+  publicKey: string;
+  connectedAt: number;
+}
+
+export interface Session {
+  sessionId: string;
+  desktopConnectionId?: string;
+  desktopPublicKey?: string;
+  mobileConnectionId?: string;
+  mobilePublicKey?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface QueuedMessage {
+  sessionId: string;
+  messageId: string;
+  /** Client the message is waiting for */
+  recipient: 'desktop' | 'mobile';
+  envelope: MessageEnvelope;
+  queuedAt: number;
+  ttl: number;
+}
+
+/** Sessions expire 24 hours after creation. */
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Queued messages expire 24 hours after being queued. */
+export const MESSAGE_TTL_SECONDS = 24 * 60 * 60;
+
+export interface RelayStorage {
+  // Connections
+  saveConnection(connection: Connection): Promise<void>;
+  getConnection(connectionId: string): Promise<Connection | null>;
+  deleteConnection(connectionId: string): Promise<void>;
+
+  // Sessions
+  createSession(sessionId: string): Promise<Session>;
+  getSession(sessionId: string): Promise<Session | null>;
+  updateSessionClient(
+    sessionId: string,
+    clientType: 'desktop' | 'mobile',
+    connectionId: string,
+    publicKey: string
+  ): Promise<void>;
+  clearSessionClient(sessionId: string, clientType: 'desktop' | 'mobile'): Promise<void>;
+
+  // Message queue (for offline support), one queue per recipient, oldest first
+  queueMessage(
+    sessionId: string,
+    recipient: 'desktop' | 'mobile',
+    envelope: MessageEnvelope
+  ): Promise<void>;
+  getQueuedMessages(sessionId: string, recipient: 'desktop' | 'mobile'): Promise<QueuedMessage[]>;
+  deleteQueuedMessages(
+    sessionId: string,
+    recipient: 'desktop' | 'mobile',
+    upToMessageId: string
+  ): Promise<void>;
+  /** Drops one recipient's queue for a session. */
+  clearQueuedMessages(sessionId: string, recipient: 'desktop' | 'mobile'): Promise<void>;
+}
@@ -2,6 +2,8 @@
  * ANSI color definitions for terminal rendering.
  */
 
+import type { AnsiColor } from './parse.js';
+
 export interface ColorPalette {
   black: string;
   red: string;
@@ -43,6 +45,53 @@ export const ANSI_COLORS: ColorPalette = {
   brightWhite: '#ffffff',
 };
 
+/**
+ * The 16 named colors in palette index order (0-15).
+ */
+export const PALETTE_ORDER: (keyof ColorPalette)[] = [
+  'black',
+  'red',
+  'green',
+  'yellow',
+  'blue',
+  'magenta',
+  'cyan',
+  'white',
+  'brightBlack',
+  'brightRed',
+  'brightGreen',
+  'brightYellow',
+  'brightBlue',
+  'brightMagenta',
+  'brightCyan',
+  'brightWhite',
+];
+
+// Channel values of the 6x6x6 color cube at palette indexes 16-231
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/**
+ * The CSS color for a style color, or null for the default color. Indexes
+ * 16-255 follow xterm's 256-color palette.
+ */
+export function resolveColor(color: AnsiColor, palette: ColorPalette = ANSI_COLORS): string | null {
+  if (color === null) return null;
+  if (typeof color === 'string') {
+    return color.startsWith('#') ? color : palette[color as keyof ColorPalette];
+  }
+  if (color < 16) return palette[PALETTE_ORDER[color]];
+
+  let rgb: number[];
+  if (color < 232) {
+    const cube = color - 16;
+    rgb = [Math.floor(cube / 36), Math.floor(cube / 6) % 6, cube % 6].map((n) => CUBE_LEVELS[n]);
+  } else {
+    const gray = 8 + (color - 232) * 10;
+    rgb = [gray, gray, gray];
+  }
+  return `#${rgb.map((value) => value.toString(16).padStart(2, '0')).join('')}`;
+}
+
 /**
  * Map SGR color codes to color names.
  */
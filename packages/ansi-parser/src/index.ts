@@ -1,3 +1,12 @@
 export { parseAnsi, type AnsiSpan, type AnsiStyle, type AnsiColor } from './parse.js';
-export { ANSI_COLORS, type ColorPalette } from './colors.js';
+export { ANSI_COLORS, resolveColor, type ColorPalette } from './colors.js';
 export { stripAnsi } from './strip.js';
+export { createAnsiStream, type AnsiStream, type AnsiStreamOptions } from './stream.js';
+export {
+  createTerminal,
+  type TerminalCursor,
+  type TerminalLine,
+  type TerminalOptions,
+  type TerminalSnapshot,
+  type VirtualTerminal,
+} from './terminal.js';
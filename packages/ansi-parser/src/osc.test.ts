@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { parseAnsi } from './parse.js';
+import { parseOsc } from './osc.js';
+
+describe('parseOsc', () => {
+  it('reads window titles', () => {
+    expect(parseOsc('0;build: ok')).toEqual({ type: 'title', title: 'build: ok' });
+    expect(parseOsc('2;')).toEqual({ type: 'title', title: '' });
+  });
+
+  it('reads the start and end of OSC 8 hyperlinks', () => {
+    expect(parseOsc('8;;https://example.com/a;b')).toEqual({
+      type: 'link',
+      uri: 'https://example.com/a;b',
+    });
+    expect(parseOsc('8;id=42;file:///tmp/x')).toEqual({ type: 'link', uri: 'file:///tmp/x' });
+    expect(parseOsc('8;;')).toEqual({ type: 'link', uri: null });
+    expect(parseOsc('8;')).toEqual({ type: 'link', uri: null });
+  });
+
+  it('ignores other commands', () => {
+    expect(parseOsc('10;?')).toBeNull();
+    expect(parseOsc('52;c;aGVsbG8=')).toBeNull();
+    expect(parseOsc('0')).toBeNull();
+  });
+});
+
+describe('hyperlinks in parseAnsi', () => {
+  it('links the text between the start and end sequences', () => {
+    const spans = parseAnsi(
+      'see \x1b]8;;https://example.com\x1b\\\x1b[4mdocs\x1b[24m\x1b]8;;\x1b\\ here'
+    );
+    expect(spans.map(({ text, link }) => ({ text, link }))).toEqual([
+      { text: 'see ', link: undefined },
+      { text: 'docs', link: 'https://example.com' },
+      { text: ' here', link: undefined },
+    ]);
+    expect(spans[1].style.underline).toBe(true);
+  });
+
+  it('ends with BEL as well as ST', () => {
+    const spans = parseAnsi('\x1b]8;;https://a.dev\x07a\x1b]8;;\x07b');
+    expect(spans.map(({ text, link }) => [text, link])).toEqual([
+      ['a', 'https://a.dev'],
+      ['b', undefined],
+    ]);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * OSC (Operating System Command) strings that carry information for the UI.
+ */
+
+export type OscCommand =
+  | { type: 'title'; title: string }
+  /** Start of an OSC 8 hyperlink, or its end when `uri` is null */
+  | { type: 'link'; uri: string | null };
+
+/**
+ * Interpret the data of an OSC sequence (between `ESC]` and BEL/ST). Returns
+ * null for commands that don't matter here, such as color queries.
+ */
+export function parseOsc(data: string): OscCommand | null {
+  const separator = data.indexOf(';');
+  if (separator === -1) return null;
+  const command = data.slice(0, separator);
+  const rest = data.slice(separator + 1);
+
+  switch (command) {
+    case '0': // Icon name and window title
+    case '2': // Window title
+      return { type: 'title', title: rest };
+    case '8': {
+      // `8;params;uri`; the params (such as `id=...`) aren't needed
+      const uri = rest.slice(rest.indexOf(';') + 1);
+      return { type: 'link', uri: rest.includes(';') && uri ? uri : null };
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { parseAnsi } from './parse.js';
+import { createAnsiStream } from './stream.js';
+import { stripAnsi } from './strip.js';
+
+const texts = (spans: { text: string }[]) => spans.map((span) => span.text);
+
+describe('createAnsiStream', () => {
+  it('holds back a sequence split across chunks until it is complete', () => {
+    const stream = createAnsiStream();
+
+    expect(texts(stream.push('plain \x1b[3'))).toEqual(['plain ']);
+    const [red] = stream.push('1mred');
+    expect(red).toMatchObject({ text: 'red', style: { color: 'red' } });
+  });
+
+  it('gives the same spans however the input is split', () => {
+    const input = 'a\x1b[1;32mb\x1b]8;;https://x.dev\x07c\x1b]8;;\x1b\\d\x1b[0me';
+    const whole = parseAnsi(input);
+
+    for (let split = 1; split < input.length; split++) {
+      const stream = createAnsiStream();
+      const spans = [...stream.push(input.slice(0, split)), ...stream.end(input.slice(split))];
+      expect(
+        spans.map((s) => [s.text, s.style, s.link]),
+        `split at ${split}`
+      ).toEqual(whole.map((s) => [s.text, s.style, s.link]));
+    }
+  });
+
+  it('carries the style from chunk to chunk', () => {
+    const stream = createAnsiStream();
+    stream.push('\x1b[4m');
+    expect(stream.push('underlined')[0].style.underline).toBe(true);
+  });
+
+  it('drops escape sequences other than SGR and OSC 8', () => {
+    expect(stripAnsi('a\x1b[2Kb\x1b[?25lc\x1bPq#0\x1b\\d\x1b7e')).toBe('abcde');
+  });
+
+  it('keeps the text after an ESC that starts no valid sequence', () => {
+    expect(stripAnsi('a\x1b\x01b')).toBe('a\x01b');
+  });
+
+  it('gives up on an unfinished sequence that grows too long', () => {
+    const stream = createAnsiStream();
+    stream.push('\x1b]0;' + 'x'.repeat(5000));
+    expect(texts(stream.push('after'))).toEqual(['after']);
+  });
+
+  it('forgets the style and any unfinished sequence on reset', () => {
+    const stream = createAnsiStream();
+    stream.push('\x1b[1mbold\x1b[3');
+    stream.reset();
+    expect(stream.push('1mplain')).toEqual(parseAnsi('1mplain'));
+  });
+
+  describe('end', () => {
+    it('returns a sequence still unfinished at the end as text', () => {
+      const stream = createAnsiStream();
+      expect(stream.push('done\x1b[3')).toHaveLength(1);
+      expect(texts(stream.end())).toEqual(['[3']);
+      expect(stream.end()).toEqual([]);
+    });
+
+    it('parses the last chunk and merges it with what was held back', () => {
+      const stream = createAnsiStream();
+      stream.push('\x1b[31mred\x1b]0;half');
+      expect(stream.end(' a title')).toEqual([
+        { text: ']0;half a title', style: expect.objectContaining({ color: 'red' }) },
+      ]);
+    });
+
+    it('is used by parseAnsi and stripAnsi for trailing incomplete sequences', () => {
+      expect(texts(parseAnsi('text\x1b['))).toEqual(['text[']);
+      expect(stripAnsi('50%\x1b[1')).toBe('50%[1');
+      expect(stripAnsi('\x1b')).toBe('');
+    });
+  });
+});
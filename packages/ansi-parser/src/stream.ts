@@ -0,0 +1,121 @@
+/**
+ * Incremental ANSI parser for output that arrives in chunks.
+ *
+ * PTY output is split at arbitrary points, so an escape sequence can start in
+ * one chunk and end in the next. The stream holds back an unfinished sequence
+ * until it is complete, or the output ends, and carries the current style
+ * from chunk to chunk.
+ * SGR sequences set the style and OSC 8 sequences the hyperlink; titles are
+ * reported through `onTitle`. Every other escape sequence is dropped.
+ */
+
+import type { AnsiSpan, AnsiStyle } from './parse.js';
+import { parseOsc } from './osc.js';
+import { applySGR, DEFAULT_STYLE, sameStyle } from './style.js';
+
+export interface AnsiStream {
+  /** Parse the next chunk, returning the spans it completes */
+  push(chunk: string): AnsiSpan[];
+  /**
+   * Parse the last chunk, if any. A sequence still unfinished at the end of
+   * the output is not one, so it comes back as text.
+   */
+  end(chunk?: string): AnsiSpan[];
+  /** Forget any unfinished sequence and go back to the default style */
+  reset(): void;
+}
+
+export interface AnsiStreamOptions {
+  /** Called when the program sets the window title (OSC 0 or 2) */
+  onTitle?: (title: string) => void;
+}
+
+// A complete escape sequence: CSI (group 1: parameters, group 2: final byte),
+// OSC (group 3: data) ended by BEL or ST, a DCS/SOS/PM/APC string ended by ST,
+// or a short escape
+const COMPLETE =
+  /\x1b(?:\[([\x30-\x3f]*)[\x20-\x2f]*([\x40-\x7e])|\]([^\x07\x1b]*)(?:\x07|\x1b\\)|[PX^_][^\x1b]*\x1b\\|[\x20-\x2f]*[\x30-\x4f\x51-\x57\x59-\x5a\x5c\x60-\x7e])/y;
+
+// The start of a sequence that runs to the end of the text
+const UNFINISHED =
+  /\x1b(?:\[[\x30-\x3f]*[\x20-\x2f]*|\][^\x07\x1b]*\x1b?|[PX^_][^\x1b]*\x1b?|[\x20-\x2f]*)$/y;
+
+/** An unfinished sequence longer than this is not a real one and is dropped */
+const MAX_PENDING_LENGTH = 4096;
+
+/**
+ * Create a parser that keeps its state between chunks.
+ */
+export function createAnsiStream(options: AnsiStreamOptions = {}): AnsiStream {
+  let style: AnsiStyle = DEFAULT_STYLE;
+  let link: string | undefined;
+  let pending = '';
+
+  const parse = (text: string, atEnd: boolean): AnsiSpan[] => {
+    const spans: AnsiSpan[] = [];
+    const addText = (content: string) => {
+      if (!content) return;
+      const last = spans[spans.length - 1];
+      if (last && last.link === link && sameStyle(last.style, style)) {
+        last.text += content;
+      } else {
+        const span: AnsiSpan = { text: content, style: { ...style } };
+        if (link) span.link = link;
+        spans.push(span);
+      }
+    };
+
+    let position = 0;
+    let escape = text.indexOf('\x1b');
+    while (escape !== -1) {
+      addText(text.slice(position, escape));
+
+      COMPLETE.lastIndex = escape;
+      const match = COMPLETE.exec(text);
+      if (match) {
+        const [sequence, params, final, osc] = match;
+        if (final === 'm' && !/^[<=>?]/.test(params)) {
+          style = applySGR(style, params);
+        } else if (osc !== undefined) {
+          const command = parseOsc(osc);
+          if (command?.type === 'link') link = command.uri ?? undefined;
+          if (command?.type === 'title') options.onTitle?.(command.title);
+        }
+        position = escape + sequence.length;
+      } else {
+        UNFINISHED.lastIndex = escape;
+        if (!atEnd && UNFINISHED.test(text)) {
+          if (text.length - escape <= MAX_PENDING_LENGTH) pending = text.slice(escape);
+          return spans;
+        }
+        // Not a valid sequence: drop the ESC and keep what follows as text
+        position = escape + 1;
+      }
+
+      escape = text.indexOf('\x1b', position);
+    }
+
+    addText(text.slice(position));
+    return spans;
+  };
+
+  return {
+    push(chunk) {
+      const text = pending + chunk;
+      pending = '';
+      return parse(text, false);
+    },
+
+    end(chunk = '') {
+      const text = pending + chunk;
+      pending = '';
+      return parse(text, true);
+    },
+
+    reset() {
+      style = DEFAULT_STYLE;
+      link = undefined;
+      pending = '';
+    },
+  };
+}
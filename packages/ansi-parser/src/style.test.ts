@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { ANSI_COLORS, resolveColor } from './colors.js';
+import { applySGR, DEFAULT_STYLE } from './style.js';
+
+const sgr = (params: string, style = DEFAULT_STYLE) => applySGR(style, params);
+
+describe('applySGR', () => {
+  it('sets and clears attributes', () => {
+    const styled = sgr('1;3;4;9;31;44');
+    expect(styled).toEqual({
+      color: 'red',
+      bgColor: 'blue',
+      bold: true,
+      italic: true,
+      underline: true,
+      strikethrough: true,
+      dim: false,
+    });
+    expect(sgr('22;23;24;29;39;49', styled)).toEqual(DEFAULT_STYLE);
+    expect(sgr('', styled)).toEqual(DEFAULT_STYLE);
+    expect(sgr('0;1', styled)).toEqual({ ...DEFAULT_STYLE, bold: true });
+  });
+
+  it('reads bright colors', () => {
+    expect(sgr('92;103')).toMatchObject({ color: 'brightGreen', bgColor: 'brightYellow' });
+  });
+
+  describe('256 colors', () => {
+    it('names the first 16 and keeps the index of the rest', () => {
+      expect(sgr('38;5;1').color).toBe('red');
+      expect(sgr('38;5;9').color).toBe('brightRed');
+      expect(sgr('38;5;196;48;5;240')).toMatchObject({ color: 196, bgColor: 240 });
+    });
+
+    it('reads the colon form', () => {
+      expect(sgr('38:5:208;1')).toMatchObject({ color: 208, bold: true });
+    });
+
+    it('ignores an out of range index and goes on with the next parameter', () => {
+      expect(sgr('38;5;300;1')).toMatchObject({ color: null, bold: true });
+    });
+  });
+
+  describe('truecolor', () => {
+    it('reads semicolon-separated components', () => {
+      expect(sgr('38;2;255;128;0;48;2;0;0;16')).toMatchObject({
+        color: '#ff8000',
+        bgColor: '#000010',
+      });
+    });
+
+    it('reads the colon form with and without a color space ID', () => {
+      expect(sgr('38:2::1:2:3').color).toBe('#010203');
+      expect(sgr('38:2:1:2:3').color).toBe('#010203');
+    });
+
+    it('clamps components to 255', () => {
+      expect(sgr('38;2;300;0;0').color).toBe('#ff0000');
+    });
+
+    it('skips the arguments of a short color and of underline colors', () => {
+      expect(sgr('58;2;1;2;3;4')).toMatchObject({ color: null, underline: true });
+      expect(sgr('58:5:10;3')).toMatchObject({ italic: true, color: null });
+      expect(sgr('38;2;1;2')).toMatchObject({ color: null });
+    });
+  });
+});
+
+describe('resolveColor', () => {
+  it('resolves names, palette indexes and RGB colors', () => {
+    expect(resolveColor(null)).toBeNull();
+    expect(resolveColor('red')).toBe('#e74c3c');
+    expect(resolveColor(1)).toBe('#e74c3c');
+    expect(resolveColor('#123456')).toBe('#123456');
+  });
+
+  it('follows the xterm color cube and grayscale ramp', () => {
+    expect(resolveColor(16)).toBe('#000000');
+    expect(resolveColor(196)).toBe('#ff0000');
+    expect(resolveColor(110)).toBe('#87afd7');
+    expect(resolveColor(231)).toBe('#ffffff');
+    expect(resolveColor(232)).toBe('#080808');
+    expect(resolveColor(255)).toBe('#eeeeee');
+  });
+
+  it('uses the given palette for named colors', () => {
+    expect(resolveColor('blue', { ...ANSI_COLORS, blue: '#0000ff' })).toBe('#0000ff');
+  });
+});
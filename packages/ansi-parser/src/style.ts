@@ -0,0 +1,149 @@
+/**
+ * Text styles and how SGR sequences change them.
+ */
+
+import { SGR_COLORS, SGR_BG_COLORS, PALETTE_ORDER } from './colors.js';
+import type { AnsiColor, AnsiStyle } from './parse.js';
+
+export const DEFAULT_STYLE: AnsiStyle = {
+  color: null,
+  bgColor: null,
+  bold: false,
+  italic: false,
+  underline: false,
+  strikethrough: false,
+  dim: false,
+};
+
+/**
+ * Whether two styles render the same.
+ */
+export function sameStyle(a: AnsiStyle, b: AnsiStyle): boolean {
+  if (a === b) return true;
+  return (Object.keys(a) as (keyof AnsiStyle)[]).every((key) => a[key] === b[key]);
+}
+
+/**
+ * Apply SGR (Select Graphic Rendition) parameters to a style. `params` is
+ * the text between `ESC[` and `m`: parameters separated by `;`, each with
+ * optional `:`-separated parts (as in `38:2::255:0:0`).
+ */
+export function applySGR(style: AnsiStyle, params: string): AnsiStyle {
+  let newStyle = { ...style };
+  const groups = (params || '0')
+    .split(';')
+    .map((group) => group.split(':').map((n) => parseInt(n, 10) || 0));
+
+  for (let i = 0; i < groups.length; i++) {
+    const [code, ...parts] = groups[i];
+
+    switch (code) {
+      case 0: // Reset
+        newStyle = { ...DEFAULT_STYLE };
+        break;
+
+      case 1: // Bold
+        newStyle.bold = true;
+        break;
+
+      case 2: // Dim
+        newStyle.dim = true;
+        break;
+
+      case 3: // Italic
+        newStyle.italic = true;
+        break;
+
+      case 4: // Underline
+        newStyle.underline = true;
+        break;
+
+      case 9: // Strikethrough
+        newStyle.strikethrough = true;
+        break;
+
+      case 22: // Normal intensity (not bold, not dim)
+        newStyle.bold = false;
+        newStyle.dim = false;
+        break;
+
+      case 23: // Not italic
+        newStyle.italic = false;
+        break;
+
+      case 24: // Not underlined
+        newStyle.underline = false;
+        break;
+
+      case 29: // Not strikethrough
+        newStyle.strikethrough = false;
+        break;
+
+      case 39: // Default foreground color
+        newStyle.color = null;
+        break;
+
+      case 49: // Default background color
+        newStyle.bgColor = null;
+        break;
+
+      case 38: // Extended foreground color
+      case 48: // Extended background color
+      case 58: {
+        // 58 (underline color) is only read so that its arguments are skipped.
+        // The arguments are either parts of this parameter or the parameters after it.
+        const separate = parts.length === 0;
+        const args = separate ? groups.slice(i + 1).map((group) => group[0]) : parts;
+        const { color, length } = readExtendedColor(args, separate);
+        if (separate) i += length;
+        if (color === undefined) break;
+        if (code === 38) newStyle.color = color;
+        if (code === 48) newStyle.bgColor = color;
+        break;
+      }
+
+      default:
+        // Foreground colors (30-37, 90-97)
+        if (code in SGR_COLORS) {
+          newStyle.color = SGR_COLORS[code];
+        }
+        // Background colors (40-47, 100-107)
+        else if (code in SGR_BG_COLORS) {
+          newStyle.bgColor = SGR_BG_COLORS[code];
+        }
+        break;
+    }
+  }
+
+  return newStyle;
+}
+
+/**
+ * Read a `5;n` (256-color) or `2;r;g;b` (RGB) color. `length` is how many
+ * arguments it used. In the `:` form an RGB color may carry a color space ID
+ * before its components (`2::r:g:b`).
+ */
+function readExtendedColor(
+  args: number[],
+  separate: boolean
+): { color: AnsiColor | undefined; length: number } {
+  switch (args[0]) {
+    case 5: {
+      const index = args[1];
+      if (index === undefined || index > 255) return { color: undefined, length: 2 };
+      return { color: index < 16 ? PALETTE_ORDER[index] : index, length: 2 };
+    }
+    case 2: {
+      const rgb = !separate && args.length >= 5 ? args.slice(2, 5) : args.slice(1, 4);
+      if (rgb.length < 3) return { color: undefined, length: 4 };
+      return { color: toHex(rgb), length: 4 };
+    }
+    default:
+      return { color: undefined, length: 1 };
+  }
+}
+
+function toHex(rgb: number[]): AnsiColor {
+  const hex = rgb.map((value) => Math.min(value, 255).toString(16).padStart(2, '0')).join('');
+  return `#${hex}`;
+}
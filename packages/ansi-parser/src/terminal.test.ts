@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest';
+import { createTerminal, type TerminalLine, type TerminalOptions } from './terminal.js';
+
+const text = (line: TerminalLine) => line.spans.map((span) => span.text).join('');
+
+/** A 10x4 terminal that has been written `data`, chunk by chunk */
+function run(data: string | string[], options: TerminalOptions = {}) {
+  const terminal = createTerminal({ cols: 10, rows: 4, ...options });
+  for (const chunk of Array.isArray(data) ? data : [data]) terminal.write(chunk);
+  return terminal;
+}
+
+const screen = (data: string | string[], options?: TerminalOptions) =>
+  run(data, options).snapshot().lines.map(text);
+
+describe('createTerminal', () => {
+  describe('split escape sequences', () => {
+    it('finishes a CSI sequence that arrives in pieces', () => {
+      const chunks = ['a\x1b', '[', '3', '1;', '1m', 'b'];
+      const [line] = run(chunks).snapshot().lines;
+
+      expect(text(line)).toBe('ab');
+      expect(line.spans[1].style).toMatchObject({ color: 'red', bold: true });
+    });
+
+    it('finishes a cursor movement split before its final byte', () => {
+      expect(screen(['abc\x1b[2', 'D', 'X'])).toEqual(['aXc', '', '', '']);
+    });
+
+    it('finishes an OSC title split before its ST', () => {
+      const titles: string[] = [];
+      const terminal = run(['\x1b]0;my ', 'title\x1b', '\\ok'], { onTitle: (t) => titles.push(t) });
+
+      expect(titles).toEqual(['my title']);
+      expect(terminal.snapshot().title).toBe('my title');
+      expect(text(terminal.snapshot().lines[0])).toBe('ok');
+    });
+
+    it('joins a surrogate pair split across writes', () => {
+      expect(screen(['a\ud83d', '\ude00b'])[0]).toBe('a😀b');
+    });
+  });
+
+  describe('wrapping', () => {
+    it('wraps at the last column and marks the line as wrapped', () => {
+      const terminal = run('abcdefghijklm');
+      const { lines, cursor } = terminal.snapshot();
+
+      expect(lines.slice(0, 2).map(text)).toEqual(['abcdefghij', 'klm']);
+      expect(lines.map((line) => line.wrapped)).toEqual([true, false, false, false]);
+      expect(cursor).toMatchObject({ row: 1, col: 3 });
+    });
+
+    it('waits for the next character before wrapping', () => {
+      const terminal = run('abcdefghij');
+      expect(terminal.snapshot().cursor).toMatchObject({ row: 0, col: 9 });
+
+      // A line that exactly fills the width is not followed by an empty line
+      terminal.write('\r\nnext');
+      expect(terminal.snapshot().lines.map(text)).toEqual(['abcdefghij', 'next', '', '']);
+      expect(terminal.snapshot().lines[0].wrapped).toBe(false);
+    });
+
+    it('overwrites the last column when autowrap is off', () => {
+      expect(screen('\x1b[?7labcdefghijklm')[0]).toBe('abcdefghim');
+    });
+
+    it('keeps wrapped lines in the scrollback', () => {
+      const { scrollback, lines } = run('1234567890abcdefghijABCDEFGHIJxyz', {
+        rows: 2,
+      }).snapshot();
+
+      expect(scrollback.map(text)).toEqual(['1234567890', 'abcdefghij']);
+      expect(scrollback.every((line) => line.wrapped)).toBe(true);
+      expect(lines.map(text)).toEqual(['ABCDEFGHIJ', 'xyz']);
+    });
+  });
+
+  describe('scrolling', () => {
+    it('moves lines off the top into a bounded scrollback', () => {
+      const { scrollback, lines } = run('1\r\n2\r\n3\r\n4\r\n5\r\n6', { scrollback: 1 }).snapshot();
+
+      expect(scrollback.map(text)).toEqual(['2']);
+      expect(lines.map(text)).toEqual(['3', '4', '5', '6']);
+    });
+
+    it('scrolls only inside the scroll region, without adding to the scrollback', () => {
+      const terminal = run('top\x1b[4;1Hbottom\x1b[2;3r\x1b[2;1Ha\r\nb\r\nc');
+
+      expect(terminal.snapshot().lines.map(text)).toEqual(['top', 'b', 'c', 'bottom']);
+      expect(terminal.snapshot().scrollback).toEqual([]);
+    });
+  });
+
+  describe('resize', () => {
+    it('cuts lines to the new width and pads them back with blanks', () => {
+      const terminal = run('abcdefgh');
+      terminal.resize(4, 4);
+      expect(terminal.snapshot().lines[0].spans.map((s) => s.text)).toEqual(['abcd']);
+
+      terminal.resize(10, 4);
+      expect(terminal.snapshot().lines[0].spans.map((s) => s.text)).toEqual(['abcd']);
+      expect(terminal.snapshot().cols).toBe(10);
+    });
+
+    it('keeps the cursor line on screen when the height shrinks', () => {
+      const terminal = run('1\r\n2\r\n3\r\n4');
+      terminal.resize(10, 2);
+
+      const { lines, scrollback, cursor } = terminal.snapshot();
+      expect(lines.map(text)).toEqual(['3', '4']);
+      expect(scrollback.map(text)).toEqual(['1', '2']);
+      expect(cursor).toMatchObject({ row: 1, col: 1 });
+    });
+
+    it('drops blank lines below the cursor first', () => {
+      const terminal = run('1\r\n2');
+      terminal.resize(10, 2);
+
+      expect(terminal.snapshot().lines.map(text)).toEqual(['1', '2']);
+      expect(terminal.snapshot().scrollback).toEqual([]);
+    });
+
+    it('moves the cursor inside the smaller screen', () => {
+      const terminal = run('\x1b[4;9H');
+      terminal.resize(5, 3);
+      expect(terminal.snapshot().cursor).toMatchObject({ row: 2, col: 4 });
+    });
+
+    it('resets the scroll region to the new height', () => {
+      const terminal = run('\x1b[2;3r');
+      terminal.resize(10, 3);
+      terminal.write('1\r\n2\r\n3\r\n4');
+      expect(terminal.snapshot().scrollback.map(text)).toEqual(['1']);
+    });
+  });
+
+  describe('alternate screen', () => {
+    it('switches to a blank screen and back, restoring the cursor with 1049', () => {
+      const terminal = run('shell$ ls');
+      terminal.write('\x1b[?1049h');
+
+      let snapshot = terminal.snapshot();
+      expect(snapshot.alternateScreen).toBe(true);
+      expect(snapshot.lines.map(text)).toEqual(['', '', '', '']);
+
+      terminal.write('\x1b[1;1Hvim');
+      expect(text(terminal.snapshot().lines[0])).toBe('vim');
+
+      terminal.write('\x1b[?1049l');
+      snapshot = terminal.snapshot();
+      expect(snapshot.alternateScreen).toBe(false);
+      expect(snapshot.lines.map(text)).toEqual(['shell$ ls', '', '', '']);
+      expect(snapshot.cursor).toMatchObject({ row: 0, col: 9 });
+    });
+
+    it('keeps lines scrolled on the alternate screen out of the scrollback', () => {
+      const terminal = run('\x1b[?1049h1\r\n2\r\n3\r\n4\r\n5\r\n6');
+      expect(terminal.snapshot().scrollback).toEqual([]);
+
+      terminal.write('\x1b[?1049l');
+      expect(terminal.snapshot().scrollback).toEqual([]);
+    });
+
+    it('starts a fresh alternate screen every time', () => {
+      const terminal = run('\x1b[?1049hfirst\x1b[?1049l\x1b[?1049h');
+      expect(terminal.snapshot().lines.map(text)).toEqual(['', '', '', '']);
+    });
+
+    it('resizes the main screen while the alternate one is shown', () => {
+      const terminal = run('abcdefgh\x1b[?1049h');
+      terminal.resize(4, 4);
+      terminal.write('\x1b[?1049l');
+      expect(text(terminal.snapshot().lines[0])).toBe('abcd');
+    });
+
+    it('switches screens without touching the cursor with 47', () => {
+      const terminal = run('abc\x1b[?47h');
+      expect(terminal.snapshot().cursor).toMatchObject({ row: 0, col: 3 });
+
+      terminal.write('\x1b[?47l');
+      expect(terminal.snapshot().lines.map(text)[0]).toBe('abc');
+    });
+  });
+
+  describe('erasing and editing', () => {
+    it('erases with the current background color', () => {
+      const [line] = run('abc\x1b[44m\x1b[1G\x1b[K').snapshot().lines;
+      expect(line.spans).toHaveLength(1);
+      expect(line.spans[0]).toMatchObject({ text: ' '.repeat(10), style: { bgColor: 'blue' } });
+    });
+
+    it('inserts and deletes characters', () => {
+      expect(screen('abcdef\x1b[1;3H\x1b[2@')[0]).toBe('ab  cdef');
+      expect(screen('abcdef\x1b[1;3H\x1b[2P')[0]).toBe('abef');
+    });
+
+    it('draws DEC line drawing characters', () => {
+      expect(screen('\x1b(0lqk\x1b(B lqk')[0]).toBe('┌─┐ lqk');
+    });
+  });
+});
@@ -0,0 +1,762 @@
+/**
+ * Headless VT100/xterm terminal emulator.
+ *
+ * Runs terminal output through an escape sequence state machine and keeps the
+ * screen it draws, plus the lines scrolled off the top. This covers what
+ * redrawing CLI programs use: cursor movement, erasing, scroll regions,
+ * inserting and deleting lines and characters, the alternate screen, SGR
+ * styles and OSC 8 hyperlinks. Every character is one column wide, and lines are not reflowed on
+ * resize.
+ */
+
+import type { AnsiSpan, AnsiStyle } from './parse.js';
+import { parseOsc } from './osc.js';
+import { applySGR, DEFAULT_STYLE, sameStyle } from './style.js';
+
+export interface TerminalOptions {
+  /** Screen width (default 80) */
+  cols?: number;
+  /** Screen height (default 24) */
+  rows?: number;
+  /** Lines kept after they scroll off the top of the main screen (default 1000) */
+  scrollback?: number;
+  /** Called when the program sets the window title (OSC 0 or 2) */
+  onTitle?: (title: string) => void;
+}
+
+export interface TerminalLine {
+  spans: AnsiSpan[];
+  /** The line was wrapped at the last column and continues on the next one */
+  wrapped: boolean;
+}
+
+export interface TerminalCursor {
+  row: number;
+  col: number;
+  visible: boolean;
+}
+
+export interface TerminalSnapshot {
+  cols: number;
+  rows: number;
+  cursor: TerminalCursor;
+  /** A full-screen program has switched to the alternate screen */
+  alternateScreen: boolean;
+  /** Screen rows, top to bottom, without trailing blanks */
+  lines: TerminalLine[];
+  /** Lines scrolled off the top of the main screen, oldest first */
+  scrollback: TerminalLine[];
+  /** Window title last set by the program */
+  title: string;
+}
+
+export interface VirtualTerminal {
+  /** Process program output. Escape sequences may be split across calls. */
+  write(data: string): void;
+  resize(cols: number, rows: number): void;
+  /** Reset the screen, cursor and modes, like `ESC c`. Scrollback is kept. */
+  reset(): void;
+  snapshot(): TerminalSnapshot;
+}
+
+/**
+ * Create a terminal with a blank screen.
+ */
+export function createTerminal(options: TerminalOptions = {}): VirtualTerminal {
+  return new Terminal(options);
+}
+
+const DEFAULT_COLS = 80;
+const DEFAULT_ROWS = 24;
+const DEFAULT_SCROLLBACK = 1000;
+const TAB_WIDTH = 8;
+
+/** Longer CSI sequences are malformed and dropped */
+const MAX_SEQUENCE_LENGTH = 64;
+/** OSC data past this length (a very long URL) is dropped */
+const MAX_OSC_LENGTH = 4096;
+
+// DEC special graphics, selected with `ESC ( 0` and used for box drawing
+const LINE_DRAWING: Record<string, string> = {
+  '`': '◆',
+  a: '▒',
+  f: '°',
+  g: '±',
+  j: '┘',
+  k: '┐',
+  l: '┌',
+  m: '└',
+  n: '┼',
+  o: '⎺',
+  q: '─',
+  s: '⎽',
+  t: '├',
+  u: '┤',
+  v: '┴',
+  w: '┬',
+  x: '│',
+  y: '≤',
+  z: '≥',
+  '{': 'π',
+  '|': '≠',
+  '}': '£',
+  '~': '·',
+};
+
+interface Cell {
+  char: string;
+  style: AnsiStyle;
+  link?: string;
+}
+
+interface Row {
+  cells: Cell[];
+  wrapped: boolean;
+}
+
+interface SavedCursor {
+  row: number;
+  col: number;
+  style: AnsiStyle;
+}
+
+type ParserState = 'ground' | 'escape' | 'charset' | 'csi' | 'osc' | 'string';
+
+const BLANK: Cell = { char: ' ', style: DEFAULT_STYLE };
+
+class Terminal implements VirtualTerminal {
+  private cols: number;
+  private rows: number;
+  private readonly maxScrollback: number;
+  private readonly onTitle?: (title: string) => void;
+
+  private main: Row[] = [];
+  /** Set while a program uses the alternate screen */
+  private alternate: Row[] | null = null;
+  private scrollback: TerminalLine[] = [];
+
+  private row = 0;
+  private col = 0;
+  /** A character was printed in the last column; the next one wraps first */
+  private wrapPending = false;
+  private style: AnsiStyle = DEFAULT_STYLE;
+  /** Target of the open OSC 8 hyperlink */
+  private link: string | undefined;
+  private title = '';
+  private cursorVisible = true;
+  private autowrap = true;
+  private scrollTop = 0;
+  private scrollBottom = 0;
+  private savedCursor: SavedCursor | null = null;
+  /** Cursor saved when entering the alternate screen with mode 1049 */
+  private mainCursor: SavedCursor | null = null;
+  /** G0 and G1 character sets: true for DEC line drawing */
+  private charsets: [boolean, boolean] = [false, false];
+  private shifted = false;
+
+  private state: ParserState = 'ground';
+  /** CSI parameters and intermediates, or OSC data, collected so far */
+  private sequence = '';
+  /** Which character set an `ESC (` / `ESC )` designates */
+  private charsetTarget = 0;
+  /** High surrogate left at the end of the last write */
+  private pendingSurrogate = '';
+
+  constructor(options: TerminalOptions) {
+    this.cols = Math.max(1, options.cols ?? DEFAULT_COLS);
+    this.rows = Math.max(1, options.rows ?? DEFAULT_ROWS);
+    this.maxScrollback = Math.max(0, options.scrollback ?? DEFAULT_SCROLLBACK);
+    this.onTitle = options.onTitle;
+    this.reset();
+  }
+
+  write(data: string): void {
+    data = this.pendingSurrogate + data;
+    this.pendingSurrogate = '';
+    const last = data.charCodeAt(data.length - 1);
+    if (last >= 0xd800 && last <= 0xdbff) {
+      this.pendingSurrogate = data.slice(-1);
+      data = data.slice(0, -1);
+    }
+
+    for (const char of data) {
+      this.process(char);
+    }
+  }
+
+  resize(cols: number, rows: number): void {
+    cols = Math.max(1, cols);
+    rows = Math.max(1, rows);
+
+    for (const screen of [this.main, this.alternate]) {
+      if (!screen) continue;
+      for (const row of screen) {
+        if (row.cells.length > cols) {
+          row.cells.length = cols;
+        } else {
+          while (row.cells.length < cols) row.cells.push(BLANK);
+        }
+      }
+
+      const active = screen === this.screen;
+      while (screen.length > rows) {
+        // Keep the cursor's line on screen by dropping lines above it
+        if (active && this.row >= rows) {
+          const [top] = screen.splice(0, 1);
+          if (screen === this.main) this.pushScrollback(top);
+          this.row--;
+        } else {
+          screen.pop();
+        }
+      }
+      while (screen.length < rows) screen.push(this.blankRow(cols));
+    }
+
+    this.cols = cols;
+    this.rows = rows;
+    this.scrollTop = 0;
+    this.scrollBottom = rows - 1;
+    this.moveTo(this.row, this.col);
+  }
+
+  reset(): void {
+    this.main = this.blankScreen();
+    this.alternate = null;
+    this.row = 0;
+    this.col = 0;
+    this.wrapPending = false;
+    this.style = DEFAULT_STYLE;
+    this.link = undefined;
+    this.cursorVisible = true;
+    this.autowrap = true;
+    this.scrollTop = 0;
+    this.scrollBottom = this.rows - 1;
+    this.savedCursor = null;
+    this.mainCursor = null;
+    this.charsets = [false, false];
+    this.shifted = false;
+    this.state = 'ground';
+    this.sequence = '';
+  }
+
+  snapshot(): TerminalSnapshot {
+    return {
+      cols: this.cols,
+      rows: this.rows,
+      cursor: { row: this.row, col: this.col, visible: this.cursorVisible },
+      alternateScreen: this.alternate !== null,
+      lines: this.screen.map(toLine),
+      scrollback: [...this.scrollback],
+      title: this.title,
+    };
+  }
+
+  private get screen(): Row[] {
+    return this.alternate ?? this.main;
+  }
+
+  // --- Parser ---
+
+  private process(char: string): void {
+    const code = char.charCodeAt(0);
+
+    if (code === 0x1b) {
+      // ESC starts the ST that ends a string, and aborts any other sequence
+      if (this.state === 'osc') this.dispatchOsc(this.sequence);
+      this.state = 'escape';
+      return;
+    }
+    if (code === 0x18 || code === 0x1a) {
+      // CAN and SUB cancel a sequence
+      this.state = 'ground';
+      return;
+    }
+
+    switch (this.state) {
+      case 'ground':
+        if (code < 0x20 || code === 0x7f) {
+          this.control(code);
+        } else if (code < 0x80 || code > 0x9f) {
+          this.print(char);
+        }
+        break;
+
+      case 'escape':
+        if (code < 0x20) {
+          this.control(code);
+        } else {
+          this.escape(char);
+        }
+        break;
+
+      case 'charset':
+        this.charsets[this.charsetTarget] = char === '0';
+        this.state = 'ground';
+        break;
+
+      case 'csi':
+        if (code < 0x20) {
+          // Controls inside a sequence are carried out as usual
+          this.control(code);
+        } else if (code >= 0x40 && code <= 0x7e) {
+          this.state = 'ground';
+          this.dispatchCsi(this.sequence, char);
+        } else if (this.sequence.length < MAX_SEQUENCE_LENGTH) {
+          this.sequence += char;
+        } else {
+          this.state = 'ground';
+        }
+        break;
+
+      case 'osc':
+        if (code === 0x07) {
+          this.state = 'ground';
+          this.dispatchOsc(this.sequence);
+        } else if (this.sequence.length < MAX_OSC_LENGTH) {
+          this.sequence += char;
+        }
+        break;
+
+      case 'string':
+        // DCS, SOS, PM and APC strings are ignored up to their ST
+        break;
+    }
+  }
+
+  private control(code: number): void {
+    switch (code) {
+      case 0x08: // BS
+        this.moveTo(this.row, this.col - 1);
+        break;
+      case 0x09: // HT
+        this.moveTo(this.row, (Math.floor(this.col / TAB_WIDTH) + 1) * TAB_WIDTH);
+        break;
+      case 0x0a: // LF
+      case 0x0b: // VT
+      case 0x0c: // FF
+        this.lineFeed();
+        break;
+      case 0x0d: // CR
+        this.moveTo(this.row, 0);
+        break;
+      case 0x0e: // SO: use G1
+        this.shifted = true;
+        break;
+      case 0x0f: // SI: use G0
+        this.shifted = false;
+        break;
+    }
+  }
+
+  private escape(char: string): void {
+    this.state = 'ground';
+    switch (char) {
+      case '[':
+        this.state = 'csi';
+        this.sequence = '';
+        break;
+      case ']':
+        this.state = 'osc';
+        this.sequence = '';
+        break;
+      case 'P':
+      case 'X':
+      case '^':
+      case '_':
+        this.state = 'string';
+        break;
+      case '(':
+      case ')':
+        this.state = 'charset';
+        this.charsetTarget = char === '(' ? 0 : 1;
+        break;
+      case '*':
+      case '+':
+        // G2 and G3 are never shifted in, but the designation still takes a character
+        this.state = 'charset';
+        this.charsetTarget = 1;
+        break;
+      case '7':
+        this.savedCursor = this.saveCursor();
+        break;
+      case '8':
+        this.restoreCursor(this.savedCursor);
+        break;
+      case 'D':
+        this.lineFeed();
+        break;
+      case 'E':
+        this.moveTo(this.row, 0);
+        this.lineFeed();
+        break;
+      case 'M':
+        this.reverseIndex();
+        break;
+      case 'c':
+        this.reset();
+        break;
+    }
+  }
+
+  private dispatchCsi(sequence: string, final: string): void {
+    const prefix = /^[<=>?]/.test(sequence) ? sequence[0] : '';
+    const intermediates = sequence.match(/[\x20-\x2f]+$/)?.[0] ?? '';
+    const body = sequence.slice(prefix.length, sequence.length - intermediates.length);
+    const params = body === '' ? [] : body.split(/[;:]/).map((p) => parseInt(p, 10) || 0);
+    // Counts and positions treat a missing or zero parameter as 1
+    const n = Math.max(1, params[0] ?? 1);
+
+    if (intermediates) return;
+    if (prefix === '?') {
+      if (final === 'h' || final === 'l') {
+        params.forEach((mode) => this.setPrivateMode(mode, final === 'h'));
+      }
+      return;
+    }
+    if (prefix) return;
+
+    switch (final) {
+      case 'A': // CUU
+        this.moveTo(
+          Math.max(this.row >= this.scrollTop ? this.scrollTop : 0, this.row - n),
+          this.col
+        );
+        break;
+      case 'B': // CUD
+      case 'e': // VPR
+        this.moveTo(
+          Math.min(this.row <= this.scrollBottom ? this.scrollBottom : this.rows - 1, this.row + n),
+          this.col
+        );
+        break;
+      case 'C': // CUF
+      case 'a': // HPR
+        this.moveTo(this.row, this.col + n);
+        break;
+      case 'D': // CUB
+        this.moveTo(this.row, this.col - n);
+        break;
+      case 'E': // CNL
+        this.moveTo(this.row + n, 0);
+        break;
+      case 'F': // CPL
+        this.moveTo(this.row - n, 0);
+        break;
+      case 'G': // CHA
+      case '`': // HPA
+        this.moveTo(this.row, n - 1);
+        break;
+      case 'H': // CUP
+      case 'f': // HVP
+        this.moveTo(n - 1, Math.max(1, params[1] ?? 1) - 1);
+        break;
+      case 'd': // VPA
+        this.moveTo(n - 1, this.col);
+        break;
+      case 'I': // CHT
+        for (let i = 0; i < Math.min(n, this.cols); i++) this.control(0x09);
+        break;
+      case 'J': // ED
+        this.eraseDisplay(params[0] ?? 0);
+        break;
+      case 'K': // EL
+        this.eraseLine(params[0] ?? 0);
+        break;
+      case 'L': // IL
+        this.insertLines(n);
+        break;
+      case 'M': // DL
+        this.deleteLines(n);
+        break;
+      case '@': // ICH
+        this.insertChars(n);
+        break;
+      case 'P': // DCH
+        this.deleteChars(n);
+        break;
+      case 'X': // ECH
+        this.fill(this.screen[this.row], this.col, this.col + n);
+        break;
+      case 'S': // SU
+        this.scrollUp(n);
+        break;
+      case 'T': // SD
+        this.scrollDown(n);
+        break;
+      case 'r': // DECSTBM
+        this.setScrollRegion(n - 1, (params[1] || this.rows) - 1);
+        break;
+      case 's': // SCOSC
+        this.savedCursor = this.saveCursor();
+        break;
+      case 'u': // SCORC
+        this.restoreCursor(this.savedCursor);
+        break;
+      case 'm': // SGR
+        this.style = applySGR(this.style, body);
+        break;
+    }
+  }
+
+  private dispatchOsc(data: string): void {
+    const command = parseOsc(data);
+    if (command?.type === 'link') {
+      this.link = command.uri ?? undefined;
+    } else if (command?.type === 'title') {
+      this.title = command.title;
+      this.onTitle?.(command.title);
+    }
+  }
+
+  private setPrivateMode(mode: number, on: boolean): void {
+    switch (mode) {
+      case 7: // DECAWM
+        this.autowrap = on;
+        break;
+      case 25: // DECTCEM
+        this.cursorVisible = on;
+        break;
+      case 47:
+      case 1047:
+        this.switchScreen(on);
+        break;
+      case 1049:
+        if (on && !this.alternate) this.mainCursor = this.saveCursor();
+        this.switchScreen(on);
+        if (!on) this.restoreCursor(this.mainCursor);
+        break;
+    }
+  }
+
+  // --- Screen operations ---
+
+  private print(char: string): void {
+    const lineDrawing = this.charsets[this.shifted ? 1 : 0];
+    if (lineDrawing) char = LINE_DRAWING[char] ?? char;
+
+    if (this.wrapPending) {
+      this.screen[this.row].wrapped = true;
+      this.col = 0;
+      this.lineFeed();
+    }
+
+    this.screen[this.row].cells[this.col] = this.link
+      ? { char, style: this.style, link: this.link }
+      : { char, style: this.style };
+    if (this.col < this.cols - 1) {
+      this.col++;
+    } else {
+      this.wrapPending = this.autowrap;
+    }
+  }
+
+  private moveTo(row: number, col: number): void {
+    this.row = clamp(row, 0, this.rows - 1);
+    this.col = clamp(col, 0, this.cols - 1);
+    this.wrapPending = false;
+  }
+
+  private lineFeed(): void {
+    this.wrapPending = false;
+    if (this.row === this.scrollBottom) {
+      this.scrollUp(1);
+    } else if (this.row < this.rows - 1) {
+      this.row++;
+    }
+  }
+
+  private reverseIndex(): void {
+    this.wrapPending = false;
+    if (this.row === this.scrollTop) {
+      this.scrollDown(1);
+    } else if (this.row > 0) {
+      this.row--;
+    }
+  }
+
+  /**
+   * Scroll the scroll region up. Lines leaving the top of the main screen go
+   * to the scrollback.
+   */
+  private scrollUp(count: number): void {
+    const screen = this.screen;
+    count = Math.min(count, this.scrollBottom - this.scrollTop + 1);
+    for (let i = 0; i < count; i++) {
+      const [removed] = screen.splice(this.scrollTop, 1);
+      screen.splice(this.scrollBottom, 0, this.blankRow());
+      if (screen === this.main && this.scrollTop === 0) this.pushScrollback(removed);
+    }
+  }
+
+  private scrollDown(count: number): void {
+    const screen = this.screen;
+    count = Math.min(count, this.scrollBottom - this.scrollTop + 1);
+    for (let i = 0; i < count; i++) {
+      screen.splice(this.scrollBottom, 1);
+      screen.splice(this.scrollTop, 0, this.blankRow());
+    }
+  }
+
+  private setScrollRegion(top: number, bottom: number): void {
+    bottom = Math.min(bottom, this.rows - 1);
+    if (top >= bottom) return;
+    this.scrollTop = top;
+    this.scrollBottom = bottom;
+    this.moveTo(0, 0);
+  }
+
+  private insertLines(count: number): void {
+    if (this.row < this.scrollTop || this.row > this.scrollBottom) return;
+    const screen = this.screen;
+    count = Math.min(count, this.scrollBottom - this.row + 1);
+    for (let i = 0; i < count; i++) {
+      screen.splice(this.scrollBottom, 1);
+      screen.splice(this.row, 0, this.blankRow());
+    }
+    this.moveTo(this.row, 0);
+  }
+
+  private deleteLines(count: number): void {
+    if (this.row < this.scrollTop || this.row > this.scrollBottom) return;
+    const screen = this.screen;
+    count = Math.min(count, this.scrollBottom - this.row + 1);
+    for (let i = 0; i < count; i++) {
+      screen.splice(this.row, 1);
+      screen.splice(this.scrollBottom, 0, this.blankRow());
+    }
+    this.moveTo(this.row, 0);
+  }
+
+  private insertChars(count: number): void {
+    const cells = this.screen[this.row].cells;
+    const blank = this.blankCell();
+    count = Math.min(count, this.cols - this.col);
+    cells.splice(this.col, 0, ...Array.from({ length: count }, () => blank));
+    cells.length = this.cols;
+    this.wrapPending = false;
+  }
+
+  private deleteChars(count: number): void {
+    const cells = this.screen[this.row].cells;
+    const blank = this.blankCell();
+    cells.splice(this.col, count);
+    while (cells.length < this.cols) cells.push(blank);
+    this.wrapPending = false;
+  }
+
+  private eraseDisplay(mode: number): void {
+    const screen = this.screen;
+    switch (mode) {
+      case 0: // Cursor to end
+        this.eraseLine(0);
+        for (let r = this.row + 1; r < this.rows; r++) screen[r] = this.blankRow();
+        break;
+      case 1: // Start to cursor
+        this.eraseLine(1);
+        for (let r = 0; r < this.row; r++) screen[r] = this.blankRow();
+        break;
+      case 2: // Whole screen
+        for (let r = 0; r < this.rows; r++) screen[r] = this.blankRow();
+        break;
+      case 3: // Scrollback
+        this.scrollback = [];
+        break;
+    }
+  }
+
+  private eraseLine(mode: number): void {
+    const row = this.screen[this.row];
+    switch (mode) {
+      case 0: // Cursor to end
+        this.fill(row, this.col, this.cols);
+        row.wrapped = false;
+        break;
+      case 1: // Start to cursor
+        this.fill(row, 0, this.col + 1);
+        break;
+      case 2: // Whole line
+        this.fill(row, 0, this.cols);
+        row.wrapped = false;
+        break;
+    }
+  }
+
+  private fill(row: Row, start: number, end: number): void {
+    const blank = this.blankCell();
+    for (let c = start; c < Math.min(end, this.cols); c++) row.cells[c] = blank;
+    this.wrapPending = false;
+  }
+
+  private switchScreen(alternate: boolean): void {
+    if (alternate === (this.alternate !== null)) return;
+    this.alternate = alternate ? this.blankScreen() : null;
+    this.wrapPending = false;
+  }
+
+  private saveCursor(): SavedCursor {
+    return { row: this.row, col: this.col, style: this.style };
+  }
+
+  private restoreCursor(saved: SavedCursor | null): void {
+    this.style = saved?.style ?? DEFAULT_STYLE;
+    this.moveTo(saved?.row ?? 0, saved?.col ?? 0);
+  }
+
+  private pushScrollback(row: Row): void {
+    if (this.maxScrollback === 0) return;
+    this.scrollback.push(toLine(row));
+    if (this.scrollback.length > this.maxScrollback) this.scrollback.shift();
+  }
+
+  /**
+   * Erased cells keep the current background color, as in xterm.
+   */
+  private blankCell(): Cell {
+    if (this.style.bgColor === null) return BLANK;
+    return { char: ' ', style: { ...DEFAULT_STYLE, bgColor: this.style.bgColor } };
+  }
+
+  private blankRow(cols = this.cols): Row {
+    const blank = this.blankCell();
+    return { cells: Array.from({ length: cols }, () => blank), wrapped: false };
+  }
+
+  private blankScreen(): Row[] {
+    return Array.from({ length: this.rows }, () => ({
+      cells: Array.from({ length: this.cols }, () => BLANK),
+      wrapped: false,
+    }));
+  }
+}
+
+/**
+ * Turn a row of cells into spans, merging cells of the same style and
+ * dropping trailing blanks.
+ */
+function toLine(row: Row): TerminalLine {
+  let end = row.cells.length;
+  while (end > 0 && isBlank(row.cells[end - 1])) end--;
+
+  const spans: AnsiSpan[] = [];
+  for (let c = 0; c < end; c++) {
+    const cell = row.cells[c];
+    const last = spans[spans.length - 1];
+    if (last && last.link === cell.link && sameStyle(last.style, cell.style)) {
+      last.text += cell.char;
+    } else {
+      const span: AnsiSpan = { text: cell.char, style: cell.style };
+      if (cell.link) span.link = cell.link;
+      spans.push(span);
+    }
+  }
+
+  return { spans, wrapped: row.wrapped };
+}
+
+function isBlank(cell: Cell): boolean {
+  return cell.char === ' ' && cell.style.bgColor === null && !cell.style.underline && !cell.link;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
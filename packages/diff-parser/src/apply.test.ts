@@ -0,0 +1,247 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, reversePatch } from './apply.js';
+import { parseFileDiff, type DiffFile } from './parse.js';
+
+const diff = (...lines: string[]): DiffFile => parseFileDiff(lines.join('\n') + '\n')!;
+const text = (...lines: string[]) => lines.map((line) => `${line}\n`).join('');
+
+const ORIGINAL = text('one', 'two', 'three', 'four', 'five', 'six', 'seven');
+
+const CHANGE_FOUR = diff(
+  '@@ -1,7 +1,7 @@',
+  ' one',
+  ' two',
+  ' three',
+  '-four',
+  '+FOUR',
+  ' five',
+  ' six',
+  ' seven'
+);
+
+describe('applyPatch', () => {
+  it('applies a hunk at its stated position', () => {
+    const result = applyPatch(ORIGINAL, CHANGE_FOUR);
+    expect(result.success).toBe(true);
+    expect(result.content).toBe(text('one', 'two', 'three', 'FOUR', 'five', 'six', 'seven'));
+    expect(result.hunks).toEqual([{ index: 0, status: 'applied', offset: 0, fuzz: 0 }]);
+  });
+
+  it('finds a hunk that moved, and reports the offset', () => {
+    const result = applyPatch(text('a', 'b', 'c') + ORIGINAL, CHANGE_FOUR);
+    expect(result.success).toBe(true);
+    expect(result.content).toBe(
+      text('a', 'b', 'c', 'one', 'two', 'three', 'FOUR', 'five', 'six', 'seven')
+    );
+    expect(result.hunks[0]).toMatchObject({ status: 'offset', offset: 3, fuzz: 0 });
+  });
+
+  it('looks for later hunks where earlier ones were found', () => {
+    const lines = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`);
+    const twoHunks = diff(
+      '@@ -2,3 +2,3 @@',
+      ' line 2',
+      '-line 3',
+      '+LINE 3',
+      ' line 4',
+      '@@ -20,3 +20,3 @@',
+      ' line 20',
+      '-line 21',
+      '+LINE 21',
+      ' line 22'
+    );
+
+    const result = applyPatch(text('extra', 'extra', ...lines), twoHunks);
+    expect(result.success).toBe(true);
+    expect(result.hunks.map((h) => h.offset)).toEqual([2, 2]);
+    expect(result.content).toContain(text('LINE 3'));
+    expect(result.content).toContain(text('LINE 21'));
+  });
+
+  it('respects maxOffset', () => {
+    const shifted = text('a', 'b', 'c') + ORIGINAL;
+    expect(applyPatch(shifted, CHANGE_FOUR, { maxOffset: 2 }).success).toBe(false);
+    expect(applyPatch(shifted, CHANGE_FOUR, { maxOffset: 3 }).success).toBe(true);
+  });
+
+  it('ignores mismatched outer context lines with fuzz', () => {
+    const edited = text('ONE', 'two', 'three', 'four', 'five', 'six', 'SEVEN');
+    const result = applyPatch(edited, CHANGE_FOUR);
+    expect(result.success).toBe(true);
+    expect(result.content).toBe(text('ONE', 'two', 'three', 'FOUR', 'five', 'six', 'SEVEN'));
+    expect(result.hunks[0]).toMatchObject({ status: 'offset', offset: 0, fuzz: 1 });
+
+    expect(applyPatch(edited, CHANGE_FOUR, { fuzz: 0 }).hunks[0].status).toBe('rejected');
+  });
+
+  it('never fuzzes away changed lines', () => {
+    const conflicting = text('one', 'two', 'three', 'quatre', 'five', 'six', 'seven');
+    const result = applyPatch(conflicting, CHANGE_FOUR, { fuzz: 3 });
+    expect(result.success).toBe(false);
+    expect(result.hunks[0].status).toBe('rejected');
+    expect(result.content).toBe(conflicting);
+  });
+
+  it('applies the hunks that match and leaves out the rejected ones', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const twoHunks = diff(
+      '@@ -2,3 +2,3 @@',
+      ' line 2',
+      '-line 3',
+      '+LINE 3',
+      ' line 4',
+      '@@ -14,3 +14,3 @@',
+      ' line 14',
+      '-line 15',
+      '+LINE 15',
+      ' line 16'
+    );
+    lines[14] = 'changed locally';
+
+    const result = applyPatch(text(...lines), twoHunks);
+    expect(result.success).toBe(false);
+    expect(result.hunks.map((h) => h.status)).toEqual(['applied', 'rejected']);
+    expect(result.content).toContain(text('LINE 3'));
+    expect(result.content).toContain(text('changed locally'));
+  });
+
+  it('keeps CRLF line endings, including on added lines', () => {
+    const crlf = ORIGINAL.replace(/\n/g, '\r\n');
+    const result = applyPatch(crlf, CHANGE_FOUR);
+    expect(result.success).toBe(true);
+    expect(result.content).toBe(
+      text('one', 'two', 'three', 'FOUR', 'five', 'six', 'seven').replace(/\n/g, '\r\n')
+    );
+  });
+
+  it('matches a CRLF diff against an LF file', () => {
+    const crlfDiff = diff('@@ -1,2 +1,2 @@', ' one\r', '-two\r', '+TWO\r');
+    expect(applyPatch(text('one', 'two'), crlfDiff).content).toBe(text('one', 'TWO'));
+  });
+
+  describe('files without a trailing newline', () => {
+    const NO_NEWLINE = 'one\ntwo\nthree';
+
+    it('keeps the newline missing when the last line is not touched', () => {
+      const result = applyPatch(NO_NEWLINE, diff('@@ -1,2 +1,2 @@', '-one', '+ONE', ' two'));
+      expect(result.content).toBe('ONE\ntwo\nthree');
+    });
+
+    it('changes the last line and keeps the newline missing', () => {
+      const change = diff(
+        '@@ -2,2 +2,2 @@',
+        ' two',
+        '-three',
+        '\\ No newline at end of file',
+        '+THREE',
+        '\\ No newline at end of file'
+      );
+      expect(applyPatch(NO_NEWLINE, change).content).toBe('one\ntwo\nTHREE');
+    });
+
+    it('adds the missing newline', () => {
+      const addNewline = diff(
+        '@@ -2,2 +2,2 @@',
+        ' two',
+        '-three',
+        '\\ No newline at end of file',
+        '+three'
+      );
+      expect(applyPatch(NO_NEWLINE, addNewline).content).toBe('one\ntwo\nthree\n');
+    });
+
+    it('removes the trailing newline', () => {
+      const removeNewline = diff(
+        '@@ -2,2 +2,2 @@',
+        ' two',
+        '-three',
+        '+three',
+        '\\ No newline at end of file'
+      );
+      expect(applyPatch(text('one', 'two', 'three'), removeNewline).content).toBe(NO_NEWLINE);
+    });
+  });
+
+  it('creates a new file from an empty one', () => {
+    const added = parseFileDiff(
+      [
+        'diff --git a/new.txt b/new.txt',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/new.txt',
+        '@@ -0,0 +1,2 @@',
+        '+hello',
+        '+world',
+        '',
+      ].join('\n')
+    )!;
+    expect(applyPatch('', added).content).toBe(text('hello', 'world'));
+  });
+});
+
+describe('reversePatch', () => {
+  const roundTrip = (original: string, file: DiffFile) => {
+    const forward = applyPatch(original, file);
+    expect(forward.success).toBe(true);
+    const back = applyPatch(forward.content, reversePatch(file));
+    expect(back.success).toBe(true);
+    return back.content;
+  };
+
+  it('undoes a change', () => {
+    expect(roundTrip(ORIGINAL, CHANGE_FOUR)).toBe(ORIGINAL);
+  });
+
+  it('undoes interleaved additions and deletions in several hunks', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const change = diff(
+      '@@ -1,4 +1,5 @@',
+      ' line 1',
+      '-line 2',
+      '+first',
+      '+second',
+      ' line 3',
+      '-line 4',
+      '+LINE 4',
+      '@@ -12,3 +13,2 @@',
+      ' line 12',
+      '-line 13',
+      ' line 14'
+    );
+    expect(roundTrip(text(...lines), change)).toBe(text(...lines));
+  });
+
+  it('undoes a change to a file without a trailing newline, with CRLF endings', () => {
+    const original = 'one\r\ntwo\r\nthree';
+    const change = diff(
+      '@@ -2,2 +2,2 @@',
+      ' two',
+      '-three',
+      '\\ No newline at end of file',
+      '+THREE'
+    );
+    expect(roundTrip(original, change)).toBe(original);
+  });
+
+  it('swaps paths, counts and added/deleted status', () => {
+    const added = parseFileDiff(
+      [
+        'diff --git a/new.txt b/new.txt',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/new.txt',
+        '@@ -0,0 +1,2 @@',
+        '+hello',
+        '+world',
+        '',
+      ].join('\n')
+    )!;
+    const reversed = reversePatch(added);
+    expect(reversed).toMatchObject({ status: 'deleted', additions: 0, deletions: 2 });
+    expect(reversed.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 2, newStart: 0, newLines: 0 });
+    expect(applyPatch(text('hello', 'world'), reversed).content).toBe('');
+
+    const renamed = { ...CHANGE_FOUR, oldPath: 'old.txt', newPath: 'new.txt' };
+    expect(reversePatch(renamed)).toMatchObject({ oldPath: 'new.txt', newPath: 'old.txt' });
+  });
+});
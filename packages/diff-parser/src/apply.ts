@@ -0,0 +1,279 @@
+/**
+ * Apply and reverse parsed diffs without git.
+ *
+ * Hunks are matched the way GNU patch does it: at the position in their
+ * header first, then at growing offsets around it, and finally with up to
+ * `fuzz` context lines ignored at either end. Line endings (LF or CRLF) are
+ * kept as the original file has them.
+ */
+
+import type { DiffFile, DiffHunk, DiffLine } from './parse.js';
+
+export interface ApplyOptions {
+  /** Context lines that may be ignored at each end of a hunk that doesn't match (default 2) */
+  fuzz?: number;
+  /** How far from its stated position a hunk may be found (default: anywhere) */
+  maxOffset?: number;
+}
+
+export type HunkStatus = 'applied' | 'offset' | 'rejected';
+
+export interface HunkResult {
+  /** Position of the hunk in the file's hunks */
+  index: number;
+  /** 'offset' hunks only matched away from their stated position, or with fuzz */
+  status: HunkStatus;
+  /** Lines between the hunk's stated and actual position */
+  offset: number;
+  /** Context lines ignored to make the hunk match */
+  fuzz: number;
+}
+
+export interface ApplyResult {
+  /** True if every hunk was applied */
+  success: boolean;
+  /** The patched content; rejected hunks are left out */
+  content: string;
+  hunks: HunkResult[];
+}
+
+const DEFAULT_FUZZ = 2;
+
+/**
+ * Apply a file's hunks to its original content.
+ */
+export function applyPatch(
+  original: string,
+  file: DiffFile,
+  options: ApplyOptions = {}
+): ApplyResult {
+  const maxFuzz = options.fuzz ?? DEFAULT_FUZZ;
+  const maxOffset = options.maxOffset ?? Infinity;
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  const lines = splitLines(original);
+
+  const output: string[] = [];
+  const results: HunkResult[] = [];
+  let cursor = 0;
+  // Later hunks are looked for where earlier ones were actually found
+  let lastOffset = 0;
+  let trailingNewline = original === '' || /\n$/.test(original);
+
+  file.hunks.forEach((hunk, index) => {
+    const match = findHunk(lines, hunk, cursor, lastOffset, maxFuzz, maxOffset);
+    if (!match) {
+      results.push({ index, status: 'rejected', offset: 0, fuzz: 0 });
+      return;
+    }
+
+    const body = trimContext(getBody(hunk), match.fuzz);
+    output.push(...lines.slice(cursor, match.position));
+
+    let position = match.position;
+    for (const line of body) {
+      if (line.type === 'context') {
+        // Keep the file's own version of the line (it may differ in line ending only)
+        output.push(lines[position++]);
+      } else if (line.type === 'deletion') {
+        position++;
+      } else {
+        output.push(stripCR(line.content));
+      }
+    }
+    cursor = position;
+
+    const endsFile = cursor === lines.length;
+    if (endsFile) trailingNewline = getTrailingNewline(body, trailingNewline);
+
+    const offset = match.position - match.trimmed - getStart(hunk);
+    lastOffset = offset;
+    results.push({
+      index,
+      status: offset === 0 && match.fuzz === 0 ? 'applied' : 'offset',
+      offset,
+      fuzz: match.fuzz,
+    });
+  });
+
+  output.push(...lines.slice(cursor));
+
+  return {
+    success: results.every((r) => r.status !== 'rejected'),
+    content: joinLines(output, eol, trailingNewline),
+    hunks: results,
+  };
+}
+
+/**
+ * Reverse a file's diff, so that applying it undoes the original.
+ */
+export function reversePatch(file: DiffFile): DiffFile {
+  const status =
+    file.status === 'added' ? 'deleted' : file.status === 'deleted' ? 'added' : file.status;
+
+  return {
+    ...file,
+    oldPath: file.newPath,
+    newPath: file.oldPath,
+    status,
+    additions: file.deletions,
+    deletions: file.additions,
+    hunks: file.hunks.map(reverseHunk),
+  };
+}
+
+function reverseHunk(hunk: DiffHunk): DiffHunk {
+  const section = hunk.header.match(/^@@.*?@@(.*)$/)?.[1] ?? '';
+  const reversed: DiffHunk = {
+    header: `@@ -${hunk.newStart},${hunk.newLines} +${hunk.oldStart},${hunk.oldLines} @@${section}`,
+    oldStart: hunk.newStart,
+    oldLines: hunk.newLines,
+    newStart: hunk.oldStart,
+    newLines: hunk.oldLines,
+    lines: [],
+  };
+
+  // Within each run of changes, removed lines come before added ones
+  let additions: DiffLine[] = [];
+  let deletions: DiffLine[] = [];
+  const flush = () => {
+    reversed.lines.push(...deletions, ...additions);
+    additions = [];
+    deletions = [];
+  };
+
+  for (const line of hunk.lines) {
+    const swapped: DiffLine = {
+      ...line,
+      oldLineNumber: line.newLineNumber,
+      newLineNumber: line.oldLineNumber,
+    };
+    if (line.type === 'addition') {
+      deletions.push({ ...swapped, type: 'deletion' });
+    } else if (line.type === 'deletion') {
+      additions.push({ ...swapped, type: 'addition' });
+    } else {
+      flush();
+      reversed.lines.push(swapped);
+    }
+  }
+  flush();
+
+  return reversed;
+}
+
+interface HunkMatch {
+  position: number;
+  fuzz: number;
+  /** Leading context lines ignored, which shift where the hunk starts */
+  trimmed: number;
+}
+
+/**
+ * Find where a hunk's old lines are in the file, at or after `minPosition`.
+ * `position` is where the (trimmed) hunk starts.
+ */
+function findHunk(
+  lines: string[],
+  hunk: DiffHunk,
+  minPosition: number,
+  lastOffset: number,
+  maxFuzz: number,
+  maxOffset: number
+): HunkMatch | null {
+  const body = getBody(hunk);
+  const leading = countContext(body);
+  const trailing = countContext([...body].reverse());
+
+  for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+    // Only context can be ignored, and never all of a hunk's old lines
+    if (fuzz > 0 && fuzz > leading && fuzz > trailing) break;
+
+    const oldLines = trimContext(body, fuzz)
+      .filter((line) => line.type !== 'addition')
+      .map((line) => stripCR(line.content));
+    if (fuzz > 0 && oldLines.length === 0) break;
+
+    const trimmed = Math.min(fuzz, leading);
+    const expected = getStart(hunk) + lastOffset + trimmed;
+    const last = lines.length - oldLines.length;
+
+    if (oldLines.length === 0) {
+      // Pure insertion: nothing to match, so it goes where the header says
+      const position = Math.min(Math.max(expected, minPosition), lines.length);
+      return { position, fuzz, trimmed };
+    }
+
+    for (let distance = 0; distance <= maxOffset; distance++) {
+      const before = expected - distance;
+      const after = expected + distance;
+      if (before < minPosition && after > last) break;
+
+      if (after >= minPosition && after <= last && matchesAt(lines, oldLines, after)) {
+        return { position: after, fuzz, trimmed };
+      }
+      if (distance > 0 && before >= minPosition && before <= last) {
+        if (matchesAt(lines, oldLines, before)) return { position: before, fuzz, trimmed };
+      }
+    }
+  }
+
+  return null;
+}
+
+function matchesAt(lines: string[], expected: string[], position: number): boolean {
+  return expected.every((line, i) => stripCR(lines[position + i]) === line);
+}
+
+/**
+ * Where the hunk's old lines start, as a 0-based line index. A hunk with no
+ * old lines inserts after line `oldStart`.
+ */
+function getStart(hunk: DiffHunk): number {
+  return hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+}
+
+function getBody(hunk: DiffHunk): DiffLine[] {
+  return hunk.lines.filter((line) => line.type !== 'header');
+}
+
+function countContext(lines: DiffLine[]): number {
+  const index = lines.findIndex((line) => line.type !== 'context');
+  return index === -1 ? lines.length : index;
+}
+
+/**
+ * Drop up to `fuzz` context lines from each end of a hunk.
+ */
+function trimContext(body: DiffLine[], fuzz: number): DiffLine[] {
+  const leading = Math.min(fuzz, countContext(body));
+  const trailing = Math.min(fuzz, countContext([...body].reverse()));
+  return body.slice(leading, body.length - trailing);
+}
+
+/**
+ * Whether the file ends with a newline once a hunk reaching its end is applied.
+ */
+function getTrailingNewline(body: DiffLine[], current: boolean): boolean {
+  if (body.some((line) => line.noNewline && line.type !== 'deletion')) return false;
+  if (body.some((line) => line.noNewline && line.type === 'deletion')) return true;
+  return current;
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function joinLines(lines: string[], eol: string, trailingNewline: boolean): string {
+  if (lines.length === 0) return '';
+  // Every line gets the file's line ending, including lines added by the patch
+  const body = lines.map((line) => stripCR(line)).join(eol);
+  return trailingNewline ? body + eol : body;
+}
+
+function stripCR(line: string): string {
+  return line.endsWith('\r') ? line.slice(0, -1) : line;
+}
@@ -0,0 +1,236 @@
+import { describe, expect, it } from 'vitest';
+import { formatDiff } from './format.js';
+import {
+  parseDiff,
+  type DiffFile,
+  type DiffHunk,
+  type DiffLine,
+  type ParsedDiff,
+} from './parse.js';
+
+/** Small seeded PRNG (mulberry32), so a failing case can be replayed from its seed */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  const pick = <T>(items: readonly T[]): T => items[int(0, items.length - 1)];
+  const chance = (probability: number) => next() < probability;
+  return { int, pick, chance };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+/** Line contents, including ones that look like diff syntax once prefixed */
+const CONTENTS = [
+  '',
+  'const value = 1;',
+  '  return value;',
+  '}',
+  '-- a/file.txt',
+  '++ b/file.txt',
+  '-- ',
+  '++ ',
+  '--- a/nested.txt',
+  '+++ b/nested.txt',
+  '@@ -1,2 +1,2 @@',
+  'diff --git a/x b/y',
+  '\\ No newline at end of file',
+  'Binary files a/x and b/y differ',
+  'rename from elsewhere',
+  'new file mode 100755',
+  'windows line\r',
+  '\ttabbed',
+];
+
+const SECTIONS = ['', ' function main() {', ' class Parser'];
+const MODES = ['100644', '100755'];
+
+function randomPath(random: Random): string {
+  const dir = random.pick(['', 'src/', 'src/lib/', 'docs/']);
+  return `${dir}file${random.int(0, 99)}.${random.pick(['ts', 'md', 'txt'])}`;
+}
+
+/**
+ * Hunks exactly as `parseDiff` builds them: a leading header line, line
+ * numbers counting up from the hunk starts and counts that match the lines.
+ */
+function randomHunks(random: Random, kind: 'added' | 'deleted' | 'changed'): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let oldLine = kind === 'added' ? 0 : 1;
+  let newLine = kind === 'deleted' ? 0 : 1;
+  const count = kind === 'changed' ? random.int(1, 3) : 1;
+
+  for (let h = 0; h < count; h++) {
+    if (kind === 'changed') {
+      const gap = random.int(h === 0 ? 0 : 1, 20);
+      oldLine += gap;
+      newLine += gap;
+    }
+
+    const section = kind === 'changed' ? random.pick(SECTIONS) : '';
+    const hunk: DiffHunk = {
+      header: '',
+      oldStart: oldLine,
+      oldLines: 0,
+      newStart: newLine,
+      newLines: 0,
+      lines: [{ type: 'header', content: section }],
+    };
+
+    const size = random.int(1, 12);
+    for (let i = 0; i < size; i++) {
+      const type =
+        kind === 'added'
+          ? 'addition'
+          : kind === 'deleted'
+            ? 'deletion'
+            : random.pick(['context', 'context', 'addition', 'deletion'] as const);
+      const content = random.pick(CONTENTS);
+      if (type === 'context') {
+        hunk.lines.push({ type, content, oldLineNumber: oldLine++, newLineNumber: newLine++ });
+      } else if (type === 'addition') {
+        hunk.lines.push({ type, content, newLineNumber: newLine++ });
+      } else {
+        hunk.lines.push({ type, content, oldLineNumber: oldLine++ });
+      }
+    }
+
+    hunk.oldLines = oldLine - hunk.oldStart;
+    hunk.newLines = newLine - hunk.newStart;
+    const range = (start: number, lines: number) =>
+      lines === 1 ? `${start}` : `${start},${lines}`;
+    hunk.header = `@@ -${range(hunk.oldStart, hunk.oldLines)} +${range(hunk.newStart, hunk.newLines)} @@${section}`;
+    hunks.push(hunk);
+  }
+
+  // The file ends without a newline on one or both sides
+  if (random.chance(0.3)) {
+    const lines = hunks[hunks.length - 1].lines;
+    const last = lines[lines.length - 1];
+    last.noNewline = true;
+    if (last.type === 'addition' && random.chance(0.5)) {
+      const lastOld = [...lines].reverse().find((line) => line.type !== 'addition');
+      if (lastOld?.type === 'deletion') lastOld.noNewline = true;
+    }
+  }
+
+  return hunks;
+}
+
+function countLines(hunks: DiffHunk[], type: DiffLine['type']): number {
+  return hunks.reduce((sum, hunk) => sum + hunk.lines.filter((l) => l.type === type).length, 0);
+}
+
+function randomFile(random: Random): DiffFile {
+  const oldPath = randomPath(random);
+  const status = random.pick(['added', 'deleted', 'modified', 'renamed'] as const);
+  const newPath = status === 'renamed' ? `moved/${oldPath}` : oldPath;
+  const isBinary = random.chance(0.15);
+
+  const file: DiffFile = {
+    oldPath,
+    newPath,
+    status,
+    hunks: [],
+    additions: 0,
+    deletions: 0,
+    isBinary,
+  };
+
+  if (status === 'added') {
+    file.newMode = random.pick(MODES);
+  } else if (status === 'deleted') {
+    file.oldMode = random.pick(MODES);
+  } else if (random.chance(0.3)) {
+    const [from, to] = random.chance(0.5) ? MODES : [...MODES].reverse();
+    file.oldMode = from;
+    file.newMode = to;
+  }
+
+  if (status === 'renamed') {
+    file.similarity = random.int(50, 100);
+  }
+
+  const hasHunks = !isBinary && !(status === 'renamed' && file.similarity === 100);
+  if (hasHunks) {
+    const kind = status === 'added' || status === 'deleted' ? status : 'changed';
+    file.hunks = randomHunks(random, kind);
+    file.additions = countLines(file.hunks, 'addition');
+    file.deletions = countLines(file.hunks, 'deletion');
+  }
+
+  return file;
+}
+
+function randomDiff(random: Random): ParsedDiff {
+  const files = Array.from({ length: random.int(1, 4) }, () => randomFile(random));
+  return {
+    files,
+    totalAdditions: files.reduce((sum, file) => sum + file.additions, 0),
+    totalDeletions: files.reduce((sum, file) => sum + file.deletions, 0),
+  };
+}
+
+describe('formatDiff', () => {
+  it('round-trips generated diffs through parseDiff', () => {
+    for (let seed = 1; seed <= 500; seed++) {
+      const diff = randomDiff(createRandom(seed));
+      const text = formatDiff(diff);
+
+      expect(parseDiff(text), `seed ${seed}:\n${text}`).toStrictEqual(diff);
+      expect(formatDiff(parseDiff(text)), `seed ${seed}`).toBe(text);
+    }
+  });
+
+  it('formats a single file the same as a diff of that file', () => {
+    const diff = randomDiff(createRandom(42));
+    expect(diff.files.map((file) => formatDiff(file)).join('')).toBe(formatDiff(diff));
+  });
+
+  it('reads `---` and `+++` inside a hunk as content, and after it as headers', () => {
+    const text = [
+      'diff --git a/a.txt b/a.txt',
+      '--- a/a.txt',
+      '+++ b/a.txt',
+      '@@ -1,2 +1,2 @@',
+      '--- a/a.txt',
+      '+++ b/a.txt',
+      ' same',
+      'diff --git a/b.txt b/b.txt',
+      '--- a/b.txt',
+      '+++ b/b.txt',
+      '@@ -1 +1 @@',
+      '-old',
+      '+new',
+      '',
+    ].join('\n');
+
+    const { files } = parseDiff(text);
+    expect(files.map((file) => file.newPath)).toEqual(['a.txt', 'b.txt']);
+    expect(files[0].hunks[0].lines.slice(1).map((line) => [line.type, line.content])).toEqual([
+      ['deletion', '-- a/a.txt'],
+      ['addition', '++ b/a.txt'],
+      ['context', 'same'],
+    ]);
+    expect(formatDiff(files[0])).toBe(text.slice(0, text.indexOf('diff --git a/b.txt')));
+  });
+
+  it('parses a very large hunk in linear time', () => {
+    const size = 50_000;
+    const body = Array.from({ length: size }, (_, i) => (i % 2 ? `+added ${i}` : ` kept ${i}`));
+    const text = `diff --git a/big b/big\n--- a/big\n+++ b/big\n@@ -1,${size / 2} +1,${size} @@\n${body.join('\n')}\n`;
+
+    // Recounting the hunk on every line took seconds at this size
+    const started = Date.now();
+    const [file] = parseDiff(text).files;
+    expect(Date.now() - started).toBeLessThan(2_000);
+    expect(file.hunks[0].lines).toHaveLength(size + 1);
+    expect(file.additions).toBe(size / 2);
+  });
+});
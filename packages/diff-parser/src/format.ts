@@ -0,0 +1,79 @@
+/**
+ * Serializer for Git unified diff format.
+ */
+
+import type { DiffFile, DiffHunk, DiffLine, ParsedDiff } from './parse.js';
+
+const LINE_PREFIX: Record<DiffLine['type'], string> = {
+  addition: '+',
+  deletion: '-',
+  context: ' ',
+  header: '',
+};
+
+/** Mode for added and deleted files that don't record one */
+const DEFAULT_MODE = '100644';
+
+/**
+ * Format a parsed diff, or one file of it, as a git-style unified diff that
+ * `git apply` accepts. Hunk headers are rebuilt from their line numbers and
+ * counts, so `parseDiff(formatDiff(diff))` gives back the same files.
+ */
+export function formatDiff(diff: ParsedDiff | DiffFile): string {
+  const files = 'files' in diff ? diff.files : [diff];
+  return files.map(formatFile).join('');
+}
+
+function formatFile(file: DiffFile): string {
+  const lines = [`diff --git a/${file.oldPath} b/${file.newPath}`];
+
+  if (file.status === 'added') {
+    lines.push(`new file mode ${file.newMode ?? DEFAULT_MODE}`);
+  } else if (file.status === 'deleted') {
+    lines.push(`deleted file mode ${file.oldMode ?? DEFAULT_MODE}`);
+  } else if (file.oldMode && file.newMode && file.oldMode !== file.newMode) {
+    lines.push(`old mode ${file.oldMode}`, `new mode ${file.newMode}`);
+  }
+
+  if (file.status === 'renamed') {
+    if (file.similarity !== undefined) lines.push(`similarity index ${file.similarity}%`);
+    lines.push(`rename from ${file.oldPath}`, `rename to ${file.newPath}`);
+  }
+
+  const oldName = file.status === 'added' ? '/dev/null' : `a/${file.oldPath}`;
+  const newName = file.status === 'deleted' ? '/dev/null' : `b/${file.newPath}`;
+
+  if (file.isBinary) {
+    lines.push(`Binary files ${oldName} and ${newName} differ`);
+  } else if (file.hunks.length > 0) {
+    // Like git, pure renames and mode changes have no ---/+++ lines
+    lines.push(`--- ${oldName}`, `+++ ${newName}`);
+    for (const hunk of file.hunks) {
+      lines.push(...formatHunk(hunk));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function formatHunk(hunk: DiffHunk): string[] {
+  const section = hunk.lines.find((line) => line.type === 'header')?.content ?? '';
+  const oldRange = formatRange(hunk.oldStart, hunk.oldLines);
+  const newRange = formatRange(hunk.newStart, hunk.newLines);
+  const lines = [`@@ -${oldRange} +${newRange} @@${section}`];
+
+  for (const line of hunk.lines) {
+    if (line.type === 'header') continue;
+    lines.push(LINE_PREFIX[line.type] + line.content);
+    if (line.noNewline) lines.push('\\ No newline at end of file');
+  }
+
+  return lines;
+}
+
+/**
+ * A hunk range as git writes it: the count is left out when it is 1.
+ */
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
@@ -1,2 +1,26 @@
-export { parseDiff, type ParsedDiff, type DiffFile, type DiffHunk, type DiffLine } from './parse.js';
+export {
+  parseDiff,
+  parseFileDiff,
+  type ParsedDiff,
+  type DiffFile,
+  type DiffHunk,
+  type DiffLine,
+  type ChangeRange,
+} from './parse.js';
+export { formatDiff } from './format.js';
+export {
+  applyPatch,
+  reversePatch,
+  type ApplyOptions,
+  type ApplyResult,
+  type HunkResult,
+  type HunkStatus,
+} from './apply.js';
+export {
+  addInlineChanges,
+  getInlineChanges,
+  type InlineChanges,
+  type InlineGranularity,
+  type InlineOptions,
+} from './inline.js';
 export { formatDiffStats, getFileIcon } from './utils.js';
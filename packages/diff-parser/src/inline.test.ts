@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { addInlineChanges, getInlineChanges } from './inline.js';
+import type { DiffHunk, DiffLine } from './parse.js';
+
+/** The text each range covers, which is easier to read than offsets */
+function changedText(text: string, ranges: { start: number; end: number }[]): string[] {
+  return ranges.map((range) => text.slice(range.start, range.end));
+}
+
+describe('getInlineChanges', () => {
+  it('marks the words that differ', () => {
+    const oldText = 'const total = price * count;';
+    const newText = 'const total = price * quantity;';
+    const changes = getInlineChanges(oldText, newText)!;
+
+    expect(changedText(oldText, changes.old)).toEqual(['count']);
+    expect(changedText(newText, changes.new)).toEqual(['quantity']);
+  });
+
+  it('joins a changed phrase into one range across single spaces', () => {
+    const oldText = 'please say hello world to everyone here';
+    const newText = 'please say goodbye moon to everyone here';
+    const changes = getInlineChanges(oldText, newText)!;
+
+    expect(changedText(oldText, changes.old)).toEqual(['hello world']);
+    expect(changedText(newText, changes.new)).toEqual(['goodbye moon']);
+  });
+
+  it('finds changes in the middle of a line, not just at its ends', () => {
+    const oldText = 'a(one, two, three)';
+    const newText = 'a(one, 2, three, four)';
+    const changes = getInlineChanges(oldText, newText)!;
+
+    expect(changedText(oldText, changes.old)).toEqual(['two']);
+    expect(changedText(newText, changes.new)).toEqual(['2', ', four']);
+  });
+
+  it('compares single characters when asked to', () => {
+    const changes = getInlineChanges('color', 'colour', { granularity: 'char' })!;
+    expect(changes.old).toEqual([]);
+    expect(changes.new).toEqual([{ start: 4, end: 5 }]);
+
+    expect(getInlineChanges('color', 'colour')).toBeNull();
+  });
+
+  it('reports no ranges for identical lines', () => {
+    expect(getInlineChanges('same', 'same')).toEqual({ old: [], new: [] });
+    expect(getInlineChanges('', '')).toEqual({ old: [], new: [] });
+  });
+
+  it('gives up on lines that are too different or too long', () => {
+    expect(getInlineChanges('return a;', 'throw new Error(message);')).toBeNull();
+    expect(getInlineChanges('x = 1', 'x = 2', { maxLineLength: 3 })).toBeNull();
+  });
+
+  it('still marks a differing middle that is too large to compare exactly', () => {
+    const middle = (word: string) => Array.from({ length: 120 }, (_, i) => `${word}${i}`).join(' ');
+    const oldText = `start ${middle('a')} ${'shared '.repeat(200)}end`;
+    const newText = `start ${middle('b')} ${'shared '.repeat(200)}end`;
+    const changes = getInlineChanges(oldText, newText, { maxLineLength: 10_000 })!;
+
+    expect(changedText(oldText, changes.old)).toEqual([middle('a')]);
+    expect(changedText(newText, changes.new)).toEqual([middle('b')]);
+  });
+});
+
+describe('addInlineChanges', () => {
+  const line = (type: DiffLine['type'], content: string): DiffLine => ({ type, content });
+  const hunk = (lines: DiffLine[]): DiffHunk => ({
+    header: '@@ -1 +1 @@',
+    oldStart: 1,
+    oldLines: 1,
+    newStart: 1,
+    newLines: 1,
+    lines,
+  });
+
+  it('pairs the n-th removed line with the n-th added line of each run', () => {
+    const input = hunk([
+      line('header', '@@ -1 +1 @@'),
+      line('deletion', 'let a = 1;'),
+      line('deletion', 'let b = 2;'),
+      line('addition', 'let a = 10;'),
+      line('addition', 'let b = 20;'),
+      line('addition', 'let c = 30;'),
+      line('context', ''),
+      line('deletion', 'let d = 4;'),
+      line('addition', 'let d = 40;'),
+    ]);
+
+    const result = addInlineChanges(input);
+    const changes = result.lines.map((l) =>
+      l.changes ? changedText(l.content, l.changes).join('|') : null
+    );
+    expect(changes).toEqual([null, '1', '2', '10', '20', null, null, '4', '40']);
+    // The input is left as it was
+    expect(input.lines.some((l) => l.changes)).toBe(false);
+  });
+
+  it('does not pair a removal with additions that came before it', () => {
+    const result = addInlineChanges(
+      hunk([
+        line('addition', 'value = 1'),
+        line('deletion', 'value = 2'),
+        line('addition', 'value = 3'),
+      ])
+    );
+    expect(result.lines.map((l) => l.changes?.length ?? null)).toEqual([null, 1, 1]);
+  });
+});
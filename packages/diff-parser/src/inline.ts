@@ -0,0 +1,226 @@
+/**
+ * Intra-line change ranges for paired removed and added lines.
+ *
+ * Within each run of changes in a hunk, the n-th removed line is paired with
+ * the n-th added line. Each pair is split into tokens and the tokens the two
+ * lines don't share become the lines' `changes`. Work per pair is bounded, so
+ * this stays linear in the size of the patch.
+ */
+
+import type { ChangeRange, DiffHunk, DiffLine } from './parse.js';
+
+export type InlineGranularity = 'word' | 'char';
+
+export interface InlineOptions {
+  /** Compare words (and single punctuation characters), or single characters (default 'word') */
+  granularity?: InlineGranularity;
+  /** Longer lines are left without ranges (default 1000) */
+  maxLineLength?: number;
+}
+
+export interface InlineChanges {
+  old: ChangeRange[];
+  new: ChangeRange[];
+}
+
+const DEFAULT_MAX_LINE_LENGTH = 1000;
+
+/** Largest token table compared exactly; past it the differing middle is one range */
+const MAX_TABLE_SIZE = 10_000;
+
+/** Below this share of unchanged text, the lines are shown as wholly replaced */
+const MIN_SIMILARITY = 0.5;
+
+const TOKEN_PATTERNS: Record<InlineGranularity, RegExp> = {
+  word: /\w+|\s+|[^\w\s]/gu,
+  char: /[\s\S]/gu,
+};
+
+interface Token {
+  text: string;
+  start: number;
+}
+
+/**
+ * Pair the removed and added lines of a hunk and set `changes` on each pair
+ * that is similar enough to highlight. Returns a new hunk.
+ */
+export function addInlineChanges(hunk: DiffHunk, options: InlineOptions = {}): DiffHunk {
+  const lines = hunk.lines.map((line) => ({ ...line }));
+
+  let deletions: DiffLine[] = [];
+  let additions: DiffLine[] = [];
+  const flush = () => {
+    const pairs = Math.min(deletions.length, additions.length);
+    for (let i = 0; i < pairs; i++) {
+      const changes = getInlineChanges(deletions[i].content, additions[i].content, options);
+      if (changes) {
+        deletions[i].changes = changes.old;
+        additions[i].changes = changes.new;
+      }
+    }
+    deletions = [];
+    additions = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'deletion') {
+      // A removal after additions starts a new run
+      if (additions.length > 0) flush();
+      deletions.push(line);
+    } else if (line.type === 'addition') {
+      additions.push(line);
+    } else {
+      flush();
+    }
+  }
+  flush();
+
+  return { ...hunk, lines };
+}
+
+/**
+ * The ranges of `oldText` and `newText` that differ, or null if the lines are
+ * too long or too different for ranges to help.
+ */
+export function getInlineChanges(
+  oldText: string,
+  newText: string,
+  options: InlineOptions = {}
+): InlineChanges | null {
+  const maxLength = options.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH;
+  if (oldText.length > maxLength || newText.length > maxLength) return null;
+
+  const pattern = TOKEN_PATTERNS[options.granularity ?? 'word'];
+  const oldTokens = tokenize(oldText, pattern);
+  const newTokens = tokenize(newText, pattern);
+  const [oldChanged, newChanged] = compareTokens(oldTokens, newTokens);
+
+  const unchanged =
+    countText(oldTokens, oldChanged, false) + countText(newTokens, newChanged, false);
+  const changed = countText(oldTokens, oldChanged, true) + countText(newTokens, newChanged, true);
+  const total = unchanged + changed;
+  if (total > 0 && unchanged / total < MIN_SIMILARITY) return null;
+
+  return {
+    old: toRanges(oldTokens, oldChanged),
+    new: toRanges(newTokens, newChanged),
+  };
+}
+
+function tokenize(text: string, pattern: RegExp): Token[] {
+  return Array.from(text.matchAll(pattern), (match) => ({
+    text: match[0],
+    start: match.index ?? 0,
+  }));
+}
+
+/**
+ * Mark the tokens on each side that are not part of the longest common
+ * subsequence. The shared prefix and suffix are matched first, which covers
+ * most edits without building a table.
+ */
+function compareTokens(oldTokens: Token[], newTokens: Token[]): [boolean[], boolean[]] {
+  const oldChanged = oldTokens.map(() => false);
+  const newChanged = newTokens.map(() => false);
+
+  let prefix = 0;
+  while (
+    prefix < oldTokens.length &&
+    prefix < newTokens.length &&
+    oldTokens[prefix].text === newTokens[prefix].text
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldTokens.length - prefix &&
+    suffix < newTokens.length - prefix &&
+    oldTokens[oldTokens.length - 1 - suffix].text === newTokens[newTokens.length - 1 - suffix].text
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldTokens.slice(prefix, oldTokens.length - suffix);
+  const newMiddle = newTokens.slice(prefix, newTokens.length - suffix);
+  const rows = oldMiddle.length;
+  const cols = newMiddle.length;
+
+  if (rows === 0 || cols === 0 || (rows + 1) * (cols + 1) > MAX_TABLE_SIZE) {
+    oldMiddle.forEach((_, i) => (oldChanged[prefix + i] = true));
+    newMiddle.forEach((_, j) => (newChanged[prefix + j] = true));
+    return [oldChanged, newChanged];
+  }
+
+  // lengths[i * (cols + 1) + j]: common subsequence length of oldMiddle[i..] and newMiddle[j..]
+  const width = cols + 1;
+  const lengths = new Uint16Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        oldMiddle[i].text === newMiddle[j].text
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldMiddle[i].text === newMiddle[j].text) {
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      oldChanged[prefix + i++] = true;
+    } else {
+      newChanged[prefix + j++] = true;
+    }
+  }
+  for (; i < rows; i++) oldChanged[prefix + i] = true;
+  for (; j < cols; j++) newChanged[prefix + j] = true;
+
+  return [oldChanged, newChanged];
+}
+
+/**
+ * Length of the non-whitespace text in changed (or unchanged) tokens.
+ */
+function countText(tokens: Token[], changed: boolean[], wanted: boolean): number {
+  let count = 0;
+  tokens.forEach((token, i) => {
+    if (changed[i] === wanted) count += token.text.trim().length;
+  });
+  return count;
+}
+
+/**
+ * Join changed tokens into ranges. Whitespace between two changed tokens is
+ * included, so a changed phrase is one range rather than one per word.
+ */
+function toRanges(tokens: Token[], changed: boolean[]): ChangeRange[] {
+  const ranges: ChangeRange[] = [];
+  let open: ChangeRange | null = null;
+  let bridged = false;
+
+  tokens.forEach((token, i) => {
+    const end = token.start + token.text.length;
+    if (changed[i]) {
+      if (open) {
+        open.end = end;
+      } else {
+        open = { start: token.start, end };
+        ranges.push(open);
+      }
+      bridged = false;
+    } else if (open && !bridged && token.text.trim() === '') {
+      // Bridge at most one unchanged whitespace token
+      bridged = true;
+    } else {
+      open = null;
+      bridged = false;
+    }
+  });
+
+  return ranges;
+}
@@ -4,11 +4,21 @@
 
 export type LineType = 'context' | 'addition' | 'deletion' | 'header';
 
+/** A span of `DiffLine.content`, from `start` up to (not including) `end` */
+export interface ChangeRange {
+  start: number;
+  end: number;
+}
+
 export interface DiffLine {
   type: LineType;
   content: string;
   oldLineNumber?: number;
   newLineNumber?: number;
+  /** Last line of its side, without a trailing newline (`\ No newline at end of file`) */
+  noNewline?: boolean;
+  /** The parts that differ from the paired removed/added line, set by `addInlineChanges` */
+  changes?: ChangeRange[];
 }
 
 export interface DiffHunk {
@@ -30,6 +40,12 @@ export interface DiffFile {
   additions: number;
   deletions: number;
   isBinary: boolean;
+  /** File mode before the change (e.g. `100644`), from `old mode`/`deleted file mode` */
+  oldMode?: string;
+  /** File mode after the change, from `new mode`/`new file mode` */
+  newMode?: string;
+  /** Percentage from `similarity index`, for renames */
+  similarity?: number;
 }
 
 export interface ParsedDiff {
@@ -43,10 +59,14 @@ const OLD_FILE_REGEX = /^--- (.+)$/;
 const NEW_FILE_REGEX = /^\+\+\+ (.+)$/;
 const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
 const BINARY_FILE_REGEX = /^Binary files/;
-const NEW_FILE_MODE_REGEX = /^new file mode/;
-const DELETED_FILE_MODE_REGEX = /^deleted file mode/;
+const NEW_FILE_MODE_REGEX = /^new file mode (\d+)$/;
+const DELETED_FILE_MODE_REGEX = /^deleted file mode (\d+)$/;
+const OLD_MODE_REGEX = /^old mode (\d+)$/;
+const NEW_MODE_REGEX = /^new mode (\d+)$/;
+const SIMILARITY_REGEX = /^similarity index (\d+)%$/;
 const RENAME_FROM_REGEX = /^rename from (.+)$/;
 const RENAME_TO_REGEX = /^rename to (.+)$/;
+const NO_NEWLINE_MARKER = '\\';
 
 export function parseDiff(diffText: string): ParsedDiff {
   const lines = diffText.split('\n');
@@ -89,14 +109,37 @@ export function parseDiff(diffText: string): ParsedDiff {
     if (!currentFile) continue;
 
     // Check for new/deleted file mode
-    if (NEW_FILE_MODE_REGEX.test(line)) {
+    const newFileModeMatch = line.match(NEW_FILE_MODE_REGEX);
+    if (newFileModeMatch) {
       isNewFile = true;
       currentFile.status = 'added';
+      currentFile.newMode = newFileModeMatch[1];
       continue;
     }
 
-    if (DELETED_FILE_MODE_REGEX.test(line)) {
+    const deletedFileModeMatch = line.match(DELETED_FILE_MODE_REGEX);
+    if (deletedFileModeMatch) {
       currentFile.status = 'deleted';
+      currentFile.oldMode = deletedFileModeMatch[1];
+      continue;
+    }
+
+    // Mode change
+    const oldModeMatch = line.match(OLD_MODE_REGEX);
+    if (oldModeMatch) {
+      currentFile.oldMode = oldModeMatch[1];
+      continue;
+    }
+
+    const newModeMatch = line.match(NEW_MODE_REGEX);
+    if (newModeMatch) {
+      currentFile.newMode = newModeMatch[1];
+      continue;
+    }
+
+    const similarityMatch = line.match(SIMILARITY_REGEX);
+    if (similarityMatch) {
+      currentFile.similarity = parseInt(similarityMatch[1], 10);
       continue;
     }
 
@@ -120,8 +163,11 @@ export function parseDiff(diffText: string): ParsedDiff {
       continue;
     }
 
+    // Inside a hunk, `--- x` and `+++ x` are a removed `-- x` or added `++ x`
+    const inHunk = currentHunk !== null && isHunkOpen(currentHunk, oldLineNumber, newLineNumber);
+
     // Old file path (--- a/file)
-    const oldFileMatch = line.match(OLD_FILE_REGEX);
+    const oldFileMatch = inHunk ? null : line.match(OLD_FILE_REGEX);
     if (oldFileMatch) {
       const path = oldFileMatch[1];
       if (path !== '/dev/null') {
@@ -131,7 +177,7 @@ export function parseDiff(diffText: string): ParsedDiff {
     }
 
     // New file path (+++ b/file)
-    const newFileMatch = line.match(NEW_FILE_REGEX);
+    const newFileMatch = inHunk ? null : line.match(NEW_FILE_REGEX);
     if (newFileMatch) {
       const path = newFileMatch[1];
       if (path === '/dev/null') {
@@ -175,7 +221,11 @@ export function parseDiff(diffText: string): ParsedDiff {
 
     // Diff content lines
     if (currentHunk) {
-      if (line.startsWith('+')) {
+      if (line.startsWith(NO_NEWLINE_MARKER)) {
+        // Applies to the line before it
+        const previous = currentHunk.lines[currentHunk.lines.length - 1];
+        if (previous && previous.type !== 'header') previous.noNewline = true;
+      } else if (line.startsWith('+')) {
         currentHunk.lines.push({
           type: 'addition',
           content: line.slice(1),
@@ -189,7 +239,9 @@ export function parseDiff(diffText: string): ParsedDiff {
           oldLineNumber: oldLineNumber++,
         });
         currentFile.deletions++;
-      } else if (line.startsWith(' ') || line === '') {
+      } else if (line.startsWith(' ') || (line === '' && inHunk)) {
+        // An empty line is an empty context line, unless the hunk is already
+        // complete (the newline ending the diff)
         currentHunk.lines.push({
           type: 'context',
           content: line.slice(1),
@@ -218,3 +270,24 @@ export function parseDiff(diffText: string): ParsedDiff {
     totalDeletions,
   };
 }
+
+/**
+ * Parse the diff of a single file. Text that starts at the first hunk, with
+ * no file headers, is accepted as well; its paths are then a placeholder.
+ */
+export function parseFileDiff(diffText: string): DiffFile | null {
+  const text = diffText.startsWith('diff --git ')
+    ? diffText
+    : `diff --git a/file b/file\n${diffText}`;
+  return parseDiff(text).files[0] ?? null;
+}
+
+/**
+ * Whether a hunk still expects lines. The running line numbers count the lines
+ * read so far, so this needs no pass over the hunk.
+ */
+function isHunkOpen(hunk: DiffHunk, oldLineNumber: number, newLineNumber: number): boolean {
+  return (
+    oldLineNumber - hunk.oldStart < hunk.oldLines || newLineNumber - hunk.newStart < hunk.newLines
+  );
+}
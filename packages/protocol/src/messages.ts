@@ -5,10 +5,15 @@
 
 export type MessageType =
   | 'terminal_output'
+  | 'terminal_history_request'
+  | 'terminal_history'
+  | 'terminal_search_request'
+  | 'terminal_search_result'
   | 'permission_request'
   | 'permission_response'
   | 'diff_patch'
   | 'patch_decision'
+  | 'patch_edit_result'
   | 'user_prompt'
   | 'session_state'
   | 'heartbeat'
@@ -21,7 +26,20 @@ export type MessageType =
   | 'github_token_share'
   | 'github_token_revoke'
   | 'pr_create_request'
-  | 'pr_create_result';
+  | 'pr_create_result'
+  | 'agent_list'
+  | 'agent_config_result'
+  | 'permission_rules_request'
+  | 'permission_rules'
+  | 'permission_rule_revoke'
+  | 'patch_list_request'
+  | 'patch_list'
+  | 'undo_range_request'
+  | 'partial_undo_request'
+  | 'redo_request'
+  | 'patch_history_result'
+  | 'task_state'
+  | 'task_action';
 
 export interface BaseMessage {
   type: MessageType;
@@ -39,6 +57,64 @@ export interface TerminalOutputMessage extends BaseMessage {
   sequence: number;
 }
 
+/**
+ * Mobile -> Desktop: fetch stored terminal output with sequences in
+ * [from, before). Without `from` this pages back from `before`; with it, it
+ * fills a gap in the phone's copy of the output.
+ */
+export interface TerminalHistoryRequestMessage extends BaseMessage {
+  type: 'terminal_history_request';
+  before: number;
+  from?: number;
+}
+
+/**
+ * Desktop -> Mobile: answers terminal_history_request. The newest chunks of
+ * the range come first when it does not fit in one message, so `chunks` may
+ * start after `from`.
+ */
+export interface TerminalHistoryMessage extends BaseMessage {
+  type: 'terminal_history';
+  /** The requested range, echoed */
+  before: number;
+  from?: number;
+  /** Oldest first */
+  chunks: TerminalOutputMessage[];
+  /** Oldest sequence the desktop still stores; earlier output is gone */
+  oldestSequence: number;
+}
+
+/** Mobile -> Desktop: find lines of stored terminal output that match `query` */
+export interface TerminalSearchRequestMessage extends BaseMessage {
+  type: 'terminal_search_request';
+  requestId: string;
+  query: string;
+  /** Treat `query` as a regular expression rather than plain text */
+  regex?: boolean;
+  caseSensitive?: boolean;
+  /** Only search chunks before this sequence; the phone searches what it has loaded */
+  before?: number;
+}
+
+export interface TerminalSearchMatch {
+  /** Chunk the matching line starts in */
+  sequence: number;
+  /** The line without escape sequences, cut to a maximum length */
+  line: string;
+}
+
+/** Desktop -> Mobile: answers terminal_search_request */
+export interface TerminalSearchResultMessage extends BaseMessage {
+  type: 'terminal_search_result';
+  requestId: string;
+  /** Oldest first; only the newest matches when there are many */
+  matches: TerminalSearchMatch[];
+  /** Number of matching lines, including any left out of `matches` */
+  total: number;
+  /** Set when `query` is not a valid regular expression */
+  error?: string;
+}
+
 // ============================================================================
 // Permission Requests/Responses
 // ============================================================================
@@ -68,10 +144,52 @@ export interface PermissionRequestMessage extends BaseMessage {
 
 export type PermissionDecision = 'approve' | 'deny' | 'approve_always' | 'deny_always';
 
+/**
+ * Narrows what an approve_always/deny_always decision covers. Omitted fields are
+ * derived from the request (exact path, command name plus subcommand, URL origin).
+ */
+export interface PermissionRuleScope {
+  pathGlob?: string;
+  commandPrefix?: string;
+  urlPrefix?: string;
+}
+
 export interface PermissionResponseMessage extends BaseMessage {
   type: 'permission_response';
   requestId: string;
   decision: PermissionDecision;
+  scope?: PermissionRuleScope;
+}
+
+// ============================================================================
+// Permission Rules (remembered "always" decisions)
+// ============================================================================
+
+export interface PermissionRule extends PermissionRuleScope {
+  ruleId: string;
+  decision: 'approve' | 'deny';
+  action: PermissionAction;
+  description: string;
+  createdAt: number;
+  lastMatchedAt?: number;
+  matchCount: number;
+}
+
+/** Mobile -> Desktop */
+export interface PermissionRulesRequestMessage extends BaseMessage {
+  type: 'permission_rules_request';
+}
+
+/** Desktop -> Mobile, on pairing and whenever the rules change */
+export interface PermissionRulesMessage extends BaseMessage {
+  type: 'permission_rules';
+  rules: PermissionRule[];
+}
+
+/** Mobile -> Desktop */
+export interface PermissionRuleRevokeMessage extends BaseMessage {
+  type: 'permission_rule_revoke';
+  ruleId: string;
 }
 
 // ============================================================================
@@ -82,11 +200,14 @@ export type FileStatus = 'added' | 'modified' | 'deleted' | 'renamed';
 
 export interface FileDiff {
   path: string;
+  /** The file's part of the patch as a git diff, headers included */
   diff: string;
   status: FileStatus;
   oldPath?: string;
   additions: number;
   deletions: number;
+  /** Binary file: `diff` has no hunks, only the fact that it changed */
+  binary?: boolean;
 }
 
 export type RiskLevel = 'low' | 'medium' | 'high';
@@ -103,11 +224,43 @@ export interface DiffPatchMessage extends BaseMessage {
 
 export type PatchDecision = 'apply' | 'reject' | 'edit';
 
+/**
+ * One hunk of a FileDiff, by its position in `diff`. `lines` picks individual
+ * added and removed lines by their index among the hunk's lines (after the `@@`
+ * header); without it the whole hunk is accepted.
+ */
+export interface HunkSelection {
+  index: number;
+  lines?: number[];
+}
+
+/**
+ * The accepted part of one file's changes. Without `hunks` the whole file is accepted.
+ */
+export interface FileSelection {
+  path: string;
+  hunks?: HunkSelection[];
+}
+
 export interface PatchDecisionMessage extends BaseMessage {
   type: 'patch_decision';
   patchId: string;
   decision: PatchDecision;
+  /** With 'edit': the patch as changed on the phone, a git diff against the same before-state */
   editedDiff?: string;
+  /** With 'apply': accept only these parts; files not listed are left unchanged */
+  selection?: FileSelection[];
+}
+
+/**
+ * Outcome of an 'edit' decision. On failure the original patch stays pending
+ * and is sent again, so the edit can be fixed or the patch decided as is.
+ */
+export interface PatchEditResultMessage extends BaseMessage {
+  type: 'patch_edit_result';
+  patchId: string;
+  success: boolean;
+  error?: string;
 }
 
 // ============================================================================
@@ -118,7 +271,9 @@ export interface UserPromptMessage extends BaseMessage {
   type: 'user_prompt';
   prompt: string;
   context?: {
+    /** File the prompt is about, such as the one review comments were left on */
     selectedFile?: string;
+    /** First and last line in selectedFile the prompt refers to */
     selectedLines?: [number, number];
   };
 }
@@ -127,8 +282,12 @@ export interface UserPromptMessage extends BaseMessage {
 // Session State
 // ============================================================================
 
-export type AgentType = 'claude' | 'codex' | 'gemini' | null;
-export type AgentId = 'claude' | 'codex' | 'gemini';
+/**
+ * Agent identifier. Built-in agents are 'claude', 'codex' and 'gemini'; the desktop
+ * may advertise additional agents registered through its adapter config.
+ */
+export type AgentId = string;
+export type AgentType = AgentId | null;
 
 // ============================================================================
 // Agent Configuration
@@ -150,6 +309,33 @@ export interface AgentConfig {
   toolPermissions: ToolPermissions;
 }
 
+// ============================================================================
+// Agent Discovery (Desktop -> Mobile)
+// ============================================================================
+
+export type AgentCapability =
+  /** Driven over a structured protocol rather than terminal scraping */
+  | 'stream_json'
+  /** Tool permission prompts are forwarded for approval */
+  | 'permission_prompts'
+  /** File changes are surfaced as diffs for review */
+  | 'diff_review';
+
+export interface AgentInfo {
+  id: AgentId;
+  name: string;
+  description?: string;
+  /** False when the agent's CLI could not be found on the desktop */
+  available: boolean;
+  capabilities: AgentCapability[];
+}
+
+export interface AgentListMessage extends BaseMessage {
+  type: 'agent_list';
+  agents: AgentInfo[];
+  activeAgentId: AgentId;
+}
+
 // ============================================================================
 // Agent Control (Mobile -> Desktop)
 // ============================================================================
@@ -175,15 +361,45 @@ export interface AgentStatusUpdateMessage extends BaseMessage {
   lastPrompt?: string;
 }
 
+// ============================================================================
+// Agent Configuration Result (Desktop -> Mobile)
+// ============================================================================
+
+export type AgentConfigSetting = 'model' | 'temperature' | 'toolPermissions';
+
+export interface RejectedAgentSetting {
+  setting: AgentConfigSetting;
+  reason: string;
+}
+
+/**
+ * Acknowledges an agent_control 'configure' command.
+ */
+export interface AgentConfigResultMessage extends BaseMessage {
+  type: 'agent_config_result';
+  agentId: AgentId;
+  applied: AgentConfigSetting[];
+  rejected: RejectedAgentSetting[];
+  /** The agent was restarted to pick up the change */
+  restarted: boolean;
+  /** The restarted agent resumed the previous conversation */
+  continued: boolean;
+  /** Effective configuration after the update */
+  config: AgentConfig;
+}
+
 // ============================================================================
 // Patch Tracking for Undo
 // ============================================================================
 
 export interface PatchedFile {
   path: string;
+  /** Previous path when the patch renamed the file */
+  oldPath?: string;
+  /** SHA-256 of the file's bytes before the patch ('' if it did not exist) */
   beforeHash: string;
+  /** SHA-256 of the file's bytes after the patch ('' if it was deleted) */
   afterHash: string;
-  reverseDiff: string;
 }
 
 export interface AppliedPatch {
@@ -197,6 +413,19 @@ export interface AppliedPatch {
 export interface UndoRequestMessage extends BaseMessage {
   type: 'undo_request';
   patchId: string;
+  /** Only report what undo would do and any conflicts; change nothing */
+  dryRun?: boolean;
+}
+
+/**
+ * A file that no longer matches what the patch left behind:
+ * - modified: its content changed
+ * - missing: it was deleted
+ * - created: the patch deleted it and it has been recreated
+ */
+export interface UndoConflict {
+  path: string;
+  reason: 'modified' | 'missing' | 'created';
 }
 
 export interface UndoResultMessage extends BaseMessage {
@@ -204,7 +433,10 @@ export interface UndoResultMessage extends BaseMessage {
   patchId: string;
   success: boolean;
   error?: string;
+  /** Files restored, or for a dry run, the files that would be */
   revertedFiles: string[];
+  dryRun?: boolean;
+  conflicts?: UndoConflict[];
 }
 
 export interface PatchAppliedMessage extends BaseMessage {
@@ -212,11 +444,86 @@ export interface PatchAppliedMessage extends BaseMessage {
   patch: AppliedPatch;
 }
 
+/** Mobile -> Desktop: ask for the desktop's undoable patch history */
+export interface PatchListRequestMessage extends BaseMessage {
+  type: 'patch_list_request';
+}
+
+/**
+ * Desktop -> Mobile: authoritative undo history, newest first. Replaces the phone's list.
+ */
+export interface PatchListMessage extends BaseMessage {
+  type: 'patch_list';
+  patches: AppliedPatch[];
+  /** Undone patches that can be reapplied, most recently undone first */
+  redoable?: AppliedPatch[];
+}
+
+/** Mobile -> Desktop: revert every patch from the newest back to and including `toPatchId` */
+export interface UndoRangeRequestMessage extends BaseMessage {
+  type: 'undo_range_request';
+  requestId: string;
+  toPatchId: string;
+  dryRun?: boolean;
+}
+
+/** Mobile -> Desktop: revert only some files of a patch; the rest stay undoable */
+export interface PartialUndoRequestMessage extends BaseMessage {
+  type: 'partial_undo_request';
+  requestId: string;
+  patchId: string;
+  files: string[];
+  dryRun?: boolean;
+}
+
+/** Mobile -> Desktop: reapply the most recently undone patch */
+export interface RedoRequestMessage extends BaseMessage {
+  type: 'redo_request';
+  requestId: string;
+  dryRun?: boolean;
+}
+
+export type PatchFileOutcome = 'reverted' | 'reapplied' | 'conflict' | 'skipped';
+
+export interface PatchFileResult {
+  path: string;
+  outcome: PatchFileOutcome;
+  /** Set when outcome is 'conflict' */
+  reason?: UndoConflict['reason'];
+}
+
+export interface PatchOutcome {
+  patchId: string;
+  /**
+   * - reverted / reapplied: every requested file
+   * - partial: some files reverted, the rest stay in history
+   * - conflict: nothing done, see the files marked 'conflict'
+   * - skipped: not attempted because an earlier patch in the range conflicted
+   */
+  status: 'reverted' | 'reapplied' | 'partial' | 'conflict' | 'skipped';
+  files: PatchFileResult[];
+}
+
+/** Desktop -> Mobile: answers undo_range_request, partial_undo_request and redo_request */
+export interface PatchHistoryResultMessage extends BaseMessage {
+  type: 'patch_history_result';
+  requestId: string;
+  operation: 'undo_range' | 'partial_undo' | 'redo';
+  success: boolean;
+  dryRun?: boolean;
+  error?: string;
+  /** In the order they were processed (newest first for undo) */
+  patches: PatchOutcome[];
+}
+
 export interface SessionStateMessage extends BaseMessage {
   type: 'session_state';
   pendingPermissions: PermissionRequestMessage[];
   pendingPatches: DiffPatchMessage[];
+  /** Newest terminal output, oldest first */
   terminalHistory: TerminalOutputMessage[];
+  /** Oldest sequence that can be fetched with terminal_history_request */
+  terminalOldestSequence?: number;
   currentAgent: AgentType;
   workingDirectory: string;
   gitBranch?: string;
@@ -290,16 +597,62 @@ export interface PRCreateResultMessage extends BaseMessage {
   errorCode?: PRCreateErrorCode;
 }
 
+// ============================================================================
+// Worktree Tasks
+// ============================================================================
+
+/**
+ * Agent work isolated in its own git worktree on a generated branch. The
+ * changes are reviewed as one diff against the base commit and merged back
+ * into the main checkout on approval.
+ */
+export interface WorktreeTask {
+  taskId: string;
+  branch: string;
+  /** Commit the worktree was created from; task diffs are computed against it */
+  baseCommit: string;
+  createdAt: number;
+  /** First prompt sent while the task was active */
+  prompt?: string;
+}
+
+/**
+ * Sent when a task starts or ends, and on reconnect. `task` is null when no
+ * task is active (or the session edits the checkout in place).
+ */
+export interface TaskStateMessage extends BaseMessage {
+  type: 'task_state';
+  task: WorktreeTask | null;
+  mergeStrategy: 'merge' | 'cherry-pick';
+}
+
+export type TaskAction = 'review' | 'discard';
+
+/**
+ * 'review' sends the task's changes as a diff_patch; applying that patch
+ * merges the task branch. 'discard' removes the worktree and its branch.
+ */
+export interface TaskActionMessage extends BaseMessage {
+  type: 'task_action';
+  taskId: string;
+  action: TaskAction;
+}
+
 // ============================================================================
 // Union Type
 // ============================================================================
 
 export type Message =
   | TerminalOutputMessage
+  | TerminalHistoryRequestMessage
+  | TerminalHistoryMessage
+  | TerminalSearchRequestMessage
+  | TerminalSearchResultMessage
   | PermissionRequestMessage
   | PermissionResponseMessage
   | DiffPatchMessage
   | PatchDecisionMessage
+  | PatchEditResultMessage
   | UserPromptMessage
   | SessionStateMessage
   | HeartbeatMessage
@@ -309,7 +662,20 @@ export type Message =
   | UndoRequestMessage
   | UndoResultMessage
   | PatchAppliedMessage
+  | PatchListRequestMessage
+  | PatchListMessage
+  | UndoRangeRequestMessage
+  | PartialUndoRequestMessage
+  | RedoRequestMessage
+  | PatchHistoryResultMessage
+  | TaskStateMessage
+  | TaskActionMessage
   | GitHubTokenShareMessage
   | GitHubTokenRevokeMessage
   | PRCreateRequestMessage
-  | PRCreateResultMessage;
+  | PRCreateResultMessage
+  | AgentListMessage
+  | AgentConfigResultMessage
+  | PermissionRulesRequestMessage
+  | PermissionRulesMessage
+  | PermissionRuleRevokeMessage;
@@ -27,8 +27,11 @@ export interface RelayLeaveSession {
 export interface RelayGetQueueStatus {
   action: 'queue_status';
   sessionId: string;
+  /** Queue to report on; defaults to messages waiting for the requesting client */
+  recipient?: 'desktop' | 'mobile';
 }
 
+/** Acknowledge replayed messages up to and including lastMessageId */
 export interface RelayAckMessages {
   action: 'ack';
   sessionId: string;
@@ -70,8 +73,12 @@ export interface RelayPeerDisconnected {
 
 export interface RelayQueueStatus {
   action: 'queue_status';
+  /** Client the queued messages are waiting for */
+  recipient: 'desktop' | 'mobile';
   queuedMessages: number;
   oldestTimestamp?: number;
+  /** Newest queued message; ack this ID once it has been processed */
+  lastMessageId?: string;
 }
 
 export interface RelayError {
@@ -6,10 +6,15 @@ import { z } from 'zod';
 
 export const MessageTypeSchema = z.enum([
   'terminal_output',
+  'terminal_history_request',
+  'terminal_history',
+  'terminal_search_request',
+  'terminal_search_result',
   'permission_request',
   'permission_response',
   'diff_patch',
   'patch_decision',
+  'patch_edit_result',
   'user_prompt',
   'session_state',
   'heartbeat',
@@ -19,6 +24,19 @@ export const MessageTypeSchema = z.enum([
   'undo_request',
   'undo_result',
   'patch_applied',
+  'agent_list',
+  'agent_config_result',
+  'permission_rules_request',
+  'permission_rules',
+  'permission_rule_revoke',
+  'patch_list_request',
+  'patch_list',
+  'undo_range_request',
+  'partial_undo_request',
+  'redo_request',
+  'patch_history_result',
+  'task_state',
+  'task_action',
 ]);
 
 export const PermissionActionSchema = z.enum([
@@ -60,6 +78,42 @@ export const TerminalOutputMessageSchema = BaseMessageSchema.extend({
   sequence: z.number().int().nonnegative(),
 });
 
+export const TerminalHistoryRequestMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('terminal_history_request'),
+  before: z.number().int().nonnegative(),
+  from: z.number().int().nonnegative().optional(),
+});
+
+export const TerminalHistoryMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('terminal_history'),
+  before: z.number().int().nonnegative(),
+  from: z.number().int().nonnegative().optional(),
+  chunks: z.array(TerminalOutputMessageSchema),
+  oldestSequence: z.number().int().nonnegative(),
+});
+
+export const TerminalSearchRequestMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('terminal_search_request'),
+  requestId: z.string(),
+  query: z.string(),
+  regex: z.boolean().optional(),
+  caseSensitive: z.boolean().optional(),
+  before: z.number().int().nonnegative().optional(),
+});
+
+export const TerminalSearchMatchSchema = z.object({
+  sequence: z.number().int().nonnegative(),
+  line: z.string(),
+});
+
+export const TerminalSearchResultMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('terminal_search_result'),
+  requestId: z.string(),
+  matches: z.array(TerminalSearchMatchSchema),
+  total: z.number().int().nonnegative(),
+  error: z.string().optional(),
+});
+
 // Permission request
 export const PermissionRequestMessageSchema = BaseMessageSchema.extend({
   type: z.literal('permission_request'),
@@ -76,10 +130,42 @@ export const PermissionRequestMessageSchema = BaseMessageSchema.extend({
 });
 
 // Permission response
+export const PermissionRuleScopeSchema = z.object({
+  pathGlob: z.string().min(1).optional(),
+  commandPrefix: z.string().min(1).optional(),
+  urlPrefix: z.string().min(1).optional(),
+});
+
 export const PermissionResponseMessageSchema = BaseMessageSchema.extend({
   type: z.literal('permission_response'),
   requestId: z.string(),
   decision: PermissionDecisionSchema,
+  scope: PermissionRuleScopeSchema.optional(),
+});
+
+// Permission rules
+export const PermissionRuleSchema = PermissionRuleScopeSchema.extend({
+  ruleId: z.string(),
+  decision: z.enum(['approve', 'deny']),
+  action: PermissionActionSchema,
+  description: z.string(),
+  createdAt: z.number(),
+  lastMatchedAt: z.number().optional(),
+  matchCount: z.number().int().nonnegative(),
+});
+
+export const PermissionRulesRequestMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('permission_rules_request'),
+});
+
+export const PermissionRulesMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('permission_rules'),
+  rules: z.array(PermissionRuleSchema),
+});
+
+export const PermissionRuleRevokeMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('permission_rule_revoke'),
+  ruleId: z.string(),
 });
 
 // File diff
@@ -90,6 +176,7 @@ export const FileDiffSchema = z.object({
   oldPath: z.string().optional(),
   additions: z.number().int().nonnegative(),
   deletions: z.number().int().nonnegative(),
+  binary: z.boolean().optional(),
 });
 
 // Diff patch
@@ -104,11 +191,29 @@ export const DiffPatchMessageSchema = BaseMessageSchema.extend({
 });
 
 // Patch decision
+export const HunkSelectionSchema = z.object({
+  index: z.number().int().nonnegative(),
+  lines: z.array(z.number().int().nonnegative()).optional(),
+});
+
+export const FileSelectionSchema = z.object({
+  path: z.string(),
+  hunks: z.array(HunkSelectionSchema).optional(),
+});
+
 export const PatchDecisionMessageSchema = BaseMessageSchema.extend({
   type: z.literal('patch_decision'),
   patchId: z.string(),
   decision: PatchDecisionSchema,
   editedDiff: z.string().optional(),
+  selection: z.array(FileSelectionSchema).optional(),
+});
+
+export const PatchEditResultMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('patch_edit_result'),
+  patchId: z.string(),
+  success: z.boolean(),
+  error: z.string().optional(),
 });
 
 // User prompt
@@ -142,7 +247,17 @@ export const ErrorMessageSchema = BaseMessageSchema.extend({
 // Agent Control & Status
 // ============================================================================
 
-export const AgentIdSchema = z.enum(['claude', 'codex', 'gemini']);
+export const AgentIdSchema = z.string().min(1);
+
+export const AgentCapabilitySchema = z.enum(['stream_json', 'permission_prompts', 'diff_review']);
+
+export const AgentInfoSchema = z.object({
+  id: AgentIdSchema,
+  name: z.string(),
+  description: z.string().optional(),
+  available: z.boolean(),
+  capabilities: z.array(AgentCapabilitySchema),
+});
 
 export const AgentControlCommandSchema = z.enum(['start', 'stop', 'retry', 'configure']);
 
@@ -177,15 +292,38 @@ export const AgentStatusUpdateMessageSchema = BaseMessageSchema.extend({
   lastPrompt: z.string().optional(),
 });
 
+export const AgentListMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('agent_list'),
+  agents: z.array(AgentInfoSchema),
+  activeAgentId: AgentIdSchema,
+});
+
+export const AgentConfigSettingSchema = z.enum(['model', 'temperature', 'toolPermissions']);
+
+export const AgentConfigResultMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('agent_config_result'),
+  agentId: AgentIdSchema,
+  applied: z.array(AgentConfigSettingSchema),
+  rejected: z.array(
+    z.object({
+      setting: AgentConfigSettingSchema,
+      reason: z.string(),
+    })
+  ),
+  restarted: z.boolean(),
+  continued: z.boolean(),
+  config: AgentConfigSchema,
+});
+
 // ============================================================================
 // Patch Tracking for Undo
 // ============================================================================
 
 export const PatchedFileSchema = z.object({
   path: z.string(),
+  oldPath: z.string().optional(),
   beforeHash: z.string(),
   afterHash: z.string(),
-  reverseDiff: z.string(),
 });
 
 export const AppliedPatchSchema = z.object({
@@ -199,6 +337,12 @@ export const AppliedPatchSchema = z.object({
 export const UndoRequestMessageSchema = BaseMessageSchema.extend({
   type: z.literal('undo_request'),
   patchId: z.string(),
+  dryRun: z.boolean().optional(),
+});
+
+export const UndoConflictSchema = z.object({
+  path: z.string(),
+  reason: z.enum(['modified', 'missing', 'created']),
 });
 
 export const UndoResultMessageSchema = BaseMessageSchema.extend({
@@ -207,6 +351,8 @@ export const UndoResultMessageSchema = BaseMessageSchema.extend({
   success: z.boolean(),
   error: z.string().optional(),
   revertedFiles: z.array(z.string()),
+  dryRun: z.boolean().optional(),
+  conflicts: z.array(UndoConflictSchema).optional(),
 });
 
 export const PatchAppliedMessageSchema = BaseMessageSchema.extend({
@@ -214,21 +360,116 @@ export const PatchAppliedMessageSchema = BaseMessageSchema.extend({
   patch: AppliedPatchSchema,
 });
 
+export const PatchListRequestMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('patch_list_request'),
+});
+
+export const PatchListMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('patch_list'),
+  patches: z.array(AppliedPatchSchema),
+  redoable: z.array(AppliedPatchSchema).optional(),
+});
+
+export const UndoRangeRequestMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('undo_range_request'),
+  requestId: z.string(),
+  toPatchId: z.string(),
+  dryRun: z.boolean().optional(),
+});
+
+export const PartialUndoRequestMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('partial_undo_request'),
+  requestId: z.string(),
+  patchId: z.string(),
+  files: z.array(z.string()),
+  dryRun: z.boolean().optional(),
+});
+
+export const RedoRequestMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('redo_request'),
+  requestId: z.string(),
+  dryRun: z.boolean().optional(),
+});
+
+export const PatchFileResultSchema = z.object({
+  path: z.string(),
+  outcome: z.enum(['reverted', 'reapplied', 'conflict', 'skipped']),
+  reason: UndoConflictSchema.shape.reason.optional(),
+});
+
+export const PatchOutcomeSchema = z.object({
+  patchId: z.string(),
+  status: z.enum(['reverted', 'reapplied', 'partial', 'conflict', 'skipped']),
+  files: z.array(PatchFileResultSchema),
+});
+
+export const PatchHistoryResultMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('patch_history_result'),
+  requestId: z.string(),
+  operation: z.enum(['undo_range', 'partial_undo', 'redo']),
+  success: z.boolean(),
+  dryRun: z.boolean().optional(),
+  error: z.string().optional(),
+  patches: z.array(PatchOutcomeSchema),
+});
+
+// ============================================================================
+// Worktree Tasks
+// ============================================================================
+
+export const WorktreeTaskSchema = z.object({
+  taskId: z.string(),
+  branch: z.string(),
+  baseCommit: z.string(),
+  createdAt: z.number(),
+  prompt: z.string().optional(),
+});
+
+export const TaskStateMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('task_state'),
+  task: WorktreeTaskSchema.nullable(),
+  mergeStrategy: z.enum(['merge', 'cherry-pick']),
+});
+
+export const TaskActionMessageSchema = BaseMessageSchema.extend({
+  type: z.literal('task_action'),
+  taskId: z.string(),
+  action: z.enum(['review', 'discard']),
+});
+
 // Union
 export const MessageSchema = z.discriminatedUnion('type', [
   TerminalOutputMessageSchema,
+  TerminalHistoryRequestMessageSchema,
+  TerminalHistoryMessageSchema,
+  TerminalSearchRequestMessageSchema,
+  TerminalSearchResultMessageSchema,
   PermissionRequestMessageSchema,
   PermissionResponseMessageSchema,
+  PermissionRulesRequestMessageSchema,
+  PermissionRulesMessageSchema,
+  PermissionRuleRevokeMessageSchema,
   DiffPatchMessageSchema,
   PatchDecisionMessageSchema,
+  PatchEditResultMessageSchema,
   UserPromptMessageSchema,
   HeartbeatMessageSchema,
   ErrorMessageSchema,
   AgentControlMessageSchema,
   AgentStatusUpdateMessageSchema,
+  AgentListMessageSchema,
+  AgentConfigResultMessageSchema,
   UndoRequestMessageSchema,
   UndoResultMessageSchema,
   PatchAppliedMessageSchema,
+  PatchListRequestMessageSchema,
+  PatchListMessageSchema,
+  UndoRangeRequestMessageSchema,
+  PartialUndoRequestMessageSchema,
+  RedoRequestMessageSchema,
+  PatchHistoryResultMessageSchema,
+  TaskStateMessageSchema,
+  TaskActionMessageSchema,
 ]);
 
 // Envelope